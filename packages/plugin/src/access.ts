@@ -0,0 +1,196 @@
+import {
+  type Action,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  Role,
+  type State,
+} from '@elizaos/core';
+
+/**
+ * Permission tiers of the plugin's actions, matching how the plugin groups them
+ */
+export type SwigActionTier = 'read' | 'manage' | 'transfer' | 'authority';
+
+export const SWIG_ACTION_TIERS: SwigActionTier[] = ['read', 'manage', 'transfer', 'authority'];
+
+/**
+ * Roles each tier needs unless SWIG_ACTION_ROLES says otherwise
+ */
+const DEFAULT_TIER_ROLES: Record<SwigActionTier, Role> = {
+  read: Role.NONE,
+  manage: Role.ADMIN,
+  transfer: Role.ADMIN,
+  authority: Role.OWNER,
+};
+
+const TIER_DESCRIPTIONS: Record<SwigActionTier, string> = {
+  read: 'use the Swig wallet',
+  manage: 'change the Swig wallet setup',
+  transfer: 'move funds with the Swig wallet',
+  authority: 'manage the authorities of the Swig wallet',
+};
+
+const ROLE_RANK: Record<Role, number> = {
+  [Role.NONE]: 0,
+  [Role.ADMIN]: 1,
+  [Role.OWNER]: 2,
+};
+
+/**
+ * Get the ElizaOS role of a message's sender in its world (server). The
+ * world's owner is always OWNER; senders outside a world have no role.
+ */
+export async function getSenderRole(runtime: IAgentRuntime, message: Memory): Promise<Role> {
+  const worldId = message.worldId ?? (await runtime.getRoom(message.roomId))?.worldId;
+  const world = worldId ? await runtime.getWorld(worldId) : null;
+  if (!world) {
+    return Role.NONE;
+  }
+  if (world.metadata?.ownership?.ownerId === message.entityId) {
+    return Role.OWNER;
+  }
+  return world.metadata?.roles?.[message.entityId] || Role.NONE;
+}
+
+/**
+ * Check whether a role is at least the required one (OWNER > ADMIN > NONE)
+ */
+export function hasRequiredRole(role: Role, required: Role): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Get the role an action needs. SWIG_ACTION_ROLES is a JSON object whose keys
+ * are tiers or action names, e.g. {"transfer": "NONE", "GET_SWIG_HISTORY":
+ * "ADMIN"}; an action's own entry wins over its tier's. Throws when the
+ * setting is invalid, so gated actions fail closed.
+ */
+export function getRequiredRole(
+  runtime: IAgentRuntime,
+  tier: SwigActionTier,
+  actionName?: string
+): Role {
+  const setting = runtime.getSetting('SWIG_ACTION_ROLES') as unknown;
+  let roles: Record<string, unknown> = {};
+  if (setting) {
+    try {
+      roles =
+        typeof setting === 'string' ? JSON.parse(setting) : (setting as Record<string, unknown>);
+    } catch {
+      throw new Error(
+        'SWIG_ACTION_ROLES is not valid JSON. Swig actions are blocked until it is fixed.'
+      );
+    }
+    if (typeof roles !== 'object' || roles === null || Array.isArray(roles)) {
+      throw new Error(
+        'SWIG_ACTION_ROLES must be a JSON object of tiers or action names to roles. Swig actions are blocked until it is fixed.'
+      );
+    }
+  }
+
+  const key = actionName && roles[actionName] !== undefined ? actionName : tier;
+  if (roles[key] === undefined) {
+    return DEFAULT_TIER_ROLES[tier];
+  }
+  const role = String(roles[key]).toUpperCase() as Role;
+  if (ROLE_RANK[role] === undefined) {
+    throw new Error(
+      `SWIG_ACTION_ROLES has the invalid role "${roles[key]}" for ${key}. Use OWNER, ADMIN or NONE. Swig actions are blocked until it is fixed.`
+    );
+  }
+  return role;
+}
+
+/**
+ * Throw unless the sender of a message has at least the required role
+ */
+export async function requireSenderRole(
+  runtime: IAgentRuntime,
+  message: Memory,
+  required: Role,
+  task: string
+): Promise<void> {
+  const role = await getSenderRole(runtime, message);
+  if (!hasRequiredRole(role, required)) {
+    console.warn(`🚫 ${message.entityId} (role ${role}) tried to ${task}`);
+    throw new Error(
+      `Only ${required === Role.OWNER ? 'owners' : 'admins'} can ${task}. Your role is ${role}.`
+    );
+  }
+}
+
+/**
+ * Get the refusal for a sender whose role does not reach an action's tier, or
+ * null when the sender may run it. An invalid SWIG_ACTION_ROLES refuses
+ * everyone.
+ */
+async function getRoleRefusal(
+  runtime: IAgentRuntime,
+  message: Memory,
+  tier: SwigActionTier,
+  actionName: string
+): Promise<string | null> {
+  try {
+    const required = getRequiredRole(runtime, tier, actionName);
+    const role = await getSenderRole(runtime, message);
+    if (hasRequiredRole(role, required)) {
+      return null;
+    }
+    return `🚫 You are not allowed to ${TIER_DESCRIPTIONS[tier]}. ${actionName} needs the ${required} role${
+      required === Role.OWNER ? '' : ' or higher'
+    }, and your role here is ${role}. Ask ${required === Role.OWNER ? 'an owner' : 'an owner or admin'} of this server for access.`;
+  } catch (error) {
+    return `❌ ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+}
+
+/**
+ * Wrap an action so it only validates and runs for senders whose role reaches
+ * the action's tier. The handler is checked too, since an action can still be
+ * selected by name; everyone else gets a refusal naming the role that is
+ * needed.
+ */
+export function withRoleGate(action: Action, tier: SwigActionTier): Action {
+  return {
+    ...action,
+    validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+      if (await getRoleRefusal(runtime, message, tier, action.name)) {
+        console.log(`🔍 ${action.name} validation: sender lacks the required role -> false`);
+        return false;
+      }
+      return action.validate(runtime, message, state);
+    },
+    handler: async (
+      runtime: IAgentRuntime,
+      message: Memory,
+      state?: State,
+      options?: any,
+      callback?: HandlerCallback,
+      responses?: Memory[]
+    ) => {
+      const refusal = await getRoleRefusal(runtime, message, tier, action.name);
+      if (!refusal) {
+        return action.handler(runtime, message, state, options, callback, responses);
+      }
+
+      console.warn(`🚫 ${action.name} refused for ${message.entityId}:`, refusal);
+      const errorContent = {
+        text: refusal,
+        thought: `The sender does not have the role that ${action.name} needs, so it did not run.`,
+        actions: [action.name, 'REPLY'],
+        source: message.content.source,
+      };
+
+      if (responses && responses.length > 0) {
+        responses[0].content = errorContent;
+      }
+
+      if (callback) {
+        await callback(errorContent);
+      }
+
+      return true;
+    },
+  };
+}
@@ -6,22 +6,32 @@ import {
   type Memory,
   type State,
 } from '@elizaos/core';
-import { PublicKey, Transaction } from '@solana/web3.js';
+import { getAddAuthorityInstructions } from '@swig-wallet/classic';
+import { parseAuthorityInput } from '../authorities.js';
 import {
-  Actions,
-  addAuthorityInstruction,
-  createEd25519AuthorityInfo,
-  fetchSwig,
-  findSwigPda,
-} from '@swig-wallet/classic';
-import { getSolanaConnection, getSolanaWallet } from '../utils.js';
+  buildSwigActions,
+  describePermissions,
+  getPermissionAddresses,
+  hasRequestedPermissions,
+  parsePermissionRequest,
+} from '../permissions.js';
+import { describeSwig, resolveSwig } from '../registry.js';
+import { selectAgentRole } from '../roles.js';
+import { getSwigWalletService } from '../services/swigWallet.js';
+import {
+  formatSimulationReport,
+  isDryRun,
+  sendSwigTransaction,
+  simulateSwigTransaction,
+} from '../transactions.js';
 
 export const addSwigAuthorityAction: Action = {
   name: 'ADD_SWIG_AUTHORITY',
   similes: ['ADD_AUTHORITY_TO_SWIG', 'ADD_SWIG_SIGNER', 'GRANT_SWIG_ACCESS'],
-  description: 'Add an Ed25519 authority to an existing Swig wallet',
+  description:
+    'Add an Ed25519 or Secp256k1 (EVM) authority to an existing Swig wallet with scoped permissions (SOL limit, token limits, program access, authority management)',
 
-  validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+  validate: async (runtime: IAgentRuntime, message: Memory, _state?: State) => {
     const text = message.content.text?.toLowerCase() || '';
     const keywords = ['add authority', 'add signer', 'grant access', 'add to swig'];
 
@@ -45,6 +55,9 @@ export const addSwigAuthorityAction: Action = {
     console.log('🔧 Message content:', message.content.text);
     console.log('🔧 Responses array length:', responses?.length || 0);
 
+    // A dry run only simulates, so it is allowed even when authority management is disabled
+    const dryRun = isDryRun(runtime, message.content.text || '');
+
     // Check if authority management is enabled
     const authorityManagementEnabledSetting = runtime.getSetting(
       'SWIG_AUTHORITY_MANAGEMENT_ENABLED'
@@ -54,7 +67,7 @@ export const addSwigAuthorityAction: Action = {
         ? true
         : String(authorityManagementEnabledSetting) === 'true';
 
-    if (!authorityManagementEnabled) {
+    if (!authorityManagementEnabled && !dryRun) {
       console.log('🔧 Authority management operation blocked - authority management is disabled');
       const errorContent = {
         text: `❌ Authority management operations are currently disabled. Set SWIG_AUTHORITY_MANAGEMENT_ENABLED=true to enable authority management.`,
@@ -76,7 +89,8 @@ export const addSwigAuthorityAction: Action = {
 
     try {
       console.log('🔧 Step 1: Getting Solana wallet...');
-      const wallet = await getSolanaWallet(runtime);
+      const service = getSwigWalletService(runtime);
+      const wallet = await service.getWallet();
       if (!wallet) {
         console.log('🔧 ERROR: No wallet configured');
         throw new Error(
@@ -86,30 +100,38 @@ export const addSwigAuthorityAction: Action = {
       console.log('🔧 Wallet public key:', wallet.publicKey.toBase58());
 
       console.log('🔧 Step 2: Getting Solana connection...');
-      const connection = getSolanaConnection(runtime);
+      const connection = service.getConnection();
       console.log('🔧 Connection RPC endpoint:', connection.rpcEndpoint);
 
-      console.log('🔧 Step 3: Finding Swig PDA...');
-      const [swigAddress] = findSwigPda(wallet.publicKey.toBytes());
-      console.log('🔧 Swig address:', swigAddress.toBase58());
+      console.log('🔧 Step 3: Resolving Swig wallet...');
+      const resolvedSwig = await resolveSwig(runtime, wallet.publicKey, message.content.text || '');
+      const swigAddress = resolvedSwig.address;
+      console.log('🔧 Swig wallet:', resolvedSwig.name, swigAddress.toBase58());
 
       // Extract the authority public key from the message
       console.log('🔧 Step 4: Parsing authority public key...');
       const text = message.content.text || '';
-      const publicKeyMatch = text.match(/([1-9A-HJ-NP-Za-km-z]{32,44})/);
+      const permissionRequest = parsePermissionRequest(text);
+      const permissionAddresses = getPermissionAddresses(permissionRequest);
+      const newAuthority = parseAuthorityInput(text, permissionAddresses);
 
-      if (!publicKeyMatch) {
+      if (!newAuthority) {
         throw new Error(
-          "Please provide a valid public key for the new authority (e.g., 'add authority 2dr69TRDpT6LNec6XSuLSAyyxcjGiivn7T7MgL1udtms')"
+          "Please provide a valid Solana public key or uncompressed secp256k1 public key for the new authority (e.g., 'add authority 2dr69TRDpT6LNec6XSuLSAyyxcjGiivn7T7MgL1udtms with a 1 SOL limit')"
         );
       }
+      console.log('🔧 New authority:', newAuthority.type, newAuthority.display);
 
-      const authorityPubkey = new PublicKey(publicKeyMatch[1]);
-      console.log('🔧 New authority pubkey:', authorityPubkey.toBase58());
+      if (!hasRequestedPermissions(permissionRequest)) {
+        throw new Error(
+          "Please specify the permissions to grant, e.g. 'with a 1 SOL limit', '100 tokens of mint <MINT>', 'program <PROGRAM_ID>', 'manage authority' or 'full access'"
+        );
+      }
+      console.log('🔧 Requested permissions:', permissionRequest);
 
       console.log('🔧 Step 5: Fetching existing Swig wallet...');
       // Fetch the existing Swig wallet
-      const swig = await fetchSwig(connection, swigAddress);
+      const swig = await service.getSwig(swigAddress, { refresh: true });
       const roles = swig.findRolesByEd25519SignerPk(wallet.publicKey);
       console.log('🔧 Found roles for current wallet:', roles.length);
 
@@ -119,41 +141,55 @@ export const addSwigAuthorityAction: Action = {
         );
       }
 
-      const agentRole = roles[0];
-      console.log('🔧 Using role:', agentRole);
+      const agentRole = selectAgentRole(
+        roles,
+        { manageAuthority: true },
+        await connection.getSlot()
+      );
+      console.log('🔧 Using role:', agentRole.id);
 
       console.log('🔧 Step 6: Creating add authority instruction...');
       // Create add authority instruction
-      const addAuthorityIx = await addAuthorityInstruction(
-        agentRole,
-        wallet.publicKey,
-        createEd25519AuthorityInfo(authorityPubkey),
-        Actions.set().all().get()
+      const actions = await buildSwigActions(connection, permissionRequest);
+      const addAuthorityIxs = await getAddAuthorityInstructions(
+        swig,
+        agentRole.id,
+        newAuthority.authorityInfo,
+        actions,
+        { payer: wallet.publicKey }
       );
       console.log('🔧 Add authority instruction created');
 
-      console.log('🔧 Step 7: Building and signing transaction...');
-      const transaction = new Transaction().add(addAuthorityIx);
-      transaction.feePayer = wallet.publicKey;
-      const latestBlockhash = await connection.getLatestBlockhash();
-      transaction.recentBlockhash = latestBlockhash.blockhash;
-      console.log('🔧 Latest blockhash:', latestBlockhash.blockhash);
+      if (dryRun) {
+        console.log('🔧 Step 7: Simulating transaction (dry run)...');
+        const report = await simulateSwigTransaction(runtime, wallet, connection, addAuthorityIxs);
+        console.log('🔧 Simulation complete, nothing was sent');
+
+        const dryRunContent = {
+          text: `🧪 Dry run: add authority to Swig wallet\n\nNew Authority: ${newAuthority.display}\nAuthority Type: ${newAuthority.type}\nSwig Address: ${describeSwig(resolvedSwig)}\nActing Role: ${agentRole.id}\n\nPermissions To Grant:\n${describePermissions(permissionRequest)}\n\n${formatSimulationReport(report)}`,
+          thought: `Simulated adding an authority to the Swig wallet without sending it.`,
+          actions: ['ADD_SWIG_AUTHORITY', 'REPLY'],
+          source: message.content.source,
+        };
 
-      console.log('🔧 Step 8: Signing transaction...');
-      const signedTransaction = await wallet.signTransaction(transaction);
-      console.log('🔧 Transaction signed');
+        if (responses && responses.length > 0) {
+          responses[0].content = dryRunContent;
+        }
 
-      console.log('🔧 Step 9: Sending transaction...');
-      const signature = await connection.sendRawTransaction(signedTransaction.serialize());
-      console.log('🔧 Transaction sent, signature:', signature);
+        if (callback) {
+          await callback(dryRunContent);
+        }
+
+        return true;
+      }
 
-      console.log('🔧 Step 10: Confirming transaction...');
-      await connection.confirmTransaction(signature, 'confirmed');
+      console.log('🔧 Step 7: Sending transaction...');
+      const { signature } = await sendSwigTransaction(runtime, wallet, connection, addAuthorityIxs);
       console.log('🔧 Transaction confirmed!');
 
       const responseContent = {
-        text: `✅ Successfully added authority to Swig wallet!\n\nNew Authority: ${authorityPubkey.toBase58()}\nSwig Address: ${swigAddress.toBase58()}\nTransaction: ${signature}`,
-        thought: 'Successfully added a new authority to the Swig wallet.',
+        text: `✅ Successfully added authority to Swig wallet!\n\nNew Authority: ${newAuthority.display}\nAuthority Type: ${newAuthority.type}\nSwig Address: ${describeSwig(resolvedSwig)}\nActing Role: ${agentRole.id}\n\nGranted Permissions:\n${describePermissions(permissionRequest)}\n\nTransaction: ${signature}`,
+        thought: 'Successfully added a new authority with scoped permissions to the Swig wallet.',
         actions: ['ADD_SWIG_AUTHORITY', 'REPLY'],
         source: message.content.source,
       };
@@ -216,13 +252,13 @@ export const addSwigAuthorityAction: Action = {
       {
         name: 'User',
         content: {
-          text: 'Add authority 2dr69TRDpT6LNec6XSuLSAyyxcjGiivn7T7MgL1udtms to my swig wallet',
+          text: 'Add authority 2dr69TRDpT6LNec6XSuLSAyyxcjGiivn7T7MgL1udtms to my swig wallet with a 1 SOL limit',
         },
       },
       {
         name: 'Agent',
         content: {
-          text: "I'll add that public key as a new authority to your Swig wallet.",
+          text: "I'll add that public key as a new authority that can spend up to 1 SOL.",
           action: 'ADD_SWIG_AUTHORITY',
         },
       },
@@ -231,13 +267,13 @@ export const addSwigAuthorityAction: Action = {
       {
         name: 'User',
         content: {
-          text: "Grant access to my team member's wallet 9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM",
+          text: "Grant access to my team member's wallet 9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM with 100 tokens of mint EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v and manage authority",
         },
       },
       {
         name: 'Agent',
         content: {
-          text: 'Adding your team member as an authority to the Swig wallet...',
+          text: 'Adding your team member with a 100 token limit and authority management...',
           action: 'ADD_SWIG_AUTHORITY',
         },
       },
@@ -0,0 +1,130 @@
+import {
+  type Action,
+  type ActionExample,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+} from '@elizaos/core';
+import {
+  CANCEL_OPERATION_REGEX,
+  deletePendingOperation,
+  getPendingOperation,
+} from '../confirmations.js';
+
+export const cancelSwigOperationAction: Action = {
+  name: 'CANCEL_SWIG_OPERATION',
+  similes: ['REJECT_SWIG_OPERATION', 'CANCEL_SWIG_TRANSFER', 'DISCARD_SWIG_OPERATION'],
+  description: 'Cancel a pending Swig transfer that is waiting for confirmation',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, _state?: State) => {
+    const text = message.content.text || '';
+    const isValid = CANCEL_OPERATION_REGEX.test(text);
+
+    console.log('🔍 CANCEL_SWIG_OPERATION validation:', `"${text}" -> ${isValid}`);
+    return isValid;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+    _options?: any,
+    callback?: HandlerCallback,
+    responses?: Memory[]
+  ): Promise<boolean> => {
+    console.log('🔧 CANCEL_SWIG_OPERATION action handler called!');
+    console.log('🔧 Callback function present:', !!callback);
+    console.log('🔧 Message content:', message.content.text);
+    console.log('🔧 Responses array length:', responses?.length || 0);
+
+    try {
+      console.log('🔧 Step 1: Parsing confirmation code...');
+      const codeMatch = (message.content.text || '').match(CANCEL_OPERATION_REGEX);
+      if (!codeMatch) {
+        throw new Error("Please include the code of the operation (e.g., 'cancel ABC123').");
+      }
+
+      console.log('🔧 Step 2: Cancelling pending operation...');
+      const operation = await getPendingOperation(runtime, codeMatch[1], message);
+      await deletePendingOperation(runtime, operation);
+      console.log('🔧 Cancelled operation:', operation.code, operation.action);
+
+      const responseContent = {
+        text: `🚫 Operation ${operation.code} cancelled. Nothing was sent.\n\n${operation.summary}`,
+        thought: `Cancelled the pending ${operation.action} operation ${operation.code}.`,
+        actions: ['CANCEL_SWIG_OPERATION', 'REPLY'],
+        source: message.content.source,
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with success content');
+        responses[0].content = responseContent;
+      }
+
+      // Send response using callback
+      console.log('🔧 Sending success response via callback');
+      console.log('🔧 Response content:', JSON.stringify(responseContent, null, 2));
+      if (callback) {
+        console.log('🔧 Calling callback...');
+        await callback(responseContent);
+        console.log('🔧 Callback completed successfully!');
+      } else {
+        console.log('⚠️ No callback provided to action handler');
+      }
+
+      return true;
+    } catch (error) {
+      console.error('🔧 Cancel swig operation error:', error);
+      console.error('🔧 Error stack:', error instanceof Error ? error.stack : 'No stack trace');
+
+      const errorContent = {
+        text: `❌ Failed to cancel operation: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+        thought:
+          'The cancellation failed. The code may be wrong, expired, or belong to another user.',
+        actions: ['CANCEL_SWIG_OPERATION', 'REPLY'],
+        source: message.content.source,
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with error content');
+        responses[0].content = errorContent;
+      }
+
+      // Send error response using callback
+      console.log('🔧 Sending error response via callback');
+      console.log('🔧 Error content:', JSON.stringify(errorContent, null, 2));
+      if (callback) {
+        console.log('🔧 Calling callback with error...');
+        await callback(errorContent);
+        console.log('🔧 Error callback completed');
+      } else {
+        console.log('⚠️ No callback provided for error response');
+      }
+
+      return true;
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: 'User',
+        content: {
+          text: 'cancel K7PX2M',
+        },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: "Okay, I've discarded that transfer.",
+          action: 'CANCEL_SWIG_OPERATION',
+        },
+      },
+    ],
+  ] as ActionExample[][],
+};
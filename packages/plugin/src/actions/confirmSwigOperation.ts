@@ -0,0 +1,130 @@
+import {
+  type Action,
+  type ActionExample,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+} from '@elizaos/core';
+import {
+  CONFIRM_OPERATION_REGEX,
+  deletePendingOperation,
+  getPendingOperation,
+} from '../confirmations.js';
+
+export const confirmSwigOperationAction: Action = {
+  name: 'CONFIRM_SWIG_OPERATION',
+  similes: ['APPROVE_SWIG_OPERATION', 'CONFIRM_SWIG_TRANSFER', 'APPROVE_SWIG_TRANSFER'],
+  description:
+    'Confirm a pending Swig transfer that needed human approval, using the code from the confirmation request',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, _state?: State) => {
+    const text = message.content.text || '';
+    const isValid = CONFIRM_OPERATION_REGEX.test(text);
+
+    console.log('🔍 CONFIRM_SWIG_OPERATION validation:', `"${text}" -> ${isValid}`);
+    return isValid;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    _options?: any,
+    callback?: HandlerCallback,
+    responses?: Memory[]
+  ): Promise<boolean> => {
+    console.log('🔧 CONFIRM_SWIG_OPERATION action handler called!');
+    console.log('🔧 Callback function present:', !!callback);
+    console.log('🔧 Message content:', message.content.text);
+    console.log('🔧 Responses array length:', responses?.length || 0);
+
+    try {
+      console.log('🔧 Step 1: Parsing confirmation code...');
+      const codeMatch = (message.content.text || '').match(CONFIRM_OPERATION_REGEX);
+      if (!codeMatch) {
+        throw new Error("Please include the confirmation code (e.g., 'confirm ABC123').");
+      }
+
+      console.log('🔧 Step 2: Loading pending operation...');
+      const operation = await getPendingOperation(runtime, codeMatch[1], message);
+      console.log('🔧 Pending operation:', operation.code, operation.action);
+
+      const action = runtime.actions.find((candidate) => candidate.name === operation.action);
+      if (!action) {
+        throw new Error(
+          `The ${operation.action} action is no longer available, so operation ${operation.code} cannot run.`
+        );
+      }
+
+      // Remove the operation before running it so a repeated confirmation cannot execute it twice
+      await deletePendingOperation(runtime, operation);
+
+      console.log('🔧 Step 3: Executing confirmed operation...');
+      const confirmedMessage: Memory = {
+        ...message,
+        content: { ...message.content, text: operation.text },
+      };
+      await action.handler(
+        runtime,
+        confirmedMessage,
+        state,
+        { confirmedOperation: operation.code, params: operation.params },
+        callback,
+        responses
+      );
+
+      return true;
+    } catch (error) {
+      console.error('🔧 Confirm swig operation error:', error);
+      console.error('🔧 Error stack:', error instanceof Error ? error.stack : 'No stack trace');
+
+      const errorContent = {
+        text: `❌ Failed to confirm operation: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+        thought:
+          'The confirmation failed. The code may be wrong, expired, or belong to another user.',
+        actions: ['CONFIRM_SWIG_OPERATION', 'REPLY'],
+        source: message.content.source,
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with error content');
+        responses[0].content = errorContent;
+      }
+
+      // Send error response using callback
+      console.log('🔧 Sending error response via callback');
+      console.log('🔧 Error content:', JSON.stringify(errorContent, null, 2));
+      if (callback) {
+        console.log('🔧 Calling callback with error...');
+        await callback(errorContent);
+        console.log('🔧 Error callback completed');
+      } else {
+        console.log('⚠️ No callback provided for error response');
+      }
+
+      return true;
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: 'User',
+        content: {
+          text: 'confirm K7PX2M',
+        },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: 'Confirmed, executing the transfer now...',
+          action: 'CONFIRM_SWIG_OPERATION',
+        },
+      },
+    ],
+  ] as ActionExample[][],
+};
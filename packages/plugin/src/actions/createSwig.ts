@@ -5,32 +5,48 @@ import {
   type IAgentRuntime,
   type Memory,
   type State,
-  type UUID,
 } from '@elizaos/core';
 import {
-  Actions,
   createEd25519AuthorityInfo,
-  fetchNullableSwig,
   findSwigPda,
-  Swig,
+  getCreateSwigInstruction,
 } from '@swig-wallet/classic';
-import { Transaction } from '@solana/web3.js';
-import { v4 as uuidv4 } from 'uuid';
-import { getSolanaConnection, getSolanaWallet, sendAndConfirmTransaction } from '../utils.js';
+import {
+  buildSwigActions,
+  describePermissions,
+  hasRequestedPermissions,
+  parsePermissionRequest,
+} from '../permissions.js';
+import {
+  DEFAULT_SWIG_NAME,
+  describeSwig,
+  getDefaultSwigAddress,
+  getSwigId,
+  getSwigRegistry,
+  parseSwigName,
+  registerSwig,
+} from '../registry.js';
+import { getSwigWalletService } from '../services/swigWallet.js';
+import { mentionsSubAccount } from '../subAccounts.js';
+import {
+  formatSimulationReport,
+  isDryRun,
+  sendSwigTransaction,
+  simulateSwigTransaction,
+} from '../transactions.js';
 
 export const createSwigAction: Action = {
   name: 'CREATE_SWIG',
   similes: ['CREATE_SWIG_WALLET', 'MAKE_SWIG', 'INITIALIZE_SWIG', 'SETUP_SWIG', 'NEW_SWIG_WALLET'],
   description:
-    "Create a new Swig wallet on Solana with an Ed25519 authority type and 'all' actions enabled",
+    "Create a new Swig wallet on Solana with an Ed25519 authority type and 'all' actions enabled, or a scoped (optionally recurring) spend limit when one is requested",
 
-  validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+  validate: async (runtime: IAgentRuntime, message: Memory, _state?: State) => {
     const text = message.content.text?.toLowerCase() || '';
 
     // Must have creation intent, not just mention swig
     const hasCreateWord = /\b(create|make|new|setup|initialize|start|build)\b/.test(text);
     const hasSwigWord = /\bswig\b/.test(text);
-    const hasWalletWord = /\b(wallet|account)\b/.test(text);
 
     // Exclude transfer/send operations
     const hasTransferWord = /\b(transfer|send|fund|deposit)\b/.test(text);
@@ -53,7 +69,8 @@ export const createSwigAction: Action = {
 
     const hasKeywordMatch = keywords.some((keyword) => text.includes(keyword));
 
-    const result = isCreateIntent || hasKeywordMatch;
+    // Sub-account requests are handled by the sub-account actions
+    const result = (isCreateIntent || hasKeywordMatch) && !mentionsSubAccount(text);
     console.log(`🔍 CREATE_SWIG validation: "${text}" -> ${result}`);
     console.log(
       '🔍 Create word:',
@@ -82,9 +99,12 @@ export const createSwigAction: Action = {
     console.log('🔧 Message content:', message.content.text);
     console.log('🔧 Responses array length:', responses?.length || 0);
 
+    const dryRun = isDryRun(runtime, message.content.text || '');
+
     try {
       console.log('🔧 Step 1: Getting Solana wallet...');
-      const wallet = await getSolanaWallet(runtime);
+      const service = getSwigWalletService(runtime);
+      const wallet = await service.getWallet();
       if (!wallet) {
         console.log('🔧 ERROR: No wallet configured');
         throw new Error(
@@ -94,20 +114,51 @@ export const createSwigAction: Action = {
       console.log('🔧 Wallet public key:', wallet.publicKey.toBase58());
 
       console.log('🔧 Step 2: Getting Solana connection...');
-      const connection = getSolanaConnection(runtime);
+      const connection = service.getConnection();
       console.log('🔧 Connection RPC endpoint:', connection.rpcEndpoint);
 
       console.log('🔧 Step 3: Finding Swig PDA...');
-      const [swigAddress] = findSwigPda(wallet.publicKey.toBytes());
+      // Named wallets ("create a swig named payroll") get their own id and PDA
+      const registry = await getSwigRegistry(runtime);
+      const swigName = parseSwigName(message.content.text || '', registry) || DEFAULT_SWIG_NAME;
+      const swigId = getSwigId(wallet.publicKey, swigName);
+      const swigAddress = findSwigPda(swigId);
+      const resolvedSwig = { name: swigName, address: swigAddress };
+      const registryEntry = {
+        name: swigName,
+        address: swigAddress.toBase58(),
+        id: Buffer.from(swigId).toString('hex'),
+        createdAt: Date.now(),
+      };
+      console.log('🔧 Swig name:', swigName);
       console.log('🔧 Swig address:', swigAddress.toBase58());
 
+      const registered = registry.find((entry) => entry.name === swigName);
+      if (registered && registered.address !== registryEntry.address) {
+        throw new Error(
+          `The name "${swigName}" already refers to the Swig wallet ${registered.address}. Give the new wallet another name, e.g. 'create a swig named ops'.`
+        );
+      }
+
+      if (swigName === DEFAULT_SWIG_NAME) {
+        const defaultAddress = await getDefaultSwigAddress(runtime, wallet.publicKey);
+        if (!defaultAddress.equals(swigAddress)) {
+          throw new Error(
+            `The default Swig wallet is ${defaultAddress.toBase58()} (set by SWIG_ADDRESS or IMPORT_SWIG). Give the new wallet a name, e.g. 'create a swig named ops'.`
+          );
+        }
+      }
+
       console.log('🔧 Step 4: Checking if swig already exists...');
       // Check if swig already exists
-      const existingSwig = await fetchNullableSwig(connection, swigAddress);
+      const existingSwig = await service.getNullableSwig(swigAddress, { refresh: true });
       if (existingSwig) {
         console.log('🔧 Swig already exists, sending existing wallet response');
+        if (swigName !== DEFAULT_SWIG_NAME && !registry.some((entry) => entry.name === swigName)) {
+          await registerSwig(runtime, registryEntry);
+        }
         const existingContent = {
-          text: `Swig wallet already exists at address: ${swigAddress.toBase58()}`,
+          text: `Swig wallet already exists at address: ${describeSwig(resolvedSwig)}`,
           thought: 'A Swig wallet already exists for this authority. No need to create a new one.',
           actions: ['CREATE_SWIG', 'REPLY'],
           source: message.content.source,
@@ -131,38 +182,63 @@ export const createSwigAction: Action = {
       console.log('🔧 No existing swig found, proceeding with creation');
 
       console.log('🔧 Step 5: Creating swig instruction...');
+      // Use the requested permissions for the agent's role, or all actions by default
+      const permissionRequest = parsePermissionRequest(message.content.text || '');
+      if (!hasRequestedPermissions(permissionRequest)) {
+        permissionRequest.all = true;
+      }
+      console.log('🔧 Requested permissions:', permissionRequest);
+      const actions = await buildSwigActions(connection, permissionRequest);
+
       // Create the swig
-      const createSwigInstruction = Swig.create({
-        actions: Actions.set().all().get(),
+      const createSwigInstruction = await getCreateSwigInstruction({
+        actions,
         authorityInfo: createEd25519AuthorityInfo(wallet.publicKey),
-        id: wallet.publicKey.toBytes(),
+        id: swigId,
         payer: wallet.publicKey,
       });
       console.log('🔧 Swig instruction created');
 
-      console.log('🔧 Step 6: Building transaction...');
-      const transaction = new Transaction().add(createSwigInstruction);
-      transaction.feePayer = wallet.publicKey;
+      if (dryRun) {
+        console.log('🔧 Step 6: Simulating transaction (dry run)...');
+        const report = await simulateSwigTransaction(runtime, wallet, connection, [
+          createSwigInstruction,
+        ]);
+        console.log('🔧 Simulation complete, nothing was sent');
+
+        const dryRunContent = {
+          text: `🧪 Dry run: create Swig wallet\n\n${swigName !== DEFAULT_SWIG_NAME ? `Name: ${swigName}\n` : ''}Swig Address: ${swigAddress.toBase58()}\n\nAgent Permissions:\n${describePermissions(permissionRequest)}\n\n${formatSimulationReport(report)}`,
+          thought: `Simulated creating a new Swig wallet without sending the transaction.`,
+          actions: ['CREATE_SWIG', 'REPLY'],
+          source: message.content.source,
+        };
 
-      console.log('🔧 Step 7: Getting latest blockhash...');
-      const latestBlockhash = await connection.getLatestBlockhash();
-      transaction.recentBlockhash = latestBlockhash.blockhash;
-      console.log('🔧 Latest blockhash:', latestBlockhash.blockhash);
+        if (responses && responses.length > 0) {
+          responses[0].content = dryRunContent;
+        }
 
-      console.log('🔧 Step 8: Signing transaction...');
-      const signedTransaction = await wallet.signTransaction(transaction);
-      console.log('🔧 Transaction signed');
+        if (callback) {
+          await callback(dryRunContent);
+        }
 
-      console.log('🔧 Step 9: Sending transaction...');
-      const signature = await connection.sendRawTransaction(signedTransaction.serialize());
-      console.log('🔧 Transaction sent, signature:', signature);
+        return true;
+      }
 
-      console.log('🔧 Step 10: Confirming transaction...');
-      await connection.confirmTransaction(signature, 'confirmed');
+      console.log('🔧 Step 6: Sending transaction...');
+      const { signature } = await sendSwigTransaction(runtime, wallet, connection, [
+        createSwigInstruction,
+      ]);
       console.log('🔧 Transaction confirmed!');
 
+      if (swigName !== DEFAULT_SWIG_NAME) {
+        console.log('🔧 Registering named Swig wallet...');
+        await registerSwig(runtime, registryEntry);
+      }
+      await service.watchDeposits(swigAddress);
+      const walletAddress = await service.getWalletAddress(swigAddress);
+
       const responseContent = {
-        text: `✅ Swig wallet created successfully!\n\nSwig Address: ${swigAddress.toBase58()}\nTransaction: ${signature}`,
+        text: `✅ Swig wallet created successfully!\n\n${swigName !== DEFAULT_SWIG_NAME ? `Name: ${swigName}\n` : ''}Swig Address: ${swigAddress.toBase58()}${walletAddress.equals(swigAddress) ? '' : `\nWallet Address (send funds here): ${walletAddress.toBase58()}`}\n\nAgent Permissions:\n${describePermissions(permissionRequest)}\n\nTransaction: ${signature}`,
         thought: 'Successfully created a new Swig wallet and confirmed the transaction on-chain.',
         actions: ['CREATE_SWIG', 'REPLY'],
         source: message.content.source,
@@ -246,5 +322,18 @@ export const createSwigAction: Action = {
         },
       },
     ],
+    [
+      {
+        name: 'User',
+        content: { text: 'Create a swig named payroll with a 50 SOL per month limit' },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: "I'll create a separate payroll Swig wallet limited to 50 SOL per month.",
+          action: 'CREATE_SWIG',
+        },
+      },
+    ],
   ] as ActionExample[][],
 };
@@ -0,0 +1,315 @@
+import {
+  type Action,
+  type ActionExample,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+} from '@elizaos/core';
+import {
+  createEd25519SessionAuthorityInfo,
+  getAddAuthorityInstructions,
+} from '@swig-wallet/classic';
+import {
+  buildSwigActions,
+  describeRoleActions,
+  formatSlotDuration,
+  hasRequestedPermissions,
+  parsePermissionRequest,
+  SLOTS_PER_WINDOW_UNIT,
+} from '../permissions.js';
+import { describeSwig, resolveSwig } from '../registry.js';
+import { selectAgentRole } from '../roles.js';
+import { getSwigWalletService } from '../services/swigWallet.js';
+import { createSwigSession, findAgentSessionRole, parseSessionDuration } from '../session.js';
+import { isDryRun, sendSwigTransaction } from '../transactions.js';
+import { getSwigTokenHoldings } from '../utils.js';
+
+export const createSwigSessionAction: Action = {
+  name: 'CREATE_SWIG_SESSION',
+  similes: ['START_SWIG_SESSION', 'NEW_SWIG_SESSION', 'REFRESH_SWIG_SESSION', 'CREATE_SESSION_KEY'],
+  description:
+    'Create a short-lived session key for the agent so routine Swig transfers are signed by an ephemeral keypair instead of the main wallet key',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, _state?: State) => {
+    const text = message.content.text?.toLowerCase() || '';
+    const keywords = [
+      'create session',
+      'start session',
+      'new session',
+      'open session',
+      'refresh session',
+      'session key',
+    ];
+    const isRevoke = /\b(?:revoke|end|close|stop|kill)\b/.test(text);
+
+    console.log(
+      '🔍 CREATE_SWIG_SESSION validation:',
+      `"${text}" -> ${!isRevoke && keywords.some((keyword) => text.includes(keyword))}`
+    );
+    return !isRevoke && keywords.some((keyword) => text.includes(keyword));
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+    _options?: any,
+    callback?: HandlerCallback,
+    responses?: Memory[]
+  ): Promise<boolean> => {
+    console.log('🔧 CREATE_SWIG_SESSION action handler called!');
+    console.log('🔧 Callback function present:', !!callback);
+    console.log('🔧 Message content:', message.content.text);
+    console.log('🔧 Responses array length:', responses?.length || 0);
+
+    // Creating a session may take two transactions, the second depending on the first, so it cannot be simulated as a whole
+    if (isDryRun(runtime, message.content.text || '')) {
+      console.log('🔧 Dry run refused - this action cannot be simulated');
+      const errorContent = {
+        text: `❌ This action cannot be simulated. Send the request again without "dry run" or "simulate" to run it, or unset SWIG_DRY_RUN.`,
+        thought:
+          'The user asked for a dry run of an action that cannot be simulated; nothing was built or sent.',
+        actions: ['CREATE_SWIG_SESSION', 'REPLY'],
+        source: message.content.source,
+      };
+
+      if (responses && responses.length > 0) {
+        responses[0].content = errorContent;
+      }
+
+      if (callback) {
+        await callback(errorContent);
+      }
+
+      return true;
+    }
+
+    // Check if authority management is enabled
+    const authorityManagementEnabledSetting = runtime.getSetting(
+      'SWIG_AUTHORITY_MANAGEMENT_ENABLED'
+    );
+    const authorityManagementEnabled =
+      authorityManagementEnabledSetting === undefined
+        ? true
+        : String(authorityManagementEnabledSetting) === 'true';
+
+    if (!authorityManagementEnabled) {
+      console.log('🔧 Authority management operation blocked - authority management is disabled');
+      const errorContent = {
+        text: `❌ Authority management operations are currently disabled. Set SWIG_AUTHORITY_MANAGEMENT_ENABLED=true to enable authority management.`,
+        thought: 'Authority management operations have been disabled in the plugin configuration.',
+        actions: ['CREATE_SWIG_SESSION', 'REPLY'],
+        source: message.content.source,
+      };
+
+      if (responses && responses.length > 0) {
+        responses[0].content = errorContent;
+      }
+
+      if (callback) {
+        await callback(errorContent);
+      }
+
+      return true;
+    }
+
+    try {
+      console.log('🔧 Step 1: Getting Solana wallet...');
+      const service = getSwigWalletService(runtime);
+      const wallet = await service.getWallet();
+      if (!wallet) {
+        console.log('🔧 ERROR: No wallet configured');
+        throw new Error(
+          'Solana wallet not configured. Please set SOLANA_PRIVATE_KEY in runtime settings.'
+        );
+      }
+      console.log('🔧 Wallet public key:', wallet.publicKey.toBase58());
+
+      console.log('🔧 Step 2: Getting Solana connection...');
+      const connection = service.getConnection();
+      console.log('🔧 Connection RPC endpoint:', connection.rpcEndpoint);
+
+      console.log('🔧 Step 3: Resolving Swig wallet...');
+      const resolvedSwig = await resolveSwig(runtime, wallet.publicKey, message.content.text || '');
+      const swigAddress = resolvedSwig.address;
+      console.log('🔧 Swig wallet:', resolvedSwig.name, swigAddress.toBase58());
+
+      console.log('🔧 Step 4: Parsing session duration and permissions...');
+      const text = message.content.text || '';
+      const durationSlots = parseSessionDuration(runtime, text);
+      const permissionRequest = parsePermissionRequest(text);
+      console.log('🔧 Session duration (slots):', durationSlots);
+
+      console.log('🔧 Step 5: Fetching existing Swig wallet...');
+      let swig = await service.getSwig(swigAddress, { refresh: true });
+      const roles = swig.findRolesByEd25519SignerPk(wallet.publicKey);
+      console.log('🔧 Found roles for current wallet:', roles.length);
+
+      if (!roles.length) {
+        throw new Error(
+          'No roles found for your wallet in this Swig. You need to be an existing authority to create a session.'
+        );
+      }
+
+      console.log('🔧 Step 6: Finding the agent session role...');
+      let sessionRole = findAgentSessionRole(swig, wallet.publicKey);
+      let setupSignature: string | undefined;
+
+      if (!sessionRole) {
+        console.log('🔧 No session role yet, adding one...');
+        const agentRole = selectAgentRole(
+          roles,
+          { manageAuthority: true },
+          await connection.getSlot()
+        );
+        console.log('🔧 Using role:', agentRole.id);
+
+        // The session role gets the requested permissions, or mirrors the agent role
+        const sessionActions = hasRequestedPermissions(permissionRequest)
+          ? await buildSwigActions(connection, permissionRequest)
+          : agentRole.actions;
+        const maxDurationSetting = runtime.getSetting('SWIG_SESSION_MAX_DURATION_SLOTS');
+        const maxDurationSlots = Math.max(
+          durationSlots,
+          maxDurationSetting ? Number(maxDurationSetting) : SLOTS_PER_WINDOW_UNIT.day
+        );
+
+        const addAuthorityIxs = await getAddAuthorityInstructions(
+          swig,
+          agentRole.id,
+          createEd25519SessionAuthorityInfo(wallet.publicKey, BigInt(maxDurationSlots)),
+          sessionActions,
+          { payer: wallet.publicKey }
+        );
+
+        ({ signature: setupSignature } = await sendSwigTransaction(
+          runtime,
+          wallet,
+          connection,
+          addAuthorityIxs
+        ));
+        console.log('🔧 Session role added, signature:', setupSignature);
+
+        swig = await service.getSwig(swigAddress);
+        sessionRole = findAgentSessionRole(swig, wallet.publicKey);
+        if (!sessionRole) {
+          throw new Error('Session role was not found after it was added.');
+        }
+      }
+      console.log('🔧 Session role ID:', sessionRole.id);
+
+      console.log('🔧 Step 7: Creating session key...');
+      const session = await createSwigSession(
+        runtime,
+        wallet,
+        connection,
+        swigAddress,
+        swig,
+        sessionRole,
+        durationSlots
+      );
+      console.log('🔧 Session created, signature:', session.signature);
+
+      const currentSlot = await connection.getSlot();
+      const tokens = await getSwigTokenHoldings(
+        connection,
+        await service.getWalletAddress(swigAddress)
+      );
+      const permissionLines = describeRoleActions(sessionRole.actions, currentSlot, tokens)
+        .map((line) => `  • ${line}`)
+        .join('\n');
+
+      const responseContent = {
+        text: `✅ Swig session created!\n\nSession Key: ${session.record.sessionKey}\nSession Role ID: ${sessionRole.id}\nSwig Address: ${describeSwig(resolvedSwig)}\nDuration: ${formatSlotDuration(durationSlots)} (${durationSlots} slots)\nExpires: slot ${session.record.expirySlot} (~${new Date(session.record.expiresAt).toISOString()})\n\nSession Permissions:\n${permissionLines}\n\nRoutine transfers will now be signed with the session key and it will be refreshed automatically before it expires.${setupSignature ? `\n\nSession Role Transaction: ${setupSignature}` : ''}\nSession Transaction: ${session.signature}`,
+        thought: `Created a ${durationSlots} slot session key for session role ${sessionRole.id}.`,
+        actions: ['CREATE_SWIG_SESSION', 'REPLY'],
+        source: message.content.source,
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with success content');
+        responses[0].content = responseContent;
+      }
+
+      // Send response using callback
+      console.log('🔧 Sending success response via callback');
+      console.log('🔧 Response content:', JSON.stringify(responseContent, null, 2));
+      if (callback) {
+        console.log('🔧 Calling callback...');
+        await callback(responseContent);
+        console.log('🔧 Callback completed successfully!');
+      } else {
+        console.log('⚠️ No callback provided to action handler');
+      }
+
+      return true;
+    } catch (error) {
+      console.error('🔧 Create swig session error:', error);
+      console.error('🔧 Error stack:', error instanceof Error ? error.stack : 'No stack trace');
+
+      const errorContent = {
+        text: `❌ Failed to create Swig session: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+        thought:
+          'Failed to create a session key. This could be due to insufficient permissions, a duration above the session maximum, network issues, or invalid parameters.',
+        actions: ['CREATE_SWIG_SESSION', 'REPLY'],
+        source: message.content.source,
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with error content');
+        responses[0].content = errorContent;
+      }
+
+      // Send error response using callback
+      console.log('🔧 Sending error response via callback');
+      console.log('🔧 Error content:', JSON.stringify(errorContent, null, 2));
+      if (callback) {
+        console.log('🔧 Calling callback with error...');
+        await callback(errorContent);
+        console.log('🔧 Error callback completed');
+      } else {
+        console.log('⚠️ No callback provided for error response');
+      }
+
+      return true;
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: 'User',
+        content: {
+          text: 'Create a swig session for 30 minutes',
+        },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: "I'll create a 30 minute session key for routine transfers.",
+          action: 'CREATE_SWIG_SESSION',
+        },
+      },
+    ],
+    [
+      {
+        name: 'User',
+        content: {
+          text: 'Start a session for 5000 slots with a 1 SOL per day limit',
+        },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: 'Setting up a session role limited to 1 SOL per day and creating a session key...',
+          action: 'CREATE_SWIG_SESSION',
+        },
+      },
+    ],
+  ] as ActionExample[][],
+};
@@ -0,0 +1,220 @@
+import {
+  type Action,
+  type ActionExample,
+  ContentType,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+} from '@elizaos/core';
+import { describeSwig, resolveSwig } from '../registry.js';
+import { getSwigWalletService } from '../services/swigWallet.js';
+import {
+  buildSwigStatement,
+  describeSwigStatement,
+  findSwigStatementRange,
+  formatSwigStatement,
+} from '../statement.js';
+import { generateUUID } from '../utils.js';
+
+export const exportSwigStatementAction: Action = {
+  name: 'EXPORT_SWIG_STATEMENT',
+  similes: [
+    'SWIG_STATEMENT',
+    'GET_SWIG_STATEMENT',
+    'EXPORT_SWIG_HISTORY',
+    'DOWNLOAD_SWIG_STATEMENT',
+    'SWIG_CSV_EXPORT',
+  ],
+  description:
+    'Export a CSV or JSON statement of the Swig wallet for a period, with opening and closing balances per asset, every transaction with its signature and role, and fees, attached to the reply',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, _state?: State) => {
+    const text = message.content.text?.toLowerCase() || '';
+
+    // Check for statement or export patterns
+    const hasStatementWord = /\b(statements?|export|csv|json)\b/.test(text);
+    const hasSwigContext = /\b(swig|wallet|transactions|history|activity|monthly)\b/.test(text);
+
+    const keywords = [
+      'swig statement',
+      'monthly statement',
+      'export swig',
+      'export history',
+      'export transactions',
+      'statement for',
+      'download statement',
+    ];
+
+    const hasKeywordMatch = keywords.some((keyword) => text.includes(keyword));
+
+    const result = (hasStatementWord && hasSwigContext) || hasKeywordMatch;
+    console.log('🔍 EXPORT_SWIG_STATEMENT validation:', `"${text}" -> ${result}`);
+    console.log(
+      '🔍 Statement word:',
+      hasStatementWord,
+      'Swig context:',
+      hasSwigContext,
+      'Keyword match:',
+      hasKeywordMatch
+    );
+
+    return result;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: any,
+    callback?: HandlerCallback,
+    responses?: Memory[]
+  ): Promise<boolean> => {
+    console.log('🔧 EXPORT_SWIG_STATEMENT action handler called!');
+    console.log('🔧 Callback function present:', !!callback);
+    console.log('🔧 Message content:', message.content.text);
+    console.log('🔧 Responses array length:', responses?.length || 0);
+
+    try {
+      console.log('🔧 Step 1: Getting Solana wallet...');
+      const service = getSwigWalletService(runtime);
+      const wallet = await service.getWallet();
+      if (!wallet) {
+        console.log('🔧 ERROR: No wallet configured');
+        throw new Error(
+          'Solana wallet not configured. Please set SOLANA_PRIVATE_KEY in runtime settings.'
+        );
+      }
+      console.log('🔧 Wallet public key:', wallet.publicKey.toBase58());
+
+      console.log('🔧 Step 2: Getting Solana connection...');
+      const connection = service.getConnection();
+      console.log('🔧 Connection RPC endpoint:', connection.rpcEndpoint);
+
+      console.log('🔧 Step 3: Resolving Swig wallet...');
+      const text = message.content.text || '';
+      const resolvedSwig = await resolveSwig(runtime, wallet.publicKey, text);
+      const swigAddress = resolvedSwig.address;
+      console.log('🔧 Swig wallet:', resolvedSwig.name, swigAddress.toBase58());
+
+      console.log('🔧 Step 4: Reading statement period and format...');
+      const range = findSwigStatementRange(text);
+      const format = /\bjson\b/i.test(text) ? 'json' : 'csv';
+      console.log(
+        '🔧 Period:',
+        new Date(range.since).toISOString(),
+        '-',
+        new Date(range.until).toISOString(),
+        'Format:',
+        format
+      );
+
+      console.log('🔧 Step 5: Building statement...');
+      const statement = await buildSwigStatement(
+        runtime,
+        connection,
+        swigAddress,
+        await service.getWalletAddress(swigAddress),
+        range,
+        wallet.publicKey
+      );
+      const file = formatSwigStatement(statement, format);
+      console.log('🔧 Statement records:', statement.transactions.length, 'File:', file.fileName);
+
+      const responseContent = {
+        text: `📄 Swig Statement\n\nWallet: ${describeSwig(resolvedSwig)}\n${describeSwigStatement(statement)}\n\nAttached: ${file.fileName}`,
+        thought: `Exported a ${format.toUpperCase()} statement of the Swig wallet with ${statement.transactions.length} records.`,
+        actions: ['EXPORT_SWIG_STATEMENT', 'REPLY'],
+        source: message.content.source,
+        attachments: [
+          {
+            id: generateUUID(),
+            url: `data:${file.contentType};base64,${Buffer.from(file.body).toString('base64')}`,
+            title: file.fileName,
+            source: 'swig',
+            description: `Swig statement for ${swigAddress.toBase58()}`,
+            text: file.body,
+            contentType: ContentType.DOCUMENT,
+          },
+        ],
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with success content');
+        responses[0].content = responseContent;
+      }
+
+      // Send response using callback
+      console.log('🔧 Sending success response via callback');
+      if (callback) {
+        console.log('🔧 Calling callback...');
+        await callback(responseContent);
+        console.log('🔧 Callback completed successfully!');
+      } else {
+        console.log('⚠️ No callback provided to action handler');
+      }
+
+      return true;
+    } catch (error) {
+      console.error('🔧 Export Swig statement error:', error);
+      console.error('🔧 Error stack:', error instanceof Error ? error.stack : 'No stack trace');
+
+      const errorContent = {
+        text: `❌ Failed to export Swig statement: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        thought:
+          'The statement export failed. This could be due to RPC limits, an unknown Swig name, or wallet configuration problems.',
+        actions: ['EXPORT_SWIG_STATEMENT', 'REPLY'],
+        source: message.content.source,
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with error content');
+        responses[0].content = errorContent;
+      }
+
+      // Send error response using callback
+      console.log('🔧 Sending error response via callback');
+      console.log('🔧 Error content:', JSON.stringify(errorContent, null, 2));
+      if (callback) {
+        console.log('🔧 Calling callback with error...');
+        await callback(errorContent);
+        console.log('🔧 Error callback completed');
+      } else {
+        console.log('⚠️ No callback provided for error response');
+      }
+
+      return true;
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: 'User',
+        content: { text: 'Export the swig statement for last month' },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: "Here is last month's statement of your Swig wallet as CSV.",
+          action: 'EXPORT_SWIG_STATEMENT',
+        },
+      },
+    ],
+    [
+      {
+        name: 'User',
+        content: { text: 'Send me a JSON statement of the payroll swig for April 2025' },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: "I'll attach the April 2025 statement of the payroll Swig as JSON.",
+          action: 'EXPORT_SWIG_STATEMENT',
+        },
+      },
+    ],
+  ] as ActionExample[][],
+};
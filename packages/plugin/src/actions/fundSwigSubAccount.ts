@@ -0,0 +1,290 @@
+import {
+  type Action,
+  type ActionExample,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+} from '@elizaos/core';
+import { getSignInstructions } from '@swig-wallet/classic';
+import { resolveContactNames } from '../contacts.js';
+import { describeSwig, resolveSwig } from '../registry.js';
+import { selectAgentRole, type SwigRoleRequirement } from '../roles.js';
+import { getSwigWalletService } from '../services/swigWallet.js';
+import {
+  buildAssetTransfer,
+  describeAsset,
+  mentionsSubAccount,
+  parseSubAccountAsset,
+  resolveSubAccountTarget,
+} from '../subAccounts.js';
+import {
+  formatSimulationReport,
+  isDryRun,
+  sendSwigTransaction,
+  simulateSwigTransaction,
+} from '../transactions.js';
+
+export const fundSwigSubAccountAction: Action = {
+  name: 'FUND_SWIG_SUB_ACCOUNT',
+  similes: ['TOP_UP_SWIG_SUB_ACCOUNT', 'DEPOSIT_TO_SWIG_SUB_ACCOUNT', 'SWIG_FUND_SUB_ACCOUNT'],
+  description: 'Move SOL or tokens from the main Swig wallet into one of its sub-accounts',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, _state?: State) => {
+    const text = message.content.text?.toLowerCase() || '';
+    const hasSubAccountWord = mentionsSubAccount(text);
+    const hasFundWord =
+      /\b(fund|top up|refill|deposit)\b/.test(text) ||
+      /\b(?:to|into)\s+(?:the\s+|my\s+|its\s+)?(?:[a-z0-9_-]+\s+)?sub[- ]?account\b/.test(text);
+    const hasAmountPattern = /\d+(?:\.\d+)?/.test(text);
+    const hasWithdrawWord = /\bwithdraw\b/.test(text);
+
+    const result = hasSubAccountWord && hasFundWord && hasAmountPattern && !hasWithdrawWord;
+    console.log('🔍 FUND_SWIG_SUB_ACCOUNT validation:', `"${text}" -> ${result}`);
+    return result;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+    _options?: any,
+    callback?: HandlerCallback,
+    responses?: Memory[]
+  ): Promise<boolean> => {
+    console.log('🔧 FUND_SWIG_SUB_ACCOUNT action handler called!');
+    console.log('🔧 Callback function present:', !!callback);
+    console.log('🔧 Message content:', message.content.text);
+    console.log('🔧 Responses array length:', responses?.length || 0);
+
+    // A dry run only simulates, so it is allowed even when transfers are disabled
+    const dryRun = isDryRun(runtime, message.content.text || '');
+
+    // Check if transfers are enabled
+    const transfersEnabledSetting = runtime.getSetting('SWIG_TRANSFERS_ENABLED');
+    const transfersEnabled =
+      transfersEnabledSetting === undefined ? true : String(transfersEnabledSetting) === 'true';
+
+    if (!transfersEnabled && !dryRun) {
+      console.log('🔧 Sub-account operation blocked - transfers are disabled');
+      const errorContent = {
+        text: `❌ Sub-account operations are currently disabled. Set SWIG_TRANSFERS_ENABLED=true to enable transfers.`,
+        thought: 'Transfer operations have been disabled in the plugin configuration.',
+        actions: ['FUND_SWIG_SUB_ACCOUNT', 'REPLY'],
+        source: message.content.source,
+      };
+
+      if (responses && responses.length > 0) {
+        responses[0].content = errorContent;
+      }
+
+      if (callback) {
+        await callback(errorContent);
+      }
+
+      return true;
+    }
+
+    try {
+      console.log('🔧 Step 1: Getting Solana wallet...');
+      const service = getSwigWalletService(runtime);
+      const wallet = await service.getWallet();
+      if (!wallet) {
+        console.log('🔧 ERROR: No wallet configured');
+        throw new Error(
+          'Solana wallet not configured. Please set SOLANA_PRIVATE_KEY in runtime settings.'
+        );
+      }
+      console.log('🔧 Wallet public key:', wallet.publicKey.toBase58());
+
+      console.log('🔧 Step 2: Getting Solana connection...');
+      const connection = service.getConnection();
+      console.log('🔧 Connection RPC endpoint:', connection.rpcEndpoint);
+
+      console.log('🔧 Step 3: Resolving Swig wallet...');
+      const resolvedSwig = await resolveSwig(runtime, wallet.publicKey, message.content.text || '');
+      const swigAddress = resolvedSwig.address;
+      console.log('🔧 Swig wallet:', resolvedSwig.name, swigAddress.toBase58());
+
+      // Contact names become addresses and role IDs before any parsing
+      const resolvedMessage = await resolveContactNames(runtime, message, swigAddress);
+      const text = resolvedMessage.content.text || '';
+
+      console.log('🔧 Step 4: Parsing funding amount...');
+      const asset = parseSubAccountAsset(text);
+      if (!asset) {
+        throw new Error(
+          "Please specify an amount to fund (e.g., 'fund the sub-account of role 1 with 2 SOL')"
+        );
+      }
+      console.log('🔧 Funding amount:', describeAsset(asset));
+
+      console.log('🔧 Step 5: Fetching Swig wallet...');
+      const swig = await service.getSwig(swigAddress, { refresh: true });
+      const roles = swig.findRolesByEd25519SignerPk(wallet.publicKey);
+      console.log('🔧 Found roles for current wallet:', roles.length);
+
+      if (!roles.length) {
+        throw new Error(
+          'No roles found for your wallet in this Swig. You need to be an authority to fund sub-accounts.'
+        );
+      }
+
+      const { role: subAccountRole, subAccount } = await resolveSubAccountTarget(
+        connection,
+        swig,
+        roles,
+        text
+      );
+      console.log('🔧 Sub-account:', subAccount.toBase58(), 'of role', subAccountRole.id);
+
+      console.log('🔧 Step 6: Building transfer instructions...');
+      const transfer = await buildAssetTransfer(
+        connection,
+        wallet.publicKey,
+        await service.getWalletAddress(swigAddress),
+        subAccount,
+        asset
+      );
+
+      console.log('🔧 Selecting role...');
+      const currentSlot = await connection.getSlot();
+      const requirement: SwigRoleRequirement = asset.mint
+        ? {
+            tokenMint: asset.mint,
+            tokenAmount: transfer.rawAmount,
+            tokenDecimals: transfer.decimals,
+          }
+        : { solAmount: transfer.rawAmount };
+      const signingRole = selectAgentRole(roles, requirement, currentSlot);
+      console.log('🔧 Signing with role:', signingRole.id);
+
+      console.log('🔧 Step 7: Creating sign instruction...');
+      const signIxs = await getSignInstructions(
+        swig,
+        signingRole.id,
+        transfer.instructions,
+        false,
+        { payer: wallet.publicKey }
+      );
+
+      if (dryRun) {
+        console.log('🔧 Step 8: Simulating transaction (dry run)...');
+        const report = await simulateSwigTransaction(runtime, wallet, connection, signIxs);
+        console.log('🔧 Simulation complete, nothing was sent');
+
+        const dryRunContent = {
+          text: `🧪 Dry run: fund Swig sub-account with ${describeAsset(asset)}\n\nFrom: ${describeSwig(resolvedSwig)}\nTo: sub-account ${subAccount.toBase58()} (role ${subAccountRole.id})\nAmount: ${describeAsset(asset)}\nSigned by: agent wallet (role ${signingRole.id})\n\n${formatSimulationReport(report)}`,
+          thought: `Simulated funding the sub-account of role ${subAccountRole.id} with ${describeAsset(asset)} without sending it.`,
+          actions: ['FUND_SWIG_SUB_ACCOUNT', 'REPLY'],
+          source: message.content.source,
+        };
+
+        if (responses && responses.length > 0) {
+          responses[0].content = dryRunContent;
+        }
+
+        if (callback) {
+          await callback(dryRunContent);
+        }
+
+        return true;
+      }
+
+      console.log('🔧 Step 8: Sending transaction...');
+      const { signature } = await sendSwigTransaction(runtime, wallet, connection, signIxs);
+      console.log('🔧 Transaction confirmed!');
+
+      const responseContent = {
+        text: `✅ Sub-account funded with ${describeAsset(asset)}!\n\nFrom: ${describeSwig(resolvedSwig)}\nTo: sub-account ${subAccount.toBase58()} (role ${subAccountRole.id})\nAmount: ${describeAsset(asset)}\nSigned by: agent wallet (role ${signingRole.id})\nTransaction: ${signature}`,
+        thought: `Funded the sub-account of role ${subAccountRole.id} with ${describeAsset(asset)} from the main Swig wallet.`,
+        actions: ['FUND_SWIG_SUB_ACCOUNT', 'REPLY'],
+        source: message.content.source,
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with success content');
+        responses[0].content = responseContent;
+      }
+
+      // Send response using callback
+      console.log('🔧 Sending success response via callback');
+      console.log('🔧 Response content:', JSON.stringify(responseContent, null, 2));
+      if (callback) {
+        console.log('🔧 Calling callback...');
+        await callback(responseContent);
+        console.log('🔧 Callback completed successfully!');
+      } else {
+        console.log('⚠️ No callback provided to action handler');
+      }
+
+      return true;
+    } catch (error) {
+      console.error('🔧 Fund sub-account error:', error);
+      console.error('🔧 Error stack:', error instanceof Error ? error.stack : 'No stack trace');
+
+      const errorContent = {
+        text: `❌ Failed to fund sub-account: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+        thought:
+          'Failed to fund the sub-account. This could be due to insufficient funds in the Swig, role limits, a missing sub-account, or network issues.',
+        actions: ['FUND_SWIG_SUB_ACCOUNT', 'REPLY'],
+        source: message.content.source,
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with error content');
+        responses[0].content = errorContent;
+      }
+
+      // Send error response using callback
+      console.log('🔧 Sending error response via callback');
+      console.log('🔧 Error content:', JSON.stringify(errorContent, null, 2));
+      if (callback) {
+        console.log('🔧 Calling callback with error...');
+        await callback(errorContent);
+        console.log('🔧 Error callback completed');
+      } else {
+        console.log('⚠️ No callback provided for error response');
+      }
+
+      return true;
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: 'User',
+        content: {
+          text: 'Fund the sub-account of role 1 with 2 SOL',
+        },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: "I'll move 2 SOL from the Swig wallet into role 1's sub-account.",
+          action: 'FUND_SWIG_SUB_ACCOUNT',
+        },
+      },
+    ],
+    [
+      {
+        name: 'User',
+        content: {
+          text: 'Top up the sub-account with 500 tokens mint EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+        },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: 'Moving 500 tokens into the sub-account...',
+          action: 'FUND_SWIG_SUB_ACCOUNT',
+        },
+      },
+    ],
+  ] as ActionExample[][],
+};
@@ -6,9 +6,11 @@ import {
   type Memory,
   type State,
 } from '@elizaos/core';
-import { PublicKey } from '@solana/web3.js';
-import { fetchSwig, findSwigPda } from '@swig-wallet/classic';
-import { getSolanaConnection, getSolanaWallet } from '../utils.js';
+import { getAuthorityDetails } from '../authorities.js';
+import { describeRoleActions } from '../permissions.js';
+import { describeSwig, resolveSwig } from '../registry.js';
+import { getSwigWalletService } from '../services/swigWallet.js';
+import { getSwigTokenHoldings } from '../utils.js';
 
 export const getSwigAuthoritiesAction: Action = {
   name: 'GET_SWIG_AUTHORITIES',
@@ -19,9 +21,10 @@ export const getSwigAuthoritiesAction: Action = {
     'CHECK_SWIG_AUTHORITIES',
     'SWIG_AUTHORITIES',
   ],
-  description: 'Get all authorities (signers) on the Swig wallet',
+  description:
+    'Get all authorities (signers) on the Swig wallet with their permissions and spend limits',
 
-  validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+  validate: async (runtime: IAgentRuntime, message: Memory, _state?: State) => {
     const text = message.content.text?.toLowerCase() || '';
 
     // Check for authority-related queries
@@ -77,7 +80,8 @@ export const getSwigAuthoritiesAction: Action = {
 
     try {
       console.log('🔧 Step 1: Getting Solana wallet...');
-      const wallet = await getSolanaWallet(runtime);
+      const service = getSwigWalletService(runtime);
+      const wallet = await service.getWallet();
       if (!wallet) {
         console.log('🔧 ERROR: No wallet configured');
         throw new Error(
@@ -87,25 +91,36 @@ export const getSwigAuthoritiesAction: Action = {
       console.log('🔧 Wallet public key:', wallet.publicKey.toBase58());
 
       console.log('🔧 Step 2: Getting Solana connection...');
-      const connection = getSolanaConnection(runtime);
+      const connection = service.getConnection();
       console.log('🔧 Connection RPC endpoint:', connection.rpcEndpoint);
 
-      console.log('🔧 Step 3: Finding Swig PDA...');
-      const [swigAddress] = findSwigPda(wallet.publicKey.toBytes());
-      console.log('🔧 Swig address:', swigAddress.toBase58());
+      console.log('🔧 Step 3: Resolving Swig wallet...');
+      const resolvedSwig = await resolveSwig(runtime, wallet.publicKey, message.content.text || '');
+      const swigAddress = resolvedSwig.address;
+      console.log('🔧 Swig wallet:', resolvedSwig.name, swigAddress.toBase58());
 
       console.log('🔧 Step 4: Fetching Swig wallet...');
-      const swig = await fetchSwig(connection, swigAddress);
+      const swig = await service.getSwig(swigAddress);
       console.log('🔧 Swig fetched, total roles:', swig.roles.length);
 
-      console.log('🔧 Step 5: Processing authorities...');
+      console.log('🔧 Step 5: Loading current slot and Swig token holdings...');
+      const currentSlot = await connection.getSlot();
+      const tokens = await getSwigTokenHoldings(
+        connection,
+        await service.getWalletAddress(swigAddress)
+      );
+      console.log('🔧 Current slot:', currentSlot, 'Token mints held:', tokens.length);
+
+      console.log('🔧 Step 6: Processing authorities...');
       const authorities = swig.roles.map((role) => {
-        const authorityPubkey = new PublicKey(role.authority.data);
-        console.log('🔧 Role ID:', role.id, 'Authority:', authorityPubkey.toBase58());
+        const authority = getAuthorityDetails(role.authority);
+        console.log('🔧 Role ID:', role.id, 'Authority:', authority.type, authority.address);
         return {
           roleId: role.id,
-          address: authorityPubkey.toBase58(),
-          isCurrentWallet: authorityPubkey.equals(wallet.publicKey),
+          type: authority.type,
+          address: authority.address,
+          isCurrentWallet: !!authority.solanaAddress?.equals(wallet.publicKey),
+          permissions: describeRoleActions(role.actions, currentSlot, tokens),
         };
       });
 
@@ -113,12 +128,13 @@ export const getSwigAuthoritiesAction: Action = {
       const authoritiesList = authorities
         .map((auth, index) => {
           const marker = auth.isCurrentWallet ? ' ← Your wallet' : '';
-          return `${index + 1}. Role ID: ${auth.roleId}\n   Address: ${auth.address}${marker}`;
+          const permissions = auth.permissions.map((line) => `   • ${line}`).join('\n');
+          return `${index + 1}. Role ID: ${auth.roleId}\n   Type: ${auth.type}\n   Address: ${auth.address}${marker}\n${permissions}`;
         })
         .join('\n\n');
 
       const responseContent = {
-        text: `👥 Swig Wallet Authorities\n\nSwig Address: ${swigAddress.toBase58()}\nTotal Authorities: ${authorities.length}\n\n${authoritiesList}`,
+        text: `👥 Swig Wallet Authorities\n\nSwig Address: ${describeSwig(resolvedSwig)}\nTotal Authorities: ${authorities.length}\n\n${authoritiesList}`,
         thought: 'Successfully retrieved all authorities from the Swig wallet.',
         actions: ['GET_SWIG_AUTHORITIES', 'REPLY'],
         source: message.content.source,
@@ -8,15 +8,15 @@ import {
 } from '@elizaos/core';
 import { getAssociatedTokenAddressSync } from '@solana/spl-token';
 import { LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
-import { findSwigPda } from '@swig-wallet/classic';
-import { getSolanaConnection, getSolanaWallet } from '../utils.js';
+import { describeSwig, resolveSwig } from '../registry.js';
+import { getSwigWalletService } from '../services/swigWallet.js';
 
 export const getSwigBalanceAction: Action = {
   name: 'GET_SWIG_BALANCE',
   similes: ['CHECK_SWIG_BALANCE', 'SWIG_BALANCE', 'SHOW_SWIG_BALANCE', 'WALLET_BALANCE'],
   description: 'Get the balance of SOL or SPL tokens in the Swig wallet',
 
-  validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+  validate: async (runtime: IAgentRuntime, message: Memory, _state?: State) => {
     const text = message.content.text?.toLowerCase() || '';
     const keywords = [
       'swig balance',
@@ -48,7 +48,8 @@ export const getSwigBalanceAction: Action = {
 
     try {
       console.log('🔧 Step 1: Getting Solana wallet...');
-      const wallet = await getSolanaWallet(runtime);
+      const service = getSwigWalletService(runtime);
+      const wallet = await service.getWallet();
       if (!wallet) {
         console.log('🔧 ERROR: No wallet configured');
         throw new Error(
@@ -58,12 +59,14 @@ export const getSwigBalanceAction: Action = {
       console.log('🔧 Wallet public key:', wallet.publicKey.toBase58());
 
       console.log('🔧 Step 2: Getting Solana connection...');
-      const connection = getSolanaConnection(runtime);
+      const connection = service.getConnection();
       console.log('🔧 Connection RPC endpoint:', connection.rpcEndpoint);
 
-      console.log('🔧 Step 3: Finding Swig PDA...');
-      const [swigAddress] = findSwigPda(wallet.publicKey.toBytes());
-      console.log('🔧 Swig address:', swigAddress.toBase58());
+      console.log('🔧 Step 3: Resolving Swig wallet...');
+      const resolvedSwig = await resolveSwig(runtime, wallet.publicKey, message.content.text || '');
+      const swigAddress = resolvedSwig.address;
+      console.log('🔧 Swig wallet:', resolvedSwig.name, swigAddress.toBase58());
+      const walletAddress = await service.getWalletAddress(swigAddress);
 
       // Check if specific token is requested
       console.log('🔧 Step 4: Parsing balance request...');
@@ -76,7 +79,7 @@ export const getSwigBalanceAction: Action = {
       if (!mintMatch) {
         console.log('🔧 Step 5: Getting SOL balance...');
         // Get SOL balance
-        const balance = await connection.getBalance(swigAddress);
+        const balance = await connection.getBalance(walletAddress);
         const solBalance = balance / LAMPORTS_PER_SOL;
         console.log('🔧 SOL balance:', solBalance, 'SOL');
         balanceText = `SOL Balance: ${solBalance.toFixed(9)} SOL`;
@@ -84,7 +87,7 @@ export const getSwigBalanceAction: Action = {
         console.log('🔧 Step 5: Getting SPL token balance...');
         // Get SPL token balance
         const mintAddress = new PublicKey(mintMatch[1]);
-        const tokenAddress = getAssociatedTokenAddressSync(mintAddress, swigAddress, true);
+        const tokenAddress = getAssociatedTokenAddressSync(mintAddress, walletAddress, true);
         console.log('🔧 Token account address:', tokenAddress.toBase58());
 
         try {
@@ -92,14 +95,14 @@ export const getSwigBalanceAction: Action = {
           const tokenBalance = tokenAccount.value.uiAmount || 0;
           console.log('🔧 Token balance:', tokenBalance, 'tokens');
           balanceText = `Token Balance: ${tokenBalance} tokens\nMint: ${mintAddress.toBase58()}`;
-        } catch (error) {
+        } catch {
           console.log('🔧 Token account not found, balance is 0');
           balanceText = `Token Balance: 0 tokens (account not found)\nMint: ${mintAddress.toBase58()}`;
         }
       }
 
       const responseContent = {
-        text: `💰 Swig Wallet Balance\n\nSwig Address: ${swigAddress.toBase58()}\n${balanceText}`,
+        text: `💰 Swig Wallet Balance\n\nSwig Address: ${describeSwig(resolvedSwig)}\n${balanceText}`,
         thought: 'Successfully retrieved the Swig wallet balance information.',
         actions: ['GET_SWIG_BALANCE', 'REPLY'],
         source: message.content.source,
@@ -0,0 +1,247 @@
+import {
+  type Action,
+  type ActionExample,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+} from '@elizaos/core';
+import { getSwigContacts } from '../contacts.js';
+import {
+  describeSwigHistoryFilters,
+  describeSwigHistoryRecord,
+  describeSwigHistoryTotals,
+  getSwigHistory,
+  parseSwigHistoryFilters,
+} from '../history.js';
+import { describeSwig, resolveSwig } from '../registry.js';
+import { getSwigWalletService } from '../services/swigWallet.js';
+
+export const getSwigHistoryAction: Action = {
+  name: 'GET_SWIG_HISTORY',
+  similes: [
+    'SWIG_HISTORY',
+    'SWIG_TRANSACTION_HISTORY',
+    'SHOW_SWIG_HISTORY',
+    'LIST_SWIG_TRANSACTIONS',
+    'SWIG_LEDGER',
+    'SWIG_SPENDING',
+  ],
+  description:
+    'List past transactions of the Swig wallet as a ledger with direction, asset, amount, counterparty, signing role, fee and status. Supports filters such as "last 10", "since Monday", "yesterday" or "only USDC".',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, _state?: State) => {
+    const text = message.content.text?.toLowerCase() || '';
+
+    // Check for swig history patterns
+    const hasSwigWord = /\bswig\b/.test(text);
+    const hasHistoryWord =
+      /\b(history|transactions|ledger|activity|statement of|past transfers|recent transfers)\b/.test(
+        text
+      );
+
+    // Questions about past spending or income do not need to say "swig"
+    const keywords = [
+      'transaction history',
+      'what did you spend',
+      'what did we spend',
+      'what have you spent',
+      'what have we spent',
+      'how much did you spend',
+      'how much did we spend',
+      'how much have you spent',
+      'what did you send',
+      'what did you receive',
+      'what did we receive',
+      'how much did you receive',
+      'how much did we receive',
+      'recent transactions',
+      'last transactions',
+      'show.*transactions',
+      'list.*transactions',
+    ];
+
+    const hasKeywordMatch = keywords.some((keyword) => {
+      if (keyword.includes('.*')) {
+        const regex = new RegExp(keyword);
+        return regex.test(text);
+      } else {
+        return text.includes(keyword);
+      }
+    });
+
+    const result = (hasSwigWord && hasHistoryWord) || hasKeywordMatch;
+    console.log('🔍 GET_SWIG_HISTORY validation:', `"${text}" -> ${result}`);
+    console.log(
+      '🔍 Swig word:',
+      hasSwigWord,
+      'History word:',
+      hasHistoryWord,
+      'Keyword match:',
+      hasKeywordMatch
+    );
+
+    return result;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: any,
+    callback?: HandlerCallback,
+    responses?: Memory[]
+  ): Promise<boolean> => {
+    console.log('🔧 GET_SWIG_HISTORY action handler called!');
+    console.log('🔧 Callback function present:', !!callback);
+    console.log('🔧 Message content:', message.content.text);
+    console.log('🔧 Responses array length:', responses?.length || 0);
+
+    try {
+      console.log('🔧 Step 1: Getting Solana wallet...');
+      const service = getSwigWalletService(runtime);
+      const wallet = await service.getWallet();
+      if (!wallet) {
+        console.log('🔧 ERROR: No wallet configured');
+        throw new Error(
+          'Solana wallet not configured. Please set SOLANA_PRIVATE_KEY in runtime settings.'
+        );
+      }
+      console.log('🔧 Wallet public key:', wallet.publicKey.toBase58());
+
+      console.log('🔧 Step 2: Getting Solana connection...');
+      const connection = service.getConnection();
+      console.log('🔧 Connection RPC endpoint:', connection.rpcEndpoint);
+
+      console.log('🔧 Step 3: Resolving Swig wallet...');
+      const text = message.content.text || '';
+      const resolvedSwig = await resolveSwig(runtime, wallet.publicKey, text);
+      const swigAddress = resolvedSwig.address;
+      console.log('🔧 Swig wallet:', resolvedSwig.name, swigAddress.toBase58());
+
+      console.log('🔧 Step 4: Parsing history filters...');
+      const filters = await parseSwigHistoryFilters(runtime, text);
+      console.log('🔧 Filters:', JSON.stringify(filters));
+
+      console.log('🔧 Step 5: Fetching transaction history...');
+      const records = await getSwigHistory(
+        runtime,
+        connection,
+        swigAddress,
+        await service.getWalletAddress(swigAddress),
+        filters
+      );
+      console.log('🔧 History records:', records.length);
+
+      console.log('🔧 Step 6: Formatting ledger...');
+      const contactNames = new Map<string, string>();
+      for (const contact of await getSwigContacts(runtime, message)) {
+        if (contact.address) {
+          contactNames.set(contact.address, contact.name);
+        }
+      }
+
+      const ledger = records.length
+        ? `${records.map((record) => `• ${describeSwigHistoryRecord(record, contactNames)}`).join('\n')}\n\n${describeSwigHistoryTotals(records, [wallet.publicKey.toBase58(), swigAddress.toBase58()])}`
+        : 'No matching transactions found.';
+
+      const responseContent = {
+        text: `📜 Swig Transaction History\n\nWallet: ${describeSwig(resolvedSwig)}\nFilters: ${describeSwigHistoryFilters(runtime, filters)}\n\n${ledger}`,
+        thought: `Listed ${records.length} history records of the Swig wallet.`,
+        actions: ['GET_SWIG_HISTORY', 'REPLY'],
+        source: message.content.source,
+        data: { swigHistory: records },
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with success content');
+        responses[0].content = responseContent;
+      }
+
+      // Send response using callback
+      console.log('🔧 Sending success response via callback');
+      if (callback) {
+        console.log('🔧 Calling callback...');
+        await callback(responseContent);
+        console.log('🔧 Callback completed successfully!');
+      } else {
+        console.log('⚠️ No callback provided to action handler');
+      }
+
+      return true;
+    } catch (error) {
+      console.error('🔧 Get Swig history error:', error);
+      console.error('🔧 Error stack:', error instanceof Error ? error.stack : 'No stack trace');
+
+      const errorContent = {
+        text: `❌ Failed to get Swig transaction history: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        thought:
+          'The history query failed. This could be due to an unknown token filter, RPC limits, or wallet configuration problems.',
+        actions: ['GET_SWIG_HISTORY', 'REPLY'],
+        source: message.content.source,
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with error content');
+        responses[0].content = errorContent;
+      }
+
+      // Send error response using callback
+      console.log('🔧 Sending error response via callback');
+      console.log('🔧 Error content:', JSON.stringify(errorContent, null, 2));
+      if (callback) {
+        console.log('🔧 Calling callback with error...');
+        await callback(errorContent);
+        console.log('🔧 Error callback completed');
+      } else {
+        console.log('⚠️ No callback provided for error response');
+      }
+
+      return true;
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: 'User',
+        content: { text: 'Show the last 10 swig transactions' },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: "Here are your Swig wallet's last 10 transactions.",
+          action: 'GET_SWIG_HISTORY',
+        },
+      },
+    ],
+    [
+      {
+        name: 'User',
+        content: { text: 'What did you spend yesterday?' },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: "I'll list yesterday's outgoing Swig transfers.",
+          action: 'GET_SWIG_HISTORY',
+        },
+      },
+    ],
+    [
+      {
+        name: 'User',
+        content: { text: 'Swig history since Monday, only USDC' },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: 'Fetching the USDC transfers of your Swig wallet since Monday...',
+          action: 'GET_SWIG_HISTORY',
+        },
+      },
+    ],
+  ] as ActionExample[][],
+};
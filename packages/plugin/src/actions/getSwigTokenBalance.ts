@@ -8,8 +8,10 @@ import {
 } from '@elizaos/core';
 import { getAssociatedTokenAddress, getAccount, getMint } from '@solana/spl-token';
 import { PublicKey } from '@solana/web3.js';
-import { findSwigPda } from '@swig-wallet/classic';
-import { getSolanaConnection, getSolanaWallet } from '../utils.js';
+import { findAddresses } from '../parameters.js';
+import { describeSwig, resolveSwig } from '../registry.js';
+import { getSwigWalletService } from '../services/swigWallet.js';
+import { describeToken, findTokenQuery, mentionsKnownToken, resolveToken } from '../tokens.js';
 
 export const getSwigTokenBalanceAction: Action = {
   name: 'GET_SWIG_TOKEN_BALANCE',
@@ -22,13 +24,14 @@ export const getSwigTokenBalanceAction: Action = {
   ],
   description: 'Get the balance of a specific SPL token in the Swig wallet',
 
-  validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+  validate: async (runtime: IAgentRuntime, message: Memory, _state?: State) => {
     const text = message.content.text?.toLowerCase() || '';
 
     // Check for swig token balance patterns
     const hasSwigWord = /\bswig\b/.test(text);
     const hasBalanceWord = /\b(balance|amount|how much)\b/.test(text);
-    const hasTokenWord = /\b(token|spl|mint)\b/.test(text);
+    const hasTokenWord =
+      /\b(token|spl|mint)\b/.test(text) || (await mentionsKnownToken(runtime, text));
     const hasAddressPattern = /\b[1-9A-HJ-NP-Za-km-z]{32,44}\b/.test(text);
 
     // Must have swig + balance + (token or address)
@@ -93,7 +96,8 @@ export const getSwigTokenBalanceAction: Action = {
 
     try {
       console.log('🔧 Step 1: Getting Solana wallet...');
-      const wallet = await getSolanaWallet(runtime);
+      const service = getSwigWalletService(runtime);
+      const wallet = await service.getWallet();
       if (!wallet) {
         console.log('🔧 ERROR: No wallet configured');
         throw new Error(
@@ -103,52 +107,41 @@ export const getSwigTokenBalanceAction: Action = {
       console.log('🔧 Wallet public key:', wallet.publicKey.toBase58());
 
       console.log('🔧 Step 2: Getting Solana connection...');
-      const connection = getSolanaConnection(runtime);
+      const connection = service.getConnection();
       console.log('🔧 Connection RPC endpoint:', connection.rpcEndpoint);
 
-      console.log('🔧 Step 3: Finding Swig PDA...');
-      const [swigAddress] = findSwigPda(wallet.publicKey.toBytes());
-      console.log('🔧 Swig address:', swigAddress.toBase58());
+      console.log('🔧 Step 3: Resolving Swig wallet...');
+      const resolvedSwig = await resolveSwig(runtime, wallet.publicKey, message.content.text || '');
+      const swigAddress = resolvedSwig.address;
+      console.log('🔧 Swig wallet:', resolvedSwig.name, swigAddress.toBase58());
+      const walletAddress = await service.getWalletAddress(swigAddress);
 
-      console.log('🔧 Step 4: Parsing mint address...');
+      console.log('🔧 Step 4: Resolving token...');
       const text = message.content.text || '';
 
-      // Look for mint address in various formats
-      const mintMatch = text.match(/mint\s+([1-9A-HJ-NP-Za-km-z]{32,44})/i);
-      const forTokenMatch = text.match(/for\s+(?:token\s+)?([1-9A-HJ-NP-Za-km-z]{32,44})/i);
-      const ofTokenMatch = text.match(/of\s+(?:token\s+)?([1-9A-HJ-NP-Za-km-z]{32,44})/i);
-      const addresses = text.match(/\b[1-9A-HJ-NP-Za-km-z]{32,44}\b/g) || [];
-
-      let mintAddress: PublicKey;
-
-      if (mintMatch && mintMatch[1]) {
-        mintAddress = new PublicKey(mintMatch[1]);
-      } else if (forTokenMatch && forTokenMatch[1]) {
-        mintAddress = new PublicKey(forTokenMatch[1]);
-      } else if (ofTokenMatch && ofTokenMatch[1]) {
-        mintAddress = new PublicKey(ofTokenMatch[1]);
-      } else if (addresses.length > 0 && addresses[0]) {
-        // Use the first address found
-        mintAddress = new PublicKey(addresses[0]);
-      } else {
+      // Look for a symbol, alias or mint address, else use the first address found
+      const tokenQuery = findTokenQuery(text) ?? findAddresses(text)[0];
+      if (!tokenQuery) {
         throw new Error(
-          "Please specify a token mint address (e.g., 'get swig token balance for 4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU')"
+          "Please specify a token symbol or mint address (e.g., 'get swig USDC balance' or 'get swig token balance for 4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU')"
         );
       }
 
-      console.log('🔧 Mint address:', mintAddress.toBase58());
+      const token = await resolveToken(runtime, tokenQuery);
+      const mintAddress = new PublicKey(token.mint);
+      console.log('🔧 Token:', token.symbol, mintAddress.toBase58());
 
       console.log('🔧 Step 5: Getting mint info...');
       let mintInfo;
       try {
         mintInfo = await getMint(connection, mintAddress);
         console.log('🔧 Token decimals:', mintInfo.decimals);
-      } catch (error) {
+      } catch {
         throw new Error(`Invalid or non-existent token mint: ${mintAddress.toBase58()}`);
       }
 
       console.log('🔧 Step 6: Getting associated token account...');
-      const ata = await getAssociatedTokenAddress(mintAddress, swigAddress, true);
+      const ata = await getAssociatedTokenAddress(mintAddress, walletAddress, true);
       console.log('🔧 Associated token account:', ata.toBase58());
 
       console.log('🔧 Step 7: Getting token account balance...');
@@ -159,7 +152,7 @@ export const getSwigTokenBalanceAction: Action = {
         tokenAccount = await getAccount(connection, ata);
         balance = Number(tokenAccount.amount);
         console.log('🔧 Raw balance:', balance);
-      } catch (error) {
+      } catch {
         console.log('🔧 Token account does not exist, balance is 0');
         balance = 0;
       }
@@ -167,9 +160,9 @@ export const getSwigTokenBalanceAction: Action = {
       const adjustedBalance = balance / Math.pow(10, mintInfo.decimals);
       console.log('🔧 Adjusted balance:', adjustedBalance);
 
-      const tokenSymbol = mintAddress.toBase58().substring(0, 8) + '...';
+      const tokenSymbol = token.symbol;
       const responseContent = {
-        text: `🏦 Swig Token Balance\n\nWallet: ${swigAddress.toBase58()}\nToken Mint: ${mintAddress.toBase58()}\nToken Symbol: ${tokenSymbol}\nBalance: ${adjustedBalance.toLocaleString()} tokens\nRaw Balance: ${balance.toLocaleString()} (${mintInfo.decimals} decimals)\n\n${tokenAccount ? 'Token account exists' : 'No token account (balance is 0)'}`,
+        text: `🏦 Swig Token Balance\n\nWallet: ${describeSwig(resolvedSwig)}\nToken: ${describeToken(token, mintInfo.decimals)}\nToken Mint: ${mintAddress.toBase58()}\nBalance: ${adjustedBalance.toLocaleString()} ${tokenSymbol}\nRaw Balance: ${balance.toLocaleString()} (${mintInfo.decimals} decimals)\n\n${tokenAccount ? 'Token account exists' : 'No token account (balance is 0)'}`,
         thought: `Retrieved token balance for ${tokenSymbol} in Swig wallet: ${adjustedBalance} tokens.`,
         actions: ['GET_SWIG_TOKEN_BALANCE', 'REPLY'],
         source: message.content.source,
@@ -257,6 +250,19 @@ export const getSwigTokenBalanceAction: Action = {
         },
       },
     ],
+    [
+      {
+        name: 'User',
+        content: { text: 'How much USDC is in my swig? Show the balance' },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: 'Checking the USDC balance of your Swig wallet...',
+          action: 'GET_SWIG_TOKEN_BALANCE',
+        },
+      },
+    ],
     [
       {
         name: 'User',
@@ -265,7 +271,7 @@ export const getSwigTokenBalanceAction: Action = {
       {
         name: 'Agent',
         content: {
-          text: 'Please specify the token mint address to check the balance.',
+          text: 'Please specify the token symbol or mint address to check the balance.',
           action: 'GET_SWIG_TOKEN_BALANCE',
         },
       },
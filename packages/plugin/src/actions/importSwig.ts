@@ -0,0 +1,285 @@
+import {
+  type Action,
+  type ActionExample,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  Role,
+  type State,
+} from '@elizaos/core';
+import { PublicKey } from '@solana/web3.js';
+import { requireSenderRole } from '../access.js';
+import { describeRoleActions } from '../permissions.js';
+import {
+  DEFAULT_SWIG_NAME,
+  describeSwig,
+  getDefaultSwigAddress,
+  getSwigRegistry,
+  registerSwig,
+} from '../registry.js';
+import { getSwigWalletService } from '../services/swigWallet.js';
+import { isDryRun } from '../transactions.js';
+import { getSwigTokenHoldings } from '../utils.js';
+
+export const importSwigAction: Action = {
+  name: 'IMPORT_SWIG',
+  similes: ['ATTACH_SWIG', 'USE_EXISTING_SWIG', 'ADD_EXISTING_SWIG', 'CONNECT_SWIG'],
+  description:
+    'Attach the agent to an existing Swig wallet by its address, e.g. one created by a human where the agent was added as a limited authority',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, _state?: State) => {
+    const text = message.content.text?.toLowerCase() || '';
+    const keywords = [
+      'import swig',
+      'attach swig',
+      'connect swig',
+      'use existing swig',
+      'use swig at',
+      'import the swig',
+      'import a swig',
+    ];
+
+    console.log(
+      '🔍 IMPORT_SWIG validation:',
+      `"${text}" -> ${keywords.some((keyword) => text.includes(keyword))}`
+    );
+    return keywords.some((keyword) => text.includes(keyword));
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+    _options?: any,
+    callback?: HandlerCallback,
+    responses?: Memory[]
+  ): Promise<boolean> => {
+    console.log('🔧 IMPORT_SWIG action handler called!');
+    console.log('🔧 Callback function present:', !!callback);
+    console.log('🔧 Message content:', message.content.text);
+    console.log('🔧 Responses array length:', responses?.length || 0);
+
+    // Importing only saves the Swig to the registry and sends no transaction, so there is nothing to simulate
+    if (isDryRun(runtime, message.content.text || '')) {
+      console.log('🔧 Dry run refused - this action cannot be simulated');
+      const errorContent = {
+        text: `❌ This action cannot be simulated. Send the request again without "dry run" or "simulate" to run it, or unset SWIG_DRY_RUN.`,
+        thought:
+          'The user asked for a dry run of an action that cannot be simulated; nothing was built or sent.',
+        actions: ['IMPORT_SWIG', 'REPLY'],
+        source: message.content.source,
+      };
+
+      if (responses && responses.length > 0) {
+        responses[0].content = errorContent;
+      }
+
+      if (callback) {
+        await callback(errorContent);
+      }
+
+      return true;
+    }
+
+    try {
+      console.log('🔧 Step 1: Getting Solana wallet...');
+      const service = getSwigWalletService(runtime);
+      const wallet = await service.getWallet();
+      if (!wallet) {
+        console.log('🔧 ERROR: No wallet configured');
+        throw new Error(
+          'Solana wallet not configured. Please set SOLANA_PRIVATE_KEY in runtime settings.'
+        );
+      }
+      console.log('🔧 Wallet public key:', wallet.publicKey.toBase58());
+
+      console.log('🔧 Step 2: Getting Solana connection...');
+      const connection = service.getConnection();
+      console.log('🔧 Connection RPC endpoint:', connection.rpcEndpoint);
+
+      console.log('🔧 Step 3: Parsing Swig address and name...');
+      const text = message.content.text || '';
+      const addressMatch = text.match(/\b([1-9A-HJ-NP-Za-km-z]{32,44})\b/);
+      if (!addressMatch) {
+        throw new Error(
+          "Please provide the Swig address to import (e.g., 'import swig 9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM as ops')"
+        );
+      }
+      const swigAddress = new PublicKey(addressMatch[1]);
+      const nameMatch = text.match(
+        /\b(?:as|named|called)\s+(?:the\s+)?["']?([a-z0-9][a-z0-9_-]{0,31})/i
+      );
+      const swigName = nameMatch ? nameMatch[1].toLowerCase() : DEFAULT_SWIG_NAME;
+      console.log('🔧 Swig address:', swigAddress.toBase58());
+      console.log('🔧 Swig name:', swigName);
+
+      console.log('🔧 Step 4: Fetching Swig wallet...');
+      const swig = await service.getNullableSwig(swigAddress, { refresh: true });
+      if (!swig) {
+        throw new Error(`No Swig wallet found at ${swigAddress.toBase58()}.`);
+      }
+
+      const roles = swig.findRolesByEd25519SignerPk(wallet.publicKey);
+      console.log('🔧 Found roles for current wallet:', roles.length);
+      if (!roles.length) {
+        throw new Error(
+          `The agent wallet ${wallet.publicKey.toBase58()} is not an authority on this Swig. Ask an owner to add it with the permissions it needs, then import again.`
+        );
+      }
+
+      console.log('🔧 Step 5: Checking the Swig name...');
+      // The default name also covers the Swig derived from the agent key once it exists
+      const registry = await getSwigRegistry(runtime);
+      let existingAddress = registry.find((entry) => entry.name === swigName)?.address;
+      if (!existingAddress && swigName === DEFAULT_SWIG_NAME) {
+        const defaultAddress = await getDefaultSwigAddress(runtime, wallet.publicKey);
+        if (await service.getNullableSwig(defaultAddress)) {
+          existingAddress = defaultAddress.toBase58();
+        }
+      }
+      const replacing = !!existingAddress && existingAddress !== swigAddress.toBase58();
+      if (replacing) {
+        if (!/\b(?:replace|replacing|overwrite|overwriting)\b/i.test(text)) {
+          throw new Error(
+            `The name "${swigName}" already refers to the Swig wallet ${existingAddress}. Import it under another name (e.g., 'import swig ${swigAddress.toBase58()} as ops'), or ask an admin to replace it explicitly ('import swig ${swigAddress.toBase58()} as ${swigName}, replacing the existing one').`
+          );
+        }
+        await requireSenderRole(
+          runtime,
+          message,
+          Role.ADMIN,
+          `replace the "${swigName}" Swig wallet`
+        );
+        console.log('🔧 Replacing Swig wallet:', existingAddress);
+      }
+
+      console.log('🔧 Step 6: Registering Swig wallet...');
+      await registerSwig(
+        runtime,
+        {
+          name: swigName,
+          address: swigAddress.toBase58(),
+          createdAt: Date.now(),
+        },
+        { replace: replacing }
+      );
+      await service.watchDeposits(swigAddress);
+
+      const currentSlot = await connection.getSlot();
+      const tokens = await getSwigTokenHoldings(
+        connection,
+        await service.getWalletAddress(swigAddress)
+      );
+      const rolesList = roles
+        .map((role) => {
+          const permissions = describeRoleActions(role.actions, currentSlot, tokens)
+            .map((line) => `   • ${line}`)
+            .join('\n');
+          return `Role ${role.id}:\n${permissions}`;
+        })
+        .join('\n\n');
+
+      const overriddenBySetting =
+        swigName === DEFAULT_SWIG_NAME && !!runtime.getSetting('SWIG_ADDRESS');
+
+      const responseContent = {
+        text: `✅ Swig wallet imported!\n\nSwig Address: ${describeSwig({ name: swigName, address: swigAddress })}\n${
+          swigName === DEFAULT_SWIG_NAME
+            ? 'Used as the default Swig wallet.'
+            : `Refer to it as "the ${swigName} swig".`
+        }${replacing ? `\n⚠️ Replaced the Swig wallet previously named "${swigName}": ${existingAddress}` : ''}${
+          overriddenBySetting
+            ? '\n⚠️ SWIG_ADDRESS is set and takes precedence as the default Swig wallet.'
+            : ''
+        }\n\nAgent Roles:\n${rolesList}`,
+        thought: `Imported the Swig wallet at ${swigAddress.toBase58()} where the agent holds ${roles.length} role(s).`,
+        actions: ['IMPORT_SWIG', 'REPLY'],
+        source: message.content.source,
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with success content');
+        responses[0].content = responseContent;
+      }
+
+      // Send response using callback
+      console.log('🔧 Sending success response via callback');
+      console.log('🔧 Response content:', JSON.stringify(responseContent, null, 2));
+      if (callback) {
+        console.log('🔧 Calling callback...');
+        await callback(responseContent);
+        console.log('🔧 Callback completed successfully!');
+      } else {
+        console.log('⚠️ No callback provided to action handler');
+      }
+
+      return true;
+    } catch (error) {
+      console.error('🔧 Import swig error:', error);
+      console.error('🔧 Error stack:', error instanceof Error ? error.stack : 'No stack trace');
+
+      const errorContent = {
+        text: `❌ Failed to import Swig wallet: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+        thought:
+          'Failed to import the Swig wallet. This could be due to an invalid address, the agent not being an authority on it, the name already being taken, or network issues.',
+        actions: ['IMPORT_SWIG', 'REPLY'],
+        source: message.content.source,
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with error content');
+        responses[0].content = errorContent;
+      }
+
+      // Send error response using callback
+      console.log('🔧 Sending error response via callback');
+      console.log('🔧 Error content:', JSON.stringify(errorContent, null, 2));
+      if (callback) {
+        console.log('🔧 Calling callback with error...');
+        await callback(errorContent);
+        console.log('🔧 Error callback completed');
+      } else {
+        console.log('⚠️ No callback provided for error response');
+      }
+
+      return true;
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: 'User',
+        content: {
+          text: 'Import swig 9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM as ops',
+        },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: "I'll attach to that Swig wallet and register it as the ops swig.",
+          action: 'IMPORT_SWIG',
+        },
+      },
+    ],
+    [
+      {
+        name: 'User',
+        content: {
+          text: 'Use existing swig 2dr69TRDpT6LNec6XSuLSAyyxcjGiivn7T7MgL1udtms',
+        },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: 'Checking your role on that Swig and making it the default wallet...',
+          action: 'IMPORT_SWIG',
+        },
+      },
+    ],
+  ] as ActionExample[][],
+};
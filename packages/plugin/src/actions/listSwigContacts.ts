@@ -0,0 +1,139 @@
+import {
+  type Action,
+  type ActionExample,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+} from '@elizaos/core';
+import { describeContact, getSwigContacts } from '../contacts.js';
+
+export const listSwigContactsAction: Action = {
+  name: 'LIST_SWIG_CONTACTS',
+  similes: ['SHOW_SWIG_CONTACTS', 'GET_SWIG_CONTACTS', 'SHOW_ADDRESS_BOOK', 'LIST_ADDRESS_BOOK'],
+  description:
+    'List the named contacts of the address book that Swig transfers can use instead of addresses and role IDs',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, _state?: State) => {
+    const text = message.content.text?.toLowerCase() || '';
+    const keywords = [
+      'list contacts',
+      'show contacts',
+      'list swig contacts',
+      'show swig contacts',
+      'show my contacts',
+      'list my contacts',
+      'contact list',
+      'list address book',
+      'show address book',
+      'show the address book',
+      "who's in my address book",
+      'who is in my address book',
+    ];
+
+    console.log(
+      '🔍 LIST_SWIG_CONTACTS validation:',
+      `"${text}" -> ${keywords.some((keyword) => text.includes(keyword))}`
+    );
+    return keywords.some((keyword) => text.includes(keyword));
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+    _options?: any,
+    callback?: HandlerCallback,
+    responses?: Memory[]
+  ): Promise<boolean> => {
+    console.log('🔧 LIST_SWIG_CONTACTS action handler called!');
+    console.log('🔧 Callback function present:', !!callback);
+    console.log('🔧 Message content:', message.content.text);
+    console.log('🔧 Responses array length:', responses?.length || 0);
+
+    try {
+      console.log('🔧 Step 1: Loading contacts...');
+      const contacts = await getSwigContacts(runtime, message);
+      console.log('🔧 Contacts found:', contacts.length);
+
+      const sortedContacts = [...contacts].sort((a, b) => a.name.localeCompare(b.name));
+      const responseContent = {
+        text: sortedContacts.length
+          ? `📇 Swig Contacts (${sortedContacts.length})\n\n${sortedContacts
+              .map((contact) => `• ${describeContact(contact)}`)
+              .join('\n')}`
+          : "📇 The address book is empty. Save a contact with e.g. 'save contact alice <ADDRESS>'.",
+        thought: `Listed ${sortedContacts.length} contact(s) from the address book.`,
+        actions: ['LIST_SWIG_CONTACTS', 'REPLY'],
+        source: message.content.source,
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with success content');
+        responses[0].content = responseContent;
+      }
+
+      // Send response using callback
+      console.log('🔧 Sending success response via callback');
+      console.log('🔧 Response content:', JSON.stringify(responseContent, null, 2));
+      if (callback) {
+        console.log('🔧 Calling callback...');
+        await callback(responseContent);
+        console.log('🔧 Callback completed successfully!');
+      } else {
+        console.log('⚠️ No callback provided to action handler');
+      }
+
+      return true;
+    } catch (error) {
+      console.error('🔧 List swig contacts error:', error);
+      console.error('🔧 Error stack:', error instanceof Error ? error.stack : 'No stack trace');
+
+      const errorContent = {
+        text: `❌ Failed to list contacts: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        thought:
+          'Failed to list the contacts. The address book could not be read from the runtime cache.',
+        actions: ['LIST_SWIG_CONTACTS', 'REPLY'],
+        source: message.content.source,
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with error content');
+        responses[0].content = errorContent;
+      }
+
+      // Send error response using callback
+      console.log('🔧 Sending error response via callback');
+      console.log('🔧 Error content:', JSON.stringify(errorContent, null, 2));
+      if (callback) {
+        console.log('🔧 Calling callback with error...');
+        await callback(errorContent);
+        console.log('🔧 Error callback completed');
+      } else {
+        console.log('⚠️ No callback provided for error response');
+      }
+
+      return true;
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: 'User',
+        content: {
+          text: 'Show my contacts',
+        },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: "Here's your address book.",
+          action: 'LIST_SWIG_CONTACTS',
+        },
+      },
+    ],
+  ] as ActionExample[][],
+};
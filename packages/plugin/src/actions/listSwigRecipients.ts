@@ -0,0 +1,199 @@
+import {
+  type Action,
+  type ActionExample,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+} from '@elizaos/core';
+import { describeContact } from '../contacts.js';
+import { findAddresses } from '../parameters.js';
+import {
+  describeSwigRecipientRefusal,
+  getSwigRecipientRefusals,
+  getSwigRecipientRules,
+} from '../recipients.js';
+
+/**
+ * How many refused transfers the reply lists
+ */
+const LISTED_REFUSALS = 10;
+
+export const listSwigRecipientsAction: Action = {
+  name: 'LIST_SWIG_RECIPIENTS',
+  similes: [
+    'SHOW_SWIG_RECIPIENTS',
+    'SHOW_SWIG_ALLOWLIST',
+    'SHOW_SWIG_DENYLIST',
+    'SHOW_REFUSED_SWIG_TRANSFERS',
+  ],
+  description:
+    'Show the recipient mode, the allowed and denied addresses and trusted contacts for outgoing Swig transfers, and recently refused transfers',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, _state?: State) => {
+    const text = message.content.text?.toLowerCase() || '';
+
+    const hasShowWord = /\b(show|list|view|what|which|who)\b/.test(text);
+    const hasRecipientListWord =
+      /\b(allowlist|denylist|whitelist|blacklist|recipient (?:lists?|mode)|allowed recipients|blocked (?:recipients|addresses)|refused transfers|trusted (?:contacts|recipients))\b/.test(
+        text
+      );
+    const hasAddress = findAddresses(message.content.text || '').length > 0;
+
+    const result = hasShowWord && hasRecipientListWord && !hasAddress;
+    console.log('🔍 LIST_SWIG_RECIPIENTS validation:', `"${text}" -> ${result}`);
+    console.log(
+      '🔍 Show word:',
+      hasShowWord,
+      'Recipient list word:',
+      hasRecipientListWord,
+      'Address:',
+      hasAddress
+    );
+
+    return result;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+    _options?: any,
+    callback?: HandlerCallback,
+    responses?: Memory[]
+  ): Promise<boolean> => {
+    console.log('🔧 LIST_SWIG_RECIPIENTS action handler called!');
+    console.log('🔧 Callback function present:', !!callback);
+    console.log('🔧 Message content:', message.content.text);
+    console.log('🔧 Responses array length:', responses?.length || 0);
+
+    try {
+      console.log('🔧 Step 1: Loading recipient lists...');
+      const rules = await getSwigRecipientRules(runtime, message);
+      console.log('🔧 Recipient mode:', rules.mode, 'from', rules.modeSource);
+
+      console.log('🔧 Step 2: Loading refused transfers...');
+      const refusals = (await getSwigRecipientRefusals(runtime)).slice(0, LISTED_REFUSALS);
+      console.log('🔧 Refused transfers found:', refusals.length);
+
+      const listAddresses = (settingAddresses: string[], chatAddresses: string[]) => {
+        const lines = [
+          ...settingAddresses.map((address) => `• ${address} (settings)`),
+          ...chatAddresses.map((address) => `• ${address}`),
+        ];
+        return lines.length ? lines.join('\n') : '• none';
+      };
+      const modeDescription =
+        rules.mode === 'off'
+          ? 'off (any address except denied ones; the allowlist is not enforced)'
+          : rules.mode === 'allowlist'
+            ? 'allowlist (only allowed addresses and trusted contacts)'
+            : 'denylist (any address except denied ones)';
+
+      const sections = [
+        `Mode: ${modeDescription}${rules.modeSource === 'setting' ? ', set by SWIG_RECIPIENT_MODE' : ''}`,
+        `Allowed:\n${listAddresses(rules.settingAllowed, rules.chatAllowed)}`,
+        `Trusted contacts:\n${
+          rules.trustedContacts.length
+            ? rules.trustedContacts.map((contact) => `• ${describeContact(contact)}`).join('\n')
+            : '• none'
+        }`,
+        `Denied:\n${listAddresses(rules.settingDenied, rules.chatDenied)}`,
+      ];
+      if (refusals.length) {
+        sections.push(
+          `Recently refused:\n${refusals.map((refusal) => `• ${describeSwigRecipientRefusal(refusal)}`).join('\n')}`
+        );
+      }
+
+      const responseContent = {
+        text: `🛡️ Swig Recipient Lists\n\n${sections.join('\n\n')}`,
+        thought: `Listed the Swig recipient lists in ${rules.mode} mode and ${refusals.length} refused transfer(s).`,
+        actions: ['LIST_SWIG_RECIPIENTS', 'REPLY'],
+        source: message.content.source,
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with success content');
+        responses[0].content = responseContent;
+      }
+
+      // Send response using callback
+      console.log('🔧 Sending success response via callback');
+      console.log('🔧 Response content:', JSON.stringify(responseContent, null, 2));
+      if (callback) {
+        console.log('🔧 Calling callback...');
+        await callback(responseContent);
+        console.log('🔧 Callback completed successfully!');
+      } else {
+        console.log('⚠️ No callback provided to action handler');
+      }
+
+      return true;
+    } catch (error) {
+      console.error('🔧 List swig recipients error:', error);
+      console.error('🔧 Error stack:', error instanceof Error ? error.stack : 'No stack trace');
+
+      const errorContent = {
+        text: `❌ Failed to list recipient lists: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        thought:
+          'Failed to list the recipient lists. A SWIG_RECIPIENT_* setting may be invalid, or the runtime cache could not be read.',
+        actions: ['LIST_SWIG_RECIPIENTS', 'REPLY'],
+        source: message.content.source,
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with error content');
+        responses[0].content = errorContent;
+      }
+
+      // Send error response using callback
+      console.log('🔧 Sending error response via callback');
+      console.log('🔧 Error content:', JSON.stringify(errorContent, null, 2));
+      if (callback) {
+        console.log('🔧 Calling callback with error...');
+        await callback(errorContent);
+        console.log('🔧 Error callback completed');
+      } else {
+        console.log('⚠️ No callback provided for error response');
+      }
+
+      return true;
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: 'User',
+        content: {
+          text: 'Show the swig recipient allowlist',
+        },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: 'Here are the recipient lists for Swig transfers.',
+          action: 'LIST_SWIG_RECIPIENTS',
+        },
+      },
+    ],
+    [
+      {
+        name: 'User',
+        content: {
+          text: 'Which transfers were refused by the recipient lists?',
+        },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: 'Here are the recently refused transfers.',
+          action: 'LIST_SWIG_RECIPIENTS',
+        },
+      },
+    ],
+  ] as ActionExample[][],
+};
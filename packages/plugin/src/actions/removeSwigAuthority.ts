@@ -6,16 +6,24 @@ import {
   type Memory,
   type State,
 } from '@elizaos/core';
-import { PublicKey, Transaction } from '@solana/web3.js';
-import { fetchSwig, findSwigPda, removeAuthorityInstruction } from '@swig-wallet/classic';
-import { getSolanaConnection, getSolanaWallet } from '../utils.js';
+import { getRemoveAuthorityInstructions } from '@swig-wallet/classic';
+import { findRoleByAuthorityAddress, getAuthorityDetails } from '../authorities.js';
+import { describeSwig, resolveSwig } from '../registry.js';
+import { selectAgentRole } from '../roles.js';
+import { getSwigWalletService } from '../services/swigWallet.js';
+import {
+  formatSimulationReport,
+  isDryRun,
+  sendSwigTransaction,
+  simulateSwigTransaction,
+} from '../transactions.js';
 
 export const removeSwigAuthorityAction: Action = {
   name: 'REMOVE_SWIG_AUTHORITY',
   similes: ['REMOVE_AUTHORITY_FROM_SWIG', 'REMOVE_SWIG_SIGNER', 'REVOKE_SWIG_ACCESS'],
-  description: 'Remove an Ed25519 authority from an existing Swig wallet',
+  description: 'Remove an Ed25519 or Secp256k1 (EVM) authority from an existing Swig wallet',
 
-  validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+  validate: async (runtime: IAgentRuntime, message: Memory, _state?: State) => {
     const text = message.content.text?.toLowerCase() || '';
     const keywords = ['remove authority', 'remove signer', 'revoke access', 'remove from swig'];
 
@@ -39,6 +47,9 @@ export const removeSwigAuthorityAction: Action = {
     console.log('🔧 Message content:', message.content.text);
     console.log('🔧 Responses array length:', responses?.length || 0);
 
+    // A dry run only simulates, so it is allowed even when authority management is disabled
+    const dryRun = isDryRun(runtime, message.content.text || '');
+
     // Check if authority management is enabled
     const authorityManagementEnabledSetting = runtime.getSetting(
       'SWIG_AUTHORITY_MANAGEMENT_ENABLED'
@@ -48,7 +59,7 @@ export const removeSwigAuthorityAction: Action = {
         ? true
         : String(authorityManagementEnabledSetting) === 'true';
 
-    if (!authorityManagementEnabled) {
+    if (!authorityManagementEnabled && !dryRun) {
       console.log('🔧 Authority management operation blocked - authority management is disabled');
       const errorContent = {
         text: `❌ Authority management operations are currently disabled. Set SWIG_AUTHORITY_MANAGEMENT_ENABLED=true to enable authority management.`,
@@ -70,7 +81,8 @@ export const removeSwigAuthorityAction: Action = {
 
     try {
       console.log('🔧 Step 1: Getting Solana wallet...');
-      const wallet = await getSolanaWallet(runtime);
+      const service = getSwigWalletService(runtime);
+      const wallet = await service.getWallet();
       if (!wallet) {
         console.log('🔧 ERROR: No wallet configured');
         throw new Error(
@@ -80,21 +92,22 @@ export const removeSwigAuthorityAction: Action = {
       console.log('🔧 Wallet public key:', wallet.publicKey.toBase58());
 
       console.log('🔧 Step 2: Getting Solana connection...');
-      const connection = getSolanaConnection(runtime);
+      const connection = service.getConnection();
       console.log('🔧 Connection RPC endpoint:', connection.rpcEndpoint);
 
-      console.log('🔧 Step 3: Finding Swig PDA...');
-      const [swigAddress] = findSwigPda(wallet.publicKey.toBytes());
-      console.log('🔧 Swig address:', swigAddress.toBase58());
+      console.log('🔧 Step 3: Resolving Swig wallet...');
+      const resolvedSwig = await resolveSwig(runtime, wallet.publicKey, message.content.text || '');
+      const swigAddress = resolvedSwig.address;
+      console.log('🔧 Swig wallet:', resolvedSwig.name, swigAddress.toBase58());
 
       // Extract the authority public key or role ID from the message
       console.log('🔧 Step 4: Parsing authority to remove...');
       const text = message.content.text || '';
-      const publicKeyMatch = text.match(/([1-9A-HJ-NP-Za-km-z]{32,44})/);
+      const publicKeyMatch = text.match(/(0x[0-9a-fA-F]{40}|[1-9A-HJ-NP-Za-km-z]{32,44})/);
       const roleIdMatch = text.match(/role\s*(?:id\s*)?(\d+)/i);
 
       console.log('🔧 Step 5: Fetching existing Swig wallet...');
-      const swig = await fetchSwig(connection, swigAddress);
+      const swig = await service.getSwig(swigAddress, { refresh: true });
       const roles = swig.findRolesByEd25519SignerPk(wallet.publicKey);
       console.log('🔧 Found roles for current wallet:', roles.length);
 
@@ -104,10 +117,13 @@ export const removeSwigAuthorityAction: Action = {
         );
       }
 
-      const agentRole = roles[0];
-      console.log('🔧 Using role:', agentRole);
+      const agentRole = selectAgentRole(
+        roles,
+        { manageAuthority: true },
+        await connection.getSlot()
+      );
+      console.log('🔧 Using role:', agentRole.id);
 
-      let targetAuthorityPubkey: PublicKey;
       let targetRole: any;
 
       if (roleIdMatch) {
@@ -119,22 +135,14 @@ export const removeSwigAuthorityAction: Action = {
         if (!targetRole) {
           throw new Error(`Role ID ${targetRoleId} not found in this Swig wallet.`);
         }
-
-        targetAuthorityPubkey = new PublicKey(targetRole.authority.data);
-        console.log('🔧 Target authority pubkey from role:', targetAuthorityPubkey.toBase58());
       } else if (publicKeyMatch) {
-        // Remove by public key
-        targetAuthorityPubkey = new PublicKey(publicKeyMatch[1]);
-        console.log('🔧 Target authority pubkey:', targetAuthorityPubkey.toBase58());
+        // Remove by public key or EVM address
+        console.log('🔧 Target authority address:', publicKeyMatch[1]);
 
-        targetRole = swig.roles.find((role) =>
-          new PublicKey(role.authority.data).equals(targetAuthorityPubkey)
-        );
+        targetRole = findRoleByAuthorityAddress(swig.roles, publicKeyMatch[1]);
 
         if (!targetRole) {
-          throw new Error(
-            `Authority ${targetAuthorityPubkey.toBase58()} is not found in this Swig wallet.`
-          );
+          throw new Error(`Authority ${publicKeyMatch[1]} is not found in this Swig wallet.`);
         }
 
         console.log('🔧 Found target role ID:', targetRole.id);
@@ -149,8 +157,11 @@ export const removeSwigAuthorityAction: Action = {
         throw new Error('Cannot remove the last authority from the Swig wallet.');
       }
 
+      const targetAuthority = getAuthorityDetails(targetRole.authority);
+      console.log('🔧 Target authority:', targetAuthority.type, targetAuthority.address);
+
       // Prevent self-removal (optional safety check)
-      if (targetAuthorityPubkey.equals(wallet.publicKey)) {
+      if (targetAuthority.solanaAddress?.equals(wallet.publicKey)) {
         throw new Error(
           'Cannot remove your own authority. Use another authority to remove this one.'
         );
@@ -158,36 +169,55 @@ export const removeSwigAuthorityAction: Action = {
 
       console.log('🔧 Step 6: Creating remove authority instruction...');
       // Create remove authority instruction
-      const removeAuthorityIx = await removeAuthorityInstruction(
-        agentRole,
-        wallet.publicKey,
-        targetRole
+      const removeAuthorityIxs = await getRemoveAuthorityInstructions(
+        swig,
+        agentRole.id,
+        targetRole.id,
+        { payer: wallet.publicKey }
       );
       console.log('🔧 Remove authority instruction created');
 
-      console.log('🔧 Step 7: Building and signing transaction...');
-      const transaction = new Transaction().add(removeAuthorityIx);
-      transaction.feePayer = wallet.publicKey;
-      const latestBlockhash = await connection.getLatestBlockhash();
-      transaction.recentBlockhash = latestBlockhash.blockhash;
-      console.log('🔧 Latest blockhash:', latestBlockhash.blockhash);
+      if (dryRun) {
+        console.log('🔧 Step 7: Simulating transaction (dry run)...');
+        const report = await simulateSwigTransaction(
+          runtime,
+          wallet,
+          connection,
+          removeAuthorityIxs
+        );
+        console.log('🔧 Simulation complete, nothing was sent');
 
-      console.log('🔧 Step 8: Signing transaction...');
-      const signedTransaction = await wallet.signTransaction(transaction);
-      console.log('🔧 Transaction signed');
+        const dryRunContent = {
+          text: `🧪 Dry run: remove authority from Swig wallet\n\nAuthority To Remove: ${targetAuthority.address}\nAuthority Type: ${targetAuthority.type}\nRole ID: ${targetRole.id}\nSwig Address: ${describeSwig(resolvedSwig)}\nActing Role: ${agentRole.id}\n\n${formatSimulationReport(report)}`,
+          thought: `Simulated removing an authority from the Swig wallet without sending it.`,
+          actions: ['REMOVE_SWIG_AUTHORITY', 'REPLY'],
+          source: message.content.source,
+        };
 
-      console.log('🔧 Step 9: Sending transaction...');
-      const signature = await connection.sendRawTransaction(signedTransaction.serialize());
-      console.log('🔧 Transaction sent, signature:', signature);
+        if (responses && responses.length > 0) {
+          responses[0].content = dryRunContent;
+        }
+
+        if (callback) {
+          await callback(dryRunContent);
+        }
 
-      console.log('🔧 Step 10: Confirming transaction...');
-      await connection.confirmTransaction(signature, 'confirmed');
+        return true;
+      }
+
+      console.log('🔧 Step 7: Sending transaction...');
+      const { signature } = await sendSwigTransaction(
+        runtime,
+        wallet,
+        connection,
+        removeAuthorityIxs
+      );
       console.log('🔧 Transaction confirmed!');
 
       const responseContent = {
-        text: `✅ Successfully removed authority from Swig wallet!\n\nRemoved Authority: ${targetAuthorityPubkey.toBase58()}\nRole ID: ${
+        text: `✅ Successfully removed authority from Swig wallet!\n\nRemoved Authority: ${targetAuthority.address}\nAuthority Type: ${targetAuthority.type}\nRole ID: ${
           targetRole.id
-        }\nSwig Address: ${swigAddress.toBase58()}\nTransaction: ${signature}`,
+        }\nSwig Address: ${describeSwig(resolvedSwig)}\nActing Role: ${agentRole.id}\nTransaction: ${signature}`,
         thought: 'Successfully removed an authority from the Swig wallet.',
         actions: ['REMOVE_SWIG_AUTHORITY', 'REPLY'],
         source: message.content.source,
@@ -0,0 +1,180 @@
+import {
+  type Action,
+  type ActionExample,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+} from '@elizaos/core';
+import {
+  CONTACT_NAME_PATTERN,
+  describeContact,
+  getSwigContacts,
+  removeSwigContact,
+} from '../contacts.js';
+
+export const removeSwigContactAction: Action = {
+  name: 'REMOVE_SWIG_CONTACT',
+  similes: ['DELETE_SWIG_CONTACT', 'FORGET_SWIG_CONTACT', 'REMOVE_FROM_ADDRESS_BOOK'],
+  description: 'Remove a named contact from the address book used by Swig transfers',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, _state?: State) => {
+    const text = message.content.text?.toLowerCase() || '';
+    const keywords = [
+      'remove contact',
+      'delete contact',
+      'forget contact',
+      'remove swig contact',
+      'delete swig contact',
+      'from address book',
+      'from the address book',
+      'from my address book',
+      'from my contacts',
+    ];
+
+    console.log(
+      '🔍 REMOVE_SWIG_CONTACT validation:',
+      `"${text}" -> ${keywords.some((keyword) => text.includes(keyword))}`
+    );
+    return keywords.some((keyword) => text.includes(keyword));
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+    _options?: any,
+    callback?: HandlerCallback,
+    responses?: Memory[]
+  ): Promise<boolean> => {
+    console.log('🔧 REMOVE_SWIG_CONTACT action handler called!');
+    console.log('🔧 Callback function present:', !!callback);
+    console.log('🔧 Message content:', message.content.text);
+    console.log('🔧 Responses array length:', responses?.length || 0);
+
+    try {
+      console.log('🔧 Step 1: Parsing contact name...');
+      const text = message.content.text || '';
+      const nameMatch = [
+        ...text.matchAll(
+          new RegExp(
+            `\\b(?:contact|remove|delete|forget)\\s+(?:(?:the\\s+)?contact\\s+)?(?:the\\s+)?["']?${CONTACT_NAME_PATTERN}`,
+            'gi'
+          )
+        ),
+      ].find((match) => !['contact', 'swig', 'from'].includes(match[1].toLowerCase()));
+      if (!nameMatch) {
+        throw new Error(
+          "Please provide the name of the contact to remove (e.g., 'remove contact alice')"
+        );
+      }
+      const name = nameMatch[1].toLowerCase();
+      console.log('🔧 Contact name:', name);
+
+      console.log('🔧 Step 2: Removing contact...');
+      const contact = await removeSwigContact(runtime, message, name);
+      if (!contact) {
+        const knownNames = (await getSwigContacts(runtime, message)).map(
+          (existing) => existing.name
+        );
+        throw new Error(
+          `No contact named "${name}". ${
+            knownNames.length
+              ? `Known contacts: ${knownNames.join(', ')}.`
+              : 'The address book is empty.'
+          }`
+        );
+      }
+      console.log('🔧 Contact removed:', describeContact(contact));
+
+      const responseContent = {
+        text: `🗑️ Contact removed\n\n${describeContact(contact)}`,
+        thought: `Removed the contact ${contact.name} from the address book.`,
+        actions: ['REMOVE_SWIG_CONTACT', 'REPLY'],
+        source: message.content.source,
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with success content');
+        responses[0].content = responseContent;
+      }
+
+      // Send response using callback
+      console.log('🔧 Sending success response via callback');
+      console.log('🔧 Response content:', JSON.stringify(responseContent, null, 2));
+      if (callback) {
+        console.log('🔧 Calling callback...');
+        await callback(responseContent);
+        console.log('🔧 Callback completed successfully!');
+      } else {
+        console.log('⚠️ No callback provided to action handler');
+      }
+
+      return true;
+    } catch (error) {
+      console.error('🔧 Remove swig contact error:', error);
+      console.error('🔧 Error stack:', error instanceof Error ? error.stack : 'No stack trace');
+
+      const errorContent = {
+        text: `❌ Failed to remove contact: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        thought:
+          'Failed to remove the contact. There may be no contact with that name, or it was saved by someone else and the sender is not an admin.',
+        actions: ['REMOVE_SWIG_CONTACT', 'REPLY'],
+        source: message.content.source,
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with error content');
+        responses[0].content = errorContent;
+      }
+
+      // Send error response using callback
+      console.log('🔧 Sending error response via callback');
+      console.log('🔧 Error content:', JSON.stringify(errorContent, null, 2));
+      if (callback) {
+        console.log('🔧 Calling callback with error...');
+        await callback(errorContent);
+        console.log('🔧 Error callback completed');
+      } else {
+        console.log('⚠️ No callback provided for error response');
+      }
+
+      return true;
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: 'User',
+        content: {
+          text: 'Remove contact alice',
+        },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: "I've removed alice from the address book.",
+          action: 'REMOVE_SWIG_CONTACT',
+        },
+      },
+    ],
+    [
+      {
+        name: 'User',
+        content: {
+          text: 'Delete treasury-bot from my address book',
+        },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: 'Removing treasury-bot from your contacts...',
+          action: 'REMOVE_SWIG_CONTACT',
+        },
+      },
+    ],
+  ] as ActionExample[][],
+};
@@ -0,0 +1,203 @@
+import {
+  type Action,
+  type ActionExample,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+} from '@elizaos/core';
+import { describeSwig, resolveSwig } from '../registry.js';
+import { getSwigWalletService } from '../services/swigWallet.js';
+import { revokeSwigSession } from '../session.js';
+import { isDryRun } from '../transactions.js';
+
+export const revokeSwigSessionAction: Action = {
+  name: 'REVOKE_SWIG_SESSION',
+  similes: ['END_SWIG_SESSION', 'STOP_SWIG_SESSION', 'REVOKE_SESSION_KEY'],
+  description:
+    "Revoke the agent's active Swig session key so it can no longer sign; transfers fall back to the main wallet",
+
+  validate: async (runtime: IAgentRuntime, message: Memory, _state?: State) => {
+    const text = message.content.text?.toLowerCase() || '';
+    const isValid = /\b(?:revoke|end|close|stop|kill)\b.*\bsession\b/.test(text);
+
+    console.log('🔍 REVOKE_SWIG_SESSION validation:', `"${text}" -> ${isValid}`);
+    return isValid;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+    _options?: any,
+    callback?: HandlerCallback,
+    responses?: Memory[]
+  ): Promise<boolean> => {
+    console.log('🔧 REVOKE_SWIG_SESSION action handler called!');
+    console.log('🔧 Callback function present:', !!callback);
+    console.log('🔧 Message content:', message.content.text);
+    console.log('🔧 Responses array length:', responses?.length || 0);
+
+    // Revoking a session also forgets the local session key, so it cannot be simulated
+    if (isDryRun(runtime, message.content.text || '')) {
+      console.log('🔧 Dry run refused - this action cannot be simulated');
+      const errorContent = {
+        text: `❌ This action cannot be simulated. Send the request again without "dry run" or "simulate" to run it, or unset SWIG_DRY_RUN.`,
+        thought:
+          'The user asked for a dry run of an action that cannot be simulated; nothing was built or sent.',
+        actions: ['REVOKE_SWIG_SESSION', 'REPLY'],
+        source: message.content.source,
+      };
+
+      if (responses && responses.length > 0) {
+        responses[0].content = errorContent;
+      }
+
+      if (callback) {
+        await callback(errorContent);
+      }
+
+      return true;
+    }
+
+    // Check if authority management is enabled
+    const authorityManagementEnabledSetting = runtime.getSetting(
+      'SWIG_AUTHORITY_MANAGEMENT_ENABLED'
+    );
+    const authorityManagementEnabled =
+      authorityManagementEnabledSetting === undefined
+        ? true
+        : String(authorityManagementEnabledSetting) === 'true';
+
+    if (!authorityManagementEnabled) {
+      console.log('🔧 Authority management operation blocked - authority management is disabled');
+      const errorContent = {
+        text: `❌ Authority management operations are currently disabled. Set SWIG_AUTHORITY_MANAGEMENT_ENABLED=true to enable authority management.`,
+        thought: 'Authority management operations have been disabled in the plugin configuration.',
+        actions: ['REVOKE_SWIG_SESSION', 'REPLY'],
+        source: message.content.source,
+      };
+
+      if (responses && responses.length > 0) {
+        responses[0].content = errorContent;
+      }
+
+      if (callback) {
+        await callback(errorContent);
+      }
+
+      return true;
+    }
+
+    try {
+      console.log('🔧 Step 1: Getting Solana wallet...');
+      const service = getSwigWalletService(runtime);
+      const wallet = await service.getWallet();
+      if (!wallet) {
+        console.log('🔧 ERROR: No wallet configured');
+        throw new Error(
+          'Solana wallet not configured. Please set SOLANA_PRIVATE_KEY in runtime settings.'
+        );
+      }
+      console.log('🔧 Wallet public key:', wallet.publicKey.toBase58());
+
+      console.log('🔧 Step 2: Getting Solana connection...');
+      const connection = service.getConnection();
+      console.log('🔧 Connection RPC endpoint:', connection.rpcEndpoint);
+
+      console.log('🔧 Step 3: Resolving Swig wallet...');
+      const resolvedSwig = await resolveSwig(runtime, wallet.publicKey, message.content.text || '');
+      const swigAddress = resolvedSwig.address;
+      console.log('🔧 Swig wallet:', resolvedSwig.name, swigAddress.toBase58());
+
+      console.log('🔧 Step 4: Fetching existing Swig wallet...');
+      const swig = await service.getSwig(swigAddress, { refresh: true });
+
+      console.log('🔧 Step 5: Revoking session...');
+      const revoked = await revokeSwigSession(runtime, wallet, connection, swigAddress, swig);
+
+      const responseContent = revoked
+        ? {
+            text: `✅ Swig session revoked!\n\nSession Key: ${revoked.record.sessionKey}\nSession Role ID: ${revoked.record.roleId}\nSwig Address: ${describeSwig(resolvedSwig)}\n\nTransfers will be signed with the main wallet until a new session is created.${revoked.signature ? `\nTransaction: ${revoked.signature}` : ''}`,
+            thought: `Revoked the session key of session role ${revoked.record.roleId}.`,
+            actions: ['REVOKE_SWIG_SESSION', 'REPLY'],
+            source: message.content.source,
+          }
+        : {
+            text: `ℹ️ There is no active Swig session to revoke for ${describeSwig(resolvedSwig)}.`,
+            thought: 'No session key was stored for this Swig wallet.',
+            actions: ['REVOKE_SWIG_SESSION', 'REPLY'],
+            source: message.content.source,
+          };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with success content');
+        responses[0].content = responseContent;
+      }
+
+      // Send response using callback
+      console.log('🔧 Sending success response via callback');
+      console.log('🔧 Response content:', JSON.stringify(responseContent, null, 2));
+      if (callback) {
+        console.log('🔧 Calling callback...');
+        await callback(responseContent);
+        console.log('🔧 Callback completed successfully!');
+      } else {
+        console.log('⚠️ No callback provided to action handler');
+      }
+
+      return true;
+    } catch (error) {
+      console.error('🔧 Revoke swig session error:', error);
+      console.error('🔧 Error stack:', error instanceof Error ? error.stack : 'No stack trace');
+
+      const errorContent = {
+        text: `❌ Failed to revoke Swig session: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+        thought:
+          'Failed to revoke the session key. This could be due to network issues or the session role having been removed.',
+        actions: ['REVOKE_SWIG_SESSION', 'REPLY'],
+        source: message.content.source,
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with error content');
+        responses[0].content = errorContent;
+      }
+
+      // Send error response using callback
+      console.log('🔧 Sending error response via callback');
+      console.log('🔧 Error content:', JSON.stringify(errorContent, null, 2));
+      if (callback) {
+        console.log('🔧 Calling callback with error...');
+        await callback(errorContent);
+        console.log('🔧 Error callback completed');
+      } else {
+        console.log('⚠️ No callback provided for error response');
+      }
+
+      return true;
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: 'User',
+        content: {
+          text: 'Revoke the swig session',
+        },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: "I'll revoke the current session key.",
+          action: 'REVOKE_SWIG_SESSION',
+        },
+      },
+    ],
+  ] as ActionExample[][],
+};
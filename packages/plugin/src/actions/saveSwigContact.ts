@@ -0,0 +1,257 @@
+import {
+  type Action,
+  type ActionExample,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  Role,
+  type State,
+} from '@elizaos/core';
+import { requireSenderRole } from '../access.js';
+import {
+  CONTACT_NAME_PATTERN,
+  describeContact,
+  getSwigContacts,
+  saveSwigContact,
+} from '../contacts.js';
+import { findAddresses } from '../parameters.js';
+import { describeSwig, resolveSwig } from '../registry.js';
+import { getSwigWalletService } from '../services/swigWallet.js';
+import { SwigContact } from '../types.js';
+
+export const saveSwigContactAction: Action = {
+  name: 'SAVE_SWIG_CONTACT',
+  similes: ['ADD_SWIG_CONTACT', 'NAME_SWIG_ADDRESS', 'NAME_SWIG_ROLE', 'ADD_TO_ADDRESS_BOOK'],
+  description:
+    'Save a named contact for an address or a Swig role, so transfers can say "to alice" or "to role treasury-bot", or update one you saved. Admins can save address contacts as trusted recipients and update any contact.',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, _state?: State) => {
+    const text = message.content.text?.toLowerCase() || '';
+    const keywords = [
+      'save contact',
+      'add contact',
+      'save trusted contact',
+      'add trusted contact',
+      'create contact',
+      'new contact',
+      'save swig contact',
+      'add swig contact',
+      'to address book',
+      'to the address book',
+      'to my address book',
+      'to my contacts',
+      'update contact',
+      'change contact',
+      'update swig contact',
+    ];
+
+    console.log(
+      '🔍 SAVE_SWIG_CONTACT validation:',
+      `"${text}" -> ${keywords.some((keyword) => text.includes(keyword))}`
+    );
+    return keywords.some((keyword) => text.includes(keyword));
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+    _options?: any,
+    callback?: HandlerCallback,
+    responses?: Memory[]
+  ): Promise<boolean> => {
+    console.log('🔧 SAVE_SWIG_CONTACT action handler called!');
+    console.log('🔧 Callback function present:', !!callback);
+    console.log('🔧 Message content:', message.content.text);
+    console.log('🔧 Responses array length:', responses?.length || 0);
+
+    try {
+      console.log('🔧 Step 1: Parsing contact name...');
+      const text = message.content.text || '';
+      const nameMatch = [
+        ...text.matchAll(
+          new RegExp(
+            `\\b(?:contact(?:\\s+(?:named|called))?|named|called|as)\\s+["']?${CONTACT_NAME_PATTERN}`,
+            'gi'
+          )
+        ),
+      ].find(
+        (match) =>
+          !['named', 'called', 'as', 'for', 'role', 'trusted'].includes(match[1].toLowerCase())
+      );
+      if (!nameMatch) {
+        throw new Error(
+          "Please provide a name for the contact (e.g., 'save contact alice 9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM' or 'save contact treasury-bot as role 2')"
+        );
+      }
+      const name = nameMatch[1].toLowerCase();
+      console.log('🔧 Contact name:', name);
+
+      console.log('🔧 Step 2: Parsing contact target...');
+      const addresses = findAddresses(text);
+      const roleIdMatch = text.match(/\brole\s*(?:id\s*)?(\d+)/i);
+      if (addresses.length > 1 || (addresses.length === 1 && roleIdMatch)) {
+        throw new Error(
+          'A contact is either one address or one role. Please give only the one it stands for.'
+        );
+      }
+
+      let contact: SwigContact;
+      let swigDescription = '';
+      if (roleIdMatch) {
+        // Role IDs only mean something on one Swig, so role contacts are tied to it
+        const wallet = await getSwigWalletService(runtime).getWallet();
+        if (!wallet) {
+          throw new Error(
+            'Solana wallet not configured. Please set SOLANA_PRIVATE_KEY in runtime settings.'
+          );
+        }
+        const resolvedSwig = await resolveSwig(runtime, wallet.publicKey, text);
+        swigDescription = describeSwig(resolvedSwig);
+        contact = {
+          name,
+          roleId: parseInt(roleIdMatch[1]),
+          swigAddress: resolvedSwig.address.toBase58(),
+          createdAt: Date.now(),
+        };
+      } else if (addresses.length === 1) {
+        contact = { name, address: addresses[0], createdAt: Date.now() };
+      } else {
+        throw new Error(
+          `Please give the address or role that "${name}" stands for (e.g., 'save contact ${name} 9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM' or 'save contact ${name} as role 2')`
+        );
+      }
+
+      // Only admins mark contacts as trusted; a trusted contact stays trusted
+      // while it is saved again with the same address
+      const existing = (await getSwigContacts(runtime, message)).find(
+        (saved) => saved.name === name
+      );
+      if (/\btrusted\b/i.test(text)) {
+        if (contact.address === undefined) {
+          throw new Error('Only address contacts can be trusted.');
+        }
+        await requireSenderRole(runtime, message, Role.ADMIN, 'mark contacts as trusted');
+        contact.trusted = true;
+      } else if (existing?.trusted && existing.address === contact.address) {
+        contact.trusted = true;
+      }
+
+      console.log('🔧 Step 3: Saving contact...');
+      // An existing name is only replaced when the message asks to update it
+      const update = /\b(?:update|change|replace|overwrite)\b/i.test(text);
+      await saveSwigContact(runtime, message, contact, { update });
+      console.log('🔧 Contact saved:', describeContact(contact));
+
+      const responseContent = {
+        text: `✅ Contact ${existing ? 'updated' : 'saved'}!\n\n${describeContact(contact)}${
+          swigDescription ? `\nSwig: ${swigDescription}` : ''
+        }\n\nYou can now say e.g. "${
+          contact.roleId !== undefined
+            ? `send 1 SOL from swig to role ${name}`
+            : `send 1 SOL from swig to ${name}`
+        }".`,
+        thought: `Saved the contact ${describeContact(contact)}.`,
+        actions: ['SAVE_SWIG_CONTACT', 'REPLY'],
+        source: message.content.source,
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with success content');
+        responses[0].content = responseContent;
+      }
+
+      // Send response using callback
+      console.log('🔧 Sending success response via callback');
+      console.log('🔧 Response content:', JSON.stringify(responseContent, null, 2));
+      if (callback) {
+        console.log('🔧 Calling callback...');
+        await callback(responseContent);
+        console.log('🔧 Callback completed successfully!');
+      } else {
+        console.log('⚠️ No callback provided to action handler');
+      }
+
+      return true;
+    } catch (error) {
+      console.error('🔧 Save swig contact error:', error);
+      console.error('🔧 Error stack:', error instanceof Error ? error.stack : 'No stack trace');
+
+      const errorContent = {
+        text: `❌ Failed to save contact: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        thought:
+          'Failed to save the contact. The name may be reserved, invalid or already taken, the address or role was missing, or a non-admin tried to save a trusted contact or change one saved by someone else.',
+        actions: ['SAVE_SWIG_CONTACT', 'REPLY'],
+        source: message.content.source,
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with error content');
+        responses[0].content = errorContent;
+      }
+
+      // Send error response using callback
+      console.log('🔧 Sending error response via callback');
+      console.log('🔧 Error content:', JSON.stringify(errorContent, null, 2));
+      if (callback) {
+        console.log('🔧 Calling callback with error...');
+        await callback(errorContent);
+        console.log('🔧 Error callback completed');
+      } else {
+        console.log('⚠️ No callback provided for error response');
+      }
+
+      return true;
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: 'User',
+        content: {
+          text: 'Save contact alice 9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM',
+        },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: 'Saved alice to the address book.',
+          action: 'SAVE_SWIG_CONTACT',
+        },
+      },
+    ],
+    [
+      {
+        name: 'User',
+        content: {
+          text: 'Save contact treasury-bot as role 2',
+        },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: 'Role 2 of your Swig can now be called treasury-bot.',
+          action: 'SAVE_SWIG_CONTACT',
+        },
+      },
+    ],
+    [
+      {
+        name: 'User',
+        content: {
+          text: 'Save trusted contact payroll 2dr69TRDpT6LNec6XSuLSAyyxcjGiivn7T7MgL1udtms',
+        },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: 'Saved payroll as a trusted recipient.',
+          action: 'SAVE_SWIG_CONTACT',
+        },
+      },
+    ],
+  ] as ActionExample[][],
+};
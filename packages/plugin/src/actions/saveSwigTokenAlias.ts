@@ -0,0 +1,192 @@
+import {
+  type Action,
+  type ActionExample,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+} from '@elizaos/core';
+import { getMint } from '@solana/spl-token';
+import { PublicKey } from '@solana/web3.js';
+import { findAddresses } from '../parameters.js';
+import { getSwigWalletService } from '../services/swigWallet.js';
+import { describeToken, getSolanaCluster, resolveToken, saveTokenAlias } from '../tokens.js';
+
+export const saveSwigTokenAliasAction: Action = {
+  name: 'SAVE_SWIG_TOKEN_ALIAS',
+  similes: ['ADD_SWIG_TOKEN_ALIAS', 'NAME_SWIG_TOKEN', 'ALIAS_SWIG_TOKEN', 'SET_TOKEN_ALIAS'],
+  description:
+    'Save a short name for a token mint so later Swig token requests can use it instead of the mint address',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, _state?: State) => {
+    const text = message.content.text?.toLowerCase() || '';
+    const keywords = [
+      'token alias',
+      'alias token',
+      'alias mint',
+      'alias for mint',
+      'alias the token',
+      'alias the mint',
+    ];
+
+    console.log(
+      '🔍 SAVE_SWIG_TOKEN_ALIAS validation:',
+      `"${text}" -> ${keywords.some((keyword) => text.includes(keyword))}`
+    );
+    return keywords.some((keyword) => text.includes(keyword));
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+    _options?: any,
+    callback?: HandlerCallback,
+    responses?: Memory[]
+  ): Promise<boolean> => {
+    console.log('🔧 SAVE_SWIG_TOKEN_ALIAS action handler called!');
+    console.log('🔧 Callback function present:', !!callback);
+    console.log('🔧 Message content:', message.content.text);
+    console.log('🔧 Responses array length:', responses?.length || 0);
+
+    try {
+      console.log('🔧 Step 1: Parsing alias...');
+      const text = message.content.text || '';
+      const aliasMatch = [
+        ...text.matchAll(/\b(?:alias|as)\s+["'$]?([a-z][a-z0-9_-]{1,15})\b/gi),
+      ].find((match) => !['for', 'mint', 'token', 'the'].includes(match[1].toLowerCase()));
+      if (!aliasMatch) {
+        throw new Error(
+          "Please provide the alias and the token (e.g., 'save token alias stable for mint EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v')"
+        );
+      }
+      const alias = aliasMatch[1].toLowerCase();
+      console.log('🔧 Alias:', alias);
+
+      console.log('🔧 Step 2: Resolving token...');
+      // A mint address wins; otherwise the alias can point at a token that is already known
+      const addresses = findAddresses(text);
+      const targetMatch = text.match(
+        /\b(?:for|to)\s+(?:the\s+)?(?:token\s+)?\$?([a-z][\w-]{1,15})\b/i
+      );
+      const target = addresses.length === 1 ? addresses[0] : targetMatch?.[1];
+      if (!target || addresses.length > 1) {
+        throw new Error(
+          'Please give exactly one mint address or known token symbol for the alias to point to.'
+        );
+      }
+      const token = await resolveToken(runtime, target);
+      const mintAddress = new PublicKey(token.mint);
+      console.log('🔧 Token mint:', mintAddress.toBase58());
+
+      console.log('🔧 Step 3: Checking mint...');
+      const connection = getSwigWalletService(runtime).getConnection();
+      let mintInfo;
+      try {
+        mintInfo = await getMint(connection, mintAddress);
+        console.log('🔧 Token decimals:', mintInfo.decimals);
+      } catch {
+        throw new Error(`Invalid or non-existent token mint: ${mintAddress.toBase58()}`);
+      }
+
+      console.log('🔧 Step 4: Saving alias...');
+      await saveTokenAlias(runtime, {
+        alias,
+        mint: mintAddress.toBase58(),
+        createdAt: Date.now(),
+      });
+
+      const aliasedToken = token.decimals === undefined ? { ...token, symbol: alias } : token;
+      const responseContent = {
+        text: `✅ Token alias saved!\n\nAlias: ${alias}\nToken: ${describeToken(aliasedToken, mintInfo.decimals)}\nToken Mint: ${mintAddress.toBase58()}\nCluster: ${getSolanaCluster(runtime)}\n\nYou can now say e.g. "send 5 ${alias} from swig to <ADDRESS>".`,
+        thought: `Saved the token alias "${alias}" for mint ${mintAddress.toBase58()}.`,
+        actions: ['SAVE_SWIG_TOKEN_ALIAS', 'REPLY'],
+        source: message.content.source,
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with success content');
+        responses[0].content = responseContent;
+      }
+
+      // Send response using callback
+      console.log('🔧 Sending success response via callback');
+      console.log('🔧 Response content:', JSON.stringify(responseContent, null, 2));
+      if (callback) {
+        console.log('🔧 Calling callback...');
+        await callback(responseContent);
+        console.log('🔧 Callback completed successfully!');
+      } else {
+        console.log('⚠️ No callback provided to action handler');
+      }
+
+      return true;
+    } catch (error) {
+      console.error('🔧 Save swig token alias error:', error);
+      console.error('🔧 Error stack:', error instanceof Error ? error.stack : 'No stack trace');
+
+      const errorContent = {
+        text: `❌ Failed to save token alias: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+        thought:
+          'Failed to save the token alias. The alias may be reserved, or the mint address may be missing or invalid.',
+        actions: ['SAVE_SWIG_TOKEN_ALIAS', 'REPLY'],
+        source: message.content.source,
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with error content');
+        responses[0].content = errorContent;
+      }
+
+      // Send error response using callback
+      console.log('🔧 Sending error response via callback');
+      console.log('🔧 Error content:', JSON.stringify(errorContent, null, 2));
+      if (callback) {
+        console.log('🔧 Calling callback with error...');
+        await callback(errorContent);
+        console.log('🔧 Error callback completed');
+      } else {
+        console.log('⚠️ No callback provided for error response');
+      }
+
+      return true;
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: 'User',
+        content: {
+          text: 'Save token alias stable for mint EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+        },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: 'Saved "stable" as a name for that token.',
+          action: 'SAVE_SWIG_TOKEN_ALIAS',
+        },
+      },
+    ],
+    [
+      {
+        name: 'User',
+        content: {
+          text: 'Alias mint 9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM as grant-token',
+        },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: "I'll remember that mint as grant-token.",
+          action: 'SAVE_SWIG_TOKEN_ALIAS',
+        },
+      },
+    ],
+  ] as ActionExample[][],
+};
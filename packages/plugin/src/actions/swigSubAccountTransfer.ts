@@ -0,0 +1,343 @@
+import {
+  type Action,
+  type ActionExample,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+} from '@elizaos/core';
+import { PublicKey } from '@solana/web3.js';
+import { getSignInstructions } from '@swig-wallet/classic';
+import {
+  createPendingOperation,
+  describePendingOperation,
+  requiresConfirmation,
+} from '../confirmations.js';
+import { mentionsSwigContact, resolveContactNames } from '../contacts.js';
+import {
+  enforceSwigPolicy,
+  recordPolicySpend,
+  releasePolicySpend,
+  reservePolicySpend,
+} from '../policy.js';
+import { enforceSwigRecipient } from '../recipients.js';
+import { describeSwig, resolveSwig } from '../registry.js';
+import { getSwigWalletService } from '../services/swigWallet.js';
+import {
+  buildAssetTransfer,
+  describeAsset,
+  mentionsSubAccount,
+  parseSubAccountAsset,
+  resolveSubAccountTarget,
+} from '../subAccounts.js';
+import { getTokenInfo } from '../tokens.js';
+import {
+  formatSimulationReport,
+  isDryRun,
+  sendSwigTransaction,
+  simulateSwigTransaction,
+} from '../transactions.js';
+
+export const swigSubAccountTransferAction: Action = {
+  name: 'SWIG_SUB_ACCOUNT_TRANSFER',
+  similes: ['SPEND_FROM_SWIG_SUB_ACCOUNT', 'SEND_FROM_SWIG_SUB_ACCOUNT', 'SWIG_SUB_ACCOUNT_SEND'],
+  description:
+    "Spend SOL or tokens from a Swig sub-account to any address, signed by the sub-account's role",
+
+  validate: async (runtime: IAgentRuntime, message: Memory, _state?: State) => {
+    const text = message.content.text?.toLowerCase() || '';
+    const hasSubAccountWord = mentionsSubAccount(text);
+    const hasTransferWord = /\b(transfer|send|pay|spend)\b/.test(text);
+    const hasFromSubAccount =
+      /\bfrom\s+(?:the\s+|my\s+|its\s+)?(?:[a-z0-9_-]+\s+)?sub[- ]?account\b/.test(text);
+    const hasAddressPattern =
+      /\b[1-9A-HJ-NP-Za-km-z]{32,44}\b/.test(text) || (await mentionsSwigContact(runtime, message));
+
+    const result = hasSubAccountWord && hasTransferWord && hasFromSubAccount && hasAddressPattern;
+    console.log('🔍 SWIG_SUB_ACCOUNT_TRANSFER validation:', `"${text}" -> ${result}`);
+    return result;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+    options?: any,
+    callback?: HandlerCallback,
+    responses?: Memory[]
+  ): Promise<boolean> => {
+    console.log('🔧 SWIG_SUB_ACCOUNT_TRANSFER action handler called!');
+    console.log('🔧 Callback function present:', !!callback);
+    console.log('🔧 Message content:', message.content.text);
+    console.log('🔧 Responses array length:', responses?.length || 0);
+
+    // A dry run only simulates, so it is allowed even when transfers are disabled
+    const dryRun = isDryRun(runtime, message.content.text || '');
+
+    // Check if transfers are enabled
+    const transfersEnabledSetting = runtime.getSetting('SWIG_TRANSFERS_ENABLED');
+    const transfersEnabled =
+      transfersEnabledSetting === undefined ? true : String(transfersEnabledSetting) === 'true';
+
+    if (!transfersEnabled && !dryRun) {
+      console.log('🔧 Sub-account operation blocked - transfers are disabled');
+      const errorContent = {
+        text: `❌ Sub-account operations are currently disabled. Set SWIG_TRANSFERS_ENABLED=true to enable transfers.`,
+        thought: 'Transfer operations have been disabled in the plugin configuration.',
+        actions: ['SWIG_SUB_ACCOUNT_TRANSFER', 'REPLY'],
+        source: message.content.source,
+      };
+
+      if (responses && responses.length > 0) {
+        responses[0].content = errorContent;
+      }
+
+      if (callback) {
+        await callback(errorContent);
+      }
+
+      return true;
+    }
+
+    try {
+      console.log('🔧 Step 1: Getting Solana wallet...');
+      const service = getSwigWalletService(runtime);
+      const wallet = await service.getWallet();
+      if (!wallet) {
+        console.log('🔧 ERROR: No wallet configured');
+        throw new Error(
+          'Solana wallet not configured. Please set SOLANA_PRIVATE_KEY in runtime settings.'
+        );
+      }
+      console.log('🔧 Wallet public key:', wallet.publicKey.toBase58());
+
+      console.log('🔧 Step 2: Getting Solana connection...');
+      const connection = service.getConnection();
+      console.log('🔧 Connection RPC endpoint:', connection.rpcEndpoint);
+
+      console.log('🔧 Step 3: Resolving Swig wallet...');
+      const resolvedSwig = await resolveSwig(runtime, wallet.publicKey, message.content.text || '');
+      const swigAddress = resolvedSwig.address;
+      console.log('🔧 Swig wallet:', resolvedSwig.name, swigAddress.toBase58());
+
+      // Contact names become addresses and role IDs before any parsing
+      const resolvedMessage = await resolveContactNames(runtime, message, swigAddress);
+      const text = resolvedMessage.content.text || '';
+
+      console.log('🔧 Step 4: Parsing transfer parameters...');
+      const asset = parseSubAccountAsset(text);
+      const recipientMatch = text.match(/\bto\s+([1-9A-HJ-NP-Za-km-z]{32,44})\b/i);
+
+      if (!asset) {
+        throw new Error(
+          "Please specify an amount to send (e.g., 'send 0.5 SOL from the sub-account to 2dr69TRDpT6LNec6XSuLSAyyxcjGiivn7T7MgL1udtms')"
+        );
+      }
+
+      if (!recipientMatch) {
+        throw new Error(
+          "Please specify a recipient address or contact (e.g., 'send 0.5 SOL from the sub-account to 2dr69TRDpT6LNec6XSuLSAyyxcjGiivn7T7MgL1udtms')"
+        );
+      }
+
+      const recipientAddress = new PublicKey(recipientMatch[1]);
+      console.log('🔧 Transfer amount:', describeAsset(asset));
+      console.log('🔧 Recipient address:', recipientAddress.toBase58());
+
+      console.log('🔧 Checking recipient lists and spending policy...');
+      const transferIntent = {
+        swigAddress: swigAddress.toBase58(),
+        asset: asset.mint ? asset.mint.toBase58() : 'SOL',
+        symbol: asset.mint ? getTokenInfo(runtime, asset.mint).symbol : 'SOL',
+        amount: asset.amount,
+        recipient: recipientAddress.toBase58(),
+      };
+      await enforceSwigRecipient(runtime, message, 'SWIG_SUB_ACCOUNT_TRANSFER', transferIntent);
+      await enforceSwigPolicy(runtime, message, transferIntent);
+
+      console.log('🔧 Step 5: Fetching Swig wallet...');
+      const swig = await service.getSwig(swigAddress, { refresh: true });
+      const roles = swig.findRolesByEd25519SignerPk(wallet.publicKey);
+      console.log('🔧 Found roles for current wallet:', roles.length);
+
+      if (!roles.length) {
+        throw new Error(
+          'No roles found for your wallet in this Swig. You need to be an authority to spend from sub-accounts.'
+        );
+      }
+
+      const { role, subAccount } = await resolveSubAccountTarget(connection, swig, roles, text);
+      console.log('🔧 Sub-account:', subAccount.toBase58(), 'of role', role.id);
+
+      console.log('🔧 Step 6: Building transfer instructions...');
+      const transfer = await buildAssetTransfer(
+        connection,
+        wallet.publicKey,
+        subAccount,
+        recipientAddress,
+        asset
+      );
+
+      console.log('🔧 Step 7: Creating sub-account sign instruction...');
+      // The sub-account signs the inner instructions, authorized by its role
+      const signIxs = await getSignInstructions(swig, role.id, transfer.instructions, true, {
+        payer: wallet.publicKey,
+      });
+
+      if (dryRun) {
+        console.log('🔧 Step 8: Simulating transaction (dry run)...');
+        const report = await simulateSwigTransaction(runtime, wallet, connection, signIxs);
+        console.log('🔧 Simulation complete, nothing was sent');
+
+        const dryRunContent = {
+          text: `🧪 Dry run: send ${describeAsset(asset)} from sub-account\n\nSwig Address: ${describeSwig(resolvedSwig)}\nFrom: sub-account ${subAccount.toBase58()} (role ${role.id})\nTo: ${recipientAddress.toBase58()}\nAmount: ${describeAsset(asset)}\n\n${formatSimulationReport(report)}`,
+          thought: `Simulated sending ${describeAsset(asset)} from the sub-account of role ${role.id} to ${recipientAddress.toBase58()} without sending it.`,
+          actions: ['SWIG_SUB_ACCOUNT_TRANSFER', 'REPLY'],
+          source: message.content.source,
+        };
+
+        if (responses && responses.length > 0) {
+          responses[0].content = dryRunContent;
+        }
+
+        if (callback) {
+          await callback(dryRunContent);
+        }
+
+        return true;
+      }
+
+      // Transfers above the asset's threshold wait for the requesting user to confirm them
+      if (!options?.confirmedOperation && requiresConfirmation(runtime, asset.amount, asset.mint)) {
+        console.log('🔧 Transfer above confirmation threshold, waiting for confirmation');
+        const pending = await createPendingOperation(
+          runtime,
+          resolvedMessage,
+          'SWIG_SUB_ACCOUNT_TRANSFER',
+          `Send ${describeAsset(asset)} from sub-account\n\nSwig Address: ${describeSwig(resolvedSwig)}\nFrom: sub-account ${subAccount.toBase58()} (role ${role.id})\nTo: ${recipientAddress.toBase58()}\nAmount: ${describeAsset(asset)}`
+        );
+
+        const pendingContent = {
+          text: describePendingOperation(pending),
+          thought: `Transfer of ${describeAsset(asset)} is above the confirmation threshold; waiting for the user to confirm code ${pending.code}.`,
+          actions: ['SWIG_SUB_ACCOUNT_TRANSFER', 'REPLY'],
+          source: message.content.source,
+        };
+
+        if (responses && responses.length > 0) {
+          responses[0].content = pendingContent;
+        }
+
+        if (callback) {
+          await callback(pendingContent);
+        }
+
+        return true;
+      }
+
+      console.log('🔧 Step 8: Sending transaction...');
+      const reservation = await reservePolicySpend(runtime, message, transferIntent);
+      let signature: string;
+      try {
+        ({ signature } = await sendSwigTransaction(runtime, wallet, connection, signIxs));
+      } catch (error) {
+        // A transfer that failed to send does not count against the period caps
+        await releasePolicySpend(runtime, reservation);
+        throw error;
+      }
+      console.log('🔧 Transaction confirmed!');
+      await recordPolicySpend(runtime, reservation, signature);
+
+      const responseContent = {
+        text: `✅ Successfully sent ${describeAsset(asset)} from the sub-account!\n\nSwig Address: ${describeSwig(resolvedSwig)}\nFrom: sub-account ${subAccount.toBase58()} (role ${role.id})\nTo: ${recipientAddress.toBase58()}\nAmount: ${describeAsset(asset)}\nTransaction: ${signature}`,
+        thought: `Sent ${describeAsset(asset)} from the sub-account of role ${role.id} to ${recipientAddress.toBase58()}.`,
+        actions: ['SWIG_SUB_ACCOUNT_TRANSFER', 'REPLY'],
+        source: message.content.source,
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with success content');
+        responses[0].content = responseContent;
+      }
+
+      // Send response using callback
+      console.log('🔧 Sending success response via callback');
+      console.log('🔧 Response content:', JSON.stringify(responseContent, null, 2));
+      if (callback) {
+        console.log('🔧 Calling callback...');
+        await callback(responseContent);
+        console.log('🔧 Callback completed successfully!');
+      } else {
+        console.log('⚠️ No callback provided to action handler');
+      }
+
+      return true;
+    } catch (error) {
+      console.error('🔧 Sub-account transfer error:', error);
+      console.error('🔧 Error stack:', error instanceof Error ? error.stack : 'No stack trace');
+
+      const errorContent = {
+        text: `❌ Failed to send from sub-account: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+        thought:
+          'The transfer from the sub-account failed. This could be due to insufficient sub-account funds, a disabled sub-account, network issues, or invalid parameters.',
+        actions: ['SWIG_SUB_ACCOUNT_TRANSFER', 'REPLY'],
+        source: message.content.source,
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with error content');
+        responses[0].content = errorContent;
+      }
+
+      // Send error response using callback
+      console.log('🔧 Sending error response via callback');
+      console.log('🔧 Error content:', JSON.stringify(errorContent, null, 2));
+      if (callback) {
+        console.log('🔧 Calling callback with error...');
+        await callback(errorContent);
+        console.log('🔧 Error callback completed');
+      } else {
+        console.log('⚠️ No callback provided for error response');
+      }
+
+      return true;
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: 'User',
+        content: {
+          text: 'Send 0.5 SOL from the sub-account to 2dr69TRDpT6LNec6XSuLSAyyxcjGiivn7T7MgL1udtms',
+        },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: "I'll pay 0.5 SOL out of the sub-account budget.",
+          action: 'SWIG_SUB_ACCOUNT_TRANSFER',
+        },
+      },
+    ],
+    [
+      {
+        name: 'User',
+        content: {
+          text: 'Pay 100 tokens mint EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v from the sub-account of role 2 to 9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM',
+        },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: "Paying 100 tokens from role 2's sub-account...",
+          action: 'SWIG_SUB_ACCOUNT_TRANSFER',
+        },
+      },
+    ],
+  ] as ActionExample[][],
+};
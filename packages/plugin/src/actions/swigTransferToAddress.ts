@@ -6,16 +6,77 @@ import {
   type Memory,
   type State,
 } from '@elizaos/core';
-import { LAMPORTS_PER_SOL, PublicKey, SystemProgram, Transaction } from '@solana/web3.js';
-import { fetchSwig, findSwigPda, signInstruction } from '@swig-wallet/classic';
-import { getSolanaConnection, getSolanaWallet, sendAndConfirmTransaction } from '../utils.js';
+import { LAMPORTS_PER_SOL, PublicKey, SystemProgram } from '@solana/web3.js';
+import { getSignInstructions, getSwigWalletAddress } from '@swig-wallet/classic';
+import { z } from 'zod';
+import {
+  createPendingOperation,
+  describePendingOperation,
+  requiresConfirmation,
+} from '../confirmations.js';
+import { resolveContactNames } from '../contacts.js';
+import {
+  amountSchema,
+  extractSwigParams,
+  findAddressAfter,
+  findAddresses,
+  findAmount,
+  solanaAddressSchema,
+  type SwigParamSpec,
+} from '../parameters.js';
+import {
+  enforceSwigPolicy,
+  recordPolicySpend,
+  releasePolicySpend,
+  reservePolicySpend,
+} from '../policy.js';
+import { enforceSwigRecipient } from '../recipients.js';
+import { describeSwig, resolveSwig } from '../registry.js';
+import { canRolePerform, selectAgentRole } from '../roles.js';
+import { getSwigWalletService } from '../services/swigWallet.js';
+import { describeSessionRefresh, getActiveSwigSession } from '../session.js';
+import { mentionsSubAccount } from '../subAccounts.js';
+import { mentionsKnownToken } from '../tokens.js';
+import {
+  formatSimulationReport,
+  isDryRun,
+  sendSwigTransaction,
+  simulateSwigTransaction,
+} from '../transactions.js';
+
+const transferParamsSpec: SwigParamSpec<{ amount: number; recipient: string }> = {
+  description: 'transfer SOL from the Swig wallet to an address',
+  schema: z.object({ amount: amountSchema, recipient: solanaAddressSchema }),
+  fields: {
+    amount: 'the amount of SOL to send, as a number',
+    recipient: 'the base58 Solana address that receives the SOL',
+  },
+  questions: {
+    amount: 'How much SOL should I send?',
+    recipient: 'Which address should receive it? Please give the full Solana address.',
+  },
+  fallback: (text) => {
+    const { amount, ambiguous } = findAmount(text, /sol/);
+    const addresses = findAddresses(text);
+    const recipient =
+      findAddressAfter(text, /\bto/) ?? (addresses.length === 1 ? addresses[0] : undefined);
+
+    return {
+      params: { amount, recipient },
+      ambiguous: [
+        ...(ambiguous ? (['amount'] as const) : []),
+        ...(!recipient && addresses.length > 1 ? (['recipient'] as const) : []),
+      ],
+    };
+  },
+};
 
 export const swigTransferToAddressAction: Action = {
   name: 'SWIG_TRANSFER_TO_ADDRESS',
   similes: ['SWIG_SEND_TO_ADDRESS', 'TRANSFER_FROM_SWIG', 'SEND_FROM_SWIG', 'SWIG_TRANSFER_SOL'],
   description: 'Transfer SOL from the Swig wallet to any address',
 
-  validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+  validate: async (runtime: IAgentRuntime, message: Memory, _state?: State) => {
     const text = message.content.text?.toLowerCase() || '';
 
     // Check for swig transfer patterns
@@ -52,7 +113,11 @@ export const swigTransferToAddressAction: Action = {
       }
     });
 
-    const result = isSwigTransfer || hasKeywordMatch;
+    // Sub-account requests are handled by the sub-account actions, named tokens by the token actions
+    const result =
+      (isSwigTransfer || hasKeywordMatch) &&
+      !mentionsSubAccount(text) &&
+      !(await mentionsKnownToken(runtime, text));
     console.log('🔍 SWIG_TRANSFER_TO_ADDRESS validation:', `"${text}" -> ${result}`);
     console.log(
       '🔍 Swig word:',
@@ -75,8 +140,8 @@ export const swigTransferToAddressAction: Action = {
   handler: async (
     runtime: IAgentRuntime,
     message: Memory,
-    _state?: State,
-    _options?: any,
+    state?: State,
+    options?: any,
     callback?: HandlerCallback,
     responses?: Memory[]
   ): Promise<boolean> => {
@@ -85,12 +150,15 @@ export const swigTransferToAddressAction: Action = {
     console.log('🔧 Message content:', message.content.text);
     console.log('🔧 Responses array length:', responses?.length || 0);
 
+    // A dry run only simulates, so it is allowed even when transfers are disabled
+    const dryRun = isDryRun(runtime, message.content.text || '');
+
     // Check if transfers are enabled
     const transfersEnabledSetting = runtime.getSetting('SWIG_TRANSFERS_ENABLED');
     const transfersEnabled =
       transfersEnabledSetting === undefined ? true : String(transfersEnabledSetting) === 'true';
 
-    if (!transfersEnabled) {
+    if (!transfersEnabled && !dryRun) {
       console.log('🔧 Transfer operation blocked - transfers are disabled');
       const errorContent = {
         text: `❌ Transfer operations are currently disabled. Set SWIG_TRANSFERS_ENABLED=true to enable transfers.`,
@@ -112,7 +180,8 @@ export const swigTransferToAddressAction: Action = {
 
     try {
       console.log('🔧 Step 1: Getting Solana wallet...');
-      const wallet = await getSolanaWallet(runtime);
+      const service = getSwigWalletService(runtime);
+      const wallet = await service.getWallet();
       if (!wallet) {
         console.log('🔧 ERROR: No wallet configured');
         throw new Error(
@@ -122,37 +191,65 @@ export const swigTransferToAddressAction: Action = {
       console.log('🔧 Wallet public key:', wallet.publicKey.toBase58());
 
       console.log('🔧 Step 2: Getting Solana connection...');
-      const connection = getSolanaConnection(runtime);
+      const connection = service.getConnection();
       console.log('🔧 Connection RPC endpoint:', connection.rpcEndpoint);
 
-      console.log('🔧 Step 3: Finding Swig PDA...');
-      const [swigAddress] = findSwigPda(wallet.publicKey.toBytes());
-      console.log('🔧 Swig address:', swigAddress.toBase58());
-
-      console.log('🔧 Step 4: Parsing transfer parameters...');
-      const text = message.content.text || '';
-      const amountMatch = text.match(/(\d+(?:\.\d+)?)/);
-      const addressMatch = text.match(/\b([1-9A-HJ-NP-Za-km-z]{32,44})\b/);
-
-      if (!amountMatch) {
-        throw new Error(
-          "Please specify an amount to transfer (e.g., 'transfer 1.5 SOL from swig to...')"
-        );
-      }
-
-      if (!addressMatch) {
-        throw new Error(
-          "Please specify a recipient address (e.g., 'transfer 1.5 SOL from swig to 2dr69TRDpT6LNec6XSuLSAyyxcjGiivn7T7MgL1udtms')"
-        );
+      console.log('🔧 Step 3: Resolving Swig wallet...');
+      const resolvedSwig = await resolveSwig(runtime, wallet.publicKey, message.content.text || '');
+      const swigAddress = resolvedSwig.address;
+      console.log('🔧 Swig wallet:', resolvedSwig.name, swigAddress.toBase58());
+
+      // Contact names become addresses and role IDs before any parsing
+      const resolvedMessage = await resolveContactNames(runtime, message, swigAddress);
+
+      console.log('🔧 Step 4: Extracting transfer parameters...');
+      const extraction = await extractSwigParams(
+        runtime,
+        resolvedMessage,
+        state,
+        transferParamsSpec,
+        options
+      );
+
+      if ('question' in extraction) {
+        console.log('🔧 Transfer parameters unclear, asking for clarification');
+        const clarificationContent = {
+          text: `❓ ${extraction.question}`,
+          thought:
+            'The transfer amount or recipient was missing or ambiguous, so I asked instead of guessing.',
+          actions: ['SWIG_TRANSFER_TO_ADDRESS', 'REPLY'],
+          source: message.content.source,
+        };
+
+        if (responses && responses.length > 0) {
+          responses[0].content = clarificationContent;
+        }
+
+        if (callback) {
+          await callback(clarificationContent);
+        }
+
+        return true;
       }
 
-      const amount = parseFloat(amountMatch[1]);
-      const recipientAddress = new PublicKey(addressMatch[1]);
+      const { amount } = extraction.params;
+      const recipientAddress = new PublicKey(extraction.params.recipient);
       console.log('🔧 Transfer amount:', amount, 'SOL');
       console.log('🔧 Recipient address:', recipientAddress.toBase58());
 
+      console.log('🔧 Checking recipient lists and spending policy...');
+      const transferIntent = {
+        swigAddress: swigAddress.toBase58(),
+        asset: 'SOL',
+        symbol: 'SOL',
+        amount,
+        recipient: recipientAddress.toBase58(),
+      };
+      await enforceSwigRecipient(runtime, message, 'SWIG_TRANSFER_TO_ADDRESS', transferIntent);
+      await enforceSwigPolicy(runtime, message, transferIntent);
+
       console.log('🔧 Step 5: Fetching Swig wallet...');
-      const swig = await fetchSwig(connection, swigAddress);
+      const swig = await service.getSwig(swigAddress, { refresh: true });
       const roles = swig.findRolesByEd25519SignerPk(wallet.publicKey);
       console.log('🔧 Found roles for current wallet:', roles.length);
 
@@ -162,44 +259,125 @@ export const swigTransferToAddressAction: Action = {
         );
       }
 
-      const agentRole = roles[0];
-      console.log('🔧 Using role:', agentRole);
+      console.log('🔧 Selecting role...');
+      const currentSlot = await connection.getSlot();
+      const requirement = { solAmount: BigInt(Math.round(amount * LAMPORTS_PER_SOL)) };
+
+      // Transfers above the asset's threshold wait for the requesting user to confirm them
+      const awaitsConfirmation =
+        !dryRun && !options?.confirmedOperation && requiresConfirmation(runtime, amount);
+
+      // Prefer the short-lived session key for routine transfers when it is active and allowed.
+      // Its key is only refreshed when this transfer is sent now, since a refresh is itself a
+      // transaction.
+      const activeSession = await getActiveSwigSession(
+        runtime,
+        wallet,
+        connection,
+        swigAddress,
+        swig,
+        { refresh: !dryRun && !awaitsConfirmation }
+      );
+      const session =
+        activeSession && canRolePerform(activeSession.role, requirement, currentSlot)
+          ? activeSession
+          : null;
+      const signingRole = session ? session.role : selectAgentRole(roles, requirement, currentSlot);
+      const signerDescription = `${
+        session
+          ? `session key ${session.record.sessionKey} (role ${signingRole.id})`
+          : `agent wallet (role ${signingRole.id})`
+      }${describeSessionRefresh(activeSession)}`;
+      console.log('🔧 Signing with:', signerDescription);
 
       console.log('🔧 Step 6: Creating transfer instruction...');
-      // Create transfer instruction from Swig to recipient
+      // Create transfer instruction from the address holding the Swig's funds to recipient
       const transferInstruction = SystemProgram.transfer({
-        fromPubkey: swigAddress,
+        fromPubkey: await getSwigWalletAddress(swig),
         toPubkey: recipientAddress,
-        lamports: amount * LAMPORTS_PER_SOL,
+        lamports: BigInt(Math.round(amount * LAMPORTS_PER_SOL)),
       });
       console.log('🔧 Transfer instruction created');
 
       console.log('🔧 Step 7: Creating sign instruction...');
       // Create sign instruction for the Swig
-      const signIx = await signInstruction(agentRole, wallet.publicKey, [transferInstruction]);
+      const signIxs = await getSignInstructions(
+        session ? session.swig : swig,
+        signingRole.id,
+        [transferInstruction],
+        false,
+        { payer: wallet.publicKey }
+      );
       console.log('🔧 Sign instruction created');
 
-      console.log('🔧 Step 8: Building and signing transaction...');
-      const transaction = new Transaction().add(signIx);
-      transaction.feePayer = wallet.publicKey;
-      const latestBlockhash = await connection.getLatestBlockhash();
-      transaction.recentBlockhash = latestBlockhash.blockhash;
-      console.log('🔧 Latest blockhash:', latestBlockhash.blockhash);
+      if (dryRun) {
+        console.log('🔧 Step 8: Simulating transaction (dry run)...');
+        const report = await simulateSwigTransaction(runtime, wallet, connection, signIxs);
+        console.log('🔧 Simulation complete, nothing was sent');
 
-      console.log('🔧 Step 9: Signing transaction...');
-      const signedTransaction = await wallet.signTransaction(transaction);
-      console.log('🔧 Transaction signed');
+        const dryRunContent = {
+          text: `🧪 Dry run: transfer ${amount} SOL from Swig wallet\n\nFrom: ${describeSwig(resolvedSwig)}\nTo: ${recipientAddress.toBase58()}\nAmount: ${amount} SOL\nSigned by: ${signerDescription}\n\n${formatSimulationReport(report)}`,
+          thought: `Simulated transferring ${amount} SOL from the Swig wallet to ${recipientAddress.toBase58()} without sending it.`,
+          actions: ['SWIG_TRANSFER_TO_ADDRESS', 'REPLY'],
+          source: message.content.source,
+        };
 
-      console.log('🔧 Step 10: Sending transaction...');
-      const signature = await connection.sendRawTransaction(signedTransaction.serialize());
-      console.log('🔧 Transaction sent, signature:', signature);
+        if (responses && responses.length > 0) {
+          responses[0].content = dryRunContent;
+        }
 
-      console.log('🔧 Step 11: Confirming transaction...');
-      await connection.confirmTransaction(signature, 'confirmed');
+        if (callback) {
+          await callback(dryRunContent);
+        }
+
+        return true;
+      }
+
+      if (awaitsConfirmation) {
+        console.log('🔧 Transfer above confirmation threshold, waiting for confirmation');
+        const pending = await createPendingOperation(
+          runtime,
+          resolvedMessage,
+          'SWIG_TRANSFER_TO_ADDRESS',
+          `Transfer ${amount} SOL from Swig wallet\n\nFrom: ${describeSwig(resolvedSwig)}\nTo: ${recipientAddress.toBase58()}\nAmount: ${amount} SOL\nSigned by: ${signerDescription}`,
+          extraction.params
+        );
+
+        const pendingContent = {
+          text: describePendingOperation(pending),
+          thought: `Transfer of ${amount} SOL is above the confirmation threshold; waiting for the user to confirm code ${pending.code}.`,
+          actions: ['SWIG_TRANSFER_TO_ADDRESS', 'REPLY'],
+          source: message.content.source,
+        };
+
+        if (responses && responses.length > 0) {
+          responses[0].content = pendingContent;
+        }
+
+        if (callback) {
+          await callback(pendingContent);
+        }
+
+        return true;
+      }
+
+      console.log('🔧 Step 8: Sending transaction...');
+      const reservation = await reservePolicySpend(runtime, message, transferIntent);
+      let signature: string;
+      try {
+        ({ signature } = await sendSwigTransaction(runtime, wallet, connection, signIxs, {
+          signers: session ? [session.keypair] : [],
+        }));
+      } catch (error) {
+        // A transfer that failed to send does not count against the period caps
+        await releasePolicySpend(runtime, reservation);
+        throw error;
+      }
       console.log('🔧 Transaction confirmed!');
+      await recordPolicySpend(runtime, reservation, signature);
 
       const responseContent = {
-        text: `✅ Successfully transferred ${amount} SOL from Swig wallet!\n\nFrom: ${swigAddress.toBase58()}\nTo: ${recipientAddress.toBase58()}\nAmount: ${amount} SOL\nTransaction: ${signature}`,
+        text: `✅ Successfully transferred ${amount} SOL from Swig wallet!\n\nFrom: ${describeSwig(resolvedSwig)}\nTo: ${recipientAddress.toBase58()}\nAmount: ${amount} SOL\nSigned by: ${signerDescription}\nTransaction: ${signature}`,
         thought: `Successfully transferred ${amount} SOL from the Swig wallet to ${recipientAddress.toBase58()}.`,
         actions: ['SWIG_TRANSFER_TO_ADDRESS', 'REPLY'],
         source: message.content.source,
@@ -6,16 +6,82 @@ import {
   type Memory,
   type State,
 } from '@elizaos/core';
-import { LAMPORTS_PER_SOL, PublicKey, SystemProgram, Transaction } from '@solana/web3.js';
-import { fetchSwig, findSwigPda, signInstruction } from '@swig-wallet/classic';
-import { getSolanaConnection, getSolanaWallet } from '../utils.js';
+import { LAMPORTS_PER_SOL, PublicKey, SystemProgram } from '@solana/web3.js';
+import { getSignInstructions, getSwigWalletAddress } from '@swig-wallet/classic';
+import { z } from 'zod';
+import { findRoleByAuthorityAddress, getRoleSolanaAddress } from '../authorities.js';
+import {
+  createPendingOperation,
+  describePendingOperation,
+  requiresConfirmation,
+} from '../confirmations.js';
+import { resolveContactNames } from '../contacts.js';
+import {
+  amountSchema,
+  authorityRecipientIssue,
+  authorityRecipientShape,
+  extractSwigParams,
+  findAmount,
+  findAuthorityRecipient,
+  hasSingleAuthorityRecipient,
+  stripRoleIds,
+  type SwigParamSpec,
+} from '../parameters.js';
+import {
+  enforceSwigPolicy,
+  recordPolicySpend,
+  releasePolicySpend,
+  reservePolicySpend,
+} from '../policy.js';
+import { describeSwig, resolveSwig } from '../registry.js';
+import { canRolePerform, selectAgentRole } from '../roles.js';
+import { getSwigWalletService } from '../services/swigWallet.js';
+import { describeSessionRefresh, getActiveSwigSession } from '../session.js';
+import { mentionsKnownToken } from '../tokens.js';
+import {
+  formatSimulationReport,
+  isDryRun,
+  sendSwigTransaction,
+  simulateSwigTransaction,
+} from '../transactions.js';
+
+const transferParamsSpec: SwigParamSpec<{ amount: number; recipient?: string; roleId?: number }> = {
+  description: 'transfer SOL from the Swig wallet to one of its authorities',
+  schema: z
+    .object({ amount: amountSchema, ...authorityRecipientShape })
+    .refine(hasSingleAuthorityRecipient, authorityRecipientIssue),
+  fields: {
+    amount: 'the amount of SOL to send, as a number',
+    recipient: 'the base58 address of the receiving authority, if given as an address',
+    roleId: 'the role ID of the receiving authority, if given as a role (e.g. "role 1")',
+  },
+  questions: {
+    amount: 'How much SOL should I send?',
+    recipient:
+      'Which authority should receive it? Please give its address or role ID (e.g. "role 1").',
+    roleId:
+      'Which authority should receive it? Please give its address or role ID (e.g. "role 1").',
+  },
+  fallback: (text) => {
+    const { roleId, recipient, ambiguous: recipientAmbiguous } = findAuthorityRecipient(text);
+    const { amount, ambiguous } = findAmount(stripRoleIds(text), /sol/);
+
+    return {
+      params: { amount, recipient, roleId },
+      ambiguous: [
+        ...(ambiguous ? (['amount'] as const) : []),
+        ...(recipientAmbiguous ? (['recipient'] as const) : []),
+      ],
+    };
+  },
+};
 
 export const swigTransferToAuthorityAction: Action = {
   name: 'SWIG_TRANSFER_TO_AUTHORITY',
   similes: ['SWIG_SEND_TO_AUTHORITY', 'TRANSFER_TO_SWIG_AUTHORITY', 'SEND_TO_SWIG_AUTHORITY'],
   description: 'Transfer SOL from the Swig wallet to another authority on the same Swig',
 
-  validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+  validate: async (runtime: IAgentRuntime, message: Memory, _state?: State) => {
     const text = message.content.text?.toLowerCase() || '';
 
     // Check for swig transfer to authority patterns
@@ -23,7 +89,6 @@ export const swigTransferToAuthorityAction: Action = {
     const hasTransferWord = /\b(transfer|send|pay)\b/.test(text);
     const hasAuthorityWord = /\b(authority|signer|role)\b/.test(text);
     const hasAmountPattern = /\d+(?:\.\d+)?/.test(text);
-    const hasFromWord = /\b(from|out|using)\b/.test(text);
 
     // Must have swig + transfer + authority + amount
     const isSwigTransferToAuthority =
@@ -51,7 +116,9 @@ export const swigTransferToAuthorityAction: Action = {
       }
     });
 
-    const result = isSwigTransferToAuthority || hasKeywordMatch;
+    // Named tokens are handled by SWIG_TRANSFER_TOKEN_TO_AUTHORITY
+    const result =
+      (isSwigTransferToAuthority || hasKeywordMatch) && !(await mentionsKnownToken(runtime, text));
     console.log('🔍 SWIG_TRANSFER_TO_AUTHORITY validation:', `"${text}" -> ${result}`);
     console.log(
       '🔍 Swig word:',
@@ -72,8 +139,8 @@ export const swigTransferToAuthorityAction: Action = {
   handler: async (
     runtime: IAgentRuntime,
     message: Memory,
-    _state?: State,
-    _options?: any,
+    state?: State,
+    options?: any,
     callback?: HandlerCallback,
     responses?: Memory[]
   ): Promise<boolean> => {
@@ -82,12 +149,15 @@ export const swigTransferToAuthorityAction: Action = {
     console.log('🔧 Message content:', message.content.text);
     console.log('🔧 Responses array length:', responses?.length || 0);
 
+    // A dry run only simulates, so it is allowed even when transfers are disabled
+    const dryRun = isDryRun(runtime, message.content.text || '');
+
     // Check if transfers are enabled
     const transfersEnabledSetting = runtime.getSetting('SWIG_TRANSFERS_ENABLED');
     const transfersEnabled =
       transfersEnabledSetting === undefined ? true : String(transfersEnabledSetting) === 'true';
 
-    if (!transfersEnabled) {
+    if (!transfersEnabled && !dryRun) {
       console.log('🔧 Transfer operation blocked - transfers are disabled');
       const errorContent = {
         text: `❌ Transfer operations are currently disabled. Set SWIG_TRANSFERS_ENABLED=true to enable transfers.`,
@@ -109,7 +179,8 @@ export const swigTransferToAuthorityAction: Action = {
 
     try {
       console.log('🔧 Step 1: Getting Solana wallet...');
-      const wallet = await getSolanaWallet(runtime);
+      const service = getSwigWalletService(runtime);
+      const wallet = await service.getWallet();
       if (!wallet) {
         console.log('🔧 ERROR: No wallet configured');
         throw new Error(
@@ -119,30 +190,52 @@ export const swigTransferToAuthorityAction: Action = {
       console.log('🔧 Wallet public key:', wallet.publicKey.toBase58());
 
       console.log('🔧 Step 2: Getting Solana connection...');
-      const connection = getSolanaConnection(runtime);
+      const connection = service.getConnection();
       console.log('🔧 Connection RPC endpoint:', connection.rpcEndpoint);
 
-      console.log('🔧 Step 3: Finding Swig PDA...');
-      const [swigAddress] = findSwigPda(wallet.publicKey.toBytes());
-      console.log('🔧 Swig address:', swigAddress.toBase58());
+      console.log('🔧 Step 3: Resolving Swig wallet...');
+      const resolvedSwig = await resolveSwig(runtime, wallet.publicKey, message.content.text || '');
+      const swigAddress = resolvedSwig.address;
+      console.log('🔧 Swig wallet:', resolvedSwig.name, swigAddress.toBase58());
+
+      // Contact names become addresses and role IDs before any parsing
+      const resolvedMessage = await resolveContactNames(runtime, message, swigAddress);
+
+      console.log('🔧 Step 4: Extracting transfer parameters...');
+      const extraction = await extractSwigParams(
+        runtime,
+        resolvedMessage,
+        state,
+        transferParamsSpec,
+        options
+      );
+
+      if ('question' in extraction) {
+        console.log('🔧 Transfer parameters unclear, asking for clarification');
+        const clarificationContent = {
+          text: `❓ ${extraction.question}`,
+          thought:
+            'The transfer amount or recipient authority was missing or ambiguous, so I asked instead of guessing.',
+          actions: ['SWIG_TRANSFER_TO_AUTHORITY', 'REPLY'],
+          source: message.content.source,
+        };
+
+        if (responses && responses.length > 0) {
+          responses[0].content = clarificationContent;
+        }
 
-      console.log('🔧 Step 4: Parsing transfer parameters...');
-      const text = message.content.text || '';
-      const amountMatch = text.match(/(\d+(?:\.\d+)?)/);
-      const addressMatch = text.match(/\b([1-9A-HJ-NP-Za-km-z]{32,44})\b/);
-      const roleIdMatch = text.match(/role\s*(?:id\s*)?(\d+)/i);
+        if (callback) {
+          await callback(clarificationContent);
+        }
 
-      if (!amountMatch) {
-        throw new Error(
-          "Please specify an amount to transfer (e.g., 'transfer 1.5 SOL from swig to authority 2dr69...' or 'transfer 1.5 SOL from swig to role 1')"
-        );
+        return true;
       }
 
-      const amount = parseFloat(amountMatch[1]);
+      const { amount, roleId } = extraction.params;
       console.log('🔧 Transfer amount:', amount, 'SOL');
 
       console.log('🔧 Step 5: Fetching Swig wallet...');
-      const swig = await fetchSwig(connection, swigAddress);
+      const swig = await service.getSwig(swigAddress, { refresh: true });
       const roles = swig.findRolesByEd25519SignerPk(wallet.publicKey);
       console.log('🔧 Found roles for current wallet:', roles.length);
 
@@ -152,15 +245,42 @@ export const swigTransferToAuthorityAction: Action = {
         );
       }
 
-      const agentRole = roles[0];
-      console.log('🔧 Using role:', agentRole);
+      console.log('🔧 Selecting role...');
+      const currentSlot = await connection.getSlot();
+      const requirement = { solAmount: BigInt(Math.round(amount * LAMPORTS_PER_SOL)) };
+
+      // Transfers above the asset's threshold wait for the requesting user to confirm them
+      const awaitsConfirmation =
+        !dryRun && !options?.confirmedOperation && requiresConfirmation(runtime, amount);
+
+      // Prefer the short-lived session key for routine transfers when it is active and allowed.
+      // Its key is only refreshed when this transfer is sent now, since a refresh is itself a
+      // transaction.
+      const activeSession = await getActiveSwigSession(
+        runtime,
+        wallet,
+        connection,
+        swigAddress,
+        swig,
+        { refresh: !dryRun && !awaitsConfirmation }
+      );
+      const session =
+        activeSession && canRolePerform(activeSession.role, requirement, currentSlot)
+          ? activeSession
+          : null;
+      const signingRole = session ? session.role : selectAgentRole(roles, requirement, currentSlot);
+      const signerDescription = `${
+        session
+          ? `session key ${session.record.sessionKey} (role ${signingRole.id})`
+          : `agent wallet (role ${signingRole.id})`
+      }${describeSessionRefresh(activeSession)}`;
+      console.log('🔧 Signing with:', signerDescription);
 
       console.log('🔧 Step 6: Finding recipient authority...');
       let recipientAddress: PublicKey;
 
-      if (roleIdMatch) {
+      if (roleId !== undefined) {
         // Transfer to role ID
-        const roleId = parseInt(roleIdMatch[1]);
         console.log('🔧 Looking for role ID:', roleId);
 
         const targetRole = swig.roles.find((role) => role.id === roleId);
@@ -168,16 +288,14 @@ export const swigTransferToAuthorityAction: Action = {
           throw new Error(`Role ID ${roleId} not found in this Swig wallet.`);
         }
 
-        recipientAddress = new PublicKey(targetRole.authority.data);
+        recipientAddress = getRoleSolanaAddress(targetRole);
         console.log('🔧 Found authority for role', roleId, ':', recipientAddress.toBase58());
-      } else if (addressMatch) {
+      } else if (extraction.params.recipient) {
         // Transfer to specific address (must be an authority)
-        recipientAddress = new PublicKey(addressMatch[1]);
+        recipientAddress = new PublicKey(extraction.params.recipient);
         console.log('🔧 Checking if address is authority:', recipientAddress.toBase58());
 
-        const isAuthority = swig.roles.some((role) =>
-          new PublicKey(role.authority.data).equals(recipientAddress)
-        );
+        const isAuthority = !!findRoleByAuthorityAddress(swig.roles, recipientAddress.toBase58());
 
         if (!isAuthority) {
           throw new Error(
@@ -192,41 +310,104 @@ export const swigTransferToAuthorityAction: Action = {
 
       console.log('🔧 Recipient authority address:', recipientAddress.toBase58());
 
+      console.log('🔧 Checking spending policy...');
+      const transferIntent = {
+        swigAddress: swigAddress.toBase58(),
+        asset: 'SOL',
+        symbol: 'SOL',
+        amount,
+        recipient: recipientAddress.toBase58(),
+      };
+      await enforceSwigPolicy(runtime, message, transferIntent);
+
       console.log('🔧 Step 7: Creating transfer instruction...');
-      // Create transfer instruction from Swig to authority
+      // Create transfer instruction from the address holding the Swig's funds to authority
       const transferInstruction = SystemProgram.transfer({
-        fromPubkey: swigAddress,
+        fromPubkey: await getSwigWalletAddress(swig),
         toPubkey: recipientAddress,
-        lamports: amount * LAMPORTS_PER_SOL,
+        lamports: BigInt(Math.round(amount * LAMPORTS_PER_SOL)),
       });
       console.log('🔧 Transfer instruction created');
 
       console.log('🔧 Step 8: Creating sign instruction...');
       // Create sign instruction for the Swig
-      const signIx = await signInstruction(agentRole, wallet.publicKey, [transferInstruction]);
+      const signIxs = await getSignInstructions(
+        session ? session.swig : swig,
+        signingRole.id,
+        [transferInstruction],
+        false,
+        { payer: wallet.publicKey }
+      );
       console.log('🔧 Sign instruction created');
 
-      console.log('🔧 Step 9: Building and signing transaction...');
-      const transaction = new Transaction().add(signIx);
-      transaction.feePayer = wallet.publicKey;
-      const latestBlockhash = await connection.getLatestBlockhash();
-      transaction.recentBlockhash = latestBlockhash.blockhash;
-      console.log('🔧 Latest blockhash:', latestBlockhash.blockhash);
+      if (dryRun) {
+        console.log('🔧 Step 9: Simulating transaction (dry run)...');
+        const report = await simulateSwigTransaction(runtime, wallet, connection, signIxs);
+        console.log('🔧 Simulation complete, nothing was sent');
 
-      console.log('🔧 Step 10: Signing transaction...');
-      const signedTransaction = await wallet.signTransaction(transaction);
-      console.log('🔧 Transaction signed');
+        const dryRunContent = {
+          text: `🧪 Dry run: transfer ${amount} SOL from Swig wallet to authority\n\nFrom: ${describeSwig(resolvedSwig)}\nTo Authority: ${recipientAddress.toBase58()}\nAmount: ${amount} SOL\nSigned by: ${signerDescription}\n\n${formatSimulationReport(report)}`,
+          thought: `Simulated transferring ${amount} SOL from the Swig wallet to authority ${recipientAddress.toBase58()} without sending it.`,
+          actions: ['SWIG_TRANSFER_TO_AUTHORITY', 'REPLY'],
+          source: message.content.source,
+        };
 
-      console.log('🔧 Step 11: Sending transaction...');
-      const signature = await connection.sendRawTransaction(signedTransaction.serialize());
-      console.log('🔧 Transaction sent, signature:', signature);
+        if (responses && responses.length > 0) {
+          responses[0].content = dryRunContent;
+        }
+
+        if (callback) {
+          await callback(dryRunContent);
+        }
+
+        return true;
+      }
+
+      if (awaitsConfirmation) {
+        console.log('🔧 Transfer above confirmation threshold, waiting for confirmation');
+        const pending = await createPendingOperation(
+          runtime,
+          resolvedMessage,
+          'SWIG_TRANSFER_TO_AUTHORITY',
+          `Transfer ${amount} SOL from Swig wallet to authority\n\nFrom: ${describeSwig(resolvedSwig)}\nTo Authority: ${recipientAddress.toBase58()}\nAmount: ${amount} SOL\nSigned by: ${signerDescription}`,
+          extraction.params
+        );
+
+        const pendingContent = {
+          text: describePendingOperation(pending),
+          thought: `Transfer of ${amount} SOL is above the confirmation threshold; waiting for the user to confirm code ${pending.code}.`,
+          actions: ['SWIG_TRANSFER_TO_AUTHORITY', 'REPLY'],
+          source: message.content.source,
+        };
 
-      console.log('🔧 Step 12: Confirming transaction...');
-      await connection.confirmTransaction(signature, 'confirmed');
+        if (responses && responses.length > 0) {
+          responses[0].content = pendingContent;
+        }
+
+        if (callback) {
+          await callback(pendingContent);
+        }
+
+        return true;
+      }
+
+      console.log('🔧 Step 9: Sending transaction...');
+      const reservation = await reservePolicySpend(runtime, message, transferIntent);
+      let signature: string;
+      try {
+        ({ signature } = await sendSwigTransaction(runtime, wallet, connection, signIxs, {
+          signers: session ? [session.keypair] : [],
+        }));
+      } catch (error) {
+        // A transfer that failed to send does not count against the period caps
+        await releasePolicySpend(runtime, reservation);
+        throw error;
+      }
       console.log('🔧 Transaction confirmed!');
+      await recordPolicySpend(runtime, reservation, signature);
 
       const responseContent = {
-        text: `✅ Successfully transferred ${amount} SOL from Swig wallet to authority!\n\nFrom: ${swigAddress.toBase58()}\nTo Authority: ${recipientAddress.toBase58()}\nAmount: ${amount} SOL\nTransaction: ${signature}`,
+        text: `✅ Successfully transferred ${amount} SOL from Swig wallet to authority!\n\nFrom: ${describeSwig(resolvedSwig)}\nTo Authority: ${recipientAddress.toBase58()}\nAmount: ${amount} SOL\nSigned by: ${signerDescription}\nTransaction: ${signature}`,
         thought: `Successfully transferred ${amount} SOL from the Swig wallet to authority ${recipientAddress.toBase58()}.`,
         actions: ['SWIG_TRANSFER_TO_AUTHORITY', 'REPLY'],
         source: message.content.source,
@@ -13,9 +13,89 @@ import {
   createAssociatedTokenAccountInstruction,
   getAccount,
 } from '@solana/spl-token';
-import { PublicKey, Transaction } from '@solana/web3.js';
-import { fetchSwig, findSwigPda, signInstruction } from '@swig-wallet/classic';
-import { getSolanaConnection, getSolanaWallet } from '../utils.js';
+import { PublicKey } from '@solana/web3.js';
+import { getSignInstructions, getSwigWalletAddress } from '@swig-wallet/classic';
+import { z } from 'zod';
+import {
+  createPendingOperation,
+  describePendingOperation,
+  requiresConfirmation,
+} from '../confirmations.js';
+import { resolveContactNames } from '../contacts.js';
+import {
+  amountSchema,
+  extractSwigParams,
+  findAddressAfter,
+  findAddresses,
+  findAmount,
+  solanaAddressSchema,
+  type SwigParamSpec,
+} from '../parameters.js';
+import {
+  enforceSwigPolicy,
+  recordPolicySpend,
+  releasePolicySpend,
+  reservePolicySpend,
+} from '../policy.js';
+import { enforceSwigRecipient } from '../recipients.js';
+import { describeSwig, resolveSwig } from '../registry.js';
+import { canRolePerform, selectAgentRole } from '../roles.js';
+import { getSwigWalletService } from '../services/swigWallet.js';
+import { describeSessionRefresh, getActiveSwigSession } from '../session.js';
+import {
+  describeToken,
+  findTokenQuery,
+  mentionsKnownToken,
+  resolveToken,
+  tokenSchema,
+  TOKEN_FIELD_DESCRIPTION,
+} from '../tokens.js';
+import {
+  formatSimulationReport,
+  isDryRun,
+  sendSwigTransaction,
+  simulateSwigTransaction,
+} from '../transactions.js';
+
+const transferParamsSpec: SwigParamSpec<{ amount: number; token: string; recipient: string }> = {
+  description: 'transfer SPL tokens from the Swig wallet to an address',
+  schema: z.object({
+    amount: amountSchema,
+    token: tokenSchema,
+    recipient: solanaAddressSchema,
+  }),
+  fields: {
+    amount: 'the amount of tokens to send, as a number in whole tokens (not base units)',
+    token: TOKEN_FIELD_DESCRIPTION,
+    recipient: 'the base58 Solana address that receives the tokens',
+  },
+  questions: {
+    amount: 'How many tokens should I send?',
+    token: "Which token should I send? Please give its symbol or mint address (e.g. 'USDC').",
+    recipient: 'Which address should receive the tokens? Please give the full Solana address.',
+  },
+  fallback: (text) => {
+    const { amount, ambiguous } = findAmount(text, /tokens?/);
+    let token = findTokenQuery(text);
+    let recipient = findAddressAfter(text, /\bto/);
+
+    // With one field found, a single remaining address is the other field
+    const otherAddresses = findAddresses(text).filter(
+      (address) => address !== token && address !== recipient
+    );
+    if (otherAddresses.length === 1 && token && !recipient) recipient = otherAddresses[0];
+    if (otherAddresses.length === 1 && recipient && !token) token = otherAddresses[0];
+
+    return {
+      params: { amount, token, recipient },
+      ambiguous: [
+        ...(ambiguous ? (['amount'] as const) : []),
+        ...(!token && otherAddresses.length > 1 ? (['token'] as const) : []),
+        ...(!recipient && otherAddresses.length > 1 ? (['recipient'] as const) : []),
+      ],
+    };
+  },
+};
 
 export const swigTransferTokenToAddressAction: Action = {
   name: 'SWIG_TRANSFER_TOKEN_TO_ADDRESS',
@@ -27,13 +107,14 @@ export const swigTransferTokenToAddressAction: Action = {
   ],
   description: 'Transfer SPL tokens from the Swig wallet to any address',
 
-  validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+  validate: async (runtime: IAgentRuntime, message: Memory, _state?: State) => {
     const text = message.content.text?.toLowerCase() || '';
 
     // Check for swig token transfer patterns
     const hasSwigWord = /\bswig\b/.test(text);
     const hasTransferWord = /\b(transfer|send|pay)\b/.test(text);
-    const hasTokenWord = /\b(token|spl|mint)\b/.test(text);
+    const hasTokenWord =
+      /\b(token|spl|mint)\b/.test(text) || (await mentionsKnownToken(runtime, text));
     const hasFromWord = /\b(from|out|using)\b/.test(text);
     const hasAmountPattern = /\d+(?:\.\d+)?/.test(text);
     const hasAddressPattern = /\b[1-9A-HJ-NP-Za-km-z]{32,44}\b/.test(text);
@@ -94,8 +175,8 @@ export const swigTransferTokenToAddressAction: Action = {
   handler: async (
     runtime: IAgentRuntime,
     message: Memory,
-    _state?: State,
-    _options?: any,
+    state?: State,
+    options?: any,
     callback?: HandlerCallback,
     responses?: Memory[]
   ): Promise<boolean> => {
@@ -104,12 +185,15 @@ export const swigTransferTokenToAddressAction: Action = {
     console.log('🔧 Message content:', message.content.text);
     console.log('🔧 Responses array length:', responses?.length || 0);
 
+    // A dry run only simulates, so it is allowed even when transfers are disabled
+    const dryRun = isDryRun(runtime, message.content.text || '');
+
     // Check if transfers are enabled
     const transfersEnabledSetting = runtime.getSetting('SWIG_TRANSFERS_ENABLED');
     const transfersEnabled =
       transfersEnabledSetting === undefined ? true : String(transfersEnabledSetting) === 'true';
 
-    if (!transfersEnabled) {
+    if (!transfersEnabled && !dryRun) {
       console.log('🔧 Transfer operation blocked - transfers are disabled');
       const errorContent = {
         text: `❌ Transfer operations are currently disabled. Set SWIG_TRANSFERS_ENABLED=true to enable transfers.`,
@@ -131,7 +215,8 @@ export const swigTransferTokenToAddressAction: Action = {
 
     try {
       console.log('🔧 Step 1: Getting Solana wallet...');
-      const wallet = await getSolanaWallet(runtime);
+      const service = getSwigWalletService(runtime);
+      const wallet = await service.getWallet();
       if (!wallet) {
         console.log('🔧 ERROR: No wallet configured');
         throw new Error(
@@ -141,59 +226,74 @@ export const swigTransferTokenToAddressAction: Action = {
       console.log('🔧 Wallet public key:', wallet.publicKey.toBase58());
 
       console.log('🔧 Step 2: Getting Solana connection...');
-      const connection = getSolanaConnection(runtime);
+      const connection = service.getConnection();
       console.log('🔧 Connection RPC endpoint:', connection.rpcEndpoint);
 
-      console.log('🔧 Step 3: Finding Swig PDA...');
-      const [swigAddress] = findSwigPda(wallet.publicKey.toBytes());
-      console.log('🔧 Swig address:', swigAddress.toBase58());
-
-      console.log('🔧 Step 4: Parsing transfer parameters...');
-      const text = message.content.text || '';
-      const amountMatch = text.match(/(\d+(?:\.\d+)?)/);
-      const addresses = text.match(/\b[1-9A-HJ-NP-Za-km-z]{32,44}\b/g) || [];
-
-      if (!amountMatch) {
-        throw new Error(
-          "Please specify an amount to transfer (e.g., 'transfer 100 tokens mint 4zMMC9... from swig to 2dr69...')"
-        );
-      }
-
-      if (addresses.length < 2) {
-        throw new Error(
-          "Please specify both mint address and recipient address (e.g., 'transfer 100 tokens mint 4zMMC9... from swig to 2dr69...')"
-        );
-      }
-
-      const amount = parseFloat(amountMatch[1]);
-
-      // Try to determine which address is mint and which is recipient
-      // Usually mint comes after "mint" keyword, recipient comes after "to" keyword
-      const mintMatch = text.match(/mint\s+([1-9A-HJ-NP-Za-km-z]{32,44})/i);
-      const recipientMatch = text.match(/to\s+([1-9A-HJ-NP-Za-km-z]{32,44})/i);
-
-      let mintAddress: PublicKey;
-      let recipientAddress: PublicKey;
+      console.log('🔧 Step 3: Resolving Swig wallet...');
+      const resolvedSwig = await resolveSwig(runtime, wallet.publicKey, message.content.text || '');
+      const swigAddress = resolvedSwig.address;
+      console.log('🔧 Swig wallet:', resolvedSwig.name, swigAddress.toBase58());
+
+      // Contact names become addresses and role IDs before any parsing
+      const resolvedMessage = await resolveContactNames(runtime, message, swigAddress);
+
+      console.log('🔧 Step 4: Extracting transfer parameters...');
+      const extraction = await extractSwigParams(
+        runtime,
+        resolvedMessage,
+        state,
+        transferParamsSpec,
+        options
+      );
 
-      if (mintMatch && recipientMatch && mintMatch[1] && recipientMatch[1]) {
-        mintAddress = new PublicKey(mintMatch[1]);
-        recipientAddress = new PublicKey(recipientMatch[1]);
-      } else if (addresses.length >= 2 && addresses[0] && addresses[1]) {
-        // Fallback: assume first address is mint, second is recipient
-        mintAddress = new PublicKey(addresses[0]);
-        recipientAddress = new PublicKey(addresses[1]);
-      } else {
-        throw new Error(
-          "Could not identify mint and recipient addresses. Please use format: 'transfer [amount] tokens mint [mint_address] from swig to [recipient_address]'"
-        );
+      if ('question' in extraction) {
+        console.log('🔧 Transfer parameters unclear, asking for clarification');
+        const clarificationContent = {
+          text: `❓ ${extraction.question}`,
+          thought:
+            'The transfer amount, mint or recipient was missing or ambiguous, so I asked instead of guessing.',
+          actions: ['SWIG_TRANSFER_TOKEN_TO_ADDRESS', 'REPLY'],
+          source: message.content.source,
+        };
+
+        if (responses && responses.length > 0) {
+          responses[0].content = clarificationContent;
+        }
+
+        if (callback) {
+          await callback(clarificationContent);
+        }
+
+        return true;
       }
 
+      const { amount } = extraction.params;
+      const token = await resolveToken(runtime, extraction.params.token);
+      const mintAddress = new PublicKey(token.mint);
+      console.log('🔧 Token:', token.symbol);
+      const recipientAddress = new PublicKey(extraction.params.recipient);
       console.log('🔧 Transfer amount:', amount);
       console.log('🔧 Mint address:', mintAddress.toBase58());
       console.log('🔧 Recipient address:', recipientAddress.toBase58());
 
+      console.log('🔧 Checking recipient lists and spending policy...');
+      const transferIntent = {
+        swigAddress: swigAddress.toBase58(),
+        asset: mintAddress.toBase58(),
+        symbol: token.symbol,
+        amount,
+        recipient: recipientAddress.toBase58(),
+      };
+      await enforceSwigRecipient(
+        runtime,
+        message,
+        'SWIG_TRANSFER_TOKEN_TO_ADDRESS',
+        transferIntent
+      );
+      await enforceSwigPolicy(runtime, message, transferIntent);
+
       console.log('🔧 Step 5: Fetching Swig wallet...');
-      const swig = await fetchSwig(connection, swigAddress);
+      const swig = await service.getSwig(swigAddress, { refresh: true });
       const roles = swig.findRolesByEd25519SignerPk(wallet.publicKey);
       console.log('🔧 Found roles for current wallet:', roles.length);
 
@@ -203,17 +303,52 @@ export const swigTransferTokenToAddressAction: Action = {
         );
       }
 
-      const agentRole = roles[0];
-      console.log('🔧 Using role:', agentRole);
-
       console.log('🔧 Step 6: Getting mint info...');
       const mintInfo = await getMint(connection, mintAddress);
       const adjustedAmount = amount * Math.pow(10, mintInfo.decimals);
       console.log('🔧 Token decimals:', mintInfo.decimals);
       console.log('🔧 Adjusted amount:', adjustedAmount);
 
+      console.log('🔧 Selecting role...');
+      const currentSlot = await connection.getSlot();
+      const requirement = {
+        tokenMint: mintAddress,
+        tokenAmount: BigInt(Math.round(adjustedAmount)),
+        tokenDecimals: mintInfo.decimals,
+      };
+
+      // Transfers above the asset's threshold wait for the requesting user to confirm them
+      const awaitsConfirmation =
+        !dryRun &&
+        !options?.confirmedOperation &&
+        requiresConfirmation(runtime, amount, mintAddress);
+
+      // Prefer the short-lived session key for routine transfers when it is active and allowed.
+      // Its key is only refreshed when this transfer is sent now, since a refresh is itself a
+      // transaction.
+      const activeSession = await getActiveSwigSession(
+        runtime,
+        wallet,
+        connection,
+        swigAddress,
+        swig,
+        { refresh: !dryRun && !awaitsConfirmation }
+      );
+      const session =
+        activeSession && canRolePerform(activeSession.role, requirement, currentSlot)
+          ? activeSession
+          : null;
+      const signingRole = session ? session.role : selectAgentRole(roles, requirement, currentSlot);
+      const signerDescription = `${
+        session
+          ? `session key ${session.record.sessionKey} (role ${signingRole.id})`
+          : `agent wallet (role ${signingRole.id})`
+      }${describeSessionRefresh(activeSession)}`;
+      console.log('🔧 Signing with:', signerDescription);
+
       console.log('🔧 Step 7: Getting token accounts...');
-      const fromAta = await getAssociatedTokenAddress(mintAddress, swigAddress, true);
+      const walletAddress = await getSwigWalletAddress(swig);
+      const fromAta = await getAssociatedTokenAddress(mintAddress, walletAddress, true);
       const toAta = await getAssociatedTokenAddress(mintAddress, recipientAddress, false);
       console.log('🔧 From ATA (Swig):', fromAta.toBase58());
       console.log('🔧 To ATA (Recipient):', toAta.toBase58());
@@ -227,7 +362,7 @@ export const swigTransferTokenToAddressAction: Action = {
         await getAccount(connection, toAta);
         toAccountExists = true;
         console.log('🔧 Recipient token account exists');
-      } catch (error) {
+      } catch {
         console.log('🔧 Recipient token account does not exist, will create it');
       }
 
@@ -247,39 +382,93 @@ export const swigTransferTokenToAddressAction: Action = {
       const transferInstruction = createTransferInstruction(
         fromAta, // source (Swig's token account)
         toAta, // destination (recipient's token account)
-        swigAddress, // owner (Swig wallet)
+        walletAddress, // owner (Swig wallet)
         adjustedAmount // amount
       );
       instructions.push(transferInstruction);
 
       console.log('🔧 Step 10: Creating sign instruction...');
       // Create sign instruction for the Swig
-      const signIx = await signInstruction(agentRole, wallet.publicKey, instructions);
+      const signIxs = await getSignInstructions(
+        session ? session.swig : swig,
+        signingRole.id,
+        instructions,
+        false,
+        { payer: wallet.publicKey }
+      );
       console.log('🔧 Sign instruction created');
 
-      console.log('🔧 Step 11: Building and signing transaction...');
-      const transaction = new Transaction().add(signIx);
-      transaction.feePayer = wallet.publicKey;
-      const latestBlockhash = await connection.getLatestBlockhash();
-      transaction.recentBlockhash = latestBlockhash.blockhash;
-      console.log('🔧 Latest blockhash:', latestBlockhash.blockhash);
+      const tokenSymbol = token.symbol;
+
+      if (dryRun) {
+        console.log('🔧 Step 11: Simulating transaction (dry run)...');
+        const report = await simulateSwigTransaction(runtime, wallet, connection, signIxs);
+        console.log('🔧 Simulation complete, nothing was sent');
+
+        const dryRunContent = {
+          text: `🧪 Dry run: transfer ${amount} ${tokenSymbol} from Swig wallet\n\nFrom: ${describeSwig(resolvedSwig)}\nTo: ${recipientAddress.toBase58()}\nToken: ${describeToken(token, mintInfo.decimals)}\nToken Mint: ${mintAddress.toBase58()}\nAmount: ${amount} ${tokenSymbol}\nSigned by: ${signerDescription}\n\n${formatSimulationReport(report)}`,
+          thought: `Simulated transferring ${amount} ${tokenSymbol} from the Swig wallet to ${recipientAddress.toBase58()} without sending it.`,
+          actions: ['SWIG_TRANSFER_TOKEN_TO_ADDRESS', 'REPLY'],
+          source: message.content.source,
+        };
+
+        if (responses && responses.length > 0) {
+          responses[0].content = dryRunContent;
+        }
 
-      console.log('🔧 Step 12: Signing transaction...');
-      const signedTransaction = await wallet.signTransaction(transaction);
-      console.log('🔧 Transaction signed');
+        if (callback) {
+          await callback(dryRunContent);
+        }
 
-      console.log('🔧 Step 13: Sending transaction...');
-      const signature = await connection.sendRawTransaction(signedTransaction.serialize());
-      console.log('🔧 Transaction sent, signature:', signature);
+        return true;
+      }
+
+      if (awaitsConfirmation) {
+        console.log('🔧 Transfer above confirmation threshold, waiting for confirmation');
+        const pending = await createPendingOperation(
+          runtime,
+          resolvedMessage,
+          'SWIG_TRANSFER_TOKEN_TO_ADDRESS',
+          `Transfer ${amount} ${tokenSymbol} from Swig wallet\n\nFrom: ${describeSwig(resolvedSwig)}\nTo: ${recipientAddress.toBase58()}\nToken: ${describeToken(token, mintInfo.decimals)}\nToken Mint: ${mintAddress.toBase58()}\nAmount: ${amount} ${tokenSymbol}\nSigned by: ${signerDescription}`,
+          extraction.params
+        );
+
+        const pendingContent = {
+          text: describePendingOperation(pending),
+          thought: `Transfer of ${amount} ${tokenSymbol} is above the confirmation threshold; waiting for the user to confirm code ${pending.code}.`,
+          actions: ['SWIG_TRANSFER_TOKEN_TO_ADDRESS', 'REPLY'],
+          source: message.content.source,
+        };
+
+        if (responses && responses.length > 0) {
+          responses[0].content = pendingContent;
+        }
+
+        if (callback) {
+          await callback(pendingContent);
+        }
+
+        return true;
+      }
 
-      console.log('🔧 Step 14: Confirming transaction...');
-      await connection.confirmTransaction(signature, 'confirmed');
+      console.log('🔧 Step 11: Sending transaction...');
+      const reservation = await reservePolicySpend(runtime, message, transferIntent);
+      let signature: string;
+      try {
+        ({ signature } = await sendSwigTransaction(runtime, wallet, connection, signIxs, {
+          signers: session ? [session.keypair] : [],
+        }));
+      } catch (error) {
+        // A transfer that failed to send does not count against the period caps
+        await releasePolicySpend(runtime, reservation);
+        throw error;
+      }
       console.log('🔧 Transaction confirmed!');
+      await recordPolicySpend(runtime, reservation, signature);
 
-      const tokenSymbol = mintAddress.toBase58().substring(0, 8) + '...';
       const responseContent = {
-        text: `✅ Successfully transferred ${amount} ${tokenSymbol} tokens from Swig wallet!\n\nFrom: ${swigAddress.toBase58()}\nTo: ${recipientAddress.toBase58()}\nToken Mint: ${mintAddress.toBase58()}\nAmount: ${amount} tokens\nTransaction: ${signature}`,
-        thought: `Successfully transferred ${amount} SPL tokens from the Swig wallet to ${recipientAddress.toBase58()}.`,
+        text: `✅ Successfully transferred ${amount} ${tokenSymbol} from Swig wallet!\n\nFrom: ${describeSwig(resolvedSwig)}\nTo: ${recipientAddress.toBase58()}\nToken: ${describeToken(token, mintInfo.decimals)}\nToken Mint: ${mintAddress.toBase58()}\nAmount: ${amount} ${tokenSymbol}\nSigned by: ${signerDescription}\nTransaction: ${signature}`,
+        thought: `Successfully transferred ${amount} ${tokenSymbol} from the Swig wallet to ${recipientAddress.toBase58()}.`,
         actions: ['SWIG_TRANSFER_TOKEN_TO_ADDRESS', 'REPLY'],
         source: message.content.source,
       };
@@ -368,5 +557,20 @@ export const swigTransferTokenToAddressAction: Action = {
         },
       },
     ],
+    [
+      {
+        name: 'User',
+        content: {
+          text: 'Send 25 USDC from swig to 9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM',
+        },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: 'Sending 25 USDC from your Swig wallet...',
+          action: 'SWIG_TRANSFER_TOKEN_TO_ADDRESS',
+        },
+      },
+    ],
   ] as ActionExample[][],
 };
@@ -13,9 +13,94 @@ import {
   createAssociatedTokenAccountInstruction,
   getAccount,
 } from '@solana/spl-token';
-import { PublicKey, Transaction } from '@solana/web3.js';
-import { fetchSwig, findSwigPda, signInstruction } from '@swig-wallet/classic';
-import { getSolanaConnection, getSolanaWallet } from '../utils.js';
+import { PublicKey } from '@solana/web3.js';
+import { getSignInstructions, getSwigWalletAddress } from '@swig-wallet/classic';
+import { z } from 'zod';
+import { findRoleByAuthorityAddress, getRoleSolanaAddress } from '../authorities.js';
+import {
+  createPendingOperation,
+  describePendingOperation,
+  requiresConfirmation,
+} from '../confirmations.js';
+import { resolveContactNames } from '../contacts.js';
+import {
+  amountSchema,
+  authorityRecipientIssue,
+  authorityRecipientShape,
+  extractSwigParams,
+  findAmount,
+  findAuthorityRecipient,
+  hasSingleAuthorityRecipient,
+  stripRoleIds,
+  type SwigParamSpec,
+} from '../parameters.js';
+import {
+  enforceSwigPolicy,
+  recordPolicySpend,
+  releasePolicySpend,
+  reservePolicySpend,
+} from '../policy.js';
+import { describeSwig, resolveSwig } from '../registry.js';
+import { canRolePerform, selectAgentRole } from '../roles.js';
+import { getSwigWalletService } from '../services/swigWallet.js';
+import { describeSessionRefresh, getActiveSwigSession } from '../session.js';
+import {
+  describeToken,
+  findTokenQuery,
+  mentionsKnownToken,
+  resolveToken,
+  tokenSchema,
+  TOKEN_FIELD_DESCRIPTION,
+} from '../tokens.js';
+import {
+  formatSimulationReport,
+  isDryRun,
+  sendSwigTransaction,
+  simulateSwigTransaction,
+} from '../transactions.js';
+
+const transferParamsSpec: SwigParamSpec<{
+  amount: number;
+  token: string;
+  recipient?: string;
+  roleId?: number;
+}> = {
+  description: 'transfer SPL tokens from the Swig wallet to one of its authorities',
+  schema: z
+    .object({ amount: amountSchema, token: tokenSchema, ...authorityRecipientShape })
+    .refine(hasSingleAuthorityRecipient, authorityRecipientIssue),
+  fields: {
+    amount: 'the amount of tokens to send, as a number in whole tokens (not base units)',
+    token: TOKEN_FIELD_DESCRIPTION,
+    recipient: 'the base58 address of the receiving authority, if given as an address',
+    roleId: 'the role ID of the receiving authority, if given as a role (e.g. "role 1")',
+  },
+  questions: {
+    amount: 'How many tokens should I send?',
+    token: "Which token should I send? Please give its symbol or mint address (e.g. 'USDC').",
+    recipient:
+      'Which authority should receive the tokens? Please give its address or role ID (e.g. "role 1").',
+    roleId:
+      'Which authority should receive the tokens? Please give its address or role ID (e.g. "role 1").',
+  },
+  fallback: (text) => {
+    const { amount, ambiguous } = findAmount(stripRoleIds(text), /tokens?/);
+    const token = findTokenQuery(stripRoleIds(text));
+    const {
+      recipient,
+      roleId,
+      ambiguous: recipientAmbiguous,
+    } = findAuthorityRecipient(text, token ? [token] : []);
+
+    return {
+      params: { amount, token, recipient, roleId },
+      ambiguous: [
+        ...(ambiguous ? (['amount'] as const) : []),
+        ...(recipientAmbiguous ? (['recipient'] as const) : []),
+      ],
+    };
+  },
+};
 
 export const swigTransferTokenToAuthorityAction: Action = {
   name: 'SWIG_TRANSFER_TOKEN_TO_AUTHORITY',
@@ -27,13 +112,14 @@ export const swigTransferTokenToAuthorityAction: Action = {
   ],
   description: 'Transfer SPL tokens from the Swig wallet to another authority on the same Swig',
 
-  validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+  validate: async (runtime: IAgentRuntime, message: Memory, _state?: State) => {
     const text = message.content.text?.toLowerCase() || '';
 
     // Check for swig token transfer to authority patterns
     const hasSwigWord = /\bswig\b/.test(text);
     const hasTransferWord = /\b(transfer|send|pay)\b/.test(text);
-    const hasTokenWord = /\b(token|spl|mint)\b/.test(text);
+    const hasTokenWord =
+      /\b(token|spl|mint)\b/.test(text) || (await mentionsKnownToken(runtime, text));
     const hasAuthorityWord = /\b(authority|signer|role)\b/.test(text);
     const hasAmountPattern = /\d+(?:\.\d+)?/.test(text);
 
@@ -88,8 +174,8 @@ export const swigTransferTokenToAuthorityAction: Action = {
   handler: async (
     runtime: IAgentRuntime,
     message: Memory,
-    _state?: State,
-    _options?: any,
+    state?: State,
+    options?: any,
     callback?: HandlerCallback,
     responses?: Memory[]
   ): Promise<boolean> => {
@@ -98,12 +184,15 @@ export const swigTransferTokenToAuthorityAction: Action = {
     console.log('🔧 Message content:', message.content.text);
     console.log('🔧 Responses array length:', responses?.length || 0);
 
+    // A dry run only simulates, so it is allowed even when transfers are disabled
+    const dryRun = isDryRun(runtime, message.content.text || '');
+
     // Check if transfers are enabled
     const transfersEnabledSetting = runtime.getSetting('SWIG_TRANSFERS_ENABLED');
     const transfersEnabled =
       transfersEnabledSetting === undefined ? true : String(transfersEnabledSetting) === 'true';
 
-    if (!transfersEnabled) {
+    if (!transfersEnabled && !dryRun) {
       console.log('🔧 Transfer operation blocked - transfers are disabled');
       const errorContent = {
         text: `❌ Transfer operations are currently disabled. Set SWIG_TRANSFERS_ENABLED=true to enable transfers.`,
@@ -125,7 +214,8 @@ export const swigTransferTokenToAuthorityAction: Action = {
 
     try {
       console.log('🔧 Step 1: Getting Solana wallet...');
-      const wallet = await getSolanaWallet(runtime);
+      const service = getSwigWalletService(runtime);
+      const wallet = await service.getWallet();
       if (!wallet) {
         console.log('🔧 ERROR: No wallet configured');
         throw new Error(
@@ -135,30 +225,52 @@ export const swigTransferTokenToAuthorityAction: Action = {
       console.log('🔧 Wallet public key:', wallet.publicKey.toBase58());
 
       console.log('🔧 Step 2: Getting Solana connection...');
-      const connection = getSolanaConnection(runtime);
+      const connection = service.getConnection();
       console.log('🔧 Connection RPC endpoint:', connection.rpcEndpoint);
 
-      console.log('🔧 Step 3: Finding Swig PDA...');
-      const [swigAddress] = findSwigPda(wallet.publicKey.toBytes());
-      console.log('🔧 Swig address:', swigAddress.toBase58());
+      console.log('🔧 Step 3: Resolving Swig wallet...');
+      const resolvedSwig = await resolveSwig(runtime, wallet.publicKey, message.content.text || '');
+      const swigAddress = resolvedSwig.address;
+      console.log('🔧 Swig wallet:', resolvedSwig.name, swigAddress.toBase58());
+
+      // Contact names become addresses and role IDs before any parsing
+      const resolvedMessage = await resolveContactNames(runtime, message, swigAddress);
+
+      console.log('🔧 Step 4: Extracting transfer parameters...');
+      const extraction = await extractSwigParams(
+        runtime,
+        resolvedMessage,
+        state,
+        transferParamsSpec,
+        options
+      );
 
-      console.log('🔧 Step 4: Parsing transfer parameters...');
-      const text = message.content.text || '';
-      const amountMatch = text.match(/(\d+(?:\.\d+)?)/);
-      const addresses = text.match(/\b[1-9A-HJ-NP-Za-km-z]{32,44}\b/g) || [];
-      const roleIdMatch = text.match(/role\s*(?:id\s*)?(\d+)/i);
+      if ('question' in extraction) {
+        console.log('🔧 Transfer parameters unclear, asking for clarification');
+        const clarificationContent = {
+          text: `❓ ${extraction.question}`,
+          thought:
+            'The transfer amount, mint or recipient authority was missing or ambiguous, so I asked instead of guessing.',
+          actions: ['SWIG_TRANSFER_TOKEN_TO_AUTHORITY', 'REPLY'],
+          source: message.content.source,
+        };
+
+        if (responses && responses.length > 0) {
+          responses[0].content = clarificationContent;
+        }
 
-      if (!amountMatch) {
-        throw new Error(
-          "Please specify an amount to transfer (e.g., 'transfer 100 tokens mint 4zMMC9... from swig to authority 2dr69...' or 'transfer 100 tokens mint 4zMMC9... from swig to role 1')"
-        );
+        if (callback) {
+          await callback(clarificationContent);
+        }
+
+        return true;
       }
 
-      const amount = parseFloat(amountMatch[1]);
+      const { amount, roleId } = extraction.params;
       console.log('🔧 Transfer amount:', amount);
 
       console.log('🔧 Step 5: Fetching Swig wallet...');
-      const swig = await fetchSwig(connection, swigAddress);
+      const swig = await service.getSwig(swigAddress, { refresh: true });
       const roles = swig.findRolesByEd25519SignerPk(wallet.publicKey);
       console.log('🔧 Found roles for current wallet:', roles.length);
 
@@ -168,27 +280,15 @@ export const swigTransferTokenToAuthorityAction: Action = {
         );
       }
 
-      const agentRole = roles[0];
-      console.log('🔧 Using role:', agentRole);
-
-      console.log('🔧 Step 6: Parsing mint and recipient authority...');
-      let mintAddress: PublicKey;
-      let recipientAddress: PublicKey;
-
-      // Extract mint address
-      const mintMatch = text.match(/mint\s+([1-9A-HJ-NP-Za-km-z]{32,44})/i);
-      if (!mintMatch || !mintMatch[1]) {
-        throw new Error(
-          "Please specify the token mint address (e.g., 'mint 4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU')"
-        );
-      }
-      mintAddress = new PublicKey(mintMatch[1]);
+      console.log('🔧 Step 6: Finding recipient authority...');
+      const token = await resolveToken(runtime, extraction.params.token);
+      const mintAddress = new PublicKey(token.mint);
+      console.log('🔧 Token:', token.symbol);
       console.log('🔧 Mint address:', mintAddress.toBase58());
+      let recipientAddress: PublicKey;
 
-      // Find recipient authority
-      if (roleIdMatch) {
+      if (roleId !== undefined) {
         // Transfer to role ID
-        const roleId = parseInt(roleIdMatch[1]);
         console.log('🔧 Looking for role ID:', roleId);
 
         const targetRole = swig.roles.find((role) => role.id === roleId);
@@ -196,23 +296,14 @@ export const swigTransferTokenToAuthorityAction: Action = {
           throw new Error(`Role ID ${roleId} not found in this Swig wallet.`);
         }
 
-        recipientAddress = new PublicKey(targetRole.authority.data);
+        recipientAddress = getRoleSolanaAddress(targetRole);
         console.log('🔧 Found authority for role', roleId, ':', recipientAddress.toBase58());
       } else {
-        // Look for authority address after "to"
-        const authorityMatch = text.match(/to\s+(?:authority\s+)?([1-9A-HJ-NP-Za-km-z]{32,44})/i);
-        if (!authorityMatch || !authorityMatch[1]) {
-          throw new Error(
-            "Please specify either a role ID (e.g., 'role 1') or an authority address (e.g., 'to authority 2dr69...')"
-          );
-        }
-
-        recipientAddress = new PublicKey(authorityMatch[1]);
+        // Transfer to specific address (must be an authority)
+        recipientAddress = new PublicKey(extraction.params.recipient!);
         console.log('🔧 Checking if address is authority:', recipientAddress.toBase58());
 
-        const isAuthority = swig.roles.some((role) =>
-          new PublicKey(role.authority.data).equals(recipientAddress)
-        );
+        const isAuthority = !!findRoleByAuthorityAddress(swig.roles, recipientAddress.toBase58());
 
         if (!isAuthority) {
           throw new Error(
@@ -223,14 +314,62 @@ export const swigTransferTokenToAuthorityAction: Action = {
 
       console.log('🔧 Recipient authority address:', recipientAddress.toBase58());
 
+      console.log('🔧 Checking spending policy...');
+      const transferIntent = {
+        swigAddress: swigAddress.toBase58(),
+        asset: mintAddress.toBase58(),
+        symbol: token.symbol,
+        amount,
+        recipient: recipientAddress.toBase58(),
+      };
+      await enforceSwigPolicy(runtime, message, transferIntent);
+
       console.log('🔧 Step 7: Getting mint info...');
       const mintInfo = await getMint(connection, mintAddress);
       const adjustedAmount = amount * Math.pow(10, mintInfo.decimals);
       console.log('🔧 Token decimals:', mintInfo.decimals);
       console.log('🔧 Adjusted amount:', adjustedAmount);
 
+      console.log('🔧 Selecting role...');
+      const currentSlot = await connection.getSlot();
+      const requirement = {
+        tokenMint: mintAddress,
+        tokenAmount: BigInt(Math.round(adjustedAmount)),
+        tokenDecimals: mintInfo.decimals,
+      };
+
+      // Transfers above the asset's threshold wait for the requesting user to confirm them
+      const awaitsConfirmation =
+        !dryRun &&
+        !options?.confirmedOperation &&
+        requiresConfirmation(runtime, amount, mintAddress);
+
+      // Prefer the short-lived session key for routine transfers when it is active and allowed.
+      // Its key is only refreshed when this transfer is sent now, since a refresh is itself a
+      // transaction.
+      const activeSession = await getActiveSwigSession(
+        runtime,
+        wallet,
+        connection,
+        swigAddress,
+        swig,
+        { refresh: !dryRun && !awaitsConfirmation }
+      );
+      const session =
+        activeSession && canRolePerform(activeSession.role, requirement, currentSlot)
+          ? activeSession
+          : null;
+      const signingRole = session ? session.role : selectAgentRole(roles, requirement, currentSlot);
+      const signerDescription = `${
+        session
+          ? `session key ${session.record.sessionKey} (role ${signingRole.id})`
+          : `agent wallet (role ${signingRole.id})`
+      }${describeSessionRefresh(activeSession)}`;
+      console.log('🔧 Signing with:', signerDescription);
+
       console.log('🔧 Step 8: Getting token accounts...');
-      const fromAta = await getAssociatedTokenAddress(mintAddress, swigAddress, true);
+      const walletAddress = await getSwigWalletAddress(swig);
+      const fromAta = await getAssociatedTokenAddress(mintAddress, walletAddress, true);
       const toAta = await getAssociatedTokenAddress(mintAddress, recipientAddress, false);
       console.log('🔧 From ATA (Swig):', fromAta.toBase58());
       console.log('🔧 To ATA (Authority):', toAta.toBase58());
@@ -244,7 +383,7 @@ export const swigTransferTokenToAuthorityAction: Action = {
         await getAccount(connection, toAta);
         toAccountExists = true;
         console.log('🔧 Authority token account exists');
-      } catch (error) {
+      } catch {
         console.log('🔧 Authority token account does not exist, will create it');
       }
 
@@ -264,39 +403,93 @@ export const swigTransferTokenToAuthorityAction: Action = {
       const transferInstruction = createTransferInstruction(
         fromAta, // source (Swig's token account)
         toAta, // destination (authority's token account)
-        swigAddress, // owner (Swig wallet)
+        walletAddress, // owner (Swig wallet)
         adjustedAmount // amount
       );
       instructions.push(transferInstruction);
 
       console.log('🔧 Step 11: Creating sign instruction...');
       // Create sign instruction for the Swig
-      const signIx = await signInstruction(agentRole, wallet.publicKey, instructions);
+      const signIxs = await getSignInstructions(
+        session ? session.swig : swig,
+        signingRole.id,
+        instructions,
+        false,
+        { payer: wallet.publicKey }
+      );
       console.log('🔧 Sign instruction created');
 
-      console.log('🔧 Step 12: Building and signing transaction...');
-      const transaction = new Transaction().add(signIx);
-      transaction.feePayer = wallet.publicKey;
-      const latestBlockhash = await connection.getLatestBlockhash();
-      transaction.recentBlockhash = latestBlockhash.blockhash;
-      console.log('🔧 Latest blockhash:', latestBlockhash.blockhash);
+      const tokenSymbol = token.symbol;
 
-      console.log('🔧 Step 13: Signing transaction...');
-      const signedTransaction = await wallet.signTransaction(transaction);
-      console.log('🔧 Transaction signed');
+      if (dryRun) {
+        console.log('🔧 Step 12: Simulating transaction (dry run)...');
+        const report = await simulateSwigTransaction(runtime, wallet, connection, signIxs);
+        console.log('🔧 Simulation complete, nothing was sent');
 
-      console.log('🔧 Step 14: Sending transaction...');
-      const signature = await connection.sendRawTransaction(signedTransaction.serialize());
-      console.log('🔧 Transaction sent, signature:', signature);
+        const dryRunContent = {
+          text: `🧪 Dry run: transfer ${amount} ${tokenSymbol} from Swig wallet to authority\n\nFrom: ${describeSwig(resolvedSwig)}\nTo Authority: ${recipientAddress.toBase58()}\nToken: ${describeToken(token, mintInfo.decimals)}\nToken Mint: ${mintAddress.toBase58()}\nAmount: ${amount} ${tokenSymbol}\nSigned by: ${signerDescription}\n\n${formatSimulationReport(report)}`,
+          thought: `Simulated transferring ${amount} ${tokenSymbol} from the Swig wallet to authority ${recipientAddress.toBase58()} without sending it.`,
+          actions: ['SWIG_TRANSFER_TOKEN_TO_AUTHORITY', 'REPLY'],
+          source: message.content.source,
+        };
+
+        if (responses && responses.length > 0) {
+          responses[0].content = dryRunContent;
+        }
 
-      console.log('🔧 Step 15: Confirming transaction...');
-      await connection.confirmTransaction(signature, 'confirmed');
+        if (callback) {
+          await callback(dryRunContent);
+        }
+
+        return true;
+      }
+
+      if (awaitsConfirmation) {
+        console.log('🔧 Transfer above confirmation threshold, waiting for confirmation');
+        const pending = await createPendingOperation(
+          runtime,
+          resolvedMessage,
+          'SWIG_TRANSFER_TOKEN_TO_AUTHORITY',
+          `Transfer ${amount} ${tokenSymbol} from Swig wallet to authority\n\nFrom: ${describeSwig(resolvedSwig)}\nTo Authority: ${recipientAddress.toBase58()}\nToken: ${describeToken(token, mintInfo.decimals)}\nToken Mint: ${mintAddress.toBase58()}\nAmount: ${amount} ${tokenSymbol}\nSigned by: ${signerDescription}`,
+          extraction.params
+        );
+
+        const pendingContent = {
+          text: describePendingOperation(pending),
+          thought: `Transfer of ${amount} ${tokenSymbol} is above the confirmation threshold; waiting for the user to confirm code ${pending.code}.`,
+          actions: ['SWIG_TRANSFER_TOKEN_TO_AUTHORITY', 'REPLY'],
+          source: message.content.source,
+        };
+
+        if (responses && responses.length > 0) {
+          responses[0].content = pendingContent;
+        }
+
+        if (callback) {
+          await callback(pendingContent);
+        }
+
+        return true;
+      }
+
+      console.log('🔧 Step 12: Sending transaction...');
+      const reservation = await reservePolicySpend(runtime, message, transferIntent);
+      let signature: string;
+      try {
+        ({ signature } = await sendSwigTransaction(runtime, wallet, connection, signIxs, {
+          signers: session ? [session.keypair] : [],
+        }));
+      } catch (error) {
+        // A transfer that failed to send does not count against the period caps
+        await releasePolicySpend(runtime, reservation);
+        throw error;
+      }
       console.log('🔧 Transaction confirmed!');
+      await recordPolicySpend(runtime, reservation, signature);
 
-      const tokenSymbol = mintAddress.toBase58().substring(0, 8) + '...';
       const responseContent = {
-        text: `✅ Successfully transferred ${amount} ${tokenSymbol} tokens from Swig wallet to authority!\n\nFrom: ${swigAddress.toBase58()}\nTo Authority: ${recipientAddress.toBase58()}\nToken Mint: ${mintAddress.toBase58()}\nAmount: ${amount} tokens\nTransaction: ${signature}`,
-        thought: `Successfully transferred ${amount} SPL tokens from the Swig wallet to authority ${recipientAddress.toBase58()}.`,
+        text: `✅ Successfully transferred ${amount} ${tokenSymbol} from Swig wallet to authority!\n\nFrom: ${describeSwig(resolvedSwig)}\nTo Authority: ${recipientAddress.toBase58()}\nToken: ${describeToken(token, mintInfo.decimals)}\nToken Mint: ${mintAddress.toBase58()}\nAmount: ${amount} ${tokenSymbol}\nSigned by: ${signerDescription}\nTransaction: ${signature}`,
+        thought: `Successfully transferred ${amount} ${tokenSymbol} from the Swig wallet to authority ${recipientAddress.toBase58()}.`,
         actions: ['SWIG_TRANSFER_TOKEN_TO_AUTHORITY', 'REPLY'],
         source: message.content.source,
       };
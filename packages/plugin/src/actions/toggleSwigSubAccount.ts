@@ -0,0 +1,246 @@
+import {
+  type Action,
+  type ActionExample,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+} from '@elizaos/core';
+import { getToggleSubAccountInstructions } from '@swig-wallet/classic';
+import { describeSwig, resolveSwig } from '../registry.js';
+import { getSwigWalletService } from '../services/swigWallet.js';
+import { mentionsSubAccount, resolveSubAccountTarget } from '../subAccounts.js';
+import {
+  formatSimulationReport,
+  isDryRun,
+  sendSwigTransaction,
+  simulateSwigTransaction,
+} from '../transactions.js';
+
+const DISABLE_REGEX = /\b(disable|freeze|pause|suspend|lock)\b/;
+const ENABLE_REGEX = /\b(enable|unfreeze|resume|unpause|reactivate|unlock)\b/;
+
+export const toggleSwigSubAccountAction: Action = {
+  name: 'TOGGLE_SWIG_SUB_ACCOUNT',
+  similes: ['ENABLE_SWIG_SUB_ACCOUNT', 'DISABLE_SWIG_SUB_ACCOUNT', 'FREEZE_SWIG_SUB_ACCOUNT'],
+  description: 'Enable or disable a Swig sub-account so its budget can or cannot be spent',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, _state?: State) => {
+    const text = message.content.text?.toLowerCase() || '';
+    const hasSubAccountWord = mentionsSubAccount(text);
+    const hasToggleWord = DISABLE_REGEX.test(text) || ENABLE_REGEX.test(text);
+
+    const result = hasSubAccountWord && hasToggleWord;
+    console.log('🔍 TOGGLE_SWIG_SUB_ACCOUNT validation:', `"${text}" -> ${result}`);
+    return result;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+    _options?: any,
+    callback?: HandlerCallback,
+    responses?: Memory[]
+  ): Promise<boolean> => {
+    console.log('🔧 TOGGLE_SWIG_SUB_ACCOUNT action handler called!');
+    console.log('🔧 Callback function present:', !!callback);
+    console.log('🔧 Message content:', message.content.text);
+    console.log('🔧 Responses array length:', responses?.length || 0);
+
+    // A dry run only simulates, so it is allowed even when transfers are disabled
+    const dryRun = isDryRun(runtime, message.content.text || '');
+
+    // Check if transfers are enabled
+    const transfersEnabledSetting = runtime.getSetting('SWIG_TRANSFERS_ENABLED');
+    const transfersEnabled =
+      transfersEnabledSetting === undefined ? true : String(transfersEnabledSetting) === 'true';
+
+    if (!transfersEnabled && !dryRun) {
+      console.log('🔧 Sub-account operation blocked - transfers are disabled');
+      const errorContent = {
+        text: `❌ Sub-account operations are currently disabled. Set SWIG_TRANSFERS_ENABLED=true to enable transfers.`,
+        thought: 'Transfer operations have been disabled in the plugin configuration.',
+        actions: ['TOGGLE_SWIG_SUB_ACCOUNT', 'REPLY'],
+        source: message.content.source,
+      };
+
+      if (responses && responses.length > 0) {
+        responses[0].content = errorContent;
+      }
+
+      if (callback) {
+        await callback(errorContent);
+      }
+
+      return true;
+    }
+
+    try {
+      console.log('🔧 Step 1: Getting Solana wallet...');
+      const service = getSwigWalletService(runtime);
+      const wallet = await service.getWallet();
+      if (!wallet) {
+        console.log('🔧 ERROR: No wallet configured');
+        throw new Error(
+          'Solana wallet not configured. Please set SOLANA_PRIVATE_KEY in runtime settings.'
+        );
+      }
+      console.log('🔧 Wallet public key:', wallet.publicKey.toBase58());
+
+      console.log('🔧 Step 2: Getting Solana connection...');
+      const connection = service.getConnection();
+      console.log('🔧 Connection RPC endpoint:', connection.rpcEndpoint);
+
+      console.log('🔧 Step 3: Resolving Swig wallet...');
+      const text = message.content.text || '';
+      const resolvedSwig = await resolveSwig(runtime, wallet.publicKey, text);
+      const swigAddress = resolvedSwig.address;
+      console.log('🔧 Swig wallet:', resolvedSwig.name, swigAddress.toBase58());
+
+      console.log('🔧 Step 4: Parsing requested state...');
+      const lowerText = text.toLowerCase();
+      const enabled = !DISABLE_REGEX.test(lowerText);
+      console.log('🔧 Enable sub-account:', enabled);
+
+      console.log('🔧 Step 5: Fetching Swig wallet...');
+      const swig = await service.getSwig(swigAddress, { refresh: true });
+      const roles = swig.findRolesByEd25519SignerPk(wallet.publicKey);
+      console.log('🔧 Found roles for current wallet:', roles.length);
+
+      if (!roles.length) {
+        throw new Error(
+          'No roles found for your wallet in this Swig. You need to be an authority to manage sub-accounts.'
+        );
+      }
+
+      const { role, subAccount } = await resolveSubAccountTarget(connection, swig, roles, text);
+      console.log('🔧 Sub-account:', subAccount.toBase58(), 'of role', role.id);
+
+      console.log('🔧 Step 6: Creating toggle instruction...');
+      const toggleIxs = await getToggleSubAccountInstructions(swig, role.id, enabled, role.id, {
+        payer: wallet.publicKey,
+      });
+
+      if (dryRun) {
+        console.log('🔧 Step 7: Simulating transaction (dry run)...');
+        const report = await simulateSwigTransaction(runtime, wallet, connection, toggleIxs);
+        console.log('🔧 Simulation complete, nothing was sent');
+
+        const dryRunContent = {
+          text: `🧪 Dry run: ${enabled ? 'enable' : 'disable'} Swig sub-account\n\nSwig Address: ${describeSwig(resolvedSwig)}\nSub-account: ${subAccount.toBase58()} (role ${role.id})\n\n${formatSimulationReport(report)}`,
+          thought: `Simulated ${enabled ? 'enabling' : 'disabling'} the sub-account of role ${role.id} without sending it.`,
+          actions: ['TOGGLE_SWIG_SUB_ACCOUNT', 'REPLY'],
+          source: message.content.source,
+        };
+
+        if (responses && responses.length > 0) {
+          responses[0].content = dryRunContent;
+        }
+
+        if (callback) {
+          await callback(dryRunContent);
+        }
+
+        return true;
+      }
+
+      console.log('🔧 Step 7: Sending transaction...');
+      const { signature } = await sendSwigTransaction(runtime, wallet, connection, toggleIxs);
+      console.log('🔧 Transaction confirmed!');
+
+      const responseContent = {
+        text: `✅ Sub-account ${enabled ? 'enabled' : 'disabled'}!\n\nSwig Address: ${describeSwig(resolvedSwig)}\nSub-account: ${subAccount.toBase58()} (role ${role.id})\nStatus: ${
+          enabled ? 'Enabled - its funds can be spent' : 'Disabled - its funds cannot be spent'
+        }\nTransaction: ${signature}`,
+        thought: `${enabled ? 'Enabled' : 'Disabled'} the sub-account of role ${role.id}.`,
+        actions: ['TOGGLE_SWIG_SUB_ACCOUNT', 'REPLY'],
+        source: message.content.source,
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with success content');
+        responses[0].content = responseContent;
+      }
+
+      // Send response using callback
+      console.log('🔧 Sending success response via callback');
+      console.log('🔧 Response content:', JSON.stringify(responseContent, null, 2));
+      if (callback) {
+        console.log('🔧 Calling callback...');
+        await callback(responseContent);
+        console.log('🔧 Callback completed successfully!');
+      } else {
+        console.log('⚠️ No callback provided to action handler');
+      }
+
+      return true;
+    } catch (error) {
+      console.error('🔧 Toggle sub-account error:', error);
+      console.error('🔧 Error stack:', error instanceof Error ? error.stack : 'No stack trace');
+
+      const errorContent = {
+        text: `❌ Failed to update sub-account: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+        thought:
+          'Failed to enable or disable the sub-account. This could be due to a missing sub-account, insufficient permissions, or network issues.',
+        actions: ['TOGGLE_SWIG_SUB_ACCOUNT', 'REPLY'],
+        source: message.content.source,
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with error content');
+        responses[0].content = errorContent;
+      }
+
+      // Send error response using callback
+      console.log('🔧 Sending error response via callback');
+      console.log('🔧 Error content:', JSON.stringify(errorContent, null, 2));
+      if (callback) {
+        console.log('🔧 Calling callback with error...');
+        await callback(errorContent);
+        console.log('🔧 Error callback completed');
+      } else {
+        console.log('⚠️ No callback provided for error response');
+      }
+
+      return true;
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: 'User',
+        content: {
+          text: 'Disable the sub-account of role 2',
+        },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: "I'll freeze role 2's sub-account so its budget can't be spent.",
+          action: 'TOGGLE_SWIG_SUB_ACCOUNT',
+        },
+      },
+    ],
+    [
+      {
+        name: 'User',
+        content: {
+          text: 'Enable the sub-account again',
+        },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: 'Re-enabling the sub-account...',
+          action: 'TOGGLE_SWIG_SUB_ACCOUNT',
+        },
+      },
+    ],
+  ] as ActionExample[][],
+};
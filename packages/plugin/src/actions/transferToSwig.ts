@@ -7,16 +7,60 @@ import {
   type State,
 } from '@elizaos/core';
 import { createTransferInstruction, getAssociatedTokenAddress, getMint } from '@solana/spl-token';
-import { LAMPORTS_PER_SOL, PublicKey, SystemProgram, Transaction } from '@solana/web3.js';
-import { findSwigPda } from '@swig-wallet/classic';
-import { getSolanaConnection, getSolanaWallet } from '../utils.js';
+import {
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import { z } from 'zod';
+import {
+  amountSchema,
+  extractSwigParams,
+  findAddressAfter,
+  findAmount,
+  solanaAddressSchema,
+  type SwigParamSpec,
+} from '../parameters.js';
+import { describeSwig, resolveSwig } from '../registry.js';
+import { getSwigWalletService } from '../services/swigWallet.js';
+import { mentionsSubAccount } from '../subAccounts.js';
+import { describeToken, getTokenInfo, mentionsKnownToken } from '../tokens.js';
+import {
+  formatSimulationReport,
+  isDryRun,
+  sendSwigTransaction,
+  simulateSwigTransaction,
+} from '../transactions.js';
+
+const transferParamsSpec: SwigParamSpec<{ amount: number; mint?: string }> = {
+  description: "transfer SOL or SPL tokens from the agent's wallet into the Swig wallet",
+  schema: z.object({ amount: amountSchema, mint: solanaAddressSchema.optional() }),
+  fields: {
+    amount: 'the amount to send, as a number in whole SOL or tokens (not base units)',
+    mint: 'the base58 mint address of the token, or null when sending SOL',
+  },
+  questions: {
+    amount: 'How much should I transfer to the Swig wallet?',
+    mint: "Which token should I send? Please give its mint address (e.g. 'mint 4zMMC9...').",
+  },
+  fallback: (text) => {
+    const { amount, ambiguous } = findAmount(text, /(?:sol|tokens?)/);
+    const mint = findAddressAfter(text, /\b(?:mint|token)/);
+
+    return {
+      params: { amount, mint },
+      ambiguous: ambiguous ? ['amount'] : [],
+    };
+  },
+};
 
 export const transferToSwigAction: Action = {
   name: 'TRANSFER_TO_SWIG',
   similes: ['SEND_TO_SWIG', 'FUND_SWIG', 'DEPOSIT_TO_SWIG', 'TRANSFER_FUNDS_TO_SWIG'],
   description: 'Transfer SOL or SPL tokens from agent wallet to the Swig wallet',
 
-  validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+  validate: async (runtime: IAgentRuntime, message: Memory, _state?: State) => {
     const text = message.content.text?.toLowerCase() || '';
 
     // Check for transfer/send + swig combinations more flexibly
@@ -53,7 +97,11 @@ export const transferToSwigAction: Action = {
       }
     });
 
-    const result = isTransferToSwig || hasKeywordMatch;
+    // Sub-account requests are handled by the sub-account actions, named tokens by TRANSFER_TOKEN_TO_SWIG
+    const result =
+      (isTransferToSwig || hasKeywordMatch) &&
+      !mentionsSubAccount(text) &&
+      !(await mentionsKnownToken(runtime, text));
     console.log('🔍 TRANSFER_TO_SWIG validation:', `"${text}" -> ${result}`);
     console.log(
       '🔍 Transfer word:',
@@ -72,8 +120,8 @@ export const transferToSwigAction: Action = {
   handler: async (
     runtime: IAgentRuntime,
     message: Memory,
-    _state?: State,
-    _options?: any,
+    state?: State,
+    options?: any,
     callback?: HandlerCallback,
     responses?: Memory[]
   ): Promise<boolean> => {
@@ -82,12 +130,15 @@ export const transferToSwigAction: Action = {
     console.log('🔧 Message content:', message.content.text);
     console.log('🔧 Responses array length:', responses?.length || 0);
 
+    // A dry run only simulates, so it is allowed even when transfers are disabled
+    const dryRun = isDryRun(runtime, message.content.text || '');
+
     // Check if transfers are enabled
     const transfersEnabledSetting = runtime.getSetting('SWIG_TRANSFERS_ENABLED');
     const transfersEnabled =
       transfersEnabledSetting === undefined ? true : String(transfersEnabledSetting) === 'true';
 
-    if (!transfersEnabled) {
+    if (!transfersEnabled && !dryRun) {
       console.log('🔧 Transfer operation blocked - transfers are disabled');
       const errorContent = {
         text: `❌ Transfer operations are currently disabled. Set SWIG_TRANSFERS_ENABLED=true to enable transfers.`,
@@ -109,7 +160,8 @@ export const transferToSwigAction: Action = {
 
     try {
       console.log('🔧 Step 1: Getting Solana wallet...');
-      const wallet = await getSolanaWallet(runtime);
+      const service = getSwigWalletService(runtime);
+      const wallet = await service.getWallet();
       if (!wallet) {
         console.log('🔧 ERROR: No wallet configured');
         throw new Error(
@@ -119,82 +171,113 @@ export const transferToSwigAction: Action = {
       console.log('🔧 Wallet public key:', wallet.publicKey.toBase58());
 
       console.log('🔧 Step 2: Getting Solana connection...');
-      const connection = getSolanaConnection(runtime);
+      const connection = service.getConnection();
       console.log('🔧 Connection RPC endpoint:', connection.rpcEndpoint);
 
-      console.log('🔧 Step 3: Finding Swig PDA...');
-      const [swigAddress] = findSwigPda(wallet.publicKey.toBytes());
-      console.log('🔧 Swig address:', swigAddress.toBase58());
-
-      // Extract amount and optional mint from message
-      console.log('🔧 Step 4: Parsing transfer parameters...');
-      const text = message.content.text || '';
-      const amountMatch = text.match(/(\d+(?:\.\d+)?)/);
-      const mintMatch = text.match(/(?:mint|token)[\s:]+([A-Za-z0-9]{32,44})/i);
-
-      if (!amountMatch) {
-        throw new Error("Please specify an amount to transfer (e.g., 'transfer 1.5 SOL to swig')");
+      console.log('🔧 Step 3: Resolving Swig wallet...');
+      const resolvedSwig = await resolveSwig(runtime, wallet.publicKey, message.content.text || '');
+      const swigAddress = resolvedSwig.address;
+      console.log('🔧 Swig wallet:', resolvedSwig.name, swigAddress.toBase58());
+      const walletAddress = await service.getWalletAddress(swigAddress);
+
+      console.log('🔧 Step 4: Extracting transfer parameters...');
+      const extraction = await extractSwigParams(
+        runtime,
+        message,
+        state,
+        transferParamsSpec,
+        options
+      );
+
+      if ('question' in extraction) {
+        console.log('🔧 Transfer parameters unclear, asking for clarification');
+        const clarificationContent = {
+          text: `❓ ${extraction.question}`,
+          thought:
+            'The transfer amount or token was missing or ambiguous, so I asked instead of guessing.',
+          actions: ['TRANSFER_TO_SWIG', 'REPLY'],
+          source: message.content.source,
+        };
+
+        if (responses && responses.length > 0) {
+          responses[0].content = clarificationContent;
+        }
+
+        if (callback) {
+          await callback(clarificationContent);
+        }
+
+        return true;
       }
 
-      const amount = parseFloat(amountMatch[1]);
-      const mintAddress = mintMatch ? new PublicKey(mintMatch[1]) : null;
+      const { amount } = extraction.params;
+      const mintAddress = extraction.params.mint ? new PublicKey(extraction.params.mint) : null;
       console.log('🔧 Transfer amount:', amount);
       console.log('🔧 Mint address:', mintAddress?.toBase58() || 'SOL (native)');
 
-      let transaction: Transaction;
+      let transferInstruction: TransactionInstruction;
       let transferDescription: string;
 
       if (!mintAddress) {
         console.log('🔧 Step 5: Creating SOL transfer instruction...');
         // Transfer native SOL
-        const lamports = amount * LAMPORTS_PER_SOL;
-        const transferInstruction = SystemProgram.transfer({
+        const lamports = BigInt(Math.round(amount * LAMPORTS_PER_SOL));
+        transferInstruction = SystemProgram.transfer({
           fromPubkey: wallet.publicKey,
-          toPubkey: swigAddress,
+          toPubkey: walletAddress,
           lamports,
         });
-
-        transaction = new Transaction().add(transferInstruction);
         transferDescription = `${amount} SOL`;
       } else {
         console.log('🔧 Step 5: Creating SPL token transfer instruction...');
         // Transfer SPL token
         const fromAta = await getAssociatedTokenAddress(mintAddress, wallet.publicKey, true);
-        const toAta = await getAssociatedTokenAddress(mintAddress, swigAddress, true);
+        const toAta = await getAssociatedTokenAddress(mintAddress, walletAddress, true);
         const mintInfo = await getMint(connection, mintAddress);
         const adjustedAmount = amount * Math.pow(10, mintInfo.decimals);
 
-        const transferInstruction = createTransferInstruction(
+        transferInstruction = createTransferInstruction(
           fromAta,
           toAta,
           wallet.publicKey,
           adjustedAmount
         );
-
-        transaction = new Transaction().add(transferInstruction);
-        transferDescription = `${amount} tokens (${mintAddress.toBase58().substring(0, 8)}...)`;
+        transferDescription = `${amount} ${describeToken(getTokenInfo(runtime, mintAddress), mintInfo.decimals)}`;
       }
 
-      console.log('🔧 Step 6: Building and signing transaction...');
-      transaction.feePayer = wallet.publicKey;
-      const latestBlockhash = await connection.getLatestBlockhash();
-      transaction.recentBlockhash = latestBlockhash.blockhash;
-      console.log('🔧 Latest blockhash:', latestBlockhash.blockhash);
-
-      console.log('🔧 Step 7: Signing transaction...');
-      const signedTransaction = await wallet.signTransaction(transaction);
-      console.log('🔧 Transaction signed');
-
-      console.log('🔧 Step 8: Sending transaction...');
-      const signature = await connection.sendRawTransaction(signedTransaction.serialize());
-      console.log('🔧 Transaction sent, signature:', signature);
+      if (dryRun) {
+        console.log('🔧 Step 6: Simulating transaction (dry run)...');
+        const report = await simulateSwigTransaction(runtime, wallet, connection, [
+          transferInstruction,
+        ]);
+        console.log('🔧 Simulation complete, nothing was sent');
+
+        const dryRunContent = {
+          text: `🧪 Dry run: transfer ${transferDescription} to Swig wallet\n\nSwig Address: ${describeSwig(resolvedSwig)}\n\n${formatSimulationReport(report)}`,
+          thought: `Simulated transferring ${transferDescription} to the Swig wallet without sending it.`,
+          actions: ['TRANSFER_TO_SWIG', 'REPLY'],
+          source: message.content.source,
+        };
+
+        if (responses && responses.length > 0) {
+          responses[0].content = dryRunContent;
+        }
+
+        if (callback) {
+          await callback(dryRunContent);
+        }
+
+        return true;
+      }
 
-      console.log('🔧 Step 9: Confirming transaction...');
-      await connection.confirmTransaction(signature, 'confirmed');
+      console.log('🔧 Step 6: Sending transaction...');
+      const { signature } = await sendSwigTransaction(runtime, wallet, connection, [
+        transferInstruction,
+      ]);
       console.log('🔧 Transaction confirmed!');
 
       const responseContent = {
-        text: `✅ Successfully transferred ${transferDescription} to Swig wallet!\n\nSwig Address: ${swigAddress.toBase58()}\nTransaction: ${signature}`,
+        text: `✅ Successfully transferred ${transferDescription} to Swig wallet!\n\nSwig Address: ${describeSwig(resolvedSwig)}\nTransaction: ${signature}`,
         thought: `Successfully transferred ${transferDescription} from the agent wallet to the Swig wallet.`,
         actions: ['TRANSFER_TO_SWIG', 'REPLY'],
         source: message.content.source,
@@ -13,9 +13,57 @@ import {
   createAssociatedTokenAccountInstruction,
   getAccount,
 } from '@solana/spl-token';
-import { PublicKey, Transaction } from '@solana/web3.js';
-import { findSwigPda } from '@swig-wallet/classic';
-import { getSolanaConnection, getSolanaWallet } from '../utils.js';
+import { PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { z } from 'zod';
+import {
+  amountSchema,
+  extractSwigParams,
+  findAddresses,
+  findAmount,
+  type SwigParamSpec,
+} from '../parameters.js';
+import { describeSwig, resolveSwig } from '../registry.js';
+import { getSwigWalletService } from '../services/swigWallet.js';
+import {
+  describeToken,
+  findTokenQuery,
+  mentionsKnownToken,
+  resolveToken,
+  tokenSchema,
+  TOKEN_FIELD_DESCRIPTION,
+} from '../tokens.js';
+import {
+  formatSimulationReport,
+  isDryRun,
+  sendSwigTransaction,
+  simulateSwigTransaction,
+} from '../transactions.js';
+
+const transferParamsSpec: SwigParamSpec<{ amount: number; token: string }> = {
+  description: "transfer SPL tokens from the agent's wallet into the Swig wallet",
+  schema: z.object({ amount: amountSchema, token: tokenSchema }),
+  fields: {
+    amount: 'the amount of tokens to send, as a number in whole tokens (not base units)',
+    token: TOKEN_FIELD_DESCRIPTION,
+  },
+  questions: {
+    amount: 'How many tokens should I transfer to the Swig wallet?',
+    token: "Which token should I send? Please give its symbol or mint address (e.g. 'USDC').",
+  },
+  fallback: (text) => {
+    const { amount, ambiguous } = findAmount(text, /tokens?/);
+    const addresses = findAddresses(text);
+    const token = findTokenQuery(text) ?? (addresses.length === 1 ? addresses[0] : undefined);
+
+    return {
+      params: { amount, token },
+      ambiguous: [
+        ...(ambiguous ? (['amount'] as const) : []),
+        ...(!token && addresses.length > 1 ? (['token'] as const) : []),
+      ],
+    };
+  },
+};
 
 export const transferTokenToSwigAction: Action = {
   name: 'TRANSFER_TOKEN_TO_SWIG',
@@ -27,13 +75,14 @@ export const transferTokenToSwigAction: Action = {
   ],
   description: 'Transfer SPL tokens from agent wallet to the Swig wallet',
 
-  validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+  validate: async (runtime: IAgentRuntime, message: Memory, _state?: State) => {
     const text = message.content.text?.toLowerCase() || '';
 
     // Check for token transfer patterns
     const hasTransferWord = /\b(transfer|send|fund|deposit)\b/.test(text);
     const hasSwigWord = /\bswig\b/.test(text);
-    const hasTokenWord = /\b(token|spl|mint)\b/.test(text);
+    const hasTokenWord =
+      /\b(token|spl|mint)\b/.test(text) || (await mentionsKnownToken(runtime, text));
     const hasAmountPattern = /\d+(?:\.\d+)?/.test(text);
     const hasMintPattern = /\b[1-9A-HJ-NP-Za-km-z]{32,44}\b/.test(text);
 
@@ -86,8 +135,8 @@ export const transferTokenToSwigAction: Action = {
   handler: async (
     runtime: IAgentRuntime,
     message: Memory,
-    _state?: State,
-    _options?: any,
+    state?: State,
+    options?: any,
     callback?: HandlerCallback,
     responses?: Memory[]
   ): Promise<boolean> => {
@@ -96,12 +145,15 @@ export const transferTokenToSwigAction: Action = {
     console.log('🔧 Message content:', message.content.text);
     console.log('🔧 Responses array length:', responses?.length || 0);
 
+    // A dry run only simulates, so it is allowed even when transfers are disabled
+    const dryRun = isDryRun(runtime, message.content.text || '');
+
     // Check if transfers are enabled
     const transfersEnabledSetting = runtime.getSetting('SWIG_TRANSFERS_ENABLED');
     const transfersEnabled =
       transfersEnabledSetting === undefined ? true : String(transfersEnabledSetting) === 'true';
 
-    if (!transfersEnabled) {
+    if (!transfersEnabled && !dryRun) {
       console.log('🔧 Transfer operation blocked - transfers are disabled');
       const errorContent = {
         text: `❌ Transfer operations are currently disabled. Set SWIG_TRANSFERS_ENABLED=true to enable transfers.`,
@@ -123,7 +175,8 @@ export const transferTokenToSwigAction: Action = {
 
     try {
       console.log('🔧 Step 1: Getting Solana wallet...');
-      const wallet = await getSolanaWallet(runtime);
+      const service = getSwigWalletService(runtime);
+      const wallet = await service.getWallet();
       if (!wallet) {
         console.log('🔧 ERROR: No wallet configured');
         throw new Error(
@@ -133,32 +186,49 @@ export const transferTokenToSwigAction: Action = {
       console.log('🔧 Wallet public key:', wallet.publicKey.toBase58());
 
       console.log('🔧 Step 2: Getting Solana connection...');
-      const connection = getSolanaConnection(runtime);
+      const connection = service.getConnection();
       console.log('🔧 Connection RPC endpoint:', connection.rpcEndpoint);
 
-      console.log('🔧 Step 3: Finding Swig PDA...');
-      const [swigAddress] = findSwigPda(wallet.publicKey.toBytes());
-      console.log('🔧 Swig address:', swigAddress.toBase58());
-
-      console.log('🔧 Step 4: Parsing transfer parameters...');
-      const text = message.content.text || '';
-      const amountMatch = text.match(/(\d+(?:\.\d+)?)/);
-      const mintMatch = text.match(/\b([1-9A-HJ-NP-Za-km-z]{32,44})\b/);
-
-      if (!amountMatch) {
-        throw new Error(
-          "Please specify an amount to transfer (e.g., 'transfer 100 tokens mint 4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU to swig')"
-        );
-      }
+      console.log('🔧 Step 3: Resolving Swig wallet...');
+      const resolvedSwig = await resolveSwig(runtime, wallet.publicKey, message.content.text || '');
+      const swigAddress = resolvedSwig.address;
+      console.log('🔧 Swig wallet:', resolvedSwig.name, swigAddress.toBase58());
+      const walletAddress = await service.getWalletAddress(swigAddress);
+
+      console.log('🔧 Step 4: Extracting transfer parameters...');
+      const extraction = await extractSwigParams(
+        runtime,
+        message,
+        state,
+        transferParamsSpec,
+        options
+      );
 
-      if (!mintMatch) {
-        throw new Error(
-          "Please specify the token mint address (e.g., 'transfer 100 tokens mint 4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU to swig')"
-        );
+      if ('question' in extraction) {
+        console.log('🔧 Transfer parameters unclear, asking for clarification');
+        const clarificationContent = {
+          text: `❓ ${extraction.question}`,
+          thought:
+            'The transfer amount or token was missing or ambiguous, so I asked instead of guessing.',
+          actions: ['TRANSFER_TOKEN_TO_SWIG', 'REPLY'],
+          source: message.content.source,
+        };
+
+        if (responses && responses.length > 0) {
+          responses[0].content = clarificationContent;
+        }
+
+        if (callback) {
+          await callback(clarificationContent);
+        }
+
+        return true;
       }
 
-      const amount = parseFloat(amountMatch[1]);
-      const mintAddress = new PublicKey(mintMatch[1]);
+      const { amount } = extraction.params;
+      const token = await resolveToken(runtime, extraction.params.token);
+      const mintAddress = new PublicKey(token.mint);
+      console.log('🔧 Token:', token.symbol);
       console.log('🔧 Transfer amount:', amount);
       console.log('🔧 Mint address:', mintAddress.toBase58());
 
@@ -170,12 +240,12 @@ export const transferTokenToSwigAction: Action = {
 
       console.log('🔧 Step 6: Getting token accounts...');
       const fromAta = await getAssociatedTokenAddress(mintAddress, wallet.publicKey, false);
-      const toAta = await getAssociatedTokenAddress(mintAddress, swigAddress, true);
+      const toAta = await getAssociatedTokenAddress(mintAddress, walletAddress, true);
       console.log('🔧 From ATA:', fromAta.toBase58());
       console.log('🔧 To ATA:', toAta.toBase58());
 
       console.log('🔧 Step 7: Building transaction...');
-      const transaction = new Transaction();
+      const instructions: TransactionInstruction[] = [];
 
       // Check if the Swig's token account exists
       let toAccountExists = false;
@@ -183,7 +253,7 @@ export const transferTokenToSwigAction: Action = {
         await getAccount(connection, toAta);
         toAccountExists = true;
         console.log('🔧 Swig token account exists');
-      } catch (error) {
+      } catch {
         console.log('🔧 Swig token account does not exist, will create it');
       }
 
@@ -193,10 +263,10 @@ export const transferTokenToSwigAction: Action = {
         const createAtaIx = createAssociatedTokenAccountInstruction(
           wallet.publicKey, // payer
           toAta, // associated token account
-          swigAddress, // owner
+          walletAddress, // owner
           mintAddress // mint
         );
-        transaction.add(createAtaIx);
+        instructions.push(createAtaIx);
       }
 
       console.log('🔧 Step 8: Adding transfer instruction...');
@@ -206,30 +276,40 @@ export const transferTokenToSwigAction: Action = {
         wallet.publicKey, // owner
         adjustedAmount // amount
       );
-      transaction.add(transferInstruction);
+      instructions.push(transferInstruction);
+
+      const tokenSymbol = token.symbol;
 
-      console.log('🔧 Step 9: Setting transaction details...');
-      transaction.feePayer = wallet.publicKey;
-      const latestBlockhash = await connection.getLatestBlockhash();
-      transaction.recentBlockhash = latestBlockhash.blockhash;
-      console.log('🔧 Latest blockhash:', latestBlockhash.blockhash);
+      if (dryRun) {
+        console.log('🔧 Step 9: Simulating transaction (dry run)...');
+        const report = await simulateSwigTransaction(runtime, wallet, connection, instructions);
+        console.log('🔧 Simulation complete, nothing was sent');
 
-      console.log('🔧 Step 10: Signing transaction...');
-      const signedTransaction = await wallet.signTransaction(transaction);
-      console.log('🔧 Transaction signed');
+        const dryRunContent = {
+          text: `🧪 Dry run: transfer ${amount} ${tokenSymbol} to Swig wallet\n\nSwig Address: ${describeSwig(resolvedSwig)}\nToken: ${describeToken(token, mintInfo.decimals)}\nToken Mint: ${mintAddress.toBase58()}\nAmount: ${amount} ${tokenSymbol}\n\n${formatSimulationReport(report)}`,
+          thought: `Simulated transferring ${amount} ${tokenSymbol} to the Swig wallet without sending it.`,
+          actions: ['TRANSFER_TOKEN_TO_SWIG', 'REPLY'],
+          source: message.content.source,
+        };
 
-      console.log('🔧 Step 11: Sending transaction...');
-      const signature = await connection.sendRawTransaction(signedTransaction.serialize());
-      console.log('🔧 Transaction sent, signature:', signature);
+        if (responses && responses.length > 0) {
+          responses[0].content = dryRunContent;
+        }
 
-      console.log('🔧 Step 12: Confirming transaction...');
-      await connection.confirmTransaction(signature, 'confirmed');
+        if (callback) {
+          await callback(dryRunContent);
+        }
+
+        return true;
+      }
+
+      console.log('🔧 Step 9: Sending transaction...');
+      const { signature } = await sendSwigTransaction(runtime, wallet, connection, instructions);
       console.log('🔧 Transaction confirmed!');
 
-      const tokenSymbol = mintAddress.toBase58().substring(0, 8) + '...';
       const responseContent = {
-        text: `✅ Successfully transferred ${amount} ${tokenSymbol} tokens to Swig wallet!\n\nSwig Address: ${swigAddress.toBase58()}\nToken Mint: ${mintAddress.toBase58()}\nAmount: ${amount} tokens\nTransaction: ${signature}`,
-        thought: `Successfully transferred ${amount} SPL tokens to the Swig wallet.`,
+        text: `✅ Successfully transferred ${amount} ${tokenSymbol} to Swig wallet!\n\nSwig Address: ${describeSwig(resolvedSwig)}\nToken: ${describeToken(token, mintInfo.decimals)}\nToken Mint: ${mintAddress.toBase58()}\nAmount: ${amount} ${tokenSymbol}\nTransaction: ${signature}`,
+        thought: `Successfully transferred ${amount} ${tokenSymbol} to the Swig wallet.`,
         actions: ['TRANSFER_TOKEN_TO_SWIG', 'REPLY'],
         source: message.content.source,
       };
@@ -318,5 +398,20 @@ export const transferTokenToSwigAction: Action = {
         },
       },
     ],
+    [
+      {
+        name: 'User',
+        content: {
+          text: 'Deposit 200 USDC to swig',
+        },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: 'Transferring 200 USDC to your Swig wallet...',
+          action: 'TRANSFER_TOKEN_TO_SWIG',
+        },
+      },
+    ],
   ] as ActionExample[][],
 };
@@ -0,0 +1,334 @@
+import {
+  type Action,
+  type ActionExample,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+} from '@elizaos/core';
+import { TransactionInstruction } from '@solana/web3.js';
+import { getUpdateAuthorityInstructions } from '@swig-wallet/classic';
+import { findRoleByAuthorityAddress } from '../authorities.js';
+import {
+  buildPermissionUpdate,
+  describeRoleActions,
+  getPermissionAddresses,
+  parsePermissionUpdate,
+} from '../permissions.js';
+import { describeSwig, resolveSwig } from '../registry.js';
+import { selectAgentRole } from '../roles.js';
+import { getSwigWalletService } from '../services/swigWallet.js';
+import {
+  formatSimulationReport,
+  isDryRun,
+  sendSwigTransaction,
+  simulateSwigTransaction,
+} from '../transactions.js';
+import { getSwigTokenHoldings } from '../utils.js';
+
+export const updateSwigAuthorityAction: Action = {
+  name: 'UPDATE_SWIG_AUTHORITY',
+  similes: [
+    'UPDATE_SWIG_ROLE',
+    'EDIT_SWIG_AUTHORITY',
+    'CHANGE_SWIG_PERMISSIONS',
+    'MODIFY_SWIG_AUTHORITY',
+  ],
+  description:
+    "Change an existing Swig authority's permissions in place (limits, program access, authority management) without changing its role ID",
+
+  validate: async (runtime: IAgentRuntime, message: Memory, _state?: State) => {
+    const text = message.content.text?.toLowerCase() || '';
+    const keywords = [
+      'update authority',
+      'update role',
+      'edit authority',
+      'edit role',
+      'modify authority',
+      'modify role',
+      'change permissions',
+      'update permissions',
+      'replace permissions',
+    ];
+
+    console.log(
+      '🔍 UPDATE_SWIG_AUTHORITY validation:',
+      `"${text}" -> ${keywords.some((keyword) => text.includes(keyword))}`
+    );
+    return keywords.some((keyword) => text.includes(keyword));
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+    _options?: any,
+    callback?: HandlerCallback,
+    responses?: Memory[]
+  ): Promise<boolean> => {
+    console.log('🔧 UPDATE_SWIG_AUTHORITY action handler called!');
+    console.log('🔧 Callback function present:', !!callback);
+    console.log('🔧 Message content:', message.content.text);
+    console.log('🔧 Responses array length:', responses?.length || 0);
+
+    // A dry run only simulates, so it is allowed even when authority management is disabled
+    const dryRun = isDryRun(runtime, message.content.text || '');
+
+    // Check if authority management is enabled
+    const authorityManagementEnabledSetting = runtime.getSetting(
+      'SWIG_AUTHORITY_MANAGEMENT_ENABLED'
+    );
+    const authorityManagementEnabled =
+      authorityManagementEnabledSetting === undefined
+        ? true
+        : String(authorityManagementEnabledSetting) === 'true';
+
+    if (!authorityManagementEnabled && !dryRun) {
+      console.log('🔧 Authority management operation blocked - authority management is disabled');
+      const errorContent = {
+        text: `❌ Authority management operations are currently disabled. Set SWIG_AUTHORITY_MANAGEMENT_ENABLED=true to enable authority management.`,
+        thought: 'Authority management operations have been disabled in the plugin configuration.',
+        actions: ['UPDATE_SWIG_AUTHORITY', 'REPLY'],
+        source: message.content.source,
+      };
+
+      if (responses && responses.length > 0) {
+        responses[0].content = errorContent;
+      }
+
+      if (callback) {
+        await callback(errorContent);
+      }
+
+      return true;
+    }
+
+    try {
+      console.log('🔧 Step 1: Getting Solana wallet...');
+      const service = getSwigWalletService(runtime);
+      const wallet = await service.getWallet();
+      if (!wallet) {
+        console.log('🔧 ERROR: No wallet configured');
+        throw new Error(
+          'Solana wallet not configured. Please set SOLANA_PRIVATE_KEY in runtime settings.'
+        );
+      }
+      console.log('🔧 Wallet public key:', wallet.publicKey.toBase58());
+
+      console.log('🔧 Step 2: Getting Solana connection...');
+      const connection = service.getConnection();
+      console.log('🔧 Connection RPC endpoint:', connection.rpcEndpoint);
+
+      console.log('🔧 Step 3: Resolving Swig wallet...');
+      const resolvedSwig = await resolveSwig(runtime, wallet.publicKey, message.content.text || '');
+      const swigAddress = resolvedSwig.address;
+      console.log('🔧 Swig wallet:', resolvedSwig.name, swigAddress.toBase58());
+
+      console.log('🔧 Step 4: Parsing permission changes...');
+      const text = message.content.text || '';
+      const update = parsePermissionUpdate(text);
+      const permissionAddresses = [
+        ...getPermissionAddresses(update.grant),
+        ...update.removePrograms,
+        ...update.removeTokenLimits,
+      ];
+      console.log('🔧 Requested update:', update);
+
+      console.log('🔧 Step 5: Fetching existing Swig wallet...');
+      const swig = await service.getSwig(swigAddress, { refresh: true });
+      const roles = swig.findRolesByEd25519SignerPk(wallet.publicKey);
+      console.log('🔧 Found roles for current wallet:', roles.length);
+
+      if (!roles.length) {
+        throw new Error(
+          'No roles found for your wallet in this Swig. You need to be an existing authority to update other authorities.'
+        );
+      }
+
+      const agentRole = selectAgentRole(
+        roles,
+        { manageAuthority: true },
+        await connection.getSlot()
+      );
+      console.log('🔧 Using role:', agentRole.id);
+
+      console.log('🔧 Step 6: Finding the role to update...');
+      const roleIdMatch = text.match(/role\s*(?:id\s*)?(\d+)/i);
+      const publicKeyMatch = (
+        text.match(/\b(?:0x[0-9a-fA-F]{40}|[1-9A-HJ-NP-Za-km-z]{32,44})\b/g) || []
+      ).find((address) => !permissionAddresses.includes(address));
+
+      let targetRole: any;
+      if (roleIdMatch) {
+        const targetRoleId = parseInt(roleIdMatch[1]);
+        targetRole = swig.roles.find((role) => role.id === targetRoleId);
+        if (!targetRole) {
+          throw new Error(`Role ID ${targetRoleId} not found in this Swig wallet.`);
+        }
+      } else if (publicKeyMatch) {
+        targetRole = findRoleByAuthorityAddress(swig.roles, publicKeyMatch);
+        if (!targetRole) {
+          throw new Error(`Authority ${publicKeyMatch} is not found in this Swig wallet.`);
+        }
+      } else {
+        throw new Error(
+          "Please provide the role ID or authority address to update (e.g., 'update role 1 with a 2 SOL per day limit')"
+        );
+      }
+      console.log('🔧 Target role ID:', targetRole.id);
+
+      console.log('🔧 Step 7: Building permission update...');
+      const currentSlot = await connection.getSlot();
+      const tokens = await getSwigTokenHoldings(
+        connection,
+        await service.getWalletAddress(swigAddress)
+      );
+      const before = describeRoleActions(targetRole.actions, currentSlot, tokens);
+      const updateInfos = await buildPermissionUpdate(connection, targetRole.actions, update);
+
+      if (!updateInfos.length) {
+        throw new Error(
+          "Please specify the permission changes, e.g. 'with a 2 SOL per day limit', 'add program <PROGRAM_ID>', 'remove program <PROGRAM_ID>', 'revoke manage authority' or 'replace permissions with ...'"
+        );
+      }
+
+      console.log('🔧 Step 8: Creating update authority instructions...');
+      const instructions: TransactionInstruction[] = [];
+      for (const updateInfo of updateInfos) {
+        instructions.push(
+          ...(await getUpdateAuthorityInstructions(swig, agentRole.id, targetRole.id, updateInfo, {
+            payer: wallet.publicKey,
+          }))
+        );
+      }
+      console.log('🔧 Update authority instructions created:', updateInfos.length);
+
+      const formatLines = (lines: string[]) => lines.map((line) => `  • ${line}`).join('\n');
+
+      if (dryRun) {
+        console.log('🔧 Step 9: Simulating transaction (dry run)...');
+        const report = await simulateSwigTransaction(runtime, wallet, connection, instructions);
+        console.log('🔧 Simulation complete, nothing was sent');
+
+        const dryRunContent = {
+          text: `🧪 Dry run: update Swig authority\n\nRole ID: ${targetRole.id}\nSwig Address: ${describeSwig(resolvedSwig)}\nActing Role: ${agentRole.id}\n\nCurrent Permissions:\n${formatLines(before)}\n\n${formatSimulationReport(report)}`,
+          thought: `Simulated updating the permissions of role ${targetRole.id} without sending it.`,
+          actions: ['UPDATE_SWIG_AUTHORITY', 'REPLY'],
+          source: message.content.source,
+        };
+
+        if (responses && responses.length > 0) {
+          responses[0].content = dryRunContent;
+        }
+
+        if (callback) {
+          await callback(dryRunContent);
+        }
+
+        return true;
+      }
+
+      console.log('🔧 Step 9: Sending transaction...');
+      const { signature } = await sendSwigTransaction(runtime, wallet, connection, instructions);
+      console.log('🔧 Transaction confirmed!');
+
+      console.log('🔧 Step 10: Reading updated role...');
+      const updatedSwig = await service.getSwig(swigAddress);
+      const updatedRole = updatedSwig.roles.find((role) => role.id === targetRole.id);
+      const after = updatedRole
+        ? describeRoleActions(updatedRole.actions, currentSlot, tokens)
+        : ['(role not found after update)'];
+
+      const responseContent = {
+        text: `✅ Successfully updated Swig authority!\n\nRole ID: ${targetRole.id}\nSwig Address: ${describeSwig(resolvedSwig)}\nActing Role: ${agentRole.id}\n\nBefore:\n${formatLines(before)}\n\nAfter:\n${formatLines(after)}\n\nTransaction: ${signature}`,
+        thought: `Successfully updated the permissions of role ${targetRole.id} in place.`,
+        actions: ['UPDATE_SWIG_AUTHORITY', 'REPLY'],
+        source: message.content.source,
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with success content');
+        responses[0].content = responseContent;
+      }
+
+      // Send response using callback
+      console.log('🔧 Sending success response via callback');
+      console.log('🔧 Response content:', JSON.stringify(responseContent, null, 2));
+      if (callback) {
+        console.log('🔧 Calling callback...');
+        await callback(responseContent);
+        console.log('🔧 Callback completed successfully!');
+      } else {
+        console.log('⚠️ No callback provided to action handler');
+      }
+
+      return true;
+    } catch (error) {
+      console.error('🔧 Update swig authority error:', error);
+      console.error('🔧 Error stack:', error instanceof Error ? error.stack : 'No stack trace');
+
+      const errorContent = {
+        text: `❌ Failed to update Swig authority: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+        thought:
+          'Failed to update the authority permissions. This could be due to insufficient permissions, network issues, or invalid parameters.',
+        actions: ['UPDATE_SWIG_AUTHORITY', 'REPLY'],
+        source: message.content.source,
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with error content');
+        responses[0].content = errorContent;
+      }
+
+      // Send error response using callback
+      console.log('🔧 Sending error response via callback');
+      console.log('🔧 Error content:', JSON.stringify(errorContent, null, 2));
+      if (callback) {
+        console.log('🔧 Calling callback with error...');
+        await callback(errorContent);
+        console.log('🔧 Error callback completed');
+      } else {
+        console.log('⚠️ No callback provided for error response');
+      }
+
+      return true;
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: 'User',
+        content: {
+          text: 'Update role 1 with a 2 SOL per day limit',
+        },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: "I'll change role 1's SOL limit to 2 SOL per day.",
+          action: 'UPDATE_SWIG_AUTHORITY',
+        },
+      },
+    ],
+    [
+      {
+        name: 'User',
+        content: {
+          text: 'Update authority 9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM: remove program JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4 and revoke manage authority',
+        },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: 'Removing that program permission and authority management from the role...',
+          action: 'UPDATE_SWIG_AUTHORITY',
+        },
+      },
+    ],
+  ] as ActionExample[][],
+};
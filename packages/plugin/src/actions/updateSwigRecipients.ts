@@ -0,0 +1,245 @@
+import {
+  type Action,
+  type ActionExample,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  Role,
+  type State,
+} from '@elizaos/core';
+import { requireSenderRole } from '../access.js';
+import { CONTACT_NAME_PATTERN, describeContact, setSwigContactTrust } from '../contacts.js';
+import { findAddresses } from '../parameters.js';
+import { addSwigRecipients, removeSwigRecipients, setSwigRecipientMode } from '../recipients.js';
+import { SwigRecipientMode } from '../types.js';
+
+const TRUST_REGEX = new RegExp(
+  `\\b(un)?trust\\s+(?:the\\s+)?contact\\s+${CONTACT_NAME_PATTERN}|\\bmark\\s+(?:the\\s+)?(?:contact\\s+)?${CONTACT_NAME_PATTERN}\\s+as\\s+(un|not\\s+)?trusted\\b`,
+  'i'
+);
+
+/**
+ * Find the recipient mode a message switches to, e.g. "switch to allowlist mode"
+ */
+function findRecipientMode(text: string): SwigRecipientMode | null {
+  if (
+    /\b(?:disable|turn\s+off|switch\s+off)\s+(?:the\s+)?recipient\s+(?:lists?|filter(?:ing)?|mode)\b|\brecipient\s+mode\s+(?:to\s+)?off\b/i.test(
+      text
+    )
+  ) {
+    return 'off';
+  }
+  const modeMatch = text.match(
+    /\b(allowlist|whitelist|denylist|blacklist)\s+mode\b|\brecipient\s+mode\s+(?:to\s+)?(allowlist|whitelist|denylist|blacklist)\b/i
+  );
+  if (!modeMatch) {
+    return null;
+  }
+  const mode = (modeMatch[1] || modeMatch[2]).toLowerCase();
+  return mode === 'allowlist' || mode === 'whitelist' ? 'allowlist' : 'denylist';
+}
+
+export const updateSwigRecipientsAction: Action = {
+  name: 'UPDATE_SWIG_RECIPIENTS',
+  similes: [
+    'ALLOW_SWIG_RECIPIENT',
+    'DENY_SWIG_RECIPIENT',
+    'BLOCK_SWIG_RECIPIENT',
+    'SET_SWIG_RECIPIENT_MODE',
+    'TRUST_SWIG_CONTACT',
+  ],
+  description:
+    'Admin only: allow or deny recipient addresses of outgoing Swig transfers, remove them from the lists, switch between allowlist, denylist and off modes, or mark address contacts as trusted',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, _state?: State) => {
+    const text = message.content.text?.toLowerCase() || '';
+
+    const hasListWord =
+      /\b(allow|deny|block|unblock|disallow|allowlist|denylist|whitelist|blacklist)\b/.test(text);
+    const hasAddress = findAddresses(message.content.text || '').length > 0;
+    const hasMode = findRecipientMode(text) !== null;
+    const hasTrust = TRUST_REGEX.test(text);
+
+    const result = (hasListWord && hasAddress) || hasMode || hasTrust;
+    console.log('🔍 UPDATE_SWIG_RECIPIENTS validation:', `"${text}" -> ${result}`);
+    console.log(
+      '🔍 List word:',
+      hasListWord,
+      'Address:',
+      hasAddress,
+      'Mode:',
+      hasMode,
+      'Trust:',
+      hasTrust
+    );
+
+    return result;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+    _options?: any,
+    callback?: HandlerCallback,
+    responses?: Memory[]
+  ): Promise<boolean> => {
+    console.log('🔧 UPDATE_SWIG_RECIPIENTS action handler called!');
+    console.log('🔧 Callback function present:', !!callback);
+    console.log('🔧 Message content:', message.content.text);
+    console.log('🔧 Responses array length:', responses?.length || 0);
+
+    try {
+      console.log('🔧 Step 1: Checking sender role...');
+      await requireSenderRole(runtime, message, Role.ADMIN, 'change the recipient lists');
+
+      console.log('🔧 Step 2: Parsing recipient list change...');
+      const text = message.content.text || '';
+      const addresses = findAddresses(text);
+      const trustMatch = text.match(TRUST_REGEX);
+      const mode = findRecipientMode(text);
+
+      let summary: string;
+      if (trustMatch) {
+        const name = trustMatch[2] || trustMatch[3];
+        const trusted = !(trustMatch[1] || trustMatch[4]);
+        console.log('🔧 Setting contact trust:', name, trusted);
+        const contact = await setSwigContactTrust(runtime, message, name, trusted);
+        summary = trusted
+          ? `Contact marked as trusted:\n${describeContact(contact)}`
+          : `Contact is no longer trusted:\n${describeContact(contact)}`;
+      } else if (addresses.length) {
+        if (/\b(remove|delete|drop|unblock|disallow|clear)\b/i.test(text)) {
+          console.log('🔧 Removing recipients:', addresses);
+          const removed = await removeSwigRecipients(runtime, addresses);
+          if (!removed.length) {
+            throw new Error(
+              'None of these addresses are on the recipient lists managed in chat. Addresses from SWIG_RECIPIENT_ALLOWLIST or SWIG_RECIPIENT_DENYLIST can only be changed in the settings.'
+            );
+          }
+          summary = `Removed from the recipient lists:\n${removed.map((address) => `• ${address}`).join('\n')}`;
+        } else if (/\b(deny|block|denylist|blacklist|ban)\b/i.test(text)) {
+          console.log('🔧 Denying recipients:', addresses);
+          await addSwigRecipients(runtime, 'denied', addresses);
+          summary = `Added to the denylist:\n${addresses.map((address) => `• ${address}`).join('\n')}`;
+        } else {
+          console.log('🔧 Allowing recipients:', addresses);
+          await addSwigRecipients(runtime, 'allowed', addresses);
+          summary = `Added to the allowlist:\n${addresses.map((address) => `• ${address}`).join('\n')}`;
+        }
+      } else if (mode) {
+        console.log('🔧 Setting recipient mode:', mode);
+        await setSwigRecipientMode(runtime, mode);
+        summary =
+          mode === 'off'
+            ? 'The allowlist is off. Transfers can go to any address except denied ones.'
+            : mode === 'allowlist'
+              ? 'Allowlist mode is on. Transfers only go to allowed addresses and trusted contacts.'
+              : 'Denylist mode is on. Transfers to denied addresses are refused.';
+      } else {
+        throw new Error(
+          "Please say what to change (e.g., 'allow 9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM', 'block <ADDRESS>', 'switch to allowlist mode' or 'trust contact alice')"
+        );
+      }
+      console.log('🔧 Recipient lists updated');
+
+      const responseContent = {
+        text: `✅ Recipient lists updated!\n\n${summary}`,
+        thought: `Updated the Swig recipient lists. ${summary.split('\n')[0]}`,
+        actions: ['UPDATE_SWIG_RECIPIENTS', 'REPLY'],
+        source: message.content.source,
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with success content');
+        responses[0].content = responseContent;
+      }
+
+      // Send response using callback
+      console.log('🔧 Sending success response via callback');
+      console.log('🔧 Response content:', JSON.stringify(responseContent, null, 2));
+      if (callback) {
+        console.log('🔧 Calling callback...');
+        await callback(responseContent);
+        console.log('🔧 Callback completed successfully!');
+      } else {
+        console.log('⚠️ No callback provided to action handler');
+      }
+
+      return true;
+    } catch (error) {
+      console.error('🔧 Update swig recipients error:', error);
+      console.error('🔧 Error stack:', error instanceof Error ? error.stack : 'No stack trace');
+
+      const errorContent = {
+        text: `❌ Failed to update recipient lists: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        thought:
+          'Failed to update the recipient lists. The sender may not be an admin, the contact may not exist, or the mode is fixed by settings.',
+        actions: ['UPDATE_SWIG_RECIPIENTS', 'REPLY'],
+        source: message.content.source,
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with error content');
+        responses[0].content = errorContent;
+      }
+
+      // Send error response using callback
+      console.log('🔧 Sending error response via callback');
+      console.log('🔧 Error content:', JSON.stringify(errorContent, null, 2));
+      if (callback) {
+        console.log('🔧 Calling callback with error...');
+        await callback(errorContent);
+        console.log('🔧 Error callback completed');
+      } else {
+        console.log('⚠️ No callback provided for error response');
+      }
+
+      return true;
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: 'User',
+        content: { text: 'Allow 9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM as a swig recipient' },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: 'Added 9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM to the allowlist.',
+          action: 'UPDATE_SWIG_RECIPIENTS',
+        },
+      },
+    ],
+    [
+      {
+        name: 'User',
+        content: { text: 'Switch swig transfers to allowlist mode' },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: 'Allowlist mode is on. Transfers only go to allowed addresses and trusted contacts.',
+          action: 'UPDATE_SWIG_RECIPIENTS',
+        },
+      },
+    ],
+    [
+      {
+        name: 'User',
+        content: { text: 'Trust contact alice' },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: 'alice is now a trusted recipient.',
+          action: 'UPDATE_SWIG_RECIPIENTS',
+        },
+      },
+    ],
+  ] as ActionExample[][],
+};
@@ -0,0 +1,289 @@
+import {
+  type Action,
+  type ActionExample,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+} from '@elizaos/core';
+import {
+  createAssociatedTokenAccountInstruction,
+  getAccount,
+  getAssociatedTokenAddress,
+} from '@solana/spl-token';
+import { TransactionInstruction } from '@solana/web3.js';
+import { getWithdrawFromSubAccountInstructions } from '@swig-wallet/classic';
+import { resolveContactNames } from '../contacts.js';
+import { describeSwig, resolveSwig } from '../registry.js';
+import { getSwigWalletService } from '../services/swigWallet.js';
+import {
+  describeAsset,
+  getRawAssetAmount,
+  mentionsSubAccount,
+  parseSubAccountAsset,
+  resolveSubAccountTarget,
+} from '../subAccounts.js';
+import {
+  formatSimulationReport,
+  isDryRun,
+  sendSwigTransaction,
+  simulateSwigTransaction,
+} from '../transactions.js';
+
+export const withdrawFromSwigSubAccountAction: Action = {
+  name: 'WITHDRAW_FROM_SWIG_SUB_ACCOUNT',
+  similes: ['SWIG_SUB_ACCOUNT_WITHDRAW', 'RETURN_SWIG_SUB_ACCOUNT_FUNDS', 'DRAIN_SWIG_SUB_ACCOUNT'],
+  description: 'Withdraw SOL or tokens from a sub-account back to the main Swig wallet',
+
+  validate: async (runtime: IAgentRuntime, message: Memory, _state?: State) => {
+    const text = message.content.text?.toLowerCase() || '';
+    const hasSubAccountWord = mentionsSubAccount(text);
+    const hasWithdrawWord =
+      /\b(withdraw|reclaim|return)\b/.test(text) || /\bback to\b.*\bswig\b/.test(text);
+    const hasAmountPattern = /\d+(?:\.\d+)?/.test(text);
+
+    const result = hasSubAccountWord && hasWithdrawWord && hasAmountPattern;
+    console.log('🔍 WITHDRAW_FROM_SWIG_SUB_ACCOUNT validation:', `"${text}" -> ${result}`);
+    return result;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+    _options?: any,
+    callback?: HandlerCallback,
+    responses?: Memory[]
+  ): Promise<boolean> => {
+    console.log('🔧 WITHDRAW_FROM_SWIG_SUB_ACCOUNT action handler called!');
+    console.log('🔧 Callback function present:', !!callback);
+    console.log('🔧 Message content:', message.content.text);
+    console.log('🔧 Responses array length:', responses?.length || 0);
+
+    // A dry run only simulates, so it is allowed even when transfers are disabled
+    const dryRun = isDryRun(runtime, message.content.text || '');
+
+    // Check if transfers are enabled
+    const transfersEnabledSetting = runtime.getSetting('SWIG_TRANSFERS_ENABLED');
+    const transfersEnabled =
+      transfersEnabledSetting === undefined ? true : String(transfersEnabledSetting) === 'true';
+
+    if (!transfersEnabled && !dryRun) {
+      console.log('🔧 Sub-account operation blocked - transfers are disabled');
+      const errorContent = {
+        text: `❌ Sub-account operations are currently disabled. Set SWIG_TRANSFERS_ENABLED=true to enable transfers.`,
+        thought: 'Transfer operations have been disabled in the plugin configuration.',
+        actions: ['WITHDRAW_FROM_SWIG_SUB_ACCOUNT', 'REPLY'],
+        source: message.content.source,
+      };
+
+      if (responses && responses.length > 0) {
+        responses[0].content = errorContent;
+      }
+
+      if (callback) {
+        await callback(errorContent);
+      }
+
+      return true;
+    }
+
+    try {
+      console.log('🔧 Step 1: Getting Solana wallet...');
+      const service = getSwigWalletService(runtime);
+      const wallet = await service.getWallet();
+      if (!wallet) {
+        console.log('🔧 ERROR: No wallet configured');
+        throw new Error(
+          'Solana wallet not configured. Please set SOLANA_PRIVATE_KEY in runtime settings.'
+        );
+      }
+      console.log('🔧 Wallet public key:', wallet.publicKey.toBase58());
+
+      console.log('🔧 Step 2: Getting Solana connection...');
+      const connection = service.getConnection();
+      console.log('🔧 Connection RPC endpoint:', connection.rpcEndpoint);
+
+      console.log('🔧 Step 3: Resolving Swig wallet...');
+      const resolvedSwig = await resolveSwig(runtime, wallet.publicKey, message.content.text || '');
+      const swigAddress = resolvedSwig.address;
+      console.log('🔧 Swig wallet:', resolvedSwig.name, swigAddress.toBase58());
+
+      // Contact names become addresses and role IDs before any parsing
+      const resolvedMessage = await resolveContactNames(runtime, message, swigAddress);
+      const text = resolvedMessage.content.text || '';
+
+      console.log('🔧 Step 4: Parsing withdrawal amount...');
+      const asset = parseSubAccountAsset(text);
+      if (!asset) {
+        throw new Error(
+          "Please specify an amount to withdraw (e.g., 'withdraw 1 SOL from the sub-account of role 1')"
+        );
+      }
+      console.log('🔧 Withdrawal amount:', describeAsset(asset));
+
+      console.log('🔧 Step 5: Fetching Swig wallet...');
+      const swig = await service.getSwig(swigAddress, { refresh: true });
+      const roles = swig.findRolesByEd25519SignerPk(wallet.publicKey);
+      console.log('🔧 Found roles for current wallet:', roles.length);
+
+      if (!roles.length) {
+        throw new Error(
+          'No roles found for your wallet in this Swig. You need to be an authority to withdraw from sub-accounts.'
+        );
+      }
+
+      const { role, subAccount } = await resolveSubAccountTarget(connection, swig, roles, text);
+      console.log('🔧 Sub-account:', subAccount.toBase58(), 'of role', role.id);
+
+      console.log('🔧 Step 6: Building withdrawal transaction...');
+      const { rawAmount } = await getRawAssetAmount(connection, asset);
+      const instructions: TransactionInstruction[] = [];
+
+      // Token withdrawals land in the main Swig's token account, which may not exist yet
+      if (asset.mint) {
+        const walletAddress = await service.getWalletAddress(swigAddress);
+        const swigAta = await getAssociatedTokenAddress(asset.mint, walletAddress, true);
+        try {
+          await getAccount(connection, swigAta);
+        } catch {
+          console.log('🔧 Swig token account does not exist, will create it');
+          instructions.push(
+            createAssociatedTokenAccountInstruction(
+              wallet.publicKey,
+              swigAta,
+              walletAddress,
+              asset.mint
+            )
+          );
+        }
+      }
+
+      const withdrawIxs = await getWithdrawFromSubAccountInstructions(
+        swig,
+        role.id,
+        asset.mint ? { amount: rawAmount, mint: asset.mint } : { amount: rawAmount },
+        { payer: wallet.publicKey }
+      );
+      instructions.push(...withdrawIxs);
+
+      if (dryRun) {
+        console.log('🔧 Step 7: Simulating transaction (dry run)...');
+        const report = await simulateSwigTransaction(runtime, wallet, connection, instructions);
+        console.log('🔧 Simulation complete, nothing was sent');
+
+        const dryRunContent = {
+          text: `🧪 Dry run: withdraw ${describeAsset(asset)} from sub-account\n\nFrom: sub-account ${subAccount.toBase58()} (role ${role.id})\nTo: ${describeSwig(resolvedSwig)}\nAmount: ${describeAsset(asset)}\n\n${formatSimulationReport(report)}`,
+          thought: `Simulated withdrawing ${describeAsset(asset)} from the sub-account of role ${role.id} without sending it.`,
+          actions: ['WITHDRAW_FROM_SWIG_SUB_ACCOUNT', 'REPLY'],
+          source: message.content.source,
+        };
+
+        if (responses && responses.length > 0) {
+          responses[0].content = dryRunContent;
+        }
+
+        if (callback) {
+          await callback(dryRunContent);
+        }
+
+        return true;
+      }
+
+      console.log('🔧 Step 7: Sending transaction...');
+      const { signature } = await sendSwigTransaction(runtime, wallet, connection, instructions);
+      console.log('🔧 Transaction confirmed!');
+
+      const responseContent = {
+        text: `✅ Withdrew ${describeAsset(asset)} back to the Swig wallet!\n\nFrom: sub-account ${subAccount.toBase58()} (role ${role.id})\nTo: ${describeSwig(resolvedSwig)}\nAmount: ${describeAsset(asset)}\nTransaction: ${signature}`,
+        thought: `Withdrew ${describeAsset(asset)} from the sub-account of role ${role.id} back to the main Swig wallet.`,
+        actions: ['WITHDRAW_FROM_SWIG_SUB_ACCOUNT', 'REPLY'],
+        source: message.content.source,
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with success content');
+        responses[0].content = responseContent;
+      }
+
+      // Send response using callback
+      console.log('🔧 Sending success response via callback');
+      console.log('🔧 Response content:', JSON.stringify(responseContent, null, 2));
+      if (callback) {
+        console.log('🔧 Calling callback...');
+        await callback(responseContent);
+        console.log('🔧 Callback completed successfully!');
+      } else {
+        console.log('⚠️ No callback provided to action handler');
+      }
+
+      return true;
+    } catch (error) {
+      console.error('🔧 Sub-account withdrawal error:', error);
+      console.error('🔧 Error stack:', error instanceof Error ? error.stack : 'No stack trace');
+
+      const errorContent = {
+        text: `❌ Failed to withdraw from sub-account: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+        thought:
+          'The withdrawal from the sub-account failed. This could be due to insufficient sub-account funds, a missing sub-account, or network issues.',
+        actions: ['WITHDRAW_FROM_SWIG_SUB_ACCOUNT', 'REPLY'],
+        source: message.content.source,
+      };
+
+      // Update the response in the responses array so REPLY action uses our content
+      if (responses && responses.length > 0) {
+        console.log('🔧 Updating responses array with error content');
+        responses[0].content = errorContent;
+      }
+
+      // Send error response using callback
+      console.log('🔧 Sending error response via callback');
+      console.log('🔧 Error content:', JSON.stringify(errorContent, null, 2));
+      if (callback) {
+        console.log('🔧 Calling callback with error...');
+        await callback(errorContent);
+        console.log('🔧 Error callback completed');
+      } else {
+        console.log('⚠️ No callback provided for error response');
+      }
+
+      return true;
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: 'User',
+        content: {
+          text: 'Withdraw 1 SOL from the sub-account of role 1',
+        },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: "I'll move 1 SOL from role 1's sub-account back to the Swig wallet.",
+          action: 'WITHDRAW_FROM_SWIG_SUB_ACCOUNT',
+        },
+      },
+    ],
+    [
+      {
+        name: 'User',
+        content: {
+          text: 'Return 250 tokens mint EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v from the sub-account back to the swig',
+        },
+      },
+      {
+        name: 'Agent',
+        content: {
+          text: 'Returning the unused budget to the main Swig wallet...',
+          action: 'WITHDRAW_FROM_SWIG_SUB_ACCOUNT',
+        },
+      },
+    ],
+  ] as ActionExample[][],
+};
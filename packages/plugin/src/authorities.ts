@@ -0,0 +1,119 @@
+import { PublicKey } from '@solana/web3.js';
+import {
+  AuthorityType,
+  createEd25519AuthorityInfo,
+  createSecp256k1AuthorityInfo,
+  getEd25519BasedAuthority,
+  getSecp256k1BasedAuthority,
+  type Authority,
+  type CreateAuthorityInfo,
+  type Role,
+} from '@swig-wallet/classic';
+import { SwigAuthorityDetails } from './types.js';
+
+const BASE58_ADDRESS_REGEX = /\b[1-9A-HJ-NP-Za-km-z]{32,44}\b/g;
+const SECP256K1_PUBLIC_KEY_REGEX = /(?:\b0x)?\b((?:04)?[0-9a-fA-F]{128})\b/;
+const EVM_ADDRESS_REGEX = /\b0x[0-9a-fA-F]{40}\b/;
+
+const AUTHORITY_TYPE_LABELS: Record<number, string> = {
+  [AuthorityType.Ed25519]: 'Ed25519',
+  [AuthorityType.Ed25519Session]: 'Ed25519 Session',
+  [AuthorityType.Secp256k1]: 'Secp256k1 (EVM)',
+  [AuthorityType.Secp256k1Session]: 'Secp256k1 Session (EVM)',
+  [AuthorityType.Secp256r1]: 'Secp256r1 (Passkey)',
+  [AuthorityType.Secp256r1Session]: 'Secp256r1 Session (Passkey)',
+};
+
+export interface ParsedAuthorityInput {
+  authorityInfo: CreateAuthorityInfo;
+  type: string;
+  /** Public key as entered, used for display */
+  display: string;
+}
+
+/**
+ * Parse a new authority from a chat message.
+ *
+ * Accepts a base58 Solana public key (Ed25519) or an uncompressed secp256k1
+ * public key in hex, with or without the 0x and 04 prefixes. Addresses in
+ * `exclude` (e.g. mints or programs used in permissions) are skipped.
+ */
+export function parseAuthorityInput(
+  text: string,
+  exclude: string[] = []
+): ParsedAuthorityInput | null {
+  const secpMatch = text.match(SECP256K1_PUBLIC_KEY_REGEX);
+  if (secpMatch) {
+    const publicKey = `0x${secpMatch[1]}`;
+    return {
+      authorityInfo: createSecp256k1AuthorityInfo(publicKey),
+      type: AUTHORITY_TYPE_LABELS[AuthorityType.Secp256k1],
+      display: publicKey,
+    };
+  }
+
+  if (EVM_ADDRESS_REGEX.test(text)) {
+    throw new Error(
+      'A Secp256k1 authority needs the uncompressed public key (0x04 followed by 128 hex characters), an EVM address alone cannot be used to verify signatures.'
+    );
+  }
+
+  const base58Match = (text.match(BASE58_ADDRESS_REGEX) || []).find(
+    (address) => !exclude.includes(address)
+  );
+  if (base58Match) {
+    const publicKey = new PublicKey(base58Match);
+    return {
+      authorityInfo: createEd25519AuthorityInfo(publicKey),
+      type: AUTHORITY_TYPE_LABELS[AuthorityType.Ed25519],
+      display: publicKey.toBase58(),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Get the type and display address of a role's authority.
+ *
+ * Ed25519 based authorities are shown as base58 Solana addresses and
+ * Secp256k1 based authorities as 0x-prefixed EVM addresses.
+ */
+export function getAuthorityDetails(authority: Authority): SwigAuthorityDetails {
+  const type = AUTHORITY_TYPE_LABELS[authority.type] || `Unknown (${authority.type})`;
+
+  const secp256k1Authority = getSecp256k1BasedAuthority(authority);
+  if (secp256k1Authority) {
+    return { type, address: secp256k1Authority.secp256k1AddressString };
+  }
+
+  const ed25519Authority = getEd25519BasedAuthority(authority);
+  if (ed25519Authority) {
+    const solanaAddress = new PublicKey(ed25519Authority.ed25519PublicKey.toBytes());
+    return { type, address: solanaAddress.toBase58(), solanaAddress };
+  }
+
+  return { type, address: Buffer.from(authority.data).toString('hex') };
+}
+
+/**
+ * Find a role by its authority address (base58 for Ed25519, 0x for EVM)
+ */
+export function findRoleByAuthorityAddress(roles: Role[], address: string): Role | undefined {
+  return roles.find(
+    (role) => getAuthorityDetails(role.authority).address.toLowerCase() === address.toLowerCase()
+  );
+}
+
+/**
+ * Get the Solana address of a role's authority, for roles that can receive funds
+ */
+export function getRoleSolanaAddress(role: Role): PublicKey {
+  const details = getAuthorityDetails(role.authority);
+  if (!details.solanaAddress) {
+    throw new Error(
+      `Role ${role.id} uses a ${details.type} authority (${details.address}) and has no Solana address to receive funds.`
+    );
+  }
+  return details.solanaAddress;
+}
@@ -0,0 +1,130 @@
+import type { IAgentRuntime, Memory } from '@elizaos/core';
+import { PublicKey } from '@solana/web3.js';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  createPendingOperation,
+  getConfirmationThreshold,
+  getPendingOperation,
+  requiresConfirmation,
+} from './confirmations.js';
+
+const USDC_MINT = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+const BONK_MINT = new PublicKey('DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263');
+
+function createRuntime(settings: Record<string, unknown> = {}): IAgentRuntime {
+  const cache: Record<string, unknown> = {};
+  return {
+    getSetting: (key: string) => settings[key],
+    getCache: async (key: string) => cache[key],
+    setCache: async (key: string, value: unknown) => {
+      cache[key] = value;
+      return true;
+    },
+    deleteCache: async (key: string) => {
+      delete cache[key];
+      return true;
+    },
+  } as unknown as IAgentRuntime;
+}
+
+function createMessage(entityId: string): Memory {
+  return {
+    entityId,
+    roomId: 'room',
+    content: { text: 'send 5 SOL from swig to bob' },
+  } as unknown as Memory;
+}
+
+describe('getConfirmationThreshold', () => {
+  it('has no threshold when nothing is configured', () => {
+    const runtime = createRuntime();
+    expect(getConfirmationThreshold(runtime)).toBeNull();
+    expect(getConfirmationThreshold(runtime, USDC_MINT)).toBeNull();
+  });
+
+  it('reads the SOL threshold', () => {
+    expect(getConfirmationThreshold(createRuntime({ SWIG_CONFIRM_ABOVE_SOL: '0.5' }))).toBe(0.5);
+  });
+
+  it('reads token thresholds per mint', () => {
+    const runtime = createRuntime({
+      SWIG_CONFIRM_ABOVE_TOKENS: JSON.stringify({ [USDC_MINT.toBase58()]: 100 }),
+    });
+    expect(getConfirmationThreshold(runtime, USDC_MINT)).toBe(100);
+    expect(getConfirmationThreshold(runtime, BONK_MINT)).toBeNull();
+  });
+
+  it.each(['-1', 'abc', 'NaN'])('fails closed on the SOL threshold "%s"', (value) => {
+    const runtime = createRuntime({ SWIG_CONFIRM_ABOVE_SOL: value });
+    expect(() => getConfirmationThreshold(runtime)).toThrow('Transfers are blocked');
+  });
+
+  it.each([
+    ['invalid JSON', '{usdc: 1}'],
+    ['an array', '[1]'],
+    ['a negative amount', JSON.stringify({ [USDC_MINT.toBase58()]: -1 })],
+    ['an empty amount', JSON.stringify({ [BONK_MINT.toBase58()]: '' })],
+  ])('fails closed on token thresholds with %s', (_case, value) => {
+    const runtime = createRuntime({ SWIG_CONFIRM_ABOVE_TOKENS: value });
+    expect(() => getConfirmationThreshold(runtime, USDC_MINT)).toThrow('Transfers are blocked');
+  });
+});
+
+describe('requiresConfirmation', () => {
+  it('asks only for amounts above the threshold', () => {
+    const runtime = createRuntime({ SWIG_CONFIRM_ABOVE_SOL: '1' });
+    expect(requiresConfirmation(runtime, 1)).toBe(false);
+    expect(requiresConfirmation(runtime, 1.01)).toBe(true);
+  });
+});
+
+describe('getPendingOperation', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns an operation to the user who requested it', async () => {
+    const runtime = createRuntime();
+    const operation = await createPendingOperation(
+      runtime,
+      createMessage('alice'),
+      'SWIG_TRANSFER_TO_ADDRESS',
+      'Send 5 SOL'
+    );
+    expect(operation.code).toMatch(/^[A-HJ-NP-Z2-9]{6}$/);
+    await expect(
+      getPendingOperation(runtime, operation.code.toLowerCase(), createMessage('alice'))
+    ).resolves.toMatchObject({ action: 'SWIG_TRANSFER_TO_ADDRESS' });
+  });
+
+  it('refuses someone else confirming the operation', async () => {
+    const runtime = createRuntime();
+    const operation = await createPendingOperation(
+      runtime,
+      createMessage('alice'),
+      'SWIG_TRANSFER_TO_ADDRESS',
+      'Send 5 SOL'
+    );
+    await expect(
+      getPendingOperation(runtime, operation.code, createMessage('mallory'))
+    ).rejects.toThrow('can only be confirmed or cancelled by the user who requested it');
+  });
+
+  it('discards expired operations', async () => {
+    vi.useFakeTimers();
+    const runtime = createRuntime({ SWIG_CONFIRM_TIMEOUT_MINUTES: '5' });
+    const operation = await createPendingOperation(
+      runtime,
+      createMessage('alice'),
+      'SWIG_TRANSFER_TO_ADDRESS',
+      'Send 5 SOL'
+    );
+    vi.advanceTimersByTime(5 * 60 * 1000 + 1);
+    await expect(
+      getPendingOperation(runtime, operation.code, createMessage('alice'))
+    ).rejects.toThrow('expired');
+    await expect(
+      getPendingOperation(runtime, operation.code, createMessage('alice'))
+    ).rejects.toThrow('No pending operation found');
+  });
+});
@@ -0,0 +1,187 @@
+import { type IAgentRuntime, type Memory } from '@elizaos/core';
+import { PublicKey } from '@solana/web3.js';
+import { randomInt } from 'crypto';
+import { PendingSwigOperation } from './types.js';
+
+const PENDING_OPERATION_CACHE_PREFIX = 'swig-pending';
+const DEFAULT_CONFIRM_TIMEOUT_MINUTES = 10;
+
+/**
+ * Confirmation codes avoid look-alike characters (0/O, 1/I) so they are easy to retype
+ */
+const CONFIRMATION_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CONFIRMATION_CODE_LENGTH = 6;
+
+export const CONFIRM_OPERATION_REGEX = /\bconfirm\s+([A-HJ-NP-Z2-9]{6})\b/i;
+export const CANCEL_OPERATION_REGEX = /\b(?:cancel|abort|discard|reject)\s+([A-HJ-NP-Z2-9]{6})\b/i;
+
+function getPendingOperationCacheKey(code: string): string {
+  return `${PENDING_OPERATION_CACHE_PREFIX}:${code.toUpperCase()}`;
+}
+
+function generateConfirmationCode(): string {
+  let code = '';
+  for (let i = 0; i < CONFIRMATION_CODE_LENGTH; i++) {
+    code += CONFIRMATION_CODE_ALPHABET[randomInt(CONFIRMATION_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+/**
+ * Get the amount above which a transfer of an asset needs a human confirmation.
+ * SOL uses SWIG_CONFIRM_ABOVE_SOL; tokens use SWIG_CONFIRM_ABOVE_TOKENS, a JSON
+ * object of mint address to UI amount. Returns null when no threshold is set.
+ * Throws when a setting is invalid, so transfers fail closed.
+ */
+export function getConfirmationThreshold(runtime: IAgentRuntime, mint?: PublicKey): number | null {
+  if (!mint) {
+    const solSetting = runtime.getSetting('SWIG_CONFIRM_ABOVE_SOL');
+    if (solSetting === undefined || solSetting === null || String(solSetting).trim() === '') {
+      return null;
+    }
+    const threshold = Number(solSetting);
+    if (!Number.isFinite(threshold) || threshold < 0) {
+      throw new Error(
+        `SWIG_CONFIRM_ABOVE_SOL must be a non-negative number, not "${solSetting}". Transfers are blocked until it is fixed.`
+      );
+    }
+    return threshold;
+  }
+
+  const tokenSetting = runtime.getSetting('SWIG_CONFIRM_ABOVE_TOKENS') as unknown;
+  if (!tokenSetting) {
+    return null;
+  }
+
+  let thresholds: unknown;
+  try {
+    thresholds = typeof tokenSetting === 'string' ? JSON.parse(tokenSetting) : tokenSetting;
+  } catch {
+    throw new Error(
+      'SWIG_CONFIRM_ABOVE_TOKENS is not valid JSON. Transfers are blocked until it is fixed.'
+    );
+  }
+  if (typeof thresholds !== 'object' || thresholds === null || Array.isArray(thresholds)) {
+    throw new Error(
+      'SWIG_CONFIRM_ABOVE_TOKENS must be a JSON object of mint addresses to amounts. Transfers are blocked until it is fixed.'
+    );
+  }
+
+  const invalid = Object.entries(thresholds).find(
+    ([, value]) =>
+      value === null || value === '' || !Number.isFinite(Number(value)) || Number(value) < 0
+  );
+  if (invalid) {
+    throw new Error(
+      `SWIG_CONFIRM_ABOVE_TOKENS has the invalid amount "${invalid[1]}" for ${invalid[0]}. Transfers are blocked until it is fixed.`
+    );
+  }
+
+  const value = (thresholds as Record<string, unknown>)[mint.toBase58()];
+  return value === undefined ? null : Number(value);
+}
+
+/**
+ * Check whether a transfer amount (in UI units) is above the asset's confirmation threshold
+ */
+export function requiresConfirmation(
+  runtime: IAgentRuntime,
+  amount: number,
+  mint?: PublicKey
+): boolean {
+  const threshold = getConfirmationThreshold(runtime, mint);
+  return threshold !== null && amount > threshold;
+}
+
+function getConfirmationTimeoutMs(runtime: IAgentRuntime): number {
+  const timeoutSetting = runtime.getSetting('SWIG_CONFIRM_TIMEOUT_MINUTES');
+  const timeoutMinutes = timeoutSetting ? Number(timeoutSetting) : DEFAULT_CONFIRM_TIMEOUT_MINUTES;
+  return (
+    (Number.isFinite(timeoutMinutes) && timeoutMinutes > 0
+      ? timeoutMinutes
+      : DEFAULT_CONFIRM_TIMEOUT_MINUTES) *
+    60 *
+    1000
+  );
+}
+
+/**
+ * Store an operation that waits for the requesting user to confirm it. The
+ * original request and its extracted parameters are kept so the action can run
+ * it again once confirmed.
+ */
+export async function createPendingOperation(
+  runtime: IAgentRuntime,
+  message: Memory,
+  action: string,
+  summary: string,
+  params?: Record<string, unknown>
+): Promise<PendingSwigOperation> {
+  let code = generateConfirmationCode();
+  while (await runtime.getCache<PendingSwigOperation>(getPendingOperationCacheKey(code))) {
+    code = generateConfirmationCode();
+  }
+
+  const createdAt = Date.now();
+  const operation: PendingSwigOperation = {
+    code,
+    action,
+    entityId: message.entityId,
+    roomId: message.roomId,
+    text: message.content.text || '',
+    params,
+    summary,
+    createdAt,
+    expiresAt: createdAt + getConfirmationTimeoutMs(runtime),
+  };
+  await runtime.setCache(getPendingOperationCacheKey(code), operation);
+
+  return operation;
+}
+
+/**
+ * Look up a pending operation for the user who requested it. Expired operations
+ * are discarded. Throws when the code is unknown, expired or belongs to someone else.
+ */
+export async function getPendingOperation(
+  runtime: IAgentRuntime,
+  code: string,
+  message: Memory
+): Promise<PendingSwigOperation> {
+  const cacheKey = getPendingOperationCacheKey(code);
+  const operation = await runtime.getCache<PendingSwigOperation>(cacheKey);
+  if (!operation) {
+    throw new Error(`No pending operation found for code ${code.toUpperCase()}.`);
+  }
+
+  if (operation.entityId !== message.entityId) {
+    throw new Error(
+      `Operation ${operation.code} can only be confirmed or cancelled by the user who requested it.`
+    );
+  }
+
+  if (Date.now() > operation.expiresAt) {
+    await runtime.deleteCache(cacheKey);
+    throw new Error(`Operation ${operation.code} expired. Please request it again.`);
+  }
+
+  return operation;
+}
+
+/**
+ * Remove a pending operation once it was confirmed or cancelled
+ */
+export async function deletePendingOperation(
+  runtime: IAgentRuntime,
+  operation: PendingSwigOperation
+): Promise<void> {
+  await runtime.deleteCache(getPendingOperationCacheKey(operation.code));
+}
+
+/**
+ * Format the reply asking the user to confirm a pending operation
+ */
+export function describePendingOperation(operation: PendingSwigOperation): string {
+  const minutes = Math.round((operation.expiresAt - operation.createdAt) / 60000);
+  return `⏸️ Confirmation required\n\n${operation.summary}\n\nReply "confirm ${operation.code}" within ${minutes} minutes to execute it, or "cancel ${operation.code}" to discard it.`;
+}
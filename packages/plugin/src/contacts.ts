@@ -0,0 +1,254 @@
+import { type IAgentRuntime, type Memory, Role } from '@elizaos/core';
+import { PublicKey } from '@solana/web3.js';
+import { requireSenderRole } from './access.js';
+import { SwigContact } from './types.js';
+
+const CONTACTS_CACHE_PREFIX = 'swig-contacts';
+
+export const CONTACT_NAME_PATTERN = '([a-z][a-z0-9_-]{0,31})';
+
+/**
+ * Words that cannot be contact names because transfer messages use them
+ * after "to" or "role" without naming anyone
+ */
+const RESERVED_CONTACT_NAMES = [
+  'a',
+  'address',
+  'an',
+  'authority',
+  'contact',
+  'id',
+  'me',
+  'my',
+  'our',
+  'role',
+  'signer',
+  'sub-account',
+  'subaccount',
+  'swig',
+  'the',
+  'their',
+  'this',
+  'trusted',
+  'wallet',
+  'your',
+];
+
+/**
+ * Get the cache key of the address book a message uses. With
+ * SWIG_CONTACTS_SCOPE=world every world (server) has its own contacts, falling
+ * back to the room when the message has no world; otherwise the agent keeps
+ * one address book.
+ */
+async function getContactsCacheKey(runtime: IAgentRuntime, message: Memory): Promise<string> {
+  const scope = String(runtime.getSetting('SWIG_CONTACTS_SCOPE') || 'agent').toLowerCase();
+  if (scope !== 'world') {
+    return `${CONTACTS_CACHE_PREFIX}:agent`;
+  }
+
+  const worldId = message.worldId ?? (await runtime.getRoom(message.roomId))?.worldId;
+  return worldId
+    ? `${CONTACTS_CACHE_PREFIX}:world:${worldId}`
+    : `${CONTACTS_CACHE_PREFIX}:room:${message.roomId}`;
+}
+
+/**
+ * Get the contacts of the address book a message uses
+ */
+export async function getSwigContacts(
+  runtime: IAgentRuntime,
+  message: Memory
+): Promise<SwigContact[]> {
+  return (await runtime.getCache<SwigContact[]>(await getContactsCacheKey(runtime, message))) || [];
+}
+
+/**
+ * Throw unless the sender of a message saved the contact or is an admin.
+ * Contacts saved before their creator was recorded need an admin.
+ */
+async function requireContactOwner(
+  runtime: IAgentRuntime,
+  message: Memory,
+  contact: SwigContact,
+  task: string
+): Promise<void> {
+  if (contact.createdBy !== undefined && contact.createdBy === message.entityId) {
+    return;
+  }
+  await requireSenderRole(runtime, message, Role.ADMIN, `${task} contacts saved by someone else`);
+}
+
+/**
+ * Save a contact. A contact is either an address or a role on one Swig. An
+ * existing name is only replaced with `update` set, and only by the sender
+ * who saved it or an admin.
+ */
+export async function saveSwigContact(
+  runtime: IAgentRuntime,
+  message: Memory,
+  contact: SwigContact,
+  options: { update?: boolean } = {}
+): Promise<void> {
+  if (!new RegExp(`^${CONTACT_NAME_PATTERN}$`).test(contact.name)) {
+    throw new Error(
+      `"${contact.name}" is not a valid contact name. Use up to 32 lowercase letters, digits, "-" or "_", starting with a letter.`
+    );
+  }
+  if (RESERVED_CONTACT_NAMES.includes(contact.name)) {
+    throw new Error(`"${contact.name}" is a reserved word and cannot be a contact name.`);
+  }
+  if ((contact.address === undefined) === (contact.roleId === undefined)) {
+    throw new Error('A contact needs either an address or a role ID.');
+  }
+
+  const cacheKey = await getContactsCacheKey(runtime, message);
+  const contacts = await getSwigContacts(runtime, message);
+  const existing = contacts.find((saved) => saved.name === contact.name);
+  if (existing) {
+    if (!options.update) {
+      throw new Error(
+        `A contact named "${contact.name}" already exists: ${describeContact(existing)}. Say 'update contact ${contact.name} ...' to change it.`
+      );
+    }
+    await requireContactOwner(runtime, message, existing, 'change');
+    contact.createdBy = existing.createdBy;
+    contact.createdAt = existing.createdAt;
+  } else {
+    contact.createdBy = message.entityId;
+  }
+
+  const updated = [...contacts.filter((saved) => saved !== existing), contact];
+  await runtime.setCache(cacheKey, updated);
+}
+
+/**
+ * Remove a contact by name. Only the sender who saved it or an admin can
+ * remove it. Returns the removed contact, or null when the address book has
+ * no contact with that name.
+ */
+export async function removeSwigContact(
+  runtime: IAgentRuntime,
+  message: Memory,
+  name: string
+): Promise<SwigContact | null> {
+  const cacheKey = await getContactsCacheKey(runtime, message);
+  const contacts = await getSwigContacts(runtime, message);
+  const contact = contacts.find((existing) => existing.name === name.toLowerCase());
+  if (!contact) {
+    return null;
+  }
+  await requireContactOwner(runtime, message, contact, 'remove');
+
+  await runtime.setCache(
+    cacheKey,
+    contacts.filter((existing) => existing !== contact)
+  );
+  return contact;
+}
+
+/**
+ * Mark an address contact as trusted or not. Returns the updated contact.
+ */
+export async function setSwigContactTrust(
+  runtime: IAgentRuntime,
+  message: Memory,
+  name: string,
+  trusted: boolean
+): Promise<SwigContact> {
+  const contacts = await getSwigContacts(runtime, message);
+  const contact = contacts.find((existing) => existing.name === name.toLowerCase());
+  if (!contact) {
+    throw new Error(`The address book has no contact named "${name}".`);
+  }
+  if (contact.address === undefined) {
+    throw new Error(`"${contact.name}" is a role contact. Only address contacts can be trusted.`);
+  }
+
+  const updated = { ...contact, trusted };
+  await runtime.setCache(
+    await getContactsCacheKey(runtime, message),
+    contacts.map((existing) => (existing === contact ? updated : existing))
+  );
+  return updated;
+}
+
+/**
+ * Get the contacts that apply to transfers from a Swig: every address contact
+ * and the role contacts of that Swig
+ */
+function getContactsForSwig(contacts: SwigContact[], swigAddress?: PublicKey): SwigContact[] {
+  return contacts.filter(
+    (contact) =>
+      contact.address !== undefined ||
+      (swigAddress !== undefined && contact.swigAddress === swigAddress.toBase58())
+  );
+}
+
+/**
+ * Replace the contact names of a message with what they stand for, before any
+ * address or role parsing runs: "to alice" becomes "to <ADDRESS>", and
+ * "role treasury-bot" or "to treasury-bot" becomes "role 3". Names followed by
+ * "swig" are Swig names and are left alone.
+ */
+export async function resolveContactNames(
+  runtime: IAgentRuntime,
+  message: Memory,
+  swigAddress?: PublicKey
+): Promise<Memory> {
+  const contacts = getContactsForSwig(await getSwigContacts(runtime, message), swigAddress);
+  let text = message.content.text || '';
+
+  for (const contact of contacts) {
+    if (contact.roleId !== undefined) {
+      text = text
+        .replace(new RegExp(`\\brole\\s+${contact.name}(?![\\w-])`, 'gi'), `role ${contact.roleId}`)
+        .replace(
+          new RegExp(
+            `\\b(to|pay)\\s+(?:the\\s+)?(?:authority\\s+)?${contact.name}(?![\\w-]|\\s+swig\\b)`,
+            'gi'
+          ),
+          `$1 role ${contact.roleId}`
+        );
+    } else {
+      text = text.replace(
+        new RegExp(
+          `\\b(to|pay)\\s+(?:the\\s+)?(?:contact\\s+)?${contact.name}(?![\\w-]|\\s+swig\\b)`,
+          'gi'
+        ),
+        `$1 ${contact.address}`
+      );
+    }
+  }
+
+  if (text !== message.content.text) {
+    console.log('🔧 Resolved contact names:', text);
+  }
+  return { ...message, content: { ...message.content, text } };
+}
+
+/**
+ * Check whether a message sends to a contact by name, e.g. "to alice"
+ */
+export async function mentionsSwigContact(
+  runtime: IAgentRuntime,
+  message: Memory
+): Promise<boolean> {
+  const contacts = await getSwigContacts(runtime, message);
+  const text = message.content.text || '';
+  return contacts.some((contact) =>
+    new RegExp(
+      `\\b(?:to|pay|role)\\s+(?:the\\s+)?(?:contact\\s+|authority\\s+)?${contact.name}(?![\\w-])`,
+      'i'
+    ).test(text)
+  );
+}
+
+/**
+ * Format a contact for responses, e.g. "alice → <ADDRESS> (trusted)" or
+ * "treasury-bot → role 3 on <SWIG ADDRESS>"
+ */
+export function describeContact(contact: SwigContact): string {
+  return contact.roleId !== undefined
+    ? `${contact.name} → role ${contact.roleId} on ${contact.swigAddress}`
+    : `${contact.name} → ${contact.address}${contact.trusted ? ' (trusted)' : ''}`;
+}
@@ -0,0 +1,116 @@
+import { type IAgentRuntime, type UUID } from '@elizaos/core';
+import { type ParsedTransactionWithMeta, PublicKey } from '@solana/web3.js';
+import { findSwigAssetMovements } from './history.js';
+import { DEFAULT_SWIG_NAME, describeSwig, getSwigRegistry } from './registry.js';
+import { SwigDeposit } from './types.js';
+import { formatShortAddress, generateUUID } from './utils.js';
+
+/**
+ * Runtime event emitted with `{ runtime, source, deposit }` for every deposit
+ */
+export const SWIG_DEPOSIT_EVENT = 'SWIG_DEPOSIT_RECEIVED';
+
+/**
+ * Check whether the Swig wallet service should subscribe to deposits, from
+ * SWIG_WATCH_DEPOSITS
+ */
+export function isDepositWatchEnabled(runtime: IAgentRuntime): boolean {
+  return String(runtime.getSetting('SWIG_WATCH_DEPOSITS')) === 'true';
+}
+
+/**
+ * Find the funds a transaction moved into a Swig wallet: a higher SOL balance
+ * of its wallet address and higher balances of token accounts that address
+ * owns. The sender is the account whose balance of the same asset dropped the most.
+ */
+export function findSwigDeposits(
+  runtime: IAgentRuntime,
+  transaction: ParsedTransactionWithMeta,
+  swigAddress: PublicKey,
+  walletAddress: PublicKey
+): SwigDeposit[] {
+  const timestamp = transaction.blockTime ? transaction.blockTime * 1000 : Date.now();
+
+  return findSwigAssetMovements(runtime, transaction, walletAddress)
+    .filter((movement) => movement.delta > 0n)
+    .map((movement) => ({
+      swigAddress: swigAddress.toBase58(),
+      signature: transaction.transaction.signatures[0],
+      slot: transaction.slot,
+      mint: movement.mint,
+      symbol: movement.symbol,
+      amount: Number(movement.delta) / Math.pow(10, movement.decimals),
+      rawAmount: movement.delta.toString(),
+      decimals: movement.decimals,
+      sender: movement.counterparty,
+      timestamp,
+    }));
+}
+
+/**
+ * Describe a deposit for chat, e.g. "Received 25 USDC from 9WzD…AWWM"
+ */
+export function describeDeposit(deposit: SwigDeposit): string {
+  return `Received ${deposit.amount} ${deposit.symbol}${
+    deposit.sender ? ` from ${formatShortAddress(deposit.sender)}` : ''
+  }`;
+}
+
+/**
+ * Tell the agent about a deposit: emit SWIG_DEPOSIT_EVENT and, when
+ * SWIG_DEPOSIT_ROOM_ID is set, post a message into that room
+ */
+export async function notifySwigDeposit(
+  runtime: IAgentRuntime,
+  deposit: SwigDeposit
+): Promise<void> {
+  console.log('💸 Swig deposit:', describeDeposit(deposit), deposit.signature);
+  await runtime.emitEvent(SWIG_DEPOSIT_EVENT, { runtime, source: 'swig', deposit });
+
+  const roomId = runtime.getSetting('SWIG_DEPOSIT_ROOM_ID') as UUID | undefined;
+  if (!roomId) {
+    return;
+  }
+
+  const room = await runtime.getRoom(roomId);
+  if (!room) {
+    console.warn(`⚠️ SWIG_DEPOSIT_ROOM_ID ${roomId} is not a known room, deposit not posted`);
+    return;
+  }
+
+  const registered = (await getSwigRegistry(runtime)).find(
+    (entry) => entry.address === deposit.swigAddress
+  );
+  const swigDescription = describeSwig({
+    name: registered?.name || DEFAULT_SWIG_NAME,
+    address: new PublicKey(deposit.swigAddress),
+  });
+  const content = {
+    text: `💸 ${describeDeposit(deposit)}\n\nSwig: ${swigDescription}${
+      deposit.mint ? `\nToken Mint: ${deposit.mint}` : ''
+    }${deposit.sender ? `\nSender: ${deposit.sender}` : ''}\nTransaction: ${deposit.signature}`,
+    source: 'swig',
+  };
+
+  // Stored as the agent's own message so later replies know the funds arrived
+  await runtime.createMemory(
+    {
+      id: generateUUID(),
+      entityId: runtime.agentId,
+      agentId: runtime.agentId,
+      roomId,
+      content,
+      createdAt: Date.now(),
+    },
+    'messages'
+  );
+
+  try {
+    await runtime.sendMessageToTarget(
+      { source: room.source, roomId, channelId: room.channelId, serverId: room.serverId },
+      content
+    );
+  } catch (error) {
+    console.error('💸 Failed to post deposit message:', error);
+  }
+}
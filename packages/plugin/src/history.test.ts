@@ -0,0 +1,270 @@
+import type { IAgentRuntime } from '@elizaos/core';
+import { Keypair, type ParsedTransactionWithMeta, type PublicKey } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID } from '@solana/spl-token';
+import { SWIG_PROGRAM_ADDRESS } from '@swig-wallet/classic';
+import {
+  getAddAuthorityV1InstructionCodec,
+  getCloseSwigV1InstructionDataCodec,
+  getCloseTokenAccountV1InstructionDataCodec,
+  getCreateSessionV1InstructionCodec,
+  getRemoveAuthorityV1InstructionCodec,
+  getSignV1InstructionCodec,
+  getSignV2InstructionCodec,
+  getSubAccountCreateV1InstructionDataCodec,
+  getSubAccountSignV1InstructionDataCodec,
+  getSubAccountToggleV1InstructionDataCodec,
+  getSubAccountWithdrawV1InstructionDataCodec,
+  getTransferAssetsV1InstructionDataCodec,
+  getUpdateAuthorityV1InstructionCodec,
+} from '@swig-wallet/coder';
+import bs58 from 'bs58';
+import { describe, expect, it } from 'vitest';
+import { findHistoryDateRange, parseSwigTransaction } from './history.js';
+
+const ROLE_ID = 7;
+const NO_PAYLOAD = new Uint8Array(0);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const runtime = {
+  getSetting: (key: string) => (key === 'SOLANA_CLUSTER' ? 'mainnet-beta' : undefined),
+} as unknown as IAgentRuntime;
+
+function createTransaction(
+  swigAddress: PublicKey,
+  data: Uint8Array,
+  meta: Partial<NonNullable<ParsedTransactionWithMeta['meta']>> = {}
+): ParsedTransactionWithMeta {
+  const feePayer = Keypair.generate().publicKey;
+  return {
+    slot: 1,
+    blockTime: 1_700_000_000,
+    transaction: {
+      signatures: ['signature'],
+      message: {
+        accountKeys: [feePayer, swigAddress].map((pubkey) => ({
+          pubkey,
+          signer: pubkey === feePayer,
+          writable: true,
+        })),
+        instructions: [
+          {
+            programId: SWIG_PROGRAM_ADDRESS,
+            accounts: [swigAddress, feePayer],
+            data: bs58.encode(data),
+          },
+        ],
+        recentBlockhash: '',
+      },
+    },
+    meta: {
+      err: null,
+      fee: 5000,
+      preBalances: [0, 0],
+      postBalances: [0, 0],
+      preTokenBalances: [],
+      postTokenBalances: [],
+      ...meta,
+    },
+  } as unknown as ParsedTransactionWithMeta;
+}
+
+describe('parseSwigTransaction', () => {
+  // Encoded with the SDK so that the role ID offsets in history.ts follow its layouts
+  const instructions: [string, Uint8Array][] = [
+    [
+      'add authority',
+      getAddAuthorityV1InstructionCodec(0, 32).encode({
+        actingRoleId: ROLE_ID,
+        newAuthorityType: 1,
+        noOfActions: 0,
+        newAuthorityData: new Uint8Array(32),
+        actions: NO_PAYLOAD,
+        authorityPayload: NO_PAYLOAD,
+      }),
+    ],
+    [
+      'remove authority',
+      getRemoveAuthorityV1InstructionCodec(0).encoder.encode({
+        actingRoleId: ROLE_ID,
+        authorityToRemoveId: 1,
+        authorityPayload: NO_PAYLOAD,
+      }),
+    ],
+    [
+      'update authority',
+      getUpdateAuthorityV1InstructionCodec().encoder.encode({
+        actingRoleId: ROLE_ID,
+        authorityToUpdateId: 1,
+        updateActionsPayload: new Uint8Array([0]),
+        authorityPayload: NO_PAYLOAD,
+      }),
+    ],
+    [
+      'sign',
+      getSignV1InstructionCodec(0).encoder.encode({
+        roleId: ROLE_ID,
+        authorityPayload: NO_PAYLOAD,
+        compactInstructions: [],
+      }),
+    ],
+    [
+      'sign',
+      getSignV2InstructionCodec(0).encoder.encode({
+        roleId: ROLE_ID,
+        authorityPayload: NO_PAYLOAD,
+        compactInstructions: [],
+      }),
+    ],
+    [
+      'create session',
+      getCreateSessionV1InstructionCodec().encoder.encode({
+        roleId: ROLE_ID,
+        sessionDuration: 1n,
+        sessionKey: new Uint8Array(32),
+        authorityPayload: NO_PAYLOAD,
+      }),
+    ],
+    [
+      'create sub-account',
+      getSubAccountCreateV1InstructionDataCodec().encoder.encode({
+        roleId: ROLE_ID,
+        bump: 1,
+        authorityPayload: NO_PAYLOAD,
+      }),
+    ],
+    [
+      'sub-account withdraw',
+      getSubAccountWithdrawV1InstructionDataCodec().encoder.encode({
+        roleId: ROLE_ID,
+        amount: 1n,
+        authorityPayload: NO_PAYLOAD,
+      }),
+    ],
+    [
+      'sub-account sign',
+      getSubAccountSignV1InstructionDataCodec().encoder.encode({
+        roleId: ROLE_ID,
+        compactInstructions: [],
+        authorityPayload: NO_PAYLOAD,
+      }),
+    ],
+    [
+      'toggle sub-account',
+      getSubAccountToggleV1InstructionDataCodec().encoder.encode({
+        enabled: true,
+        subAccountRoleId: 1,
+        actingRoleId: ROLE_ID,
+        authorityPayload: NO_PAYLOAD,
+      }),
+    ],
+    [
+      'transfer assets',
+      getTransferAssetsV1InstructionDataCodec().encoder.encode({
+        roleId: ROLE_ID,
+        authorityPayload: NO_PAYLOAD,
+      }),
+    ],
+    [
+      'close token account',
+      getCloseTokenAccountV1InstructionDataCodec().encoder.encode({
+        tokenAccountOffset: 1,
+        roleId: ROLE_ID,
+        authorityPayload: NO_PAYLOAD,
+      }),
+    ],
+    [
+      'close swig',
+      getCloseSwigV1InstructionDataCodec().encoder.encode({
+        roleId: ROLE_ID,
+        authorityPayload: NO_PAYLOAD,
+      }),
+    ],
+  ];
+
+  it.each(instructions)('reads the acting role of "%s"', (name, data) => {
+    const swigAddress = Keypair.generate().publicKey;
+    const [record] = parseSwigTransaction(
+      runtime,
+      createTransaction(swigAddress, data),
+      swigAddress,
+      swigAddress
+    );
+    expect(record).toMatchObject({ direction: 'other', instruction: name, roleId: ROLE_ID });
+  });
+
+  it('labels instructions the SDK does not know as "swig"', () => {
+    const swigAddress = Keypair.generate().publicKey;
+    const [record] = parseSwigTransaction(
+      runtime,
+      createTransaction(swigAddress, new Uint8Array([0xff, 0xff, 7, 0, 0, 0])),
+      swigAddress,
+      swigAddress
+    );
+    expect(record.instruction).toBe('swig');
+    expect(record.roleId).toBeUndefined();
+  });
+
+  it('records Token-2022 movements of the wallet address', () => {
+    const swigAddress = Keypair.generate().publicKey;
+    const mint = Keypair.generate().publicKey.toBase58();
+    const tokenBalance = (amount: string) => ({
+      accountIndex: 1,
+      mint,
+      owner: swigAddress.toBase58(),
+      programId: TOKEN_2022_PROGRAM_ID.toBase58(),
+      uiTokenAmount: { amount, decimals: 6, uiAmount: Number(amount) / 1e6, uiAmountString: '' },
+    });
+    const [record] = parseSwigTransaction(
+      runtime,
+      createTransaction(
+        swigAddress,
+        getSignV2InstructionCodec(0).encoder.encode({
+          roleId: ROLE_ID,
+          authorityPayload: NO_PAYLOAD,
+          compactInstructions: [],
+        }),
+        {
+          preTokenBalances: [tokenBalance('5000000')],
+          postTokenBalances: [tokenBalance('3000000')],
+        }
+      ),
+      swigAddress,
+      swigAddress
+    );
+    expect(record).toMatchObject({ direction: 'out', mint, amount: 2, rawAmount: '2000000' });
+  });
+});
+
+describe('findHistoryDateRange', () => {
+  /** Wednesday 2025-01-15 10:30 UTC */
+  const now = Date.UTC(2025, 0, 15, 10, 30);
+  const today = Date.UTC(2025, 0, 15);
+
+  it.each([
+    ['today', { since: today }],
+    ['yesterday', { since: today - DAY_MS, until: today }],
+    ['since yesterday', { since: today - DAY_MS }],
+    ['since monday', { since: Date.UTC(2025, 0, 13) }],
+    ['on friday', { since: Date.UTC(2025, 0, 10), until: Date.UTC(2025, 0, 11) }],
+    ['last wednesday', { since: today, until: today + DAY_MS }],
+    ['this week', { since: Date.UTC(2025, 0, 13) }],
+    ['last week', { since: Date.UTC(2025, 0, 6), until: Date.UTC(2025, 0, 13) }],
+    ['this month', { since: Date.UTC(2025, 0, 1) }],
+    ['last month', { since: Date.UTC(2024, 11, 1), until: Date.UTC(2025, 0, 1) }],
+    ['the last 3 days', { since: now - 3 * DAY_MS }],
+    ['the past 2 hours', { since: now - 2 * 60 * 60 * 1000 }],
+    ['since 2025-01-02', { since: Date.UTC(2025, 0, 2) }],
+    ['on 2025-01-02', { since: Date.UTC(2025, 0, 2), until: Date.UTC(2025, 0, 3) }],
+    ['before 2025-01-02', { until: Date.UTC(2025, 0, 2) }],
+    [
+      'from 2024-12-01 through 2024-12-31',
+      { since: Date.UTC(2024, 11, 1), until: Date.UTC(2025, 0, 1) },
+    ],
+  ])('reads "%s"', (text, range) => {
+    expect(findHistoryDateRange(`what did I spend ${text}?`, now)).toEqual(range);
+  });
+
+  it('has no range without a date phrase', () => {
+    expect(findHistoryDateRange('show my swig history', now)).toEqual({});
+  });
+});
@@ -0,0 +1,700 @@
+import { type IAgentRuntime } from '@elizaos/core';
+import {
+  type ConfirmedSignatureInfo,
+  Connection,
+  LAMPORTS_PER_SOL,
+  type ParsedTransactionWithMeta,
+  PublicKey,
+} from '@solana/web3.js';
+import { SWIG_PROGRAM_ADDRESS } from '@swig-wallet/classic';
+import { identifySwigInstruction, SwigInstructionDiscriminator } from '@swig-wallet/coder';
+import bs58 from 'bs58';
+import { findAddressAfter } from './parameters.js';
+import { getTokenAliases, getTokenInfo, getTokenList, resolveToken } from './tokens.js';
+import { SwigAssetMovement, SwigHistoryFilters, SwigHistoryRecord } from './types.js';
+import { formatShortAddress, getSwigTokenHoldings } from './utils.js';
+
+export const DEFAULT_HISTORY_LIMIT = 10;
+export const MAX_HISTORY_LIMIT = 100;
+
+/**
+ * Records listed when a date range is given without a count
+ */
+const DEFAULT_RANGE_HISTORY_LIMIT = 50;
+
+const SIGNATURE_PAGE_SIZE = 100;
+
+/**
+ * Signatures looked at per account before giving up on older history
+ */
+const MAX_SCANNED_SIGNATURES = 1000;
+
+const TRANSACTION_BATCH_SIZE = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * Swig program instructions, with the offset of the acting role ID in their
+ * data. Offsets follow the instruction data layouts of @swig-wallet/coder
+ * (e.g. `SignV2InstructionData`: u16 discriminator, u16 payload length, u32
+ * role ID), and history.test.ts checks them against its encoders.
+ */
+const SWIG_INSTRUCTIONS: Partial<
+  Record<SwigInstructionDiscriminator, { name: string; roleIdOffset?: number }>
+> = {
+  [SwigInstructionDiscriminator.CreateV1]: { name: 'create swig' },
+  [SwigInstructionDiscriminator.AddAuthorityV1]: { name: 'add authority', roleIdOffset: 12 },
+  [SwigInstructionDiscriminator.RemoveAuthorityV1]: { name: 'remove authority', roleIdOffset: 8 },
+  [SwigInstructionDiscriminator.UpdateAuthorityV1]: { name: 'update authority', roleIdOffset: 8 },
+  [SwigInstructionDiscriminator.SignV1]: { name: 'sign', roleIdOffset: 4 },
+  [SwigInstructionDiscriminator.SignV2]: { name: 'sign', roleIdOffset: 4 },
+  [SwigInstructionDiscriminator.CreateSessionV1]: { name: 'create session', roleIdOffset: 4 },
+  [SwigInstructionDiscriminator.SubAccountCreateV1]: {
+    name: 'create sub-account',
+    roleIdOffset: 4,
+  },
+  [SwigInstructionDiscriminator.SubAccountWithdrawV1]: {
+    name: 'sub-account withdraw',
+    roleIdOffset: 4,
+  },
+  [SwigInstructionDiscriminator.SubAccountSignV1]: { name: 'sub-account sign', roleIdOffset: 4 },
+  [SwigInstructionDiscriminator.SubAccountToggleV1]: {
+    name: 'toggle sub-account',
+    roleIdOffset: 12,
+  },
+  [SwigInstructionDiscriminator.MigrateToWalletAddressV1]: { name: 'migrate to wallet address' },
+  [SwigInstructionDiscriminator.TransferAssetsV1]: { name: 'transfer assets', roleIdOffset: 4 },
+  [SwigInstructionDiscriminator.CloseTokenAccountV1]: {
+    name: 'close token account',
+    roleIdOffset: 4,
+  },
+  [SwigInstructionDiscriminator.CloseSwigV1]: { name: 'close swig', roleIdOffset: 4 },
+};
+
+const OUTGOING_WORDS =
+  /\b(spen[dt]|spending|sent|send|paid|outgoing|outflows?|withdrawals?|withdrew)\b/;
+const INCOMING_WORDS = /\b(received?|receiving|incoming|deposits?|deposited|inflows?)\b/;
+
+/**
+ * Words that can follow "only" or "just" without naming an asset
+ */
+const NON_ASSET_WORDS = [
+  'incoming',
+  'outgoing',
+  'received',
+  'sent',
+  'spent',
+  'deposits',
+  'withdrawals',
+  'transfers',
+  'transactions',
+  'payments',
+  'today',
+  'yesterday',
+  'the',
+  'my',
+  'swig',
+];
+
+/**
+ * Find how a transaction changed the SOL and token balances of a Swig wallet,
+ * held at its wallet address. The counterparty of incoming funds is the account
+ * whose balance of the same asset dropped the most, and of outgoing funds the
+ * one that gained the most.
+ */
+export function findSwigAssetMovements(
+  runtime: IAgentRuntime,
+  transaction: ParsedTransactionWithMeta,
+  walletAddress: PublicKey
+): SwigAssetMovement[] {
+  const meta = transaction.meta;
+  if (!meta || meta.err) {
+    return [];
+  }
+
+  const swig = walletAddress.toBase58();
+  const accountKeys = transaction.transaction.message.accountKeys.map((key) =>
+    key.pubkey.toBase58()
+  );
+  const movements: SwigAssetMovement[] = [];
+
+  const swigIndex = accountKeys.indexOf(swig);
+  if (swigIndex >= 0) {
+    const delta = meta.postBalances[swigIndex] - meta.preBalances[swigIndex];
+    if (delta !== 0) {
+      let counterparty: string | undefined;
+      let largestChange = 0;
+      accountKeys.forEach((key, index) => {
+        // A counterparty moves the opposite way, by how much its balance changed
+        const change = (meta.preBalances[index] - meta.postBalances[index]) * Math.sign(delta);
+        if (index !== swigIndex && change > largestChange) {
+          largestChange = change;
+          counterparty = key;
+        }
+      });
+      movements.push({ symbol: 'SOL', decimals: 9, delta: BigInt(delta), counterparty });
+    }
+  }
+
+  // Token balances are keyed by account index; accounts created by the transaction have no pre balance
+  const changes = new Map<
+    string,
+    { owner?: string; mint: string; decimals: number; delta: bigint }
+  >();
+  for (const balance of meta.preTokenBalances || []) {
+    changes.set(`${balance.accountIndex}`, {
+      owner: balance.owner,
+      mint: balance.mint,
+      decimals: balance.uiTokenAmount.decimals,
+      delta: -BigInt(balance.uiTokenAmount.amount),
+    });
+  }
+  for (const balance of meta.postTokenBalances || []) {
+    const change = changes.get(`${balance.accountIndex}`);
+    changes.set(`${balance.accountIndex}`, {
+      owner: balance.owner,
+      mint: balance.mint,
+      decimals: balance.uiTokenAmount.decimals,
+      delta: (change?.delta ?? 0n) + BigInt(balance.uiTokenAmount.amount),
+    });
+  }
+
+  const deltaByMint = new Map<string, { decimals: number; delta: bigint }>();
+  for (const change of changes.values()) {
+    if (change.owner === swig && change.delta !== 0n) {
+      const total = deltaByMint.get(change.mint);
+      deltaByMint.set(change.mint, {
+        decimals: change.decimals,
+        delta: (total?.delta ?? 0n) + change.delta,
+      });
+    }
+  }
+
+  for (const [mint, total] of deltaByMint) {
+    if (total.delta === 0n) {
+      continue;
+    }
+
+    let counterparty: string | undefined;
+    let largestChange = 0n;
+    for (const change of changes.values()) {
+      const opposite = total.delta > 0n ? -change.delta : change.delta;
+      if (change.mint === mint && change.owner !== swig && opposite > largestChange) {
+        largestChange = opposite;
+        counterparty = change.owner;
+      }
+    }
+
+    movements.push({
+      mint,
+      symbol: getTokenInfo(runtime, new PublicKey(mint)).symbol,
+      decimals: total.decimals,
+      delta: total.delta,
+      counterparty,
+    });
+  }
+
+  return movements;
+}
+
+/**
+ * Find the Swig instruction a transaction ran on a Swig wallet and the role
+ * it acted as
+ */
+function findSwigInstruction(
+  transaction: ParsedTransactionWithMeta,
+  swigAddress: PublicKey
+): { instruction?: string; roleId?: number } {
+  for (const instruction of transaction.transaction.message.instructions) {
+    if (
+      !('data' in instruction) ||
+      !instruction.programId.equals(SWIG_PROGRAM_ADDRESS) ||
+      !instruction.accounts.some((account) => account.equals(swigAddress))
+    ) {
+      continue;
+    }
+
+    const data = bs58.decode(instruction.data);
+    if (data.length < 2) {
+      continue;
+    }
+    let known: { name: string; roleIdOffset?: number } | undefined;
+    try {
+      known = SWIG_INSTRUCTIONS[identifySwigInstruction(data)];
+    } catch {
+      // Instructions newer than the pinned SDK are still Swig instructions
+    }
+    if (!known) {
+      return { instruction: 'swig' };
+    }
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const offset = known.roleIdOffset;
+    return {
+      instruction: known.name,
+      roleId:
+        offset !== undefined && data.length >= offset + 4
+          ? view.getUint32(offset, true)
+          : undefined,
+    };
+  }
+
+  return {};
+}
+
+/**
+ * Turn a transaction into history records of a Swig wallet: one per asset it
+ * moved, or a single "other" record when nothing moved
+ */
+export function parseSwigTransaction(
+  runtime: IAgentRuntime,
+  transaction: ParsedTransactionWithMeta,
+  swigAddress: PublicKey,
+  walletAddress: PublicKey
+): SwigHistoryRecord[] {
+  const meta = transaction.meta;
+  const base = {
+    signature: transaction.transaction.signatures[0],
+    slot: transaction.slot,
+    timestamp: (transaction.blockTime ?? 0) * 1000,
+    fee: (meta?.fee ?? 0) / LAMPORTS_PER_SOL,
+    feePayer: transaction.transaction.message.accountKeys[0].pubkey.toBase58(),
+    status: meta?.err ? ('failed' as const) : ('success' as const),
+    error: meta?.err ? JSON.stringify(meta.err) : undefined,
+    ...findSwigInstruction(transaction, swigAddress),
+  };
+
+  const movements = findSwigAssetMovements(runtime, transaction, walletAddress);
+  if (!movements.length) {
+    return [{ ...base, direction: 'other' }];
+  }
+
+  return movements.map((movement) => {
+    const rawAmount = movement.delta < 0n ? -movement.delta : movement.delta;
+    return {
+      ...base,
+      direction: movement.delta > 0n ? 'in' : 'out',
+      asset: movement.symbol,
+      mint: movement.mint,
+      amount: Number(rawAmount) / Math.pow(10, movement.decimals),
+      rawAmount: rawAmount.toString(),
+      decimals: movement.decimals,
+      counterparty: movement.counterparty,
+    };
+  });
+}
+
+function matchesFilters(record: SwigHistoryRecord, filters: SwigHistoryFilters): boolean {
+  if (filters.direction && record.direction !== filters.direction) {
+    return false;
+  }
+  if (filters.asset === 'SOL') {
+    return record.asset === 'SOL' && !record.mint;
+  }
+  return !filters.asset || record.mint === filters.asset;
+}
+
+/**
+ * Get the newest history records of a Swig wallet that match the filters
+ */
+export async function getSwigHistory(
+  runtime: IAgentRuntime,
+  connection: Connection,
+  swigAddress: PublicKey,
+  walletAddress: PublicKey,
+  filters: SwigHistoryFilters
+): Promise<SwigHistoryRecord[]> {
+  return (await scanSwigHistory(runtime, connection, swigAddress, walletAddress, filters)).records;
+}
+
+/**
+ * Get the newest history records of a Swig wallet that match the filters, and
+ * whether they are all of them. They are not when the limit was reached or an
+ * account had more than `maxScannedSignatures` signatures in the date range.
+ *
+ * Signatures are paged from the Swig, its wallet address when that is a
+ * separate account, and each of its token accounts, since deposits do not
+ * mention the Swig itself. Pages are merged
+ * newest first, and a signature is only parsed once no account can still
+ * return a newer one.
+ */
+export async function scanSwigHistory(
+  runtime: IAgentRuntime,
+  connection: Connection,
+  swigAddress: PublicKey,
+  walletAddress: PublicKey,
+  filters: SwigHistoryFilters,
+  maxScannedSignatures: number = MAX_SCANNED_SIGNATURES
+): Promise<{ records: SwigHistoryRecord[]; complete: boolean }> {
+  const holdings =
+    filters.asset === 'SOL' ? [] : await getSwigTokenHoldings(connection, walletAddress);
+  const addresses = [
+    swigAddress,
+    ...(walletAddress.equals(swigAddress) ? [] : [walletAddress]),
+    ...holdings
+      .filter((holding) => !filters.asset || holding.mint.toBase58() === filters.asset)
+      .map((holding) => holding.address),
+  ];
+
+  const cursors = addresses.map((address) => ({
+    address,
+    before: undefined as string | undefined,
+    oldestSlot: Infinity,
+    scanned: 0,
+    done: false,
+    truncated: false,
+  }));
+  const pending = new Map<string, ConfirmedSignatureInfo>();
+  const handled = new Set<string>();
+  const records: SwigHistoryRecord[] = [];
+
+  while (records.length < filters.limit) {
+    const active = cursors.filter((cursor) => !cursor.done);
+    if (!active.length && !pending.size) {
+      break;
+    }
+
+    for (const cursor of active) {
+      const page = await connection.getSignaturesForAddress(cursor.address, {
+        before: cursor.before,
+        limit: SIGNATURE_PAGE_SIZE,
+      });
+      for (const info of page) {
+        if (!handled.has(info.signature)) {
+          pending.set(info.signature, info);
+        }
+      }
+
+      const oldest = page[page.length - 1];
+      cursor.scanned += page.length;
+      cursor.before = oldest?.signature;
+      cursor.oldestSlot = oldest ? oldest.slot : -1;
+      const ended =
+        page.length < SIGNATURE_PAGE_SIZE ||
+        (filters.since !== undefined &&
+          !!oldest.blockTime &&
+          oldest.blockTime * 1000 < filters.since);
+      cursor.truncated = !ended && cursor.scanned >= maxScannedSignatures;
+      cursor.done = ended || cursor.truncated;
+    }
+
+    // Unfinished accounts may still return signatures from their oldest slot or before
+    const horizon = Math.max(
+      -1,
+      ...cursors.filter((cursor) => !cursor.done).map((cursor) => cursor.oldestSlot)
+    );
+    const ready = [...pending.values()]
+      .filter((info) => info.slot > horizon)
+      .sort((a, b) => b.slot - a.slot);
+    for (const info of ready) {
+      pending.delete(info.signature);
+      handled.add(info.signature);
+    }
+
+    const inRange = ready.filter((info) => {
+      const timestamp = (info.blockTime ?? 0) * 1000;
+      return (
+        (filters.since === undefined || timestamp >= filters.since) &&
+        (filters.until === undefined || timestamp < filters.until)
+      );
+    });
+
+    for (
+      let i = 0;
+      i < inRange.length && records.length < filters.limit;
+      i += TRANSACTION_BATCH_SIZE
+    ) {
+      const transactions = await connection.getParsedTransactions(
+        inRange.slice(i, i + TRANSACTION_BATCH_SIZE).map((info) => info.signature),
+        { commitment: 'confirmed', maxSupportedTransactionVersion: 0 }
+      );
+      for (const transaction of transactions) {
+        if (transaction) {
+          records.push(
+            ...parseSwigTransaction(runtime, transaction, swigAddress, walletAddress).filter(
+              (record) => matchesFilters(record, filters)
+            )
+          );
+        }
+      }
+    }
+  }
+
+  return {
+    records: records.slice(0, filters.limit),
+    // Reaching the limit may leave matching transactions unread
+    complete: records.length < filters.limit && !cursors.some((cursor) => cursor.truncated),
+  };
+}
+
+function startOfUtcDay(time: number): number {
+  const date = new Date(time);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+/**
+ * Find the date range a message asks about, in UTC: "today", "yesterday",
+ * "since Monday", "on Friday", "this week", "last month", "last 3 days",
+ * "since 2025-05-01" or "before 2025-06-01"
+ */
+export function findHistoryDateRange(
+  message: string,
+  now: number = Date.now()
+): { since?: number; until?: number } {
+  const text = message.toLowerCase();
+  const today = startOfUtcDay(now);
+
+  const weekday = text.match(
+    /\b(since|on|last)\s+(sunday|monday|tuesday|wednesday|thursday|friday|saturday)\b/
+  );
+  if (weekday) {
+    const daysAgo = (new Date(today).getUTCDay() - WEEKDAYS.indexOf(weekday[2]) + 7) % 7;
+    const start = today - daysAgo * DAY_MS;
+    return weekday[1] === 'since' ? { since: start } : { since: start, until: start + DAY_MS };
+  }
+
+  const relative = text.match(/\b(?:last|past)\s+(\d{1,3})\s+(hour|day|week)s?\b/);
+  if (relative) {
+    const unit = relative[2] === 'hour' ? DAY_MS / 24 : relative[2] === 'day' ? DAY_MS : 7 * DAY_MS;
+    return { since: now - Number(relative[1]) * unit };
+  }
+
+  const parseDate = (value: string) => Date.parse(`${value}T00:00:00Z`);
+  const startDate = text.match(/\b(since|after|from|on)\s+(\d{4}-\d{2}-\d{2})\b/);
+  const endDate = text.match(/\b(until|through|to|before)\s+(\d{4}-\d{2}-\d{2})\b/);
+  if (startDate || endDate) {
+    const since = startDate ? parseDate(startDate[2]) : undefined;
+    let until = endDate
+      ? parseDate(endDate[2]) + (endDate[1] === 'before' ? 0 : DAY_MS)
+      : undefined;
+    if (startDate?.[1] === 'on' && since !== undefined) {
+      until = since + DAY_MS;
+    }
+    return {
+      since: Number.isNaN(since) ? undefined : since,
+      until: Number.isNaN(until) ? undefined : until,
+    };
+  }
+
+  if (/\bsince\s+yesterday\b/.test(text)) {
+    return { since: today - DAY_MS };
+  }
+  if (/\byesterday\b/.test(text)) {
+    return { since: today - DAY_MS, until: today };
+  }
+  if (/\btoday\b/.test(text)) {
+    return { since: today };
+  }
+
+  const monday = today - ((new Date(today).getUTCDay() + 6) % 7) * DAY_MS;
+  if (/\bthis\s+week\b/.test(text)) {
+    return { since: monday };
+  }
+  if (/\blast\s+week\b/.test(text)) {
+    return { since: monday - 7 * DAY_MS, until: monday };
+  }
+
+  const date = new Date(today);
+  const firstOfMonth = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  if (/\bthis\s+month\b/.test(text)) {
+    return { since: firstOfMonth };
+  }
+  if (/\blast\s+month\b/.test(text)) {
+    return {
+      since: Date.UTC(date.getUTCFullYear(), date.getUTCMonth() - 1, 1),
+      until: firstOfMonth,
+    };
+  }
+
+  return {};
+}
+
+/**
+ * Find the asset a message limits the history to: a mint address, "only X",
+ * "just X", "X only", or a listed token symbol, saved alias or SOL it mentions
+ */
+async function findAssetQuery(runtime: IAgentRuntime, text: string): Promise<string | undefined> {
+  const mint = findAddressAfter(text, /\bmint/);
+  if (mint) {
+    return mint;
+  }
+
+  const lower = text.toLowerCase();
+  const patterns = [
+    /\b(?:only|just)\s+\$?([a-z][a-z0-9_-]{1,15})\b/g,
+    /\$?\b([a-z][a-z0-9_-]{1,15})\s+only\b/g,
+  ];
+  for (const pattern of patterns) {
+    for (const match of lower.matchAll(pattern)) {
+      if (!NON_ASSET_WORDS.includes(match[1])) {
+        return match[1];
+      }
+    }
+  }
+
+  const names = new Set([
+    ...getTokenList(runtime).map((token) => token.symbol.toLowerCase()),
+    ...(await getTokenAliases(runtime)).map((alias) => alias.alias),
+    'sol',
+  ]);
+  return (lower.match(/[a-z][a-z0-9_-]*/g) || []).find((word) => names.has(word));
+}
+
+/**
+ * Read history filters from a message: a count ("last 10"), a date range
+ * ("since Monday", "yesterday"), an asset ("only USDC") and a direction
+ * ("what did you spend", "incoming"). Throws when the asset is unknown.
+ */
+export async function parseSwigHistoryFilters(
+  runtime: IAgentRuntime,
+  text: string,
+  now: number = Date.now()
+): Promise<SwigHistoryFilters> {
+  const lower = text.toLowerCase();
+  const filters: SwigHistoryFilters = {
+    limit: DEFAULT_HISTORY_LIMIT,
+    ...findHistoryDateRange(lower, now),
+  };
+
+  const count =
+    lower.match(
+      /\b(?:last|latest|recent|past|first|top)\s+(\d{1,3})\b(?!\s*(?:hours?|days?|weeks?)\b)/
+    ) ||
+    lower.match(/\b(\d{1,3})\s+(?:most\s+)?(?:recent|latest|last)\b/) ||
+    lower.match(/\b(\d{1,3})\s+(?:transactions|transfers|payments|entries|records)\b/);
+  if (count) {
+    filters.limit = Math.min(Math.max(Number(count[1]), 1), MAX_HISTORY_LIMIT);
+  } else if (filters.since !== undefined || filters.until !== undefined) {
+    filters.limit = DEFAULT_RANGE_HISTORY_LIMIT;
+  }
+
+  const outgoing = OUTGOING_WORDS.test(lower);
+  const incoming = INCOMING_WORDS.test(lower);
+  if (outgoing !== incoming) {
+    filters.direction = outgoing ? 'out' : 'in';
+  }
+
+  const assetQuery = await findAssetQuery(runtime, text);
+  if (assetQuery) {
+    filters.asset =
+      assetQuery.toLowerCase() === 'sol' ? 'SOL' : (await resolveToken(runtime, assetQuery)).mint;
+  }
+
+  return filters;
+}
+
+/**
+ * Format a block time for responses, e.g. "2025-05-12 14:03 UTC"
+ */
+export function formatHistoryTimestamp(timestamp: number): string {
+  return timestamp
+    ? `${new Date(timestamp).toISOString().slice(0, 16).replace('T', ' ')} UTC`
+    : 'unknown time';
+}
+
+/**
+ * Format a history record as one ledger line, e.g. "2025-05-12 14:03 UTC  -2 SOL
+ * → alice (9WzD…AWWM) · role 1 · fee 0.000005 SOL · 5h3k…9aB2". Counterparties
+ * are named from the address book when known.
+ */
+export function describeSwigHistoryRecord(
+  record: SwigHistoryRecord,
+  contactNames: Map<string, string> = new Map()
+): string {
+  const describeCounterparty = (address: string) => {
+    const name = contactNames.get(address);
+    return name ? `${name} (${formatShortAddress(address)})` : formatShortAddress(address);
+  };
+
+  let movement: string;
+  if (record.direction === 'other') {
+    movement = record.instruction || 'no balance change';
+  } else {
+    const sign = record.direction === 'in' ? '+' : '-';
+    const arrow = record.direction === 'in' ? '←' : '→';
+    movement = `${sign}${record.amount} ${record.asset}${
+      record.counterparty ? ` ${arrow} ${describeCounterparty(record.counterparty)}` : ''
+    }`;
+  }
+
+  return [
+    `${formatHistoryTimestamp(record.timestamp)}  ${record.status === 'failed' ? '❌ failed ' : ''}${movement}`,
+    ...(record.roleId !== undefined ? [`role ${record.roleId}`] : []),
+    `fee ${record.fee} SOL`,
+    formatShortAddress(record.signature),
+  ].join(' · ');
+}
+
+/**
+ * Sum the network fees of the transactions in history records, once per
+ * transaction. Only fees paid by one of `feePayers` count, so transactions
+ * that others paid for, such as incoming transfers, cost the Swig nothing.
+ */
+export function sumSwigNetworkFees(records: SwigHistoryRecord[], feePayers: string[]): number {
+  const fees = new Map(
+    records
+      .filter((record) => feePayers.includes(record.feePayer))
+      .map((record) => [record.signature, record.fee])
+  );
+  return Number([...fees.values()].reduce((sum, fee) => sum + fee, 0).toFixed(9));
+}
+
+/**
+ * Sum history records per direction and asset, e.g. "Sent: 2 SOL, 30 USDC",
+ * and the network fees paid by `feePayers`
+ */
+export function describeSwigHistoryTotals(
+  records: SwigHistoryRecord[],
+  feePayers: string[]
+): string {
+  const totals = (direction: 'in' | 'out') => {
+    const byAsset = new Map<string, { asset: string; decimals: number; amount: bigint }>();
+    for (const record of records) {
+      if (record.direction === direction && record.rawAmount !== undefined) {
+        const key = record.mint || 'SOL';
+        const total = byAsset.get(key);
+        byAsset.set(key, {
+          asset: record.asset || key,
+          decimals: record.decimals ?? 0,
+          amount: (total?.amount ?? 0n) + BigInt(record.rawAmount),
+        });
+      }
+    }
+    return [...byAsset.values()]
+      .map((total) => `${Number(total.amount) / Math.pow(10, total.decimals)} ${total.asset}`)
+      .join(', ');
+  };
+
+  return [
+    `Sent: ${totals('out') || 'nothing'}`,
+    `Received: ${totals('in') || 'nothing'}`,
+    `Network Fees: ${sumSwigNetworkFees(records, feePayers)} SOL`,
+  ].join('\n');
+}
+
+/**
+ * Describe the filters of a history request, e.g. "last 10 · outgoing · USDC ·
+ * since 2025-05-12 00:00 UTC"
+ */
+export function describeSwigHistoryFilters(
+  runtime: IAgentRuntime,
+  filters: SwigHistoryFilters
+): string {
+  const parts = [`up to ${filters.limit}`];
+  if (filters.direction) {
+    parts.push(filters.direction === 'out' ? 'outgoing' : 'incoming');
+  }
+  if (filters.asset) {
+    parts.push(
+      filters.asset === 'SOL' ? 'SOL' : getTokenInfo(runtime, new PublicKey(filters.asset)).symbol
+    );
+  }
+  if (filters.since !== undefined) {
+    parts.push(`since ${formatHistoryTimestamp(filters.since)}`);
+  }
+  if (filters.until !== undefined) {
+    parts.push(`before ${formatHistoryTimestamp(filters.until)}`);
+  }
+  return parts.join(' · ');
+}
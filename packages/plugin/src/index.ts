@@ -1,9 +1,13 @@
-import { type Plugin } from '@elizaos/core';
+import { type Action, type Plugin } from '@elizaos/core';
 import { createSwigAction } from './actions/createSwig.js';
+import { importSwigAction } from './actions/importSwig.js';
 import { transferToSwigAction } from './actions/transferToSwig.js';
 import { getSwigBalanceAction } from './actions/getSwigBalance.js';
 import { addSwigAuthorityAction } from './actions/addSwigAuthority.js';
 import { removeSwigAuthorityAction } from './actions/removeSwigAuthority.js';
+import { updateSwigAuthorityAction } from './actions/updateSwigAuthority.js';
+import { createSwigSessionAction } from './actions/createSwigSession.js';
+import { revokeSwigSessionAction } from './actions/revokeSwigSession.js';
 import { getSwigAuthoritiesAction } from './actions/getSwigAuthorities.js';
 import { swigTransferToAddressAction } from './actions/swigTransferToAddress.js';
 import { transferTokenToSwigAction } from './actions/transferTokenToSwig.js';
@@ -11,6 +15,25 @@ import { swigTransferToAuthorityAction } from './actions/swigTransferToAuthority
 import { swigTransferTokenToAddressAction } from './actions/swigTransferTokenToAddress.js';
 import { swigTransferTokenToAuthorityAction } from './actions/swigTransferTokenToAuthority.js';
 import { getSwigTokenBalanceAction } from './actions/getSwigTokenBalance.js';
+import { createSwigSubAccountAction } from './actions/createSwigSubAccount.js';
+import { fundSwigSubAccountAction } from './actions/fundSwigSubAccount.js';
+import { swigSubAccountTransferAction } from './actions/swigSubAccountTransfer.js';
+import { withdrawFromSwigSubAccountAction } from './actions/withdrawFromSwigSubAccount.js';
+import { toggleSwigSubAccountAction } from './actions/toggleSwigSubAccount.js';
+import { confirmSwigOperationAction } from './actions/confirmSwigOperation.js';
+import { cancelSwigOperationAction } from './actions/cancelSwigOperation.js';
+import { saveSwigTokenAliasAction } from './actions/saveSwigTokenAlias.js';
+import { saveSwigContactAction } from './actions/saveSwigContact.js';
+import { listSwigContactsAction } from './actions/listSwigContacts.js';
+import { removeSwigContactAction } from './actions/removeSwigContact.js';
+import { updateSwigRecipientsAction } from './actions/updateSwigRecipients.js';
+import { listSwigRecipientsAction } from './actions/listSwigRecipients.js';
+import { getSwigHistoryAction } from './actions/getSwigHistory.js';
+import { exportSwigStatementAction } from './actions/exportSwigStatement.js';
+import { swigWalletProvider } from './providers/swigWallet.js';
+import { swigStatementRoute } from './routes/swigStatement.js';
+import { SwigWalletService } from './services/swigWallet.js';
+import { getRequiredRole, SWIG_ACTION_TIERS, withRoleGate } from './access.js';
 
 // Helper function to determine if transfers are enabled
 function areTransfersEnabled(runtime: any): boolean {
@@ -36,12 +59,30 @@ function isAuthorityManagementEnabled(runtime: any): boolean {
   return authorityManagementEnabled;
 }
 
+// Helper function to determine if every write should only be simulated
+function isDryRunEnabled(runtime: any): boolean {
+  return String(runtime.getSetting('SWIG_DRY_RUN')) === 'true';
+}
+
 // Define read-only actions (always available)
 const readOnlyActions = [
-  createSwigAction,
   getSwigBalanceAction,
   getSwigAuthoritiesAction,
   getSwigTokenBalanceAction,
+  listSwigContactsAction,
+  listSwigRecipientsAction,
+  getSwigHistoryAction,
+  exportSwigStatementAction,
+];
+
+// Define actions that change the plugin's wallets, names and lists (always available)
+const manageActions = [
+  createSwigAction,
+  importSwigAction,
+  saveSwigTokenAliasAction,
+  saveSwigContactAction,
+  removeSwigContactAction,
+  updateSwigRecipientsAction,
 ];
 
 // Define transfer actions (conditionally available)
@@ -52,10 +93,26 @@ const transferActions = [
   swigTransferToAuthorityAction,
   swigTransferTokenToAddressAction,
   swigTransferTokenToAuthorityAction,
+  createSwigSubAccountAction,
+  fundSwigSubAccountAction,
+  swigSubAccountTransferAction,
+  withdrawFromSwigSubAccountAction,
+  toggleSwigSubAccountAction,
+  confirmSwigOperationAction,
+  cancelSwigOperationAction,
 ];
 
 // Define authority management actions (conditionally available)
-const authorityManagementActions = [addSwigAuthorityAction, removeSwigAuthorityAction];
+const authorityManagementActions = [
+  addSwigAuthorityAction,
+  removeSwigAuthorityAction,
+  updateSwigAuthorityAction,
+  createSwigSessionAction,
+  revokeSwigSessionAction,
+];
+
+// Write actions that cannot simulate their transactions; SWIG_DRY_RUN=true leaves them unregistered
+const sendOnlyActions = [createSwigSessionAction, revokeSwigSessionAction];
 
 export const swigPlugin: Plugin = {
   name: 'swig',
@@ -63,6 +120,12 @@ export const swigPlugin: Plugin = {
 
   actions: [], // Will be populated during initialization
 
+  providers: [swigWalletProvider],
+
+  services: [SwigWalletService],
+
+  routes: [swigStatementRoute],
+
   // Plugin initialization
   init: async (config, runtime) => {
     /* eslint-disable no-console */
@@ -71,15 +134,32 @@ export const swigPlugin: Plugin = {
     // Determine which actions to enable based on configuration
     const transfersEnabled = areTransfersEnabled(runtime);
     const authorityManagementEnabled = isAuthorityManagementEnabled(runtime);
+    const dryRunEnabled = isDryRunEnabled(runtime);
+
+    // Every action only runs for senders whose ElizaOS role reaches its tier
+    let availableActions = [
+      ...readOnlyActions.map((action) => withRoleGate(action, 'read')),
+      ...manageActions.map((action) => withRoleGate(action, 'manage')),
+    ];
 
-    let availableActions = [...readOnlyActions];
+    // In dry-run mode nothing is sent, so write actions are registered for simulation,
+    // except the ones that could only send for real
+    const isRegistrable = (action: Action) => !dryRunEnabled || !sendOnlyActions.includes(action);
 
-    if (transfersEnabled) {
-      availableActions = [...availableActions, ...transferActions];
+    if (transfersEnabled || dryRunEnabled) {
+      availableActions = [
+        ...availableActions,
+        ...transferActions.filter(isRegistrable).map((action) => withRoleGate(action, 'transfer')),
+      ];
     }
 
-    if (authorityManagementEnabled) {
-      availableActions = [...availableActions, ...authorityManagementActions];
+    if (authorityManagementEnabled || dryRunEnabled) {
+      availableActions = [
+        ...availableActions,
+        ...authorityManagementActions
+          .filter(isRegistrable)
+          .map((action) => withRoleGate(action, 'authority')),
+      ];
     }
 
     // Set the actions array
@@ -102,6 +182,23 @@ export const swigPlugin: Plugin = {
       console.log('🔒 To enable authority management, set SWIG_AUTHORITY_MANAGEMENT_ENABLED=true');
     }
 
+    if (dryRunEnabled) {
+      console.log('🧪 Dry-run mode enabled - write actions only simulate their transactions');
+      console.log(
+        '🧪 Not registered because they cannot simulate:',
+        sendOnlyActions.map((action) => action.name)
+      );
+    }
+
+    try {
+      console.log(
+        '🔌 Roles needed per action tier:',
+        SWIG_ACTION_TIERS.map((tier) => `${tier}=${getRequiredRole(runtime, tier)}`).join(', ')
+      );
+    } catch (error) {
+      console.warn('⚠️', error instanceof Error ? error.message : error);
+    }
+
     // Validate required settings
     const privateKey = runtime.getSetting('SOLANA_PRIVATE_KEY');
     if (!privateKey) {
@@ -114,16 +211,25 @@ export const swigPlugin: Plugin = {
       console.info('SOLANA_RPC_URL not set, using default Solana mainnet RPC.');
     }
 
+    const swigAddress = runtime.getSetting('SWIG_ADDRESS');
+    if (swigAddress) {
+      console.log('🔌 Using existing Swig wallet from SWIG_ADDRESS:', swigAddress);
+    }
+
     console.log('🔌 Swig plugin initialized successfully!');
   },
 };
 
 // Export all actions for individual import if needed
 export * from './actions/createSwig.js';
+export * from './actions/importSwig.js';
 export * from './actions/transferToSwig.js';
 export * from './actions/getSwigBalance.js';
 export * from './actions/addSwigAuthority.js';
 export * from './actions/removeSwigAuthority.js';
+export * from './actions/updateSwigAuthority.js';
+export * from './actions/createSwigSession.js';
+export * from './actions/revokeSwigSession.js';
 export * from './actions/getSwigAuthorities.js';
 export * from './actions/swigTransferToAddress.js';
 export * from './actions/transferTokenToSwig.js';
@@ -131,6 +237,42 @@ export * from './actions/swigTransferToAuthority.js';
 export * from './actions/swigTransferTokenToAddress.js';
 export * from './actions/swigTransferTokenToAuthority.js';
 export * from './actions/getSwigTokenBalance.js';
+export * from './actions/createSwigSubAccount.js';
+export * from './actions/fundSwigSubAccount.js';
+export * from './actions/swigSubAccountTransfer.js';
+export * from './actions/withdrawFromSwigSubAccount.js';
+export * from './actions/toggleSwigSubAccount.js';
+export * from './actions/confirmSwigOperation.js';
+export * from './actions/cancelSwigOperation.js';
+export * from './actions/saveSwigTokenAlias.js';
+export * from './actions/saveSwigContact.js';
+export * from './actions/listSwigContacts.js';
+export * from './actions/removeSwigContact.js';
+export * from './actions/updateSwigRecipients.js';
+export * from './actions/listSwigRecipients.js';
+export * from './actions/getSwigHistory.js';
+export * from './actions/exportSwigStatement.js';
+export * from './providers/swigWallet.js';
+export * from './routes/swigStatement.js';
+export * from './services/swigWallet.js';
+export * from './access.js';
+export * from './authorities.js';
+export * from './confirmations.js';
+export * from './contacts.js';
+export * from './deposits.js';
+export * from './history.js';
+export * from './parameters.js';
+export * from './permissions.js';
+export * from './policy.js';
+export * from './recipients.js';
+export * from './registry.js';
+export * from './roles.js';
+export * from './session.js';
+export * from './snapshot.js';
+export * from './statement.js';
+export * from './subAccounts.js';
+export * from './tokens.js';
+export * from './transactions.js';
 export * from './types.js';
 export * from './utils.js';
 
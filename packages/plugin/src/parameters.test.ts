@@ -0,0 +1,168 @@
+import type { IAgentRuntime, Memory } from '@elizaos/core';
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import {
+  amountSchema,
+  extractSwigParams,
+  findAddresses,
+  findAddressAfter,
+  findAmount,
+  findAuthorityRecipient,
+  solanaAddressSchema,
+  type SwigParamSpec,
+} from './parameters.js';
+
+const ALICE = '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM';
+const BOB = '2dr69TRDpT6LNec6XSuLSAyyxcjGiivn7T7MgL1udtms';
+
+const transferSpec: SwigParamSpec<{ amount: number; recipient: string }> = {
+  description: 'transfer SOL from the Swig wallet to an address',
+  schema: z.object({ amount: amountSchema, recipient: solanaAddressSchema }),
+  fields: {
+    amount: 'the amount of SOL to send, as a number',
+    recipient: 'the base58 Solana address that receives the SOL',
+  },
+  questions: {
+    amount: 'How much SOL should I send?',
+    recipient: 'Which address should receive it?',
+  },
+  fallback: (text) => {
+    const { amount, ambiguous } = findAmount(text, /sol/);
+    const addresses = findAddresses(text);
+    const recipient =
+      findAddressAfter(text, /\bto/) ?? (addresses.length === 1 ? addresses[0] : undefined);
+    return {
+      params: { amount, recipient },
+      ambiguous: [
+        ...(ambiguous ? (['amount'] as const) : []),
+        ...(!recipient && addresses.length > 1 ? (['recipient'] as const) : []),
+      ],
+    };
+  },
+};
+
+function createRuntime(model?: () => Promise<unknown>): IAgentRuntime {
+  return {
+    getSetting: () => undefined,
+    getModel: () => model,
+    useModel: async () => model?.(),
+  } as unknown as IAgentRuntime;
+}
+
+function createMessage(text: string): Memory {
+  return { content: { text } } as unknown as Memory;
+}
+
+describe('findAmount', () => {
+  it('prefers a number followed by the unit', () => {
+    expect(findAmount('send 0.5 SOL to role 2', /sol/)).toEqual({ amount: 0.5, ambiguous: false });
+  });
+
+  it('uses a single standalone number', () => {
+    expect(findAmount(`send 3 to ${ALICE}`, /sol/)).toEqual({ amount: 3, ambiguous: false });
+  });
+
+  it('ignores digits inside addresses and ordinals', () => {
+    expect(findAmount(`on the 2nd send 4 to ${ALICE}`, /sol/)).toEqual({
+      amount: 4,
+      ambiguous: false,
+    });
+  });
+
+  it('is ambiguous with several candidate amounts', () => {
+    expect(findAmount('send 1 SOL or 2 SOL', /sol/)).toEqual({ amount: 1, ambiguous: true });
+    expect(findAmount('send 5 or 10', /sol/)).toEqual({ amount: 5, ambiguous: true });
+  });
+
+  it('finds nothing without a number', () => {
+    expect(findAmount('send some SOL', /sol/)).toEqual({ ambiguous: false });
+  });
+});
+
+describe('findAuthorityRecipient', () => {
+  it('prefers a role ID', () => {
+    expect(findAuthorityRecipient(`send 1 SOL to role 3 not ${ALICE}`)).toEqual({
+      roleId: 3,
+      ambiguous: false,
+    });
+  });
+
+  it('uses the address after "to authority"', () => {
+    expect(findAuthorityRecipient(`send 1 SOL from ${BOB} to authority ${ALICE}`)).toEqual({
+      recipient: ALICE,
+      ambiguous: false,
+    });
+  });
+
+  it('uses a single address and skips excluded ones', () => {
+    expect(findAuthorityRecipient(`send 5 of mint ${BOB} for ${ALICE}`, [BOB])).toEqual({
+      recipient: ALICE,
+      ambiguous: false,
+    });
+  });
+
+  it('is ambiguous with several addresses and no "to"', () => {
+    expect(findAuthorityRecipient(`send 1 SOL ${ALICE} ${BOB}`)).toEqual({ ambiguous: true });
+  });
+});
+
+describe('extractSwigParams', () => {
+  it('asks for the amount instead of guessing when it is ambiguous', async () => {
+    const result = await extractSwigParams(
+      createRuntime(),
+      createMessage(`send 1 SOL or 2 SOL to ${ALICE}`),
+      undefined,
+      transferSpec
+    );
+    expect(result).toEqual({ question: 'How much SOL should I send?' });
+  });
+
+  it('returns validated parameters from the regex fallback', async () => {
+    const result = await extractSwigParams(
+      createRuntime(),
+      createMessage(`send 1.5 SOL to ${ALICE}`),
+      undefined,
+      transferSpec
+    );
+    expect(result).toEqual({ params: { amount: 1.5, recipient: ALICE } });
+  });
+
+  it('asks again for a model value that is not in the message', async () => {
+    const runtime = createRuntime(async () => ({ amount: 1, recipient: BOB, ambiguous: [] }));
+    const result = await extractSwigParams(
+      runtime,
+      createMessage(`send 1 SOL to ${ALICE}`),
+      undefined,
+      transferSpec
+    );
+    expect(result).toEqual({ question: 'Which address should receive it?' });
+  });
+
+  it('asks for fields the model marks as ambiguous', async () => {
+    const runtime = createRuntime(async () => ({
+      amount: 1,
+      recipient: ALICE,
+      ambiguous: ['amount'],
+    }));
+    const result = await extractSwigParams(
+      runtime,
+      createMessage(`send 1 SOL to ${ALICE}, or maybe 2`),
+      undefined,
+      transferSpec
+    );
+    expect(result).toEqual({ question: 'How much SOL should I send?' });
+  });
+
+  it('falls back to regex when the model fails', async () => {
+    const runtime = createRuntime(async () => {
+      throw new Error('model unavailable');
+    });
+    const result = await extractSwigParams(
+      runtime,
+      createMessage(`send 2 SOL to ${ALICE}`),
+      undefined,
+      transferSpec
+    );
+    expect(result).toEqual({ params: { amount: 2, recipient: ALICE } });
+  });
+});
@@ -0,0 +1,301 @@
+import { type IAgentRuntime, type Memory, ModelType, type State } from '@elizaos/core';
+import { PublicKey } from '@solana/web3.js';
+import { z } from 'zod';
+
+const BASE58_CANDIDATE_REGEX = /\b[1-9A-HJ-NP-Za-km-z]{32,44}\b/g;
+const ROLE_ID_REGEX = /\brole\s*(?:id\s*)?(\d+)/i;
+
+/**
+ * A Solana address: a base58 string that decodes to a 32-byte public key
+ */
+export const solanaAddressSchema = z
+  .string()
+  .trim()
+  .refine((value) => isSolanaAddress(value), { message: 'is not a valid Solana address' });
+
+/**
+ * A positive amount in UI units; models sometimes return numbers as strings
+ */
+export const amountSchema = z.coerce.number().finite().positive();
+
+/**
+ * Recipient fields of a transfer to a Swig authority: its address or its role ID
+ */
+export const authorityRecipientShape = {
+  recipient: solanaAddressSchema.optional(),
+  roleId: z.coerce.number().int().nonnegative().optional(),
+};
+
+/**
+ * Check that exactly one of the authority address and role ID is given
+ */
+export function hasSingleAuthorityRecipient(params: {
+  recipient?: string;
+  roleId?: number;
+}): boolean {
+  return (params.recipient === undefined) !== (params.roleId === undefined);
+}
+
+export const authorityRecipientIssue = {
+  message: 'give either an authority address or a role ID',
+  path: ['recipient'],
+};
+
+/**
+ * Describes the parameters one action needs, how the model should fill them in
+ * and how to fall back to regex parsing
+ */
+export interface SwigParamSpec<T extends Record<string, unknown>> {
+  /** What the action does, e.g. "transfer SOL from the Swig wallet to an address" */
+  description: string;
+  schema: z.ZodType<T>;
+  /** Prompt description of every field the model should return */
+  fields: Record<keyof T & string, string>;
+  /** Question asked when a field is missing, invalid or ambiguous */
+  questions: Record<keyof T & string, string>;
+  /** Regex parsing used when no model is available */
+  fallback: (text: string) => SwigParamCandidate<T>;
+}
+
+/**
+ * Raw values found in a message, before validation
+ */
+export interface SwigParamCandidate<T extends Record<string, unknown>> {
+  params: { [K in keyof T]?: unknown };
+  /** Fields the message could mean in more than one way */
+  ambiguous: (keyof T & string)[];
+}
+
+export type SwigParamExtraction<T> = { params: T } | { question: string };
+
+export function isSolanaAddress(value: string): boolean {
+  try {
+    return new PublicKey(value).toBase58() === value;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Find every valid Solana address in a message
+ */
+export function findAddresses(text: string): string[] {
+  const candidates = text.match(BASE58_CANDIDATE_REGEX) || [];
+  return [...new Set(candidates.filter((candidate) => isSolanaAddress(candidate)))];
+}
+
+/**
+ * Find the address following a keyword, e.g. "to <address>" or "mint <address>"
+ */
+export function findAddressAfter(text: string, keyword: RegExp): string | undefined {
+  const match = text.match(
+    new RegExp(`${keyword.source}\\s*:?\\s+([1-9A-HJ-NP-Za-km-z]{32,44})\\b`, 'i')
+  );
+  return match && isSolanaAddress(match[1]) ? match[1] : undefined;
+}
+
+/**
+ * Remove role references ("role 1", "role id 2") so their numbers are not taken as amounts
+ */
+export function stripRoleIds(text: string): string {
+  return text.replace(new RegExp(ROLE_ID_REGEX.source, 'gi'), ' ');
+}
+
+/**
+ * Find the receiving authority of a transfer: a role ID ("to role 1") or the
+ * address after "to" / "to authority". Several candidate addresses without a
+ * "to" make the recipient ambiguous.
+ */
+export function findAuthorityRecipient(
+  text: string,
+  excludedAddresses: string[] = []
+): { recipient?: string; roleId?: number; ambiguous: boolean } {
+  const roleIdMatch = text.match(ROLE_ID_REGEX);
+  if (roleIdMatch) {
+    return { roleId: parseInt(roleIdMatch[1]), ambiguous: false };
+  }
+
+  const recipient = findAddressAfter(text, /\bto(?:\s+authority)?/);
+  if (recipient) {
+    return { recipient, ambiguous: false };
+  }
+
+  const addresses = findAddresses(text).filter((address) => !excludedAddresses.includes(address));
+  return addresses.length === 1
+    ? { recipient: addresses[0], ambiguous: false }
+    : { ambiguous: addresses.length > 1 };
+}
+
+/**
+ * Find the amount in a message. A number followed by the unit (e.g. "0.5 SOL")
+ * wins; otherwise a single standalone number is used. Ordinals ("2nd") and digits
+ * inside addresses are ignored. Several candidates make the amount ambiguous.
+ */
+export function findAmount(text: string, unit: RegExp): { amount?: number; ambiguous: boolean } {
+  const withoutAddresses = text.replace(BASE58_CANDIDATE_REGEX, ' ');
+
+  const unitMatches = [
+    ...withoutAddresses.matchAll(new RegExp(`(\\d+(?:\\.\\d+)?)\\s*${unit.source}\\b`, 'gi')),
+  ];
+  if (unitMatches.length) {
+    return { amount: parseFloat(unitMatches[0][1]), ambiguous: unitMatches.length > 1 };
+  }
+
+  const numbers = [...withoutAddresses.matchAll(/(?<![\w.])(\d+(?:\.\d+)?)(?!\w|\.\d)/g)];
+  if (!numbers.length) {
+    return { ambiguous: false };
+  }
+  return { amount: parseFloat(numbers[0][1]), ambiguous: numbers.length > 1 };
+}
+
+function isModelExtractionEnabled(runtime: IAgentRuntime): boolean {
+  const extractionSetting = runtime.getSetting('SWIG_PARAM_EXTRACTION');
+  if (String(extractionSetting || '').toLowerCase() === 'regex') {
+    return false;
+  }
+  return !!runtime.getModel(ModelType.OBJECT_SMALL);
+}
+
+function buildExtractionPrompt<T extends Record<string, unknown>>(
+  spec: SwigParamSpec<T>,
+  text: string,
+  state?: State
+): string {
+  const fields = Object.entries(spec.fields)
+    .map(([name, description]) => `- "${name}": ${description}`)
+    .join('\n');
+  const recentMessages =
+    typeof state?.values?.recentMessages === 'string' ? state.values.recentMessages : '';
+
+  return `Extract the parameters to ${spec.description} from the user's latest message.
+
+Return a JSON object with these fields, using null for any field the user did not state clearly:
+${fields}
+- "ambiguous": an array with the names of fields the message could mean in more than one way
+
+Only use addresses and amounts that appear in the latest message; the recent conversation is context only. Never guess or invent addresses or amounts.
+${recentMessages ? `\nRecent conversation:\n${recentMessages}\n` : ''}
+Latest message: "${text}"`;
+}
+
+async function extractCandidateWithModel<T extends Record<string, unknown>>(
+  runtime: IAgentRuntime,
+  spec: SwigParamSpec<T>,
+  text: string,
+  state?: State
+): Promise<SwigParamCandidate<T>> {
+  const result = await runtime.useModel(ModelType.OBJECT_SMALL, {
+    prompt: buildExtractionPrompt(spec, text, state),
+  });
+  if (!result || typeof result !== 'object') {
+    throw new Error('The model did not return an object');
+  }
+
+  const params: { [K in keyof T]?: unknown } = {};
+  for (const field of Object.keys(spec.fields) as (keyof T & string)[]) {
+    const value = (result as Record<string, unknown>)[field];
+    if (value !== null && value !== undefined && value !== '') {
+      params[field] = value;
+    }
+  }
+  const ambiguous = Array.isArray(result.ambiguous)
+    ? (result.ambiguous as string[]).filter((field): field is keyof T & string =>
+        Object.prototype.hasOwnProperty.call(spec.fields, field)
+      )
+    : [];
+
+  return { params, ambiguous };
+}
+
+/**
+ * Get the fields holding an address or amount that does not appear in the
+ * latest message, e.g. one the model took from an earlier turn. Those values
+ * are asked for again instead of being used.
+ */
+function getUnstatedFields<T extends Record<string, unknown>>(
+  candidate: SwigParamCandidate<T>,
+  text: string
+): (keyof T & string)[] {
+  const addresses = findAddresses(text);
+  const numbers = [...text.replace(BASE58_CANDIDATE_REGEX, ' ').matchAll(/\d+(?:\.\d+)?/g)].map(
+    (match) => parseFloat(match[0])
+  );
+
+  return (Object.keys(candidate.params) as (keyof T & string)[]).filter((field) => {
+    const value = candidate.params[field];
+    if (typeof value === 'string' && /^\s*[1-9A-HJ-NP-Za-km-z]{32,44}\s*$/.test(value)) {
+      return !addresses.includes(value.trim());
+    }
+    if (
+      typeof value === 'number' ||
+      (typeof value === 'string' && /^\s*\d+(?:\.\d+)?\s*$/.test(value))
+    ) {
+      return !numbers.includes(Number(value));
+    }
+    return false;
+  });
+}
+
+/**
+ * Extract an action's parameters from a message. Uses the runtime's model when
+ * one is available, falling back to the spec's regex parsing, and validates the
+ * result with the spec's schema. Returns a clarifying question instead of
+ * guessing when a field is missing, invalid or ambiguous.
+ *
+ * Addresses and amounts the model returns must appear in the message text,
+ * with contact names already resolved to addresses; otherwise the field is
+ * asked for again. Parameters passed in `options.params` (e.g. from a
+ * confirmed operation) are validated and used as they are.
+ */
+export async function extractSwigParams<T extends Record<string, unknown>>(
+  runtime: IAgentRuntime,
+  message: Memory,
+  state: State | undefined,
+  spec: SwigParamSpec<T>,
+  options?: { params?: unknown }
+): Promise<SwigParamExtraction<T>> {
+  const text = message.content.text || '';
+
+  let candidate: SwigParamCandidate<T>;
+  if (options?.params) {
+    candidate = { params: options.params as SwigParamCandidate<T>['params'], ambiguous: [] };
+  } else if (isModelExtractionEnabled(runtime)) {
+    try {
+      candidate = await extractCandidateWithModel(runtime, spec, text, state);
+      console.log('🔧 Parameters extracted with model:', JSON.stringify(candidate));
+      const unstated = getUnstatedFields(candidate, text);
+      if (unstated.length) {
+        console.warn('⚠️ Model returned values that are not in the message, asking for:', unstated);
+        candidate.ambiguous = [...new Set([...candidate.ambiguous, ...unstated])];
+      }
+    } catch (error) {
+      console.warn('⚠️ Model parameter extraction failed, falling back to regex:', error);
+      candidate = spec.fallback(text);
+    }
+  } else {
+    candidate = spec.fallback(text);
+    console.log('🔧 Parameters extracted with regex:', JSON.stringify(candidate));
+  }
+
+  const validation = spec.schema.safeParse(candidate.params);
+  const unclearFields = new Set<keyof T & string>(candidate.ambiguous);
+  if (!validation.success) {
+    for (const issue of validation.error.issues) {
+      const field = issue.path[0];
+      if (typeof field === 'string' && field in spec.questions) {
+        unclearFields.add(field as keyof T & string);
+      }
+    }
+  }
+
+  if (unclearFields.size || !validation.success) {
+    const questions = [...unclearFields].map((field) => spec.questions[field]);
+    return {
+      question: questions.length
+        ? questions.join(' ')
+        : `I couldn't work out the details to ${spec.description}. Could you restate the request?`,
+    };
+  }
+
+  return { params: validation.data };
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import {
+  parsePermissionRequest,
+  parsePermissionUpdate,
+  SLOTS_PER_WINDOW_UNIT,
+} from './permissions.js';
+
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const JUPITER_PROGRAM = 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4';
+
+describe('parsePermissionRequest', () => {
+  it('parses a one-off SOL limit', () => {
+    expect(parsePermissionRequest('add authority X with a 1.5 SOL limit')).toEqual({
+      all: false,
+      manageAuthority: false,
+      solLimit: { amount: 1.5, windowSlots: undefined },
+      tokenLimits: [],
+      programs: [],
+    });
+  });
+
+  it('parses recurring SOL and token limits', () => {
+    const request = parsePermissionRequest(
+      `with a 2 SOL per day limit and 100 tokens of mint ${USDC_MINT} every 2 weeks`
+    );
+    expect(request.solLimit).toEqual({ amount: 2, windowSlots: SLOTS_PER_WINDOW_UNIT.day });
+    expect(request.tokenLimits).toEqual([
+      { mint: USDC_MINT, amount: 100, windowSlots: 2 * SLOTS_PER_WINDOW_UNIT.week },
+    ]);
+  });
+
+  it('parses programs, authority management and full access', () => {
+    const request = parsePermissionRequest(
+      `full access, program ${JUPITER_PROGRAM} and manage authority`
+    );
+    expect(request.all).toBe(true);
+    expect(request.manageAuthority).toBe(true);
+    expect(request.programs).toEqual([JUPITER_PROGRAM]);
+  });
+
+  it('does not grant authority management that is denied', () => {
+    expect(parsePermissionRequest('1 SOL limit without manage authority').manageAuthority).toBe(
+      false
+    );
+  });
+
+  it('grants nothing for a message without permissions', () => {
+    expect(parsePermissionRequest('add authority X')).toEqual({
+      all: false,
+      manageAuthority: false,
+      tokenLimits: [],
+      programs: [],
+    });
+  });
+});
+
+describe('parsePermissionUpdate', () => {
+  it('collects removals and keeps them out of the grant', () => {
+    const update = parsePermissionUpdate(
+      `update role 1: remove program ${JUPITER_PROGRAM}, remove token limit ${USDC_MINT}, remove sol limit and revoke manage authority`
+    );
+    expect(update).toMatchObject({
+      replace: false,
+      removePrograms: [JUPITER_PROGRAM],
+      removeTokenLimits: [USDC_MINT],
+      removeSolLimit: true,
+      revokeManageAuthority: true,
+    });
+    expect(update.grant.programs).toEqual([]);
+    expect(update.grant.tokenLimits).toEqual([]);
+    expect(update.grant.manageAuthority).toBe(false);
+  });
+
+  it('replaces the whole permission set when asked', () => {
+    const update = parsePermissionUpdate('replace permissions of role 2 with 3 SOL daily');
+    expect(update.replace).toBe(true);
+    expect(update.grant.solLimit).toEqual({ amount: 3, windowSlots: SLOTS_PER_WINDOW_UNIT.day });
+  });
+
+  it('adds to the existing permissions by default', () => {
+    const update = parsePermissionUpdate(`update role 1 to add program ${JUPITER_PROGRAM}`);
+    expect(update).toMatchObject({
+      replace: false,
+      removePrograms: [],
+      removeTokenLimits: [],
+      removeSolLimit: false,
+      revokeManageAuthority: false,
+    });
+    expect(update.grant.programs).toEqual([JUPITER_PROGRAM]);
+  });
+});
@@ -0,0 +1,630 @@
+import { getMint } from '@solana/spl-token';
+import { Connection, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import {
+  ACTION_HEADER_LENGTH,
+  type ActionPayload,
+  Actions,
+  type ActionsBuilder,
+  decodeActionPayload,
+  getActionHeaderDecoder,
+  isActionPayload,
+  Permission,
+  SpendController,
+  updateAuthorityAddActions,
+  updateAuthorityRemoveByType,
+  updateAuthorityReplaceAllActions,
+  type UpdateAuthorityActionsInfo,
+} from '@swig-wallet/classic';
+import { SwigPermissionRequest, SwigPermissionUpdate, SwigTokenLimit } from './types.js';
+
+const BASE58_PATTERN = '[1-9A-HJ-NP-Za-km-z]{32,44}';
+const AMOUNT_PATTERN = '\\d+(?:\\.\\d+)?';
+const WINDOW_PATTERN =
+  '(?:\\s+(?:per|a|an|each|every)\\s+(?:(\\d+)\\s+)?(hour|day|week|month)s?|\\s+(hourly|daily|weekly|monthly))?';
+
+/**
+ * Approximate slot duration on Solana mainnet, used to convert recurring
+ * windows between human time units and slots
+ */
+export const SLOT_DURATION_MS = 400;
+
+export const SLOTS_PER_WINDOW_UNIT: Record<string, number> = {
+  hour: (60 * 60 * 1000) / SLOT_DURATION_MS,
+  day: (24 * 60 * 60 * 1000) / SLOT_DURATION_MS,
+  week: (7 * 24 * 60 * 60 * 1000) / SLOT_DURATION_MS,
+  month: (30 * 24 * 60 * 60 * 1000) / SLOT_DURATION_MS,
+};
+
+const REMOVE_PATTERN = '(?:remove|revoke|drop|disallow|disable)';
+const MANAGE_AUTHORITY_REGEX = /\bmanage\s+authorit(?:y|ies)\b/i;
+const REPLACE_PERMISSIONS_REGEX =
+  /\b(?:replace|reset|set)\s+(?:all\s+)?(?:the\s+|its\s+|their\s+)?permissions\b/i;
+const REVOKE_MANAGE_AUTHORITY_REGEX =
+  /\b(?:no|not|without|cannot|can't|remove|revoke|drop|disallow|disable)\s+manage\s+authorit(?:y|ies)\b/i;
+
+/**
+ * Largest u64 amount. A SOL or token limit of this size never runs out, so it
+ * is how a removed limit is expressed without revoking the spending itself.
+ */
+export const UNLIMITED_SPEND = 18446744073709551615n;
+
+const WINDOW_ADVERBS: Record<string, string> = {
+  hourly: 'hour',
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+};
+
+/**
+ * Convert the captured window groups of WINDOW_PATTERN into a number of slots
+ */
+function parseWindowSlots(
+  count: string | undefined,
+  unit: string | undefined,
+  adverb: string | undefined
+): number | undefined {
+  const windowUnit = unit?.toLowerCase() || WINDOW_ADVERBS[adverb?.toLowerCase() || ''];
+  if (!windowUnit) {
+    return undefined;
+  }
+  return (count ? parseInt(count) : 1) * SLOTS_PER_WINDOW_UNIT[windowUnit];
+}
+
+/**
+ * Parse the permissions requested for a Swig authority from a chat message.
+ *
+ * Supported phrases:
+ * - "full access" / "all permissions" grants the root action
+ * - "2 SOL limit" / "sol limit 2" caps SOL spending
+ * - "100 tokens of mint <MINT>" / "token limit 100 mint <MINT>" caps spending per mint
+ * - "per day", "every 2 weeks", "daily", ... after a limit makes it recurring
+ * - "program <PROGRAM_ID>" allows calling a specific program
+ * - "manage authority" / "manage authorities" allows adding and removing authorities
+ */
+export function parsePermissionRequest(text: string): SwigPermissionRequest {
+  const request: SwigPermissionRequest = {
+    all: /\b(full access|all permissions|all actions|root access)\b/i.test(text),
+    manageAuthority: false,
+    tokenLimits: [],
+    programs: [],
+  };
+
+  request.manageAuthority =
+    MANAGE_AUTHORITY_REGEX.test(text) && !REVOKE_MANAGE_AUTHORITY_REGEX.test(text);
+
+  const tokenLimitRegexes = [
+    new RegExp(
+      `(${AMOUNT_PATTERN})\\s+(?:tokens?\\s+)?(?:of\\s+)?mint\\s+(${BASE58_PATTERN})${WINDOW_PATTERN}`,
+      'gi'
+    ),
+    new RegExp(
+      `token\\s+limit\\s+(?:of\\s+|to\\s+)?(${AMOUNT_PATTERN})\\s+(?:for\\s+)?(?:mint\\s+)?(${BASE58_PATTERN})${WINDOW_PATTERN}`,
+      'gi'
+    ),
+  ];
+  for (const regex of tokenLimitRegexes) {
+    for (const match of text.matchAll(regex)) {
+      if (!request.tokenLimits.some((limit) => limit.mint === match[2])) {
+        request.tokenLimits.push({
+          mint: match[2],
+          amount: parseFloat(match[1]),
+          windowSlots: parseWindowSlots(match[3], match[4], match[5]),
+        });
+      }
+    }
+  }
+
+  const solLimitMatch =
+    text.match(
+      new RegExp(
+        `sol\\s+(?:spend\\s+)?limit\\s+(?:of\\s+|to\\s+)?(${AMOUNT_PATTERN})(?:\\s*sol\\b)?${WINDOW_PATTERN}`,
+        'i'
+      )
+    ) || text.match(new RegExp(`(${AMOUNT_PATTERN})\\s*sol\\b${WINDOW_PATTERN}`, 'i'));
+  if (solLimitMatch) {
+    request.solLimit = {
+      amount: parseFloat(solLimitMatch[1]),
+      windowSlots: parseWindowSlots(solLimitMatch[2], solLimitMatch[3], solLimitMatch[4]),
+    };
+  }
+
+  for (const match of text.matchAll(new RegExp(`program\\s+(${BASE58_PATTERN})`, 'gi'))) {
+    if (!request.programs.includes(match[1])) {
+      request.programs.push(match[1]);
+    }
+  }
+
+  return request;
+}
+
+/**
+ * Parse a change to an existing role's permissions from a chat message.
+ *
+ * Besides the grant phrases of parsePermissionRequest it supports
+ * "replace permissions ..." / "reset permissions ..." to swap the whole action
+ * set, and removals such as "remove program <PROGRAM_ID>", "remove sol limit",
+ * "remove token limit <MINT>" and "revoke manage authority".
+ */
+export function parsePermissionUpdate(text: string): SwigPermissionUpdate {
+  const grant = parsePermissionRequest(text);
+
+  const removePrograms = [
+    ...text.matchAll(new RegExp(`${REMOVE_PATTERN}\\s+program\\s+(${BASE58_PATTERN})`, 'gi')),
+  ].map((match) => match[1]);
+  const removeTokenLimits = [
+    ...text.matchAll(
+      new RegExp(
+        `${REMOVE_PATTERN}\\s+(?:the\\s+)?token\\s+limit\\s+(?:for\\s+)?(?:mint\\s+)?(${BASE58_PATTERN})`,
+        'gi'
+      )
+    ),
+  ].map((match) => match[1]);
+  const removeSolLimit = new RegExp(`${REMOVE_PATTERN}\\s+(?:the\\s+)?sol\\s+limit`, 'i').test(
+    text
+  );
+  const revokeManageAuthority = REVOKE_MANAGE_AUTHORITY_REGEX.test(text);
+
+  grant.programs = grant.programs.filter((programId) => !removePrograms.includes(programId));
+  grant.tokenLimits = grant.tokenLimits.filter((limit) => !removeTokenLimits.includes(limit.mint));
+
+  return {
+    replace: REPLACE_PERMISSIONS_REGEX.test(text),
+    grant,
+    removeSolLimit,
+    removeTokenLimits,
+    removePrograms,
+    revokeManageAuthority,
+  };
+}
+
+/**
+ * Get the current limits of a role for the given token mints
+ */
+export function getRoleTokenLimits(
+  actions: Actions,
+  tokens: { mint: PublicKey; decimals: number }[]
+): SwigTokenLimit[] {
+  const limits: SwigTokenLimit[] = [];
+
+  for (const token of tokens) {
+    const spend = actions.tokenSpend(token.mint);
+    if (!spend.isAllowed || spend.spendLimit === null) {
+      continue;
+    }
+
+    const scale = Math.pow(10, token.decimals);
+    if (spend.window && spend.recurringLimit !== undefined) {
+      limits.push({
+        mint: token.mint.toBase58(),
+        amount: Number(spend.recurringLimit) / scale,
+        windowSlots: Number(spend.window),
+      });
+    } else {
+      limits.push({ mint: token.mint.toBase58(), amount: Number(spend.spendLimit) / scale });
+    }
+  }
+
+  return limits;
+}
+
+/**
+ * Decode the individual actions of a role, in their on-chain order
+ */
+export function getRoleActionPayloads(actions: Actions): ActionPayload[] {
+  const raw = actions.bytes();
+  const payloads: ActionPayload[] = [];
+  let cursor = 0;
+  for (let i = 0; i < actions.count; i++) {
+    const header = getActionHeaderDecoder().decode(
+      raw.slice(cursor, cursor + ACTION_HEADER_LENGTH)
+    );
+    payloads.push(
+      decodeActionPayload(
+        header.permission,
+        raw.slice(cursor + ACTION_HEADER_LENGTH, header.boundary)
+      )
+    );
+    cursor = header.boundary;
+  }
+  return payloads;
+}
+
+/**
+ * Get the mint a token limit action applies to, or null for other actions
+ */
+function getActionMint(action: ActionPayload): string | null {
+  if (
+    isActionPayload(Permission.TokenLimit, action) ||
+    isActionPayload(Permission.TokenRecurringLimit, action)
+  ) {
+    return new PublicKey(new Uint8Array(action.data.mint)).toBase58();
+  }
+  return null;
+}
+
+/**
+ * Re-add an existing action to a builder so it survives a "remove by type".
+ * Throws for actions that cannot be rebuilt, so an edit never silently drops
+ * a permission. Recurring limits restart their current window.
+ */
+function carryOverAction(builder: ActionsBuilder, action: ActionPayload): void {
+  if (isActionPayload(Permission.Program, action)) {
+    builder.programLimit({ programId: new PublicKey(new Uint8Array(action.data.programId)) });
+  } else if (isActionPayload(Permission.TokenLimit, action)) {
+    builder.tokenLimit({
+      mint: new PublicKey(new Uint8Array(action.data.mint)),
+      amount: action.data.amount,
+    });
+  } else if (isActionPayload(Permission.TokenRecurringLimit, action)) {
+    builder.tokenRecurringLimit({
+      mint: new PublicKey(new Uint8Array(action.data.mint)),
+      recurringAmount: action.data.recurringAmount,
+      window: action.data.window,
+    });
+  } else {
+    throw new Error(
+      `The role has a ${Permission[action.permission]} permission that cannot be carried over by this edit. Use 'replace permissions with ...' to set the whole permission set instead.`
+    );
+  }
+}
+
+/**
+ * Build the update instructions' action info for a permission change on a role.
+ *
+ * Edits are expressed as "remove by type" followed by "add actions", because
+ * the Swig program can only remove individual actions by type or index. Only
+ * the types an edit conflicts with are removed, and every other action of
+ * those types is rebuilt from the role's current actions so it survives.
+ * Removing a SOL or token limit leaves that spending unlimited.
+ */
+export async function buildPermissionUpdate(
+  connection: Connection,
+  currentActions: Actions,
+  update: SwigPermissionUpdate
+): Promise<UpdateAuthorityActionsInfo[]> {
+  if (update.replace || update.grant.all) {
+    if (!hasRequestedPermissions(update.grant)) {
+      throw new Error(
+        "Replacing the permissions needs at least one permission to grant, otherwise the role could do nothing (e.g., 'replace permissions with a 2 SOL limit')"
+      );
+    }
+    return [updateAuthorityReplaceAllActions(await buildSwigActions(connection, update.grant))];
+  }
+
+  if (currentActions.isRoot()) {
+    throw new Error(
+      "The role has full access, which cannot be edited piece by piece. Use 'replace permissions with ...' to set its new permissions."
+    );
+  }
+
+  const current = getRoleActionPayloads(currentActions);
+  const removeTypes = new Set<Permission>();
+  const builder = Actions.set();
+  let additionCount = 0;
+  const additions: SwigPermissionRequest = {
+    all: false,
+    manageAuthority: false,
+    tokenLimits: [...update.grant.tokenLimits],
+    programs: update.grant.programs.filter(
+      (programId) => !currentActions.canUseProgram(new PublicKey(programId))
+    ),
+    solLimit: update.removeSolLimit ? undefined : update.grant.solLimit,
+  };
+
+  if (update.grant.solLimit || update.removeSolLimit) {
+    for (const action of current) {
+      if (
+        action.permission === Permission.SolLimit ||
+        action.permission === Permission.SolRecurringLimit
+      ) {
+        removeTypes.add(action.permission);
+      }
+    }
+    if (update.removeSolLimit) {
+      builder.solLimit({ amount: UNLIMITED_SPEND });
+      additionCount++;
+    }
+  }
+
+  const changedMints = [
+    ...update.grant.tokenLimits.map((limit) => limit.mint),
+    ...update.removeTokenLimits,
+  ];
+  for (const action of current) {
+    const mint = getActionMint(action);
+    if (mint && changedMints.includes(mint)) {
+      removeTypes.add(action.permission);
+    }
+  }
+  for (const mint of update.removeTokenLimits) {
+    builder.tokenLimit({ mint: new PublicKey(mint), amount: UNLIMITED_SPEND });
+    additionCount++;
+  }
+
+  for (const programId of update.removePrograms) {
+    const granted = current.some(
+      (action) =>
+        isActionPayload(Permission.Program, action) &&
+        new PublicKey(new Uint8Array(action.data.programId)).toBase58() === programId
+    );
+    if (!granted) {
+      throw new Error(
+        currentActions.canUseProgram(new PublicKey(programId))
+          ? `Program ${programId} is allowed through a broader program permission and cannot be removed on its own.`
+          : `The role has no permission for program ${programId}.`
+      );
+    }
+    removeTypes.add(Permission.Program);
+  }
+
+  if (update.revokeManageAuthority) {
+    if (currentActions.canManageAuthority()) {
+      removeTypes.add(Permission.ManageAuthority);
+    }
+  } else if (update.grant.manageAuthority && !currentActions.canManageAuthority()) {
+    additions.manageAuthority = true;
+  }
+
+  for (const action of current) {
+    if (
+      !removeTypes.has(action.permission) ||
+      action.permission === Permission.SolLimit ||
+      action.permission === Permission.SolRecurringLimit ||
+      action.permission === Permission.ManageAuthority
+    ) {
+      continue;
+    }
+    const mint = getActionMint(action);
+    if (mint && changedMints.includes(mint)) {
+      continue;
+    }
+    if (
+      isActionPayload(Permission.Program, action) &&
+      update.removePrograms.includes(
+        new PublicKey(new Uint8Array(action.data.programId)).toBase58()
+      )
+    ) {
+      continue;
+    }
+    carryOverAction(builder, action);
+    additionCount++;
+  }
+
+  const infos: UpdateAuthorityActionsInfo[] = [];
+  if (removeTypes.size) {
+    infos.push(updateAuthorityRemoveByType([...removeTypes]));
+  }
+  if (additionCount || hasRequestedPermissions(additions)) {
+    infos.push(updateAuthorityAddActions(await buildSwigActions(connection, additions, builder)));
+  }
+
+  return infos;
+}
+
+/**
+ * Check whether a permission request grants anything at all
+ */
+export function hasRequestedPermissions(request: SwigPermissionRequest): boolean {
+  return (
+    request.all ||
+    request.manageAuthority ||
+    request.solLimit !== undefined ||
+    request.tokenLimits.length > 0 ||
+    request.programs.length > 0
+  );
+}
+
+/**
+ * Get the addresses referenced by a permission request (mints and programs)
+ */
+export function getPermissionAddresses(request: SwigPermissionRequest): string[] {
+  return [...request.tokenLimits.map((limit) => limit.mint), ...request.programs];
+}
+
+/**
+ * Build the Swig action set for a permission request, optionally on top of a
+ * builder that already holds actions.
+ * Token limits are converted to base units using the on-chain mint decimals.
+ */
+export async function buildSwigActions(
+  connection: Connection,
+  request: SwigPermissionRequest,
+  builder: ActionsBuilder = Actions.set()
+): Promise<Actions> {
+  if (request.all) {
+    return builder.all().get();
+  }
+
+  if (request.manageAuthority) {
+    builder.manageAuthority();
+  }
+
+  if (request.solLimit) {
+    const lamports = BigInt(Math.round(request.solLimit.amount * LAMPORTS_PER_SOL));
+    if (request.solLimit.windowSlots) {
+      builder.solRecurringLimit({
+        recurringAmount: lamports,
+        window: BigInt(request.solLimit.windowSlots),
+      });
+    } else {
+      builder.solLimit({ amount: lamports });
+    }
+  }
+
+  for (const limit of request.tokenLimits) {
+    const mint = new PublicKey(limit.mint);
+    const mintInfo = await getMint(connection, mint);
+    const amount = BigInt(Math.round(limit.amount * Math.pow(10, mintInfo.decimals)));
+    if (limit.windowSlots) {
+      // The SDK spells the recurring token limit builder this way
+      builder.tokenRecurringLimit({
+        mint,
+        recurringAmount: amount,
+        window: BigInt(limit.windowSlots),
+      });
+    } else {
+      builder.tokenLimit({ mint, amount });
+    }
+  }
+
+  for (const programId of request.programs) {
+    builder.programLimit({ programId: new PublicKey(programId) });
+  }
+
+  return builder.get();
+}
+
+/**
+ * Format a recurring window in slots as a human readable period
+ */
+export function formatWindow(windowSlots: number | bigint): string {
+  const slots = Number(windowSlots);
+  for (const unit of ['month', 'week', 'day', 'hour']) {
+    const unitSlots = SLOTS_PER_WINDOW_UNIT[unit];
+    if (slots >= unitSlots && slots % unitSlots === 0) {
+      const count = slots / unitSlots;
+      return count === 1 ? `per ${unit}` : `every ${count} ${unit}s`;
+    }
+  }
+  return `every ${slots} slots`;
+}
+
+/**
+ * Format a number of slots as an approximate duration, e.g. "~3h 20m"
+ */
+export function formatSlotDuration(slots: number | bigint): string {
+  const totalMinutes = Math.max(0, Math.round((Number(slots) * SLOT_DURATION_MS) / 60000));
+  const days = Math.floor(totalMinutes / (24 * 60));
+  const hours = Math.floor((totalMinutes % (24 * 60)) / 60);
+  const minutes = totalMinutes % 60;
+
+  const parts: string[] = [];
+  if (days) parts.push(`${days}d`);
+  if (hours) parts.push(`${hours}h`);
+  if (minutes || !parts.length) parts.push(`${minutes}m`);
+  return `~${parts.join(' ')}`;
+}
+
+/**
+ * Format a permission request as a human readable list
+ */
+export function describePermissions(request: SwigPermissionRequest): string {
+  if (request.all) {
+    return '• Full access (all actions)';
+  }
+
+  const lines: string[] = [];
+
+  if (request.solLimit) {
+    const solWindow = request.solLimit.windowSlots
+      ? ` ${formatWindow(request.solLimit.windowSlots)}`
+      : '';
+    lines.push(`• SOL spend limit: ${request.solLimit.amount} SOL${solWindow}`);
+  }
+
+  for (const limit of request.tokenLimits) {
+    const tokenWindow = limit.windowSlots ? ` ${formatWindow(limit.windowSlots)}` : '';
+    lines.push(`• Token spend limit: ${limit.amount} tokens of mint ${limit.mint}${tokenWindow}`);
+  }
+
+  for (const programId of request.programs) {
+    lines.push(`• Program access: ${programId}`);
+  }
+
+  lines.push(`• Manage authorities: ${request.manageAuthority ? 'yes' : 'no'}`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Get the amount a spend controller still allows, in base units. Returns null
+ * when spending is uncapped. Recurring limits whose window has elapsed count as
+ * fully available, since the program resets them on the next use.
+ */
+export function getRemainingSpend(spend: SpendController, currentSlot: number): bigint | null {
+  if (!spend.isAllowed) {
+    return 0n;
+  }
+  if (spend.spendLimit === null || spend.spendLimit === UNLIMITED_SPEND) {
+    return null;
+  }
+  if (
+    spend.window &&
+    spend.recurringLimit !== undefined &&
+    (spend.lastReset ?? 0n) + spend.window <= BigInt(currentSlot)
+  ) {
+    return spend.recurringLimit;
+  }
+  return spend.spendLimit;
+}
+
+/**
+ * Describe a spend controller of a role, including the usage of the current
+ * window for recurring limits
+ */
+export function describeSpendControl(
+  label: string,
+  spend: SpendController,
+  decimals: number,
+  unit: string,
+  currentSlot: number
+): string | null {
+  if (!spend.isAllowed) {
+    return null;
+  }
+
+  const toUi = (amount: bigint) => Number(amount) / Math.pow(10, decimals);
+
+  if (spend.spendLimit === null || spend.spendLimit === UNLIMITED_SPEND) {
+    return `${label}: unlimited`;
+  }
+
+  if (spend.window && spend.recurringLimit !== undefined) {
+    const spent = toUi(spend.recurringLimit - spend.spendLimit);
+    const resetSlot = Number((spend.lastReset ?? 0n) + spend.window);
+    const resetText =
+      resetSlot > currentSlot
+        ? `resets in ${formatSlotDuration(resetSlot - currentSlot)} (slot ${resetSlot})`
+        : 'resets on next use';
+    return `${label}: ${toUi(spend.recurringLimit)} ${unit} ${formatWindow(spend.window)}, spent ${spent} ${unit} this window, ${resetText}`;
+  }
+
+  return `${label}: ${toUi(spend.spendLimit)} ${unit} remaining`;
+}
+
+/**
+ * Describe the actions of an existing role as a list of human readable lines
+ */
+export function describeRoleActions(
+  actions: Actions,
+  currentSlot: number,
+  tokens: { mint: PublicKey; decimals: number }[] = []
+): string[] {
+  if (actions.isRoot()) {
+    return ['Full access (all actions)'];
+  }
+
+  const lines: string[] = [];
+
+  const solLine = describeSpendControl('SOL', actions.solSpend(), 9, 'SOL', currentSlot);
+  if (solLine) {
+    lines.push(solLine);
+  }
+
+  for (const token of tokens) {
+    const tokenLine = describeSpendControl(
+      `Token ${token.mint.toBase58()}`,
+      actions.tokenSpend(token.mint),
+      token.decimals,
+      'tokens',
+      currentSlot
+    );
+    if (tokenLine) {
+      lines.push(tokenLine);
+    }
+  }
+
+  lines.push(`Manage authorities: ${actions.canManageAuthority() ? 'yes' : 'no'}`);
+
+  return lines;
+}
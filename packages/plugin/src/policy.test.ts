@@ -0,0 +1,297 @@
+import type { IAgentRuntime, Memory } from '@elizaos/core';
+import { describe, expect, it } from 'vitest';
+import { checkSwigPolicy, getSwigPolicyRules, reservePolicySpend } from './policy.js';
+import type { SwigTransferIntent } from './types.js';
+
+const SWIG = '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM';
+const OTHER_SWIG = 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4';
+const RECIPIENT = '2dr69TRDpT6LNec6XSuLSAyyxcjGiivn7T7MgL1udtms';
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Wednesday 2025-01-15 12:00 UTC */
+const WEDNESDAY_NOON_UTC = Date.UTC(2025, 0, 15, 12, 0);
+
+function createRuntime(policy: unknown, cache: Record<string, unknown> = {}): IAgentRuntime {
+  const settings: Record<string, unknown> = { SOLANA_CLUSTER: 'mainnet-beta', SWIG_POLICY: policy };
+  return {
+    getSetting: (key: string) => settings[key],
+    getCache: async (key: string) => cache[key],
+    setCache: async (key: string, value: unknown) => {
+      cache[key] = value;
+      return true;
+    },
+  } as unknown as IAgentRuntime;
+}
+
+function createMessage(entityId = 'alice', roomId = 'room'): Memory {
+  return { entityId, roomId, content: { text: '' } } as unknown as Memory;
+}
+
+function solIntent(
+  amount: number,
+  overrides: Partial<SwigTransferIntent> = {}
+): SwigTransferIntent {
+  return {
+    swigAddress: SWIG,
+    asset: 'SOL',
+    symbol: 'SOL',
+    amount,
+    recipient: RECIPIENT,
+    ...overrides,
+  };
+}
+
+function spend(amount: number, ageMs: number, overrides: Record<string, unknown> = {}) {
+  return {
+    id: `${amount}-${ageMs}`,
+    swigAddress: SWIG,
+    asset: 'SOL',
+    amount,
+    entityId: 'alice',
+    roomId: 'room',
+    signature: 'signature',
+    timestamp: Date.now() - ageMs,
+    ...overrides,
+  };
+}
+
+describe('getSwigPolicyRules', () => {
+  it('reads YAML and bare lists of rules', () => {
+    const runtime = createRuntime(`
+rules:
+  - type: maxPerTransaction
+    asset: SOL
+    amount: 1
+`);
+    expect(getSwigPolicyRules(runtime)).toEqual([
+      { type: 'maxPerTransaction', asset: 'SOL', amount: 1 },
+    ]);
+    expect(
+      getSwigPolicyRules(createRuntime([{ type: 'maxPerTransaction', asset: 'SOL', amount: 1 }]))
+    ).toHaveLength(1);
+  });
+
+  it.each([
+    ['unparsable text', 'rules: [unclosed'],
+    ['an unknown rule type', JSON.stringify({ rules: [{ type: 'maxEver', amount: 1 }] })],
+    ['a negative amount', [{ type: 'maxPerTransaction', asset: 'SOL', amount: -1 }]],
+    ['an invalid time', [{ type: 'allowedHours', start: '9am', end: '17:00' }]],
+    ['an invalid recipient', [{ type: 'allowedRecipients', recipients: ['bob'] }]],
+  ])('fails closed on %s', async (_case, policy) => {
+    const runtime = createRuntime(policy);
+    expect(() => getSwigPolicyRules(runtime)).toThrow('Transfers are blocked until it is fixed');
+    await expect(checkSwigPolicy(runtime, createMessage(), solIntent(0.1))).rejects.toThrow(
+      'Transfers are blocked until it is fixed'
+    );
+  });
+});
+
+describe('checkSwigPolicy', () => {
+  it('allows everything without a policy', async () => {
+    expect(
+      await checkSwigPolicy(createRuntime(undefined), createMessage(), solIntent(100))
+    ).toBeNull();
+  });
+
+  it('caps single transfers of the rule asset only', async () => {
+    const runtime = createRuntime([
+      { type: 'maxPerTransaction', name: 'sol cap', asset: 'sol', amount: 1 },
+    ]);
+    expect(await checkSwigPolicy(runtime, createMessage(), solIntent(1))).toBeNull();
+    expect(await checkSwigPolicy(runtime, createMessage(), solIntent(1.5))).toEqual({
+      rule: 'sol cap',
+      reason: '1.5 SOL is above the per-transaction cap of 1 SOL.',
+    });
+    expect(
+      await checkSwigPolicy(
+        runtime,
+        createMessage(),
+        solIntent(5, { asset: USDC_MINT, symbol: 'USDC' })
+      )
+    ).toBeNull();
+  });
+
+  it('resolves listed token symbols', async () => {
+    const runtime = createRuntime([{ type: 'maxPerTransaction', asset: 'USDC', amount: 10 }]);
+    expect(
+      await checkSwigPolicy(
+        runtime,
+        createMessage(),
+        solIntent(20, { asset: USDC_MINT, symbol: 'USDC' })
+      )
+    ).toMatchObject({ rule: 'maxPerTransaction #1' });
+  });
+
+  it('blocks when a rule names an unknown asset', async () => {
+    const runtime = createRuntime([{ type: 'maxPerTransaction', asset: 'NOPE', amount: 10 }]);
+    const denial = await checkSwigPolicy(runtime, createMessage(), solIntent(1));
+    expect(denial?.reason).toContain('the rule could not be checked');
+  });
+
+  describe('maxPerPeriod', () => {
+    const dailyCap = { type: 'maxPerPeriod', asset: 'SOL', amount: 2, period: 'day' };
+
+    it('counts spending of the last 24 hours', async () => {
+      const runtime = createRuntime([dailyCap], {
+        'swig-policy-spend': [spend(1.5, 2 * HOUR_MS), spend(5, 25 * HOUR_MS)],
+      });
+      expect(await checkSwigPolicy(runtime, createMessage(), solIntent(0.5))).toBeNull();
+      const denial = await checkSwigPolicy(runtime, createMessage(), solIntent(0.6));
+      expect(denial?.reason).toBe(
+        '0.6 SOL would exceed the daily cap of 2 SOL for this Swig; 1.5 SOL was already sent in the last 24 hours.'
+      );
+    });
+
+    it('counts a week of spending for weekly caps', async () => {
+      const runtime = createRuntime([{ ...dailyCap, period: 'week' }], {
+        'swig-policy-spend': [spend(1.5, 6 * 24 * HOUR_MS)],
+      });
+      expect(await checkSwigPolicy(runtime, createMessage(), solIntent(1))).toMatchObject({
+        rule: 'maxPerPeriod #1',
+      });
+    });
+
+    it('limits spending per Swig unless the cap is across Swigs', async () => {
+      const cache = { 'swig-policy-spend': [spend(2, HOUR_MS, { swigAddress: OTHER_SWIG })] };
+      expect(
+        await checkSwigPolicy(createRuntime([dailyCap], cache), createMessage(), solIntent(1))
+      ).toBeNull();
+      expect(
+        await checkSwigPolicy(
+          createRuntime([{ ...dailyCap, acrossSwigs: true }], cache),
+          createMessage(),
+          solIntent(1)
+        )
+      ).not.toBeNull();
+    });
+
+    it('limits spending per user with the entity scope', async () => {
+      const runtime = createRuntime([{ ...dailyCap, scope: 'entity' }], {
+        'swig-policy-spend': [spend(2, HOUR_MS, { entityId: 'bob' })],
+      });
+      expect(await checkSwigPolicy(runtime, createMessage('alice'), solIntent(1))).toBeNull();
+      expect(await checkSwigPolicy(runtime, createMessage('bob'), solIntent(1))).not.toBeNull();
+    });
+
+    it('lets only one of two concurrent transfers use the remaining room', async () => {
+      const runtime = createRuntime([dailyCap]);
+      const results = await Promise.allSettled([
+        reservePolicySpend(runtime, createMessage(), solIntent(1.5)),
+        reservePolicySpend(runtime, createMessage(), solIntent(1.5)),
+      ]);
+      expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    });
+  });
+
+  describe('allowedHours', () => {
+    it('allows transfers inside the window only', async () => {
+      const runtime = createRuntime([{ type: 'allowedHours', start: '09:00', end: '17:00' }]);
+      expect(
+        await checkSwigPolicy(runtime, createMessage(), solIntent(1), WEDNESDAY_NOON_UTC)
+      ).toBeNull();
+      expect(
+        await checkSwigPolicy(
+          runtime,
+          createMessage(),
+          solIntent(1),
+          WEDNESDAY_NOON_UTC + 5 * HOUR_MS
+        )
+      ).toMatchObject({
+        reason: 'transfers are only allowed between 09:00 and 17:00 (UTC).',
+      });
+    });
+
+    it('uses the local time of the rule timezone', async () => {
+      // Noon UTC is 07:00 in New York in January
+      const runtime = createRuntime([
+        { type: 'allowedHours', start: '09:00', end: '17:00', timezone: 'America/New_York' },
+      ]);
+      expect(
+        await checkSwigPolicy(runtime, createMessage(), solIntent(1), WEDNESDAY_NOON_UTC)
+      ).not.toBeNull();
+      expect(
+        await checkSwigPolicy(
+          runtime,
+          createMessage(),
+          solIntent(1),
+          WEDNESDAY_NOON_UTC + 3 * HOUR_MS
+        )
+      ).toBeNull();
+    });
+
+    it('supports windows past midnight', async () => {
+      const runtime = createRuntime([{ type: 'allowedHours', start: '22:00', end: '06:00' }]);
+      expect(
+        await checkSwigPolicy(
+          runtime,
+          createMessage(),
+          solIntent(1),
+          WEDNESDAY_NOON_UTC + 11 * HOUR_MS
+        )
+      ).toBeNull();
+      expect(
+        await checkSwigPolicy(runtime, createMessage(), solIntent(1), WEDNESDAY_NOON_UTC)
+      ).not.toBeNull();
+    });
+
+    it('checks the weekday in the rule timezone', async () => {
+      // 01:00 UTC on Thursday is still Wednesday in New York
+      const runtime = createRuntime([
+        {
+          type: 'allowedHours',
+          start: '00:00',
+          end: '23:59',
+          days: ['wed'],
+          timezone: 'America/New_York',
+        },
+      ]);
+      expect(
+        await checkSwigPolicy(
+          runtime,
+          createMessage(),
+          solIntent(1),
+          WEDNESDAY_NOON_UTC + 13 * HOUR_MS
+        )
+      ).toBeNull();
+      expect(
+        await checkSwigPolicy(
+          runtime,
+          createMessage(),
+          solIntent(1),
+          WEDNESDAY_NOON_UTC + 24 * HOUR_MS
+        )
+      ).toMatchObject({
+        reason: 'transfers are only allowed on wed between 00:00 and 23:59 (America/New_York).',
+      });
+    });
+
+    it('blocks when the timezone is unknown', async () => {
+      const runtime = createRuntime([
+        { type: 'allowedHours', start: '09:00', end: '17:00', timezone: 'Mars/Olympus' },
+      ]);
+      const denial = await checkSwigPolicy(runtime, createMessage(), solIntent(1));
+      expect(denial?.reason).toContain('the rule could not be checked');
+    });
+  });
+
+  describe('allowedRecipients', () => {
+    it('blocks recipients that are not listed', async () => {
+      const runtime = createRuntime([{ type: 'allowedRecipients', recipients: [SWIG] }]);
+      expect(await checkSwigPolicy(runtime, createMessage(), solIntent(1))).toEqual({
+        rule: 'allowedRecipients #1',
+        reason: `${RECIPIENT} is not an allowed recipient.`,
+      });
+      expect(
+        await checkSwigPolicy(runtime, createMessage(), solIntent(1, { recipient: SWIG }))
+      ).toBeNull();
+    });
+
+    it('only applies to the rule asset', async () => {
+      const runtime = createRuntime([
+        { type: 'allowedRecipients', asset: 'USDC', recipients: [SWIG] },
+      ]);
+      expect(await checkSwigPolicy(runtime, createMessage(), solIntent(1))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,384 @@
+import { readFileSync } from 'fs';
+import { type IAgentRuntime, type Memory } from '@elizaos/core';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { isSolanaAddress } from './parameters.js';
+import { getTokenList } from './tokens.js';
+import { SwigPolicyDenial, SwigPolicySpend, SwigTransferIntent } from './types.js';
+import { generateUUID } from './utils.js';
+
+const POLICY_SPEND_CACHE_KEY = 'swig-policy-spend';
+
+const PERIOD_MS = {
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Pending spend bookkeeping per runtime, run one step at a time so two
+ * transfers cannot both pass a period cap that only has room for one
+ */
+const spendLocks = new WeakMap<IAgentRuntime, Promise<unknown>>();
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'expected HH:MM');
+
+const ruleNameSchema = z.string().trim().min(1).optional();
+
+/**
+ * "SOL", a mint address, or the symbol of a token on the token list
+ */
+const ruleAssetSchema = z.string().trim().min(1);
+
+const ruleRecipientSchema = z
+  .string()
+  .trim()
+  .refine((recipient) => isSolanaAddress(recipient), 'is not a Solana address');
+
+const policyRuleSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('maxPerTransaction'),
+    name: ruleNameSchema,
+    asset: ruleAssetSchema,
+    amount: z.number().nonnegative(),
+  }),
+  z.object({
+    type: z.literal('maxPerPeriod'),
+    name: ruleNameSchema,
+    asset: ruleAssetSchema,
+    amount: z.number().nonnegative(),
+    period: z.enum(['day', 'week']),
+    scope: z.enum(['agent', 'entity', 'room']).default('agent'),
+    acrossSwigs: z.boolean().default(false),
+  }),
+  z.object({
+    type: z.literal('allowedHours'),
+    name: ruleNameSchema,
+    start: timeSchema,
+    end: timeSchema,
+    days: z.array(z.enum(WEEKDAYS)).optional(),
+    timezone: z.string().default('UTC'),
+  }),
+  z.object({
+    type: z.literal('allowedRecipients'),
+    name: ruleNameSchema,
+    asset: ruleAssetSchema.optional(),
+    recipients: z.array(ruleRecipientSchema).min(1),
+  }),
+]);
+
+const policySchema = z.object({ rules: z.array(policyRuleSchema) });
+
+export type SwigPolicyRule = z.infer<typeof policyRuleSchema>;
+
+function parsePolicy(source: string, value: unknown): SwigPolicyRule[] {
+  let policy: unknown = value;
+  if (typeof value === 'string') {
+    // YAML is a superset of JSON, so one parser reads both
+    try {
+      policy = parseYaml(value);
+    } catch {
+      throw new Error(
+        `Spending policy from ${source} is not valid JSON or YAML. Transfers are blocked until it is fixed.`
+      );
+    }
+  }
+
+  // A bare list of rules is accepted as the whole policy
+  const parsed = policySchema.safeParse(Array.isArray(policy) ? { rules: policy } : policy);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(
+      `Spending policy from ${source} is invalid: ${issue.path.join('.') || 'policy'} ${issue.message}. Transfers are blocked until it is fixed.`
+    );
+  }
+  return parsed.data.rules;
+}
+
+/**
+ * Get the spending policy rules: SWIG_POLICY (JSON or YAML, or an object in
+ * the character settings) followed by the rules of the SWIG_POLICY_FILE file.
+ * The file is read on every check so edits apply without a restart. Throws
+ * when a configured policy cannot be read, so transfers fail closed.
+ */
+export function getSwigPolicyRules(runtime: IAgentRuntime): SwigPolicyRule[] {
+  const rules: SwigPolicyRule[] = [];
+
+  const policySetting = runtime.getSetting('SWIG_POLICY') as unknown;
+  if (policySetting) {
+    rules.push(...parsePolicy('SWIG_POLICY', policySetting));
+  }
+
+  const policyFile = runtime.getSetting('SWIG_POLICY_FILE');
+  if (policyFile) {
+    let content: string;
+    try {
+      content = readFileSync(String(policyFile), 'utf8');
+    } catch {
+      throw new Error(
+        `Spending policy file "${policyFile}" could not be read. Transfers are blocked until it is fixed.`
+      );
+    }
+    rules.push(...parsePolicy(`"${policyFile}"`, content));
+  }
+
+  return rules;
+}
+
+/**
+ * Name a rule for denials: its configured name, else its type and position
+ */
+export function getPolicyRuleName(rule: SwigPolicyRule, index: number): string {
+  return rule.name || `${rule.type} #${index + 1}`;
+}
+
+/**
+ * Resolve the asset a rule applies to into "SOL" or a token mint. Symbols
+ * come from the token list only: aliases saved in chat must not change what
+ * a rule covers.
+ */
+function resolveRuleAsset(runtime: IAgentRuntime, asset: string): string {
+  if (asset.toUpperCase() === 'SOL') {
+    return 'SOL';
+  }
+  if (isSolanaAddress(asset)) {
+    return asset;
+  }
+
+  const matches = getTokenList(runtime).filter(
+    (token) => token.symbol.toLowerCase() === asset.toLowerCase()
+  );
+  if (matches.length !== 1) {
+    throw new Error(
+      matches.length
+        ? `"${asset}" matches ${matches.length} listed tokens; use the mint address in the policy.`
+        : `"${asset}" is not on the token list; use the mint address in the policy.`
+    );
+  }
+  return matches[0].mint;
+}
+
+/**
+ * Get the transfers sent or being sent within the longest policy period
+ */
+export async function getPolicySpends(runtime: IAgentRuntime): Promise<SwigPolicySpend[]> {
+  const spends = (await runtime.getCache<SwigPolicySpend[]>(POLICY_SPEND_CACHE_KEY)) || [];
+  return spends.filter((spend) => Date.now() - spend.timestamp < PERIOD_MS.week);
+}
+
+/**
+ * Run a task once every earlier spend task of the runtime has finished
+ */
+function withSpendLock<T>(runtime: IAgentRuntime, task: () => Promise<T>): Promise<T> {
+  const result = (spendLocks.get(runtime) ?? Promise.resolve()).then(task);
+  spendLocks.set(
+    runtime,
+    result.catch(() => undefined)
+  );
+  return result;
+}
+
+/**
+ * Check a transfer against the policy again and reserve its amount against
+ * the period caps, right before it is sent. Returns the reservation to pass
+ * to recordPolicySpend once sent, or to releasePolicySpend when sending fails.
+ * Every transfer is reserved, so caps added later already see recent spending.
+ */
+export async function reservePolicySpend(
+  runtime: IAgentRuntime,
+  message: Memory,
+  intent: SwigTransferIntent
+): Promise<string> {
+  return withSpendLock(runtime, async () => {
+    await enforceSwigPolicy(runtime, message, intent);
+    const id = generateUUID();
+    const spends = await getPolicySpends(runtime);
+    spends.push({
+      id,
+      swigAddress: intent.swigAddress,
+      asset: intent.asset,
+      amount: intent.amount,
+      entityId: message.entityId,
+      roomId: message.roomId,
+      timestamp: Date.now(),
+    });
+    await runtime.setCache(POLICY_SPEND_CACHE_KEY, spends);
+    return id;
+  });
+}
+
+/**
+ * Add the signature of a sent transfer to its reservation
+ */
+export async function recordPolicySpend(
+  runtime: IAgentRuntime,
+  reservation: string,
+  signature: string
+): Promise<void> {
+  await withSpendLock(runtime, async () => {
+    const spends = await getPolicySpends(runtime);
+    await runtime.setCache(
+      POLICY_SPEND_CACHE_KEY,
+      spends.map((spend) => (spend.id === reservation ? { ...spend, signature } : spend))
+    );
+  });
+}
+
+/**
+ * Drop the reservation of a transfer that could not be sent
+ */
+export async function releasePolicySpend(
+  runtime: IAgentRuntime,
+  reservation: string
+): Promise<void> {
+  await withSpendLock(runtime, async () => {
+    const spends = await getPolicySpends(runtime);
+    await runtime.setCache(
+      POLICY_SPEND_CACHE_KEY,
+      spends.filter((spend) => spend.id !== reservation)
+    );
+  });
+}
+
+/**
+ * Get the weekday and minutes since midnight of a time in a timezone
+ */
+function getLocalTime(time: number, timezone: string): { day: string; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(time));
+  const part = (type: string) => parts.find((candidate) => candidate.type === type)?.value || '';
+  return {
+    day: part('weekday').toLowerCase(),
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+  };
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Check one rule against a transfer, returning why it blocks it or null
+ */
+async function checkRule(
+  runtime: IAgentRuntime,
+  message: Memory,
+  intent: SwigTransferIntent,
+  rule: SwigPolicyRule,
+  now: number
+): Promise<string | null> {
+  const amountText = `${intent.amount} ${intent.symbol}`;
+
+  switch (rule.type) {
+    case 'maxPerTransaction': {
+      if (resolveRuleAsset(runtime, rule.asset) !== intent.asset) {
+        return null;
+      }
+      return intent.amount > rule.amount
+        ? `${amountText} is above the per-transaction cap of ${rule.amount} ${intent.symbol}.`
+        : null;
+    }
+
+    case 'maxPerPeriod': {
+      if (resolveRuleAsset(runtime, rule.asset) !== intent.asset) {
+        return null;
+      }
+      const spent = (await getPolicySpends(runtime))
+        .filter(
+          (spend) =>
+            spend.asset === intent.asset &&
+            now - spend.timestamp < PERIOD_MS[rule.period] &&
+            (rule.acrossSwigs || spend.swigAddress === intent.swigAddress) &&
+            (rule.scope !== 'entity' || spend.entityId === message.entityId) &&
+            (rule.scope !== 'room' || spend.roomId === message.roomId)
+        )
+        .reduce((total, spend) => total + spend.amount, 0);
+      if (spent + intent.amount <= rule.amount) {
+        return null;
+      }
+      const scopes = [
+        ...(rule.acrossSwigs ? [] : ['Swig']),
+        ...(rule.scope === 'entity' ? ['user'] : rule.scope === 'room' ? ['room'] : []),
+      ];
+      const scope = scopes.length ? ` for this ${scopes.join(' and ')}` : '';
+      const window = rule.period === 'day' ? '24 hours' : '7 days';
+      return `${amountText} would exceed the ${rule.period === 'day' ? 'daily' : 'weekly'} cap of ${rule.amount} ${intent.symbol}${scope}; ${Number(spent.toFixed(9))} ${intent.symbol} was already sent in the last ${window}.`;
+    }
+
+    case 'allowedHours': {
+      const local = getLocalTime(now, rule.timezone);
+      const start = toMinutes(rule.start);
+      const end = toMinutes(rule.end);
+      // A window such as 22:00-06:00 runs past midnight
+      const inHours =
+        start <= end
+          ? local.minutes >= start && local.minutes < end
+          : local.minutes >= start || local.minutes < end;
+      const onDay = !rule.days || rule.days.includes(local.day as (typeof WEEKDAYS)[number]);
+      return inHours && onDay
+        ? null
+        : `transfers are only allowed ${rule.days ? `on ${rule.days.join(', ')} ` : ''}between ${rule.start} and ${rule.end} (${rule.timezone}).`;
+    }
+
+    case 'allowedRecipients': {
+      if (rule.asset && resolveRuleAsset(runtime, rule.asset) !== intent.asset) {
+        return null;
+      }
+      return rule.recipients.includes(intent.recipient)
+        ? null
+        : `${intent.recipient} is not an allowed recipient${rule.asset ? ` of ${intent.symbol}` : ''}.`;
+    }
+  }
+}
+
+/**
+ * Check a transfer against every policy rule. Returns the first rule that
+ * blocks it, or null when the transfer is allowed or no policy is configured.
+ */
+export async function checkSwigPolicy(
+  runtime: IAgentRuntime,
+  message: Memory,
+  intent: SwigTransferIntent,
+  now: number = Date.now()
+): Promise<SwigPolicyDenial | null> {
+  const rules = getSwigPolicyRules(runtime);
+  for (const [index, rule] of rules.entries()) {
+    const name = getPolicyRuleName(rule, index);
+    let reason: string | null;
+    try {
+      reason = await checkRule(runtime, message, intent, rule, now);
+    } catch (error) {
+      // A rule that cannot be evaluated, e.g. with an unknown asset, blocks the transfer
+      reason = `the rule could not be checked: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+    if (reason) {
+      return { rule: name, reason };
+    }
+  }
+  return null;
+}
+
+/**
+ * Throw when the spending policy blocks a transfer, naming the rule
+ */
+export async function enforceSwigPolicy(
+  runtime: IAgentRuntime,
+  message: Memory,
+  intent: SwigTransferIntent
+): Promise<void> {
+  const denial = await checkSwigPolicy(runtime, message, intent);
+  if (denial) {
+    console.warn(
+      `🚫 Swig policy rule "${denial.rule}" blocked ${intent.amount} ${intent.symbol} to ${intent.recipient}:`,
+      denial.reason
+    );
+    throw new Error(`Blocked by spending policy rule "${denial.rule}": ${denial.reason}`);
+  }
+}
@@ -0,0 +1,69 @@
+import {
+  addHeader,
+  type IAgentRuntime,
+  type Memory,
+  type Provider,
+  type ProviderResult,
+  type State,
+} from '@elizaos/core';
+import {
+  DEFAULT_SWIG_NAME,
+  describeSwig,
+  getDefaultSwigAddress,
+  getSwigRegistry,
+} from '../registry.js';
+import { getSwigWalletService } from '../services/swigWallet.js';
+import { describeSwigWalletSnapshot } from '../snapshot.js';
+
+/**
+ * Puts the default Swig wallet's address, balances and the agent's roles with
+ * their remaining limits into the agent's context, so questions such as "can
+ * you afford this?" are answered without calling an action
+ */
+export const swigWalletProvider: Provider = {
+  name: 'SWIG_WALLET',
+  description:
+    "Swig wallet address, SOL and token balances, and the agent's roles with their remaining spend limits",
+
+  get: async (runtime: IAgentRuntime, _message: Memory, _state: State): Promise<ProviderResult> => {
+    try {
+      const service = getSwigWalletService(runtime);
+      const wallet = await service.getWallet();
+      if (!wallet) {
+        return {
+          text: addHeader('# Swig Wallet', 'Not configured: SOLANA_PRIVATE_KEY is not set.'),
+          values: {},
+          data: {},
+        };
+      }
+
+      const swigAddress = await getDefaultSwigAddress(runtime, wallet.publicKey);
+      const snapshot = await service.getWalletSnapshot(swigAddress);
+
+      const otherSwigs = (await getSwigRegistry(runtime))
+        .filter((entry) => entry.name !== DEFAULT_SWIG_NAME)
+        .map((entry) => `- ${entry.name} (${entry.address})`);
+
+      const text = [
+        `Swig Address: ${describeSwig({ name: DEFAULT_SWIG_NAME, address: swigAddress })}`,
+        `Agent Address: ${wallet.publicKey.toBase58()}`,
+        describeSwigWalletSnapshot(snapshot),
+        ...(otherSwigs.length ? [`Other Swig Wallets:\n${otherSwigs.join('\n')}`] : []),
+        `As of: ${new Date(snapshot.fetchedAt).toISOString()}`,
+      ].join('\n');
+
+      return {
+        text: addHeader('# Swig Wallet', text),
+        values: {
+          swigAddress: snapshot.swigAddress,
+          swigSolBalance: snapshot.solBalance,
+          swigWallet: text,
+        },
+        data: { swigWallet: snapshot },
+      };
+    } catch (error) {
+      console.error('🔌 SWIG_WALLET provider error:', error);
+      return { text: '', values: {}, data: {} };
+    }
+  },
+};
@@ -0,0 +1,131 @@
+import type { IAgentRuntime, Memory } from '@elizaos/core';
+import { describe, expect, it } from 'vitest';
+import {
+  addSwigRecipients,
+  checkSwigRecipient,
+  enforceSwigRecipient,
+  getSwigRecipientRefusals,
+  getSwigRecipientRules,
+  setSwigRecipientMode,
+} from './recipients.js';
+import type { SwigTransferIntent } from './types.js';
+
+const SWIG = '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM';
+const ALICE = '2dr69TRDpT6LNec6XSuLSAyyxcjGiivn7T7MgL1udtms';
+const MALLORY = 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4';
+
+function createRuntime(
+  settings: Record<string, unknown> = {},
+  cache: Record<string, unknown> = {}
+): IAgentRuntime {
+  return {
+    getSetting: (key: string) => settings[key],
+    getCache: async (key: string) => cache[key],
+    setCache: async (key: string, value: unknown) => {
+      cache[key] = value;
+      return true;
+    },
+  } as unknown as IAgentRuntime;
+}
+
+const message = { entityId: 'bob', roomId: 'room', content: { text: '' } } as unknown as Memory;
+
+function intent(recipient: string): SwigTransferIntent {
+  return { swigAddress: SWIG, asset: 'SOL', symbol: 'SOL', amount: 1, recipient };
+}
+
+describe('checkSwigRecipient', () => {
+  it('allows any recipient in off mode without lists', async () => {
+    const rules = await getSwigRecipientRules(createRuntime(), message);
+    expect(rules.mode).toBe('off');
+    expect(checkSwigRecipient(rules, ALICE)).toBeNull();
+  });
+
+  it('refuses denylisted recipients even in off mode', async () => {
+    const fromSetting = await getSwigRecipientRules(
+      createRuntime({ SWIG_RECIPIENT_DENYLIST: MALLORY }),
+      message
+    );
+    expect(checkSwigRecipient(fromSetting, MALLORY)).toBe(
+      `${MALLORY} is on the recipient denylist.`
+    );
+
+    const runtime = createRuntime();
+    await addSwigRecipients(runtime, 'denied', [MALLORY]);
+    const fromChat = await getSwigRecipientRules(runtime, message);
+    expect(fromChat.mode).toBe('off');
+    expect(checkSwigRecipient(fromChat, MALLORY)).not.toBeNull();
+    expect(checkSwigRecipient(fromChat, ALICE)).toBeNull();
+  });
+
+  it('refuses recipients that are not allowed in allowlist mode', async () => {
+    const rules = await getSwigRecipientRules(
+      createRuntime({ SWIG_RECIPIENT_MODE: 'allowlist', SWIG_RECIPIENT_ALLOWLIST: `["${ALICE}"]` }),
+      message
+    );
+    expect(checkSwigRecipient(rules, ALICE)).toBeNull();
+    expect(checkSwigRecipient(rules, MALLORY)).toContain('is not on the recipient allowlist');
+  });
+
+  it('allows trusted contacts in allowlist mode', async () => {
+    const runtime = createRuntime(
+      { SWIG_RECIPIENT_MODE: 'allowlist' },
+      {
+        'swig-contacts:agent': [
+          { name: 'alice', address: ALICE, trusted: true, createdAt: 0 },
+          { name: 'mallory', address: MALLORY, createdAt: 0 },
+        ],
+      }
+    );
+    const rules = await getSwigRecipientRules(runtime, message);
+    expect(checkSwigRecipient(rules, ALICE)).toBeNull();
+    expect(checkSwigRecipient(rules, MALLORY)).not.toBeNull();
+  });
+
+  it('refuses a trusted contact that is also denylisted', async () => {
+    const runtime = createRuntime(
+      { SWIG_RECIPIENT_MODE: 'allowlist', SWIG_RECIPIENT_DENYLIST: ALICE },
+      { 'swig-contacts:agent': [{ name: 'alice', address: ALICE, trusted: true, createdAt: 0 }] }
+    );
+    const rules = await getSwigRecipientRules(runtime, message);
+    expect(checkSwigRecipient(rules, ALICE)).toContain('denylist');
+  });
+});
+
+describe('getSwigRecipientRules', () => {
+  it.each([
+    ['an unknown mode', { SWIG_RECIPIENT_MODE: 'strict' }],
+    ['an invalid JSON list', { SWIG_RECIPIENT_ALLOWLIST: '["unclosed' }],
+    ['an invalid address', { SWIG_RECIPIENT_DENYLIST: `${MALLORY}, not-an-address` }],
+    ['a JSON value that is not a list', { SWIG_RECIPIENT_ALLOWLIST: '[1]' }],
+  ])('fails closed on %s', async (_case, settings) => {
+    await expect(getSwigRecipientRules(createRuntime(settings), message)).rejects.toThrow(
+      'Transfers are blocked until it is fixed'
+    );
+  });
+
+  it('keeps the mode of SWIG_RECIPIENT_MODE out of reach of chat', async () => {
+    const runtime = createRuntime({ SWIG_RECIPIENT_MODE: 'denylist' });
+    await expect(setSwigRecipientMode(runtime, 'off')).rejects.toThrow('cannot be changed in chat');
+  });
+});
+
+describe('enforceSwigRecipient', () => {
+  it('logs and refuses a denied transfer', async () => {
+    const runtime = createRuntime({ SWIG_RECIPIENT_DENYLIST: MALLORY });
+    await expect(
+      enforceSwigRecipient(runtime, message, 'SWIG_TRANSFER_TO_ADDRESS', intent(MALLORY))
+    ).rejects.toThrow('Transfer refused');
+    expect(await getSwigRecipientRefusals(runtime)).toMatchObject([
+      { action: 'SWIG_TRANSFER_TO_ADDRESS', recipient: MALLORY, entityId: 'bob' },
+    ]);
+  });
+
+  it('lets an allowed transfer through', async () => {
+    const runtime = createRuntime({ SWIG_RECIPIENT_DENYLIST: MALLORY });
+    await expect(
+      enforceSwigRecipient(runtime, message, 'SWIG_TRANSFER_TO_ADDRESS', intent(ALICE))
+    ).resolves.toBeUndefined();
+    expect(await getSwigRecipientRefusals(runtime)).toEqual([]);
+  });
+});
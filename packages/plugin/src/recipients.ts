@@ -0,0 +1,253 @@
+import { type IAgentRuntime, type Memory } from '@elizaos/core';
+import { getSwigContacts } from './contacts.js';
+import { isSolanaAddress } from './parameters.js';
+import {
+  SwigContact,
+  SwigRecipientLists,
+  SwigRecipientMode,
+  SwigRecipientRefusal,
+  SwigTransferIntent,
+} from './types.js';
+
+const RECIPIENT_LISTS_CACHE_KEY = 'swig-recipients';
+const RECIPIENT_REFUSALS_CACHE_KEY = 'swig-recipient-refusals';
+
+/**
+ * How many refused transfers are kept for LIST_SWIG_RECIPIENTS
+ */
+const MAX_RECIPIENT_REFUSALS = 50;
+
+export const RECIPIENT_MODES: SwigRecipientMode[] = ['off', 'allowlist', 'denylist'];
+
+/**
+ * The recipient lists that apply to a transfer: settings, chat-managed
+ * entries and trusted contacts combined
+ */
+export interface SwigRecipientRules {
+  mode: SwigRecipientMode;
+  /** Where the mode comes from; a mode set in settings cannot be changed in chat */
+  modeSource: 'setting' | 'chat' | 'default';
+  settingAllowed: string[];
+  settingDenied: string[];
+  chatAllowed: string[];
+  chatDenied: string[];
+  trustedContacts: SwigContact[];
+}
+
+/**
+ * Read an address list setting: a JSON array, or addresses separated by
+ * commas or whitespace. Throws on anything else, so transfers fail closed.
+ */
+function getAddressListSetting(runtime: IAgentRuntime, key: string): string[] {
+  const setting = runtime.getSetting(key) as unknown;
+  if (!setting) {
+    return [];
+  }
+
+  let entries: unknown;
+  if (Array.isArray(setting)) {
+    entries = setting;
+  } else {
+    const text = String(setting).trim();
+    try {
+      entries = text.startsWith('[') ? JSON.parse(text) : text.split(/[\s,]+/).filter(Boolean);
+    } catch {
+      throw new Error(`${key} is not valid JSON. Transfers are blocked until it is fixed.`);
+    }
+  }
+
+  const invalid = !Array.isArray(entries)
+    ? String(entries)
+    : entries.find((entry) => typeof entry !== 'string' || !isSolanaAddress(entry));
+  if (invalid !== undefined) {
+    throw new Error(
+      `${key} has an invalid address "${invalid}". Transfers are blocked until it is fixed.`
+    );
+  }
+  return entries as string[];
+}
+
+/**
+ * Get the recipient lists managed from chat
+ */
+export async function getSwigRecipientLists(runtime: IAgentRuntime): Promise<SwigRecipientLists> {
+  return (
+    (await runtime.getCache<SwigRecipientLists>(RECIPIENT_LISTS_CACHE_KEY)) || {
+      allowed: [],
+      denied: [],
+    }
+  );
+}
+
+async function saveSwigRecipientLists(
+  runtime: IAgentRuntime,
+  lists: SwigRecipientLists
+): Promise<void> {
+  await runtime.setCache(RECIPIENT_LISTS_CACHE_KEY, lists);
+}
+
+/**
+ * Get every recipient list that applies to transfers requested by a message.
+ * Trusted contacts come from the address book the message uses.
+ */
+export async function getSwigRecipientRules(
+  runtime: IAgentRuntime,
+  message: Memory
+): Promise<SwigRecipientRules> {
+  const modeSetting = runtime.getSetting('SWIG_RECIPIENT_MODE');
+  const lists = await getSwigRecipientLists(runtime);
+
+  let mode: SwigRecipientMode = lists.mode || 'off';
+  let modeSource: SwigRecipientRules['modeSource'] = lists.mode ? 'chat' : 'default';
+  if (modeSetting) {
+    const settingMode = String(modeSetting).toLowerCase() as SwigRecipientMode;
+    if (!RECIPIENT_MODES.includes(settingMode)) {
+      throw new Error(
+        `SWIG_RECIPIENT_MODE must be one of ${RECIPIENT_MODES.join(', ')}, not "${modeSetting}". Transfers are blocked until it is fixed.`
+      );
+    }
+    mode = settingMode;
+    modeSource = 'setting';
+  }
+
+  const contacts = await getSwigContacts(runtime, message);
+  return {
+    mode,
+    modeSource,
+    settingAllowed: getAddressListSetting(runtime, 'SWIG_RECIPIENT_ALLOWLIST'),
+    settingDenied: getAddressListSetting(runtime, 'SWIG_RECIPIENT_DENYLIST'),
+    chatAllowed: lists.allowed,
+    chatDenied: lists.denied,
+    trustedContacts: contacts.filter((contact) => contact.trusted && contact.address),
+  };
+}
+
+/**
+ * Add addresses to the chat-managed allowlist or denylist. An address is on
+ * at most one of them, so it leaves the other list.
+ */
+export async function addSwigRecipients(
+  runtime: IAgentRuntime,
+  list: 'allowed' | 'denied',
+  addresses: string[]
+): Promise<void> {
+  const lists = await getSwigRecipientLists(runtime);
+  const other = list === 'allowed' ? 'denied' : 'allowed';
+  lists[list] = [...new Set([...lists[list], ...addresses])];
+  lists[other] = lists[other].filter((address) => !addresses.includes(address));
+  await saveSwigRecipientLists(runtime, lists);
+}
+
+/**
+ * Remove addresses from both chat-managed lists. Returns the addresses that
+ * were on one of them.
+ */
+export async function removeSwigRecipients(
+  runtime: IAgentRuntime,
+  addresses: string[]
+): Promise<string[]> {
+  const lists = await getSwigRecipientLists(runtime);
+  const removed = addresses.filter(
+    (address) => lists.allowed.includes(address) || lists.denied.includes(address)
+  );
+  lists.allowed = lists.allowed.filter((address) => !addresses.includes(address));
+  lists.denied = lists.denied.filter((address) => !addresses.includes(address));
+  await saveSwigRecipientLists(runtime, lists);
+  return removed;
+}
+
+/**
+ * Set the recipient mode from chat. Throws when SWIG_RECIPIENT_MODE fixes it.
+ */
+export async function setSwigRecipientMode(
+  runtime: IAgentRuntime,
+  mode: SwigRecipientMode
+): Promise<void> {
+  const modeSetting = runtime.getSetting('SWIG_RECIPIENT_MODE');
+  if (modeSetting) {
+    throw new Error(
+      `The recipient mode is set to "${modeSetting}" by SWIG_RECIPIENT_MODE and cannot be changed in chat.`
+    );
+  }
+  const lists = await getSwigRecipientLists(runtime);
+  await saveSwigRecipientLists(runtime, { ...lists, mode });
+}
+
+/**
+ * Check a recipient against the lists. Returns why it is refused, or null.
+ * Denylisted addresses are refused in every mode, including off; in allowlist
+ * mode the recipient must also be allowed or a trusted contact.
+ */
+export function checkSwigRecipient(rules: SwigRecipientRules, recipient: string): string | null {
+  if (rules.settingDenied.includes(recipient) || rules.chatDenied.includes(recipient)) {
+    return `${recipient} is on the recipient denylist.`;
+  }
+  if (
+    rules.mode === 'allowlist' &&
+    !rules.settingAllowed.includes(recipient) &&
+    !rules.chatAllowed.includes(recipient) &&
+    !rules.trustedContacts.some((contact) => contact.address === recipient)
+  ) {
+    return `${recipient} is not on the recipient allowlist. An admin can allow it, or mark its contact as trusted.`;
+  }
+  return null;
+}
+
+/**
+ * Get the most recent refused transfers, newest first
+ */
+export async function getSwigRecipientRefusals(
+  runtime: IAgentRuntime
+): Promise<SwigRecipientRefusal[]> {
+  return (await runtime.getCache<SwigRecipientRefusal[]>(RECIPIENT_REFUSALS_CACHE_KEY)) || [];
+}
+
+/**
+ * Throw when the recipient lists refuse a transfer, after logging the attempt
+ */
+export async function enforceSwigRecipient(
+  runtime: IAgentRuntime,
+  message: Memory,
+  action: string,
+  intent: SwigTransferIntent
+): Promise<void> {
+  const reason = checkSwigRecipient(
+    await getSwigRecipientRules(runtime, message),
+    intent.recipient
+  );
+  if (!reason) {
+    return;
+  }
+
+  const refusal: SwigRecipientRefusal = {
+    action,
+    swigAddress: intent.swigAddress,
+    recipient: intent.recipient,
+    symbol: intent.symbol,
+    amount: intent.amount,
+    entityId: message.entityId,
+    roomId: message.roomId,
+    reason,
+    timestamp: Date.now(),
+  };
+  console.warn(
+    `🚫 ${action} refused ${intent.amount} ${intent.symbol} to ${intent.recipient} requested by ${message.entityId}:`,
+    reason
+  );
+  const refusals = await getSwigRecipientRefusals(runtime);
+  await runtime.setCache(
+    RECIPIENT_REFUSALS_CACHE_KEY,
+    [refusal, ...refusals].slice(0, MAX_RECIPIENT_REFUSALS)
+  );
+
+  throw new Error(`Transfer refused: ${reason}`);
+}
+
+/**
+ * Describe a refused transfer, e.g. "2025-05-01 12:00 UTC: 5 SOL to <ADDRESS>
+ * (SWIG_TRANSFER_TO_ADDRESS) - <ADDRESS> is on the recipient denylist."
+ */
+export function describeSwigRecipientRefusal(refusal: SwigRecipientRefusal): string {
+  const time = new Date(refusal.timestamp).toISOString().slice(0, 16).replace('T', ' ');
+  return `${time} UTC: ${refusal.amount} ${refusal.symbol} to ${refusal.recipient} (${refusal.action}) - ${refusal.reason}`;
+}
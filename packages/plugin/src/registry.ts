@@ -0,0 +1,170 @@
+import { createHash } from 'crypto';
+import { type IAgentRuntime } from '@elizaos/core';
+import { PublicKey } from '@solana/web3.js';
+import { findSwigPda } from '@swig-wallet/classic';
+import { ResolvedSwig, SwigRegistryEntry } from './types.js';
+
+const SWIG_REGISTRY_CACHE_KEY = 'swig-registry';
+
+/**
+ * Name of the Swig used when a message does not name one
+ */
+export const DEFAULT_SWIG_NAME = 'default';
+
+const SWIG_NAME_PATTERN = '([a-z0-9][a-z0-9_-]{0,31})';
+
+/**
+ * Words that can appear before "swig" without naming a wallet
+ */
+const NON_NAME_WORDS = [
+  'a',
+  'an',
+  'the',
+  'my',
+  'our',
+  'your',
+  'this',
+  'that',
+  'new',
+  'swig',
+  'main',
+  DEFAULT_SWIG_NAME,
+];
+
+/**
+ * Get the named Swig wallets registered for this agent
+ */
+export async function getSwigRegistry(runtime: IAgentRuntime): Promise<SwigRegistryEntry[]> {
+  return (await runtime.getCache<SwigRegistryEntry[]>(SWIG_REGISTRY_CACHE_KEY)) || [];
+}
+
+/**
+ * Add a named Swig wallet to the agent's registry. Throws when the name
+ * already refers to a different Swig, unless `replace` is set.
+ */
+export async function registerSwig(
+  runtime: IAgentRuntime,
+  entry: SwigRegistryEntry,
+  options: { replace?: boolean } = {}
+): Promise<void> {
+  const registry = await getSwigRegistry(runtime);
+  const existing = registry.find((candidate) => candidate.name === entry.name);
+  if (existing && existing.address !== entry.address && !options.replace) {
+    throw new Error(
+      `The name "${entry.name}" already refers to the Swig wallet ${existing.address}. Use another name, or ask an admin to replace it explicitly.`
+    );
+  }
+  const updated = [...registry.filter((existing) => existing.name !== entry.name), entry];
+  await runtime.setCache(SWIG_REGISTRY_CACHE_KEY, updated);
+}
+
+/**
+ * Get the id the Swig of a named wallet is created with. The default wallet uses
+ * the agent public key, other names a hash of the public key and the name.
+ */
+export function getSwigId(walletPublicKey: PublicKey, name: string): Uint8Array {
+  if (name === DEFAULT_SWIG_NAME) {
+    return walletPublicKey.toBytes();
+  }
+  return new Uint8Array(
+    createHash('sha256').update(walletPublicKey.toBytes()).update(`swig:${name}`).digest()
+  );
+}
+
+/**
+ * Find the Swig wallet name in a chat message, e.g. "from the payroll swig",
+ * "the ops swig" or "swig named grants". Registered names are matched first;
+ * returns undefined when no name is given.
+ */
+export function parseSwigName(text: string, registry: SwigRegistryEntry[]): string | undefined {
+  const lowerText = text.toLowerCase();
+
+  const registered = registry.find((entry) =>
+    new RegExp(`\\b${entry.name}\\s+swig\\b`).test(lowerText)
+  );
+  if (registered) {
+    return registered.name;
+  }
+
+  const namePatterns = [
+    new RegExp(`\\bswig\\s+(?:named|called)\\s+["']?${SWIG_NAME_PATTERN}`, 'g'),
+    new RegExp(
+      `\\b(?:from|to|in|on|of|using|into|via|a|an|the|my|our)\\s+(?:the\\s+|my\\s+|our\\s+)?${SWIG_NAME_PATTERN}\\s+swig\\b`,
+      'g'
+    ),
+  ];
+  for (const pattern of namePatterns) {
+    for (const match of lowerText.matchAll(pattern)) {
+      if (!NON_NAME_WORDS.includes(match[1])) {
+        return match[1];
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Get the address of the default Swig wallet: the SWIG_ADDRESS setting, else a
+ * Swig imported without a name, else the PDA derived from the agent key
+ */
+export async function getDefaultSwigAddress(
+  runtime: IAgentRuntime,
+  walletPublicKey: PublicKey
+): Promise<PublicKey> {
+  const configuredAddress = runtime.getSetting('SWIG_ADDRESS');
+  if (configuredAddress) {
+    return new PublicKey(configuredAddress);
+  }
+
+  const registry = await getSwigRegistry(runtime);
+  const defaultEntry = registry.find((entry) => entry.name === DEFAULT_SWIG_NAME);
+  if (defaultEntry) {
+    return new PublicKey(defaultEntry.address);
+  }
+
+  return findSwigPda(getSwigId(walletPublicKey, DEFAULT_SWIG_NAME));
+}
+
+/**
+ * Resolve the Swig wallet a chat message refers to. Messages without a name
+ * use the default wallet; unknown names are rejected so funds never move from
+ * a different wallet than the one requested.
+ */
+export async function resolveSwig(
+  runtime: IAgentRuntime,
+  walletPublicKey: PublicKey,
+  text: string
+): Promise<ResolvedSwig> {
+  const registry = await getSwigRegistry(runtime);
+  const name = parseSwigName(text, registry) || DEFAULT_SWIG_NAME;
+
+  if (name === DEFAULT_SWIG_NAME) {
+    return { name, address: await getDefaultSwigAddress(runtime, walletPublicKey) };
+  }
+
+  const entry = registry.find((existing) => existing.name === name);
+  if (!entry) {
+    const knownNames = registry
+      .map((existing) => existing.name)
+      .filter((knownName) => knownName !== DEFAULT_SWIG_NAME);
+    throw new Error(
+      `No Swig wallet named "${name}". ${
+        knownNames.length
+          ? `Known Swig wallets: ${knownNames.join(', ')}.`
+          : `Create it first, e.g. 'create a swig named ${name}', or import an existing one with 'import swig <ADDRESS> as ${name}'.`
+      }`
+    );
+  }
+
+  return { name, address: new PublicKey(entry.address) };
+}
+
+/**
+ * Format a resolved Swig for responses, e.g. "payroll (<ADDRESS>)"
+ */
+export function describeSwig(swig: ResolvedSwig): string {
+  return swig.name === DEFAULT_SWIG_NAME
+    ? swig.address.toBase58()
+    : `${swig.name} (${swig.address.toBase58()})`;
+}
@@ -0,0 +1,224 @@
+import {
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+} from '@solana/spl-token';
+import { LAMPORTS_PER_SOL, PublicKey, SystemProgram } from '@solana/web3.js';
+import { type Role, type SpendController } from '@swig-wallet/classic';
+import {
+  formatSlotDuration,
+  formatWindow,
+  getRemainingSpend,
+  SLOTS_PER_WINDOW_UNIT,
+} from './permissions.js';
+
+/**
+ * Programs covered by SOL and token spend limits (and account setup), so they
+ * are not checked against program permissions
+ */
+const SPEND_LIMITED_PROGRAM_IDS = [
+  SystemProgram.programId,
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+];
+
+const WINDOW_PERIODS: Record<number, string> = {
+  [SLOTS_PER_WINDOW_UNIT.hour]: 'this hour',
+  [SLOTS_PER_WINDOW_UNIT.day]: 'today',
+  [SLOTS_PER_WINDOW_UNIT.week]: 'this week',
+  [SLOTS_PER_WINDOW_UNIT.month]: 'this month',
+};
+
+/**
+ * What a role must be allowed to do for an operation. Amounts are in base
+ * units (lamports or raw token amounts).
+ */
+export interface SwigRoleRequirement {
+  solAmount?: bigint;
+  tokenMint?: PublicKey;
+  tokenAmount?: bigint;
+  tokenDecimals?: number;
+  manageAuthority?: boolean;
+  /** Programs invoked by the Swig; programs covered by spend limits are skipped */
+  programs?: PublicKey[];
+}
+
+/**
+ * Explain why a spend controller does not allow an amount, or return null when it does
+ */
+function getSpendRefusal(
+  roleId: number,
+  spend: SpendController,
+  amount: bigint,
+  decimals: number,
+  unit: string,
+  currentSlot: number
+): string | null {
+  const remaining = getRemainingSpend(spend, currentSlot);
+  if (remaining === null || remaining >= amount) {
+    return null;
+  }
+
+  if (!spend.isAllowed) {
+    return `Role ${roleId} is not allowed to spend ${unit}`;
+  }
+
+  const toUi = (value: bigint) => Number(value) / Math.pow(10, decimals);
+
+  if (spend.window && spend.recurringLimit !== undefined) {
+    const resetSlot = Number((spend.lastReset ?? 0n) + spend.window);
+    if (resetSlot <= currentSlot || amount > spend.recurringLimit) {
+      return `Role ${roleId} can spend at most ${toUi(spend.recurringLimit)} ${unit} ${formatWindow(spend.window)}`;
+    }
+    const period = WINDOW_PERIODS[Number(spend.window)] || 'in the current window';
+    return `Role ${roleId} can only spend ${toUi(remaining)} ${unit} more ${period} (limit resets in ${formatSlotDuration(resetSlot - currentSlot)})`;
+  }
+
+  return `Role ${roleId} can only spend ${toUi(remaining)} ${unit} more (one-time limit)`;
+}
+
+/**
+ * Explain why a role cannot perform an operation, or return null when it can.
+ * Used as a pre-flight check so limits are reported before anything is sent.
+ */
+export function getRoleRefusal(
+  role: Role,
+  requirement: SwigRoleRequirement,
+  currentSlot: number
+): string | null {
+  const actions = role.actions;
+  if (actions.isRoot()) {
+    return null;
+  }
+
+  if (requirement.manageAuthority && !actions.canManageAuthority()) {
+    return `Role ${role.id} is not allowed to manage authorities`;
+  }
+
+  if (requirement.solAmount !== undefined) {
+    const refusal = getSpendRefusal(
+      role.id,
+      actions.solSpend(),
+      requirement.solAmount,
+      9,
+      'SOL',
+      currentSlot
+    );
+    if (refusal) {
+      return refusal;
+    }
+  }
+
+  if (requirement.tokenMint && requirement.tokenAmount !== undefined) {
+    const refusal = getSpendRefusal(
+      role.id,
+      actions.tokenSpend(requirement.tokenMint),
+      requirement.tokenAmount,
+      requirement.tokenDecimals ?? 0,
+      `tokens of mint ${requirement.tokenMint.toBase58()}`,
+      currentSlot
+    );
+    if (refusal) {
+      return refusal;
+    }
+  }
+
+  for (const programId of requirement.programs || []) {
+    if (SPEND_LIMITED_PROGRAM_IDS.some((covered) => covered.equals(programId))) {
+      continue;
+    }
+    if (!actions.canUseProgram(programId)) {
+      return `Role ${role.id} is not allowed to call program ${programId.toBase58()}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check whether a role's actions and remaining limits allow an operation
+ */
+export function canRolePerform(
+  role: Role,
+  requirement: SwigRoleRequirement,
+  currentSlot: number
+): boolean {
+  return getRoleRefusal(role, requirement, currentSlot) === null;
+}
+
+/**
+ * Sort key of a role's privilege, lower is less privileged: root access first,
+ * then authority management the operation does not need, then the allowance
+ * left on the asset the operation spends
+ */
+function getPrivilegeRank(
+  role: Role,
+  requirement: SwigRoleRequirement,
+  currentSlot: number
+): number[] {
+  const actions = role.actions;
+  const spend = requirement.tokenMint
+    ? actions.tokenSpend(requirement.tokenMint)
+    : actions.solSpend();
+  const remaining = getRemainingSpend(spend, currentSlot);
+
+  return [
+    actions.isRoot() ? 1 : 0,
+    actions.canManageAuthority() && !requirement.manageAuthority ? 1 : 0,
+    remaining === null ? Number.POSITIVE_INFINITY : Number(remaining),
+    role.id,
+  ];
+}
+
+/**
+ * Describe an operation for refusal messages, e.g. "spend 2 SOL"
+ */
+export function describeRequirement(requirement: SwigRoleRequirement): string {
+  const parts: string[] = [];
+  if (requirement.solAmount !== undefined) {
+    parts.push(`spend ${Number(requirement.solAmount) / LAMPORTS_PER_SOL} SOL`);
+  }
+  if (requirement.tokenMint && requirement.tokenAmount !== undefined) {
+    const amount = Number(requirement.tokenAmount) / Math.pow(10, requirement.tokenDecimals ?? 0);
+    parts.push(`spend ${amount} tokens of mint ${requirement.tokenMint.toBase58()}`);
+  }
+  if (requirement.manageAuthority) {
+    parts.push('manage authorities');
+  }
+  return parts.join(' and ') || 'sign for this Swig';
+}
+
+/**
+ * Pick the least-privileged of the agent's roles that can perform an operation,
+ * so a trivial payment never runs through an all-powerful role when a limited
+ * one suffices. Throws with each role's refusal reason when none can.
+ */
+export function selectAgentRole(
+  roles: Role[],
+  requirement: SwigRoleRequirement,
+  currentSlot: number
+): Role {
+  const capable = roles.filter((role) => canRolePerform(role, requirement, currentSlot));
+  if (!capable.length) {
+    const refusals = roles
+      .map((role) => getRoleRefusal(role, requirement, currentSlot))
+      .filter((refusal): refusal is string => !!refusal);
+    throw new Error(
+      `Cannot ${describeRequirement(requirement)}: ${refusals.join('; ')}. Nothing was sent.`
+    );
+  }
+
+  const ranked = capable
+    .map((role) => ({ role, rank: getPrivilegeRank(role, requirement, currentSlot) }))
+    .sort((a, b) => {
+      for (let i = 0; i < a.rank.length; i++) {
+        if (a.rank[i] !== b.rank[i]) {
+          return a.rank[i] - b.rank[i];
+        }
+      }
+      return 0;
+    });
+
+  return ranked[0].role;
+}
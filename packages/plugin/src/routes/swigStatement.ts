@@ -0,0 +1,170 @@
+import { timingSafeEqual } from 'crypto';
+import { type IAgentRuntime, type Route } from '@elizaos/core';
+import { resolveSwig } from '../registry.js';
+import { getSwigWalletService } from '../services/swigWallet.js';
+import {
+  buildSwigStatement,
+  formatSwigStatement,
+  getPreviousMonthRange,
+  type SwigStatementFormat,
+} from '../statement.js';
+
+/**
+ * The parts of the request this route reads. Core types route requests and
+ * responses as any; the server passes Express objects, which satisfy these.
+ */
+interface StatementRouteRequest {
+  headers?: Record<string, string | string[] | undefined>;
+  query?: Record<string, unknown>;
+}
+
+/**
+ * The parts of the response this route writes
+ */
+interface StatementRouteResponse {
+  status(code: number): StatementRouteResponse;
+  json(body: unknown): void;
+  setHeader(name: string, value: string): void;
+  send(body: string): void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Read the statement period from the query: `month=YYYY-MM`, or `from` and
+ * `to` dates (YYYY-MM-DD, `to` inclusive), else the previous calendar month.
+ * Throws on a malformed or impossible month or date, e.g. 2025-13 or 2025-02-30.
+ */
+function getQueryRange(query: Record<string, unknown>): { since: number; until: number } {
+  if (query.month !== undefined) {
+    const month = typeof query.month === 'string' ? query.month.match(/^(\d{4})-(\d{2})$/) : null;
+    const index = month ? Number(month[2]) - 1 : -1;
+    if (!month || index < 0 || index > 11) {
+      throw new Error('Invalid "month", expected YYYY-MM with a month from 01 to 12');
+    }
+    const year = Number(month[1]);
+    return { since: Date.UTC(year, index, 1), until: Date.UTC(year, index + 1, 1) };
+  }
+
+  if (query.from === undefined && query.to === undefined) {
+    return getPreviousMonthRange();
+  }
+
+  const parseDate = (value: unknown, name: string) => {
+    const time =
+      typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)
+        ? Date.parse(`${value}T00:00:00Z`)
+        : NaN;
+    // Date.parse rolls impossible days over, e.g. 2025-02-30 to March 2
+    if (Number.isNaN(time) || new Date(time).toISOString().slice(0, 10) !== value) {
+      throw new Error(`Invalid "${name}" date, expected YYYY-MM-DD`);
+    }
+    return time;
+  };
+  const since = parseDate(query.from, 'from');
+  const until = query.to === undefined ? Date.now() : parseDate(query.to, 'to') + DAY_MS;
+  if (until <= since) {
+    throw new Error('"to" must not be before "from"');
+  }
+  return { since, until };
+}
+
+/**
+ * Check whether a request may download statements. A route cannot tell which
+ * ElizaOS user is asking, so only requests with the SWIG_ROUTE_API_KEY in
+ * their X-API-KEY header are served, and none while the key is unset. Returns
+ * the status and error to refuse with, or null.
+ */
+function checkRouteAccess(
+  runtime: IAgentRuntime,
+  req: StatementRouteRequest
+): { status: number; error: string } | null {
+  const apiKey = runtime.getSetting('SWIG_ROUTE_API_KEY');
+  if (!apiKey) {
+    return {
+      status: 403,
+      error: 'Swig statements are disabled until SWIG_ROUTE_API_KEY is set',
+    };
+  }
+
+  const header = req.headers?.['x-api-key'];
+  const expected = Buffer.from(String(apiKey));
+  const received = Buffer.from(typeof header === 'string' ? header : '');
+  return received.length === expected.length && timingSafeEqual(received, expected)
+    ? null
+    : { status: 401, error: 'Invalid or missing X-API-KEY header' };
+}
+
+/**
+ * Download a statement of a Swig wallet as CSV or JSON.
+ *
+ * Query parameters: `format` (csv or json, default csv), `swig` (a registered
+ * Swig name, default the agent's default Swig), and the period as `month`, or
+ * `from` and `to`.
+ */
+export const swigStatementRoute: Route = {
+  type: 'GET',
+  path: '/swig/statement',
+
+  handler: async (
+    req: StatementRouteRequest,
+    res: StatementRouteResponse,
+    runtime: IAgentRuntime
+  ): Promise<void> => {
+    console.log('🔧 Swig statement route called:', JSON.stringify(req.query || {}));
+    const query: Record<string, unknown> = req.query || {};
+
+    const refusal = checkRouteAccess(runtime, req);
+    if (refusal) {
+      console.warn('🚫 Swig statement route refused:', refusal.error);
+      res.status(refusal.status).json({ error: refusal.error });
+      return;
+    }
+
+    let range: { since: number; until: number };
+    let format: SwigStatementFormat;
+    try {
+      range = getQueryRange(query);
+      const formatParam = String(query.format || 'csv').toLowerCase();
+      if (formatParam !== 'csv' && formatParam !== 'json') {
+        throw new Error('Invalid "format", expected csv or json');
+      }
+      format = formatParam;
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+      return;
+    }
+
+    try {
+      const service = getSwigWalletService(runtime);
+      const wallet = await service.getWallet();
+      if (!wallet) {
+        throw new Error(
+          'Solana wallet not configured. Please set SOLANA_PRIVATE_KEY in runtime settings.'
+        );
+      }
+
+      const resolvedSwig = await resolveSwig(
+        runtime,
+        wallet.publicKey,
+        typeof query.swig === 'string' ? `swig named ${query.swig}` : ''
+      );
+      const statement = await buildSwigStatement(
+        runtime,
+        service.getConnection(),
+        resolvedSwig.address,
+        await service.getWalletAddress(resolvedSwig.address),
+        range,
+        wallet.publicKey
+      );
+      const file = formatSwigStatement(statement, format);
+
+      res.setHeader('Content-Type', `${file.contentType}; charset=utf-8`);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+      res.send(file.body);
+    } catch (error) {
+      console.error('🔧 Swig statement route error:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  },
+};
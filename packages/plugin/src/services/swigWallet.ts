@@ -0,0 +1,382 @@
+import { type IAgentRuntime, Service } from '@elizaos/core';
+import { Connection, type Keypair, type Logs, PublicKey } from '@solana/web3.js';
+import { fetchNullableSwig, getSwigWalletAddress, type Swig } from '@swig-wallet/classic';
+import { findSwigDeposits, isDepositWatchEnabled, notifySwigDeposit } from '../deposits.js';
+import { getDefaultSwigAddress, getSwigRegistry } from '../registry.js';
+import { buildSwigWalletSnapshot } from '../snapshot.js';
+import { SolanaWalletProvider, SwigWalletSnapshot } from '../types.js';
+import { getSolanaConnection, getSolanaWallet, getSwigTokenHoldings } from '../utils.js';
+
+export const SWIG_WALLET_SERVICE_TYPE = 'swig_wallet';
+
+const DEFAULT_CACHE_TTL_SECONDS = 30;
+
+/**
+ * How many handled signatures are remembered, since one transaction is reported
+ * by the subscription of every watched account it touches
+ */
+const MAX_SEEN_SIGNATURES = 500;
+
+interface CachedSwig {
+  swig: Swig | null;
+  fetchedAt: number;
+}
+
+interface DepositWatch {
+  /** The address holding the Swig's funds */
+  walletAddress: PublicKey;
+  /**
+   * Log subscription ids keyed by the watched account: the Swig, its wallet
+   * address and its token accounts
+   */
+  subscriptions: Map<string, number>;
+}
+
+/**
+ * Long-lived owner of the agent's signer, its RPC connection and cached Swig
+ * accounts, shared by actions, providers and routes.
+ *
+ * Swig accounts and wallet snapshots are reused for SWIG_WALLET_CACHE_SECONDS
+ * (default 30). Reads use the cache; writes pass `refresh: true` so pre-flight
+ * limit checks see the current on-chain state, and every confirmed transaction
+ * drops the cache.
+ *
+ * With SWIG_WATCH_DEPOSITS=true the service also subscribes to the logs of the
+ * agent's Swig wallets and their token accounts, and reports incoming funds.
+ */
+export class SwigWalletService extends Service {
+  static serviceType = SWIG_WALLET_SERVICE_TYPE;
+  capabilityDescription =
+    "Holds the agent's Solana signer and connection and caches the state of its Swig wallets";
+
+  private connection: Connection;
+  private walletPromise: Promise<SolanaWalletProvider | null> | null = null;
+  private swigCache = new Map<string, CachedSwig>();
+  private snapshotCache = new Map<string, SwigWalletSnapshot>();
+  private depositWatches = new Map<string, DepositWatch>();
+  private seenSignatures = new Set<string>();
+  private sessionKeys = new Map<string, Keypair>();
+  private started = false;
+
+  constructor(runtime: IAgentRuntime) {
+    super(runtime);
+    this.connection = getSolanaConnection(runtime);
+  }
+
+  static async start(runtime: IAgentRuntime): Promise<SwigWalletService> {
+    console.log('🔌 Starting Swig wallet service...');
+    const service = new SwigWalletService(runtime);
+    service.started = true;
+    const wallet = await service.getWallet();
+    console.log('🔌 Swig wallet service signer:', wallet?.publicKey.toBase58() || 'not configured');
+
+    // A failing RPC or cache read must not keep the service, and with it the agent, from starting
+    if (wallet && isDepositWatchEnabled(runtime)) {
+      try {
+        const addresses = [
+          await getDefaultSwigAddress(runtime, wallet.publicKey),
+          ...(await getSwigRegistry(runtime)).map((entry) => new PublicKey(entry.address)),
+        ];
+        for (const address of addresses) {
+          try {
+            await service.watchDeposits(address);
+          } catch (error) {
+            console.error(
+              `💸 Failed to watch Swig wallet ${address.toBase58()} for deposits:`,
+              error
+            );
+          }
+        }
+      } catch (error) {
+        console.error('💸 Failed to set up Swig deposit watching:', error);
+      }
+    }
+
+    return service;
+  }
+
+  static async stop(runtime: IAgentRuntime): Promise<void> {
+    const service = runtime.getService<SwigWalletService>(SWIG_WALLET_SERVICE_TYPE);
+    if (service) {
+      await service.stop();
+    }
+  }
+
+  async stop(): Promise<void> {
+    for (const watch of this.depositWatches.values()) {
+      for (const subscriptionId of watch.subscriptions.values()) {
+        await this.connection.removeOnLogsListener(subscriptionId);
+      }
+    }
+    this.depositWatches.clear();
+    this.sessionKeys.clear();
+    this.started = false;
+    this.invalidate();
+    this.walletPromise = null;
+  }
+
+  /**
+   * Get the RPC connection shared by everything that uses this service
+   */
+  getConnection(): Connection {
+    return this.connection;
+  }
+
+  /**
+   * Get the agent's signer, built once from SOLANA_PRIVATE_KEY. Returns null
+   * when no key is configured.
+   */
+  async getWallet(): Promise<SolanaWalletProvider | null> {
+    if (!this.walletPromise) {
+      this.walletPromise = getSolanaWallet(this.runtime).then((wallet) =>
+        wallet ? { ...wallet, connection: this.connection } : null
+      );
+    }
+    const wallet = await this.walletPromise;
+    if (!wallet) {
+      // The key may be added to the settings later, so it is looked up again next time
+      this.walletPromise = null;
+    }
+    return wallet;
+  }
+
+  private getCacheTtlMs(): number {
+    const ttlSetting = this.runtime.getSetting('SWIG_WALLET_CACHE_SECONDS');
+    const ttlSeconds =
+      ttlSetting === undefined || ttlSetting === null || String(ttlSetting).trim() === ''
+        ? DEFAULT_CACHE_TTL_SECONDS
+        : Number(ttlSetting);
+    return (
+      (Number.isFinite(ttlSeconds) && ttlSeconds >= 0 ? ttlSeconds : DEFAULT_CACHE_TTL_SECONDS) *
+      1000
+    );
+  }
+
+  /**
+   * Get a Swig account, or null when none exists at the address. Pass
+   * `refresh: true` to skip the cache.
+   */
+  async getNullableSwig(
+    swigAddress: PublicKey,
+    options: { refresh?: boolean } = {}
+  ): Promise<Swig | null> {
+    const cacheKey = swigAddress.toBase58();
+    const cached = this.swigCache.get(cacheKey);
+    if (!options.refresh && cached && Date.now() - cached.fetchedAt < this.getCacheTtlMs()) {
+      return cached.swig;
+    }
+
+    const swig = await fetchNullableSwig(this.connection, swigAddress);
+    this.swigCache.set(cacheKey, { swig, fetchedAt: Date.now() });
+    this.snapshotCache.delete(cacheKey);
+    return swig;
+  }
+
+  /**
+   * Get a Swig account, throwing when none exists at the address. Pass
+   * `refresh: true` to skip the cache.
+   */
+  async getSwig(swigAddress: PublicKey, options: { refresh?: boolean } = {}): Promise<Swig> {
+    const swig = await this.getNullableSwig(swigAddress, options);
+    if (!swig) {
+      throw new Error(`No Swig wallet found at ${swigAddress.toBase58()}.`);
+    }
+    return swig;
+  }
+
+  /**
+   * Get the address that holds the funds of a Swig wallet. Swigs created by the
+   * current program keep them in a system account derived from the Swig, older
+   * ones at the Swig address itself. Addresses without a Swig yet are returned
+   * as they are.
+   */
+  async getWalletAddress(
+    swigAddress: PublicKey,
+    options: { refresh?: boolean } = {}
+  ): Promise<PublicKey> {
+    const swig = await this.getNullableSwig(swigAddress, options);
+    return swig ? getSwigWalletAddress(swig) : swigAddress;
+  }
+
+  /**
+   * Get the balances of a Swig wallet and the agent's roles on it
+   */
+  async getWalletSnapshot(swigAddress: PublicKey): Promise<SwigWalletSnapshot> {
+    const cacheKey = swigAddress.toBase58();
+    const cached = this.snapshotCache.get(cacheKey);
+    if (cached && Date.now() - cached.fetchedAt < this.getCacheTtlMs()) {
+      return cached;
+    }
+
+    const wallet = await this.getWallet();
+    if (!wallet) {
+      throw new Error(
+        'Solana wallet not configured. Please set SOLANA_PRIVATE_KEY in runtime settings.'
+      );
+    }
+
+    const swig = await this.getNullableSwig(swigAddress);
+    const snapshot = await buildSwigWalletSnapshot(
+      this.runtime,
+      this.connection,
+      swigAddress,
+      swig,
+      wallet.publicKey
+    );
+    this.snapshotCache.set(cacheKey, snapshot);
+    return snapshot;
+  }
+
+  /**
+   * Subscribe to deposits into a Swig wallet. Does nothing unless
+   * SWIG_WATCH_DEPOSITS=true, when the wallet is already watched, or on a
+   * standalone instance that is never stopped.
+   */
+  async watchDeposits(swigAddress: PublicKey): Promise<void> {
+    const key = swigAddress.toBase58();
+    if (!this.started || !isDepositWatchEnabled(this.runtime) || this.depositWatches.has(key)) {
+      return;
+    }
+
+    console.log('💸 Watching Swig wallet for deposits:', key);
+    const walletAddress = await this.getWalletAddress(swigAddress);
+    const watch: DepositWatch = { walletAddress, subscriptions: new Map() };
+    this.depositWatches.set(key, watch);
+    this.subscribeLogs(swigAddress, watch, swigAddress);
+    if (!walletAddress.equals(swigAddress)) {
+      this.subscribeLogs(swigAddress, watch, walletAddress);
+    }
+    await this.syncTokenAccountSubscriptions(swigAddress, watch);
+  }
+
+  private subscribeLogs(swigAddress: PublicKey, watch: DepositWatch, account: PublicKey): void {
+    const subscriptionId = this.connection.onLogs(
+      account,
+      (logs) => {
+        this.handleLogs(swigAddress, watch, logs).catch((error) =>
+          console.error('💸 Failed to check Swig deposit:', error)
+        );
+      },
+      'confirmed'
+    );
+    watch.subscriptions.set(account.toBase58(), subscriptionId);
+  }
+
+  /**
+   * Subscribe to token accounts of the Swig that are not watched yet. Transfers
+   * into an existing token account do not mention the Swig or its wallet address.
+   */
+  private async syncTokenAccountSubscriptions(
+    swigAddress: PublicKey,
+    watch: DepositWatch
+  ): Promise<void> {
+    const holdings = await getSwigTokenHoldings(this.connection, watch.walletAddress);
+    for (const holding of holdings) {
+      if (!watch.subscriptions.has(holding.address.toBase58())) {
+        this.subscribeLogs(swigAddress, watch, holding.address);
+      }
+    }
+  }
+
+  private async handleLogs(swigAddress: PublicKey, watch: DepositWatch, logs: Logs): Promise<void> {
+    const seenKey = `${swigAddress.toBase58()}:${logs.signature}`;
+    if (logs.err || this.seenSignatures.has(seenKey)) {
+      return;
+    }
+    this.seenSignatures.add(seenKey);
+    if (this.seenSignatures.size > MAX_SEEN_SIGNATURES) {
+      this.seenSignatures.delete(this.seenSignatures.values().next().value as string);
+    }
+
+    this.invalidate(swigAddress);
+
+    const transaction = await this.connection.getParsedTransaction(logs.signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0,
+    });
+    if (!transaction) {
+      return;
+    }
+
+    // The agent already knows about transactions it signed itself
+    const wallet = await this.getWallet();
+    const signedByAgent = transaction.transaction.message.accountKeys.some(
+      (key) => key.signer && !!wallet && key.pubkey.equals(wallet.publicKey)
+    );
+    if (!signedByAgent) {
+      for (const deposit of findSwigDeposits(
+        this.runtime,
+        transaction,
+        swigAddress,
+        watch.walletAddress
+      )) {
+        await notifySwigDeposit(this.runtime, deposit);
+      }
+    }
+
+    // A deposit of a new token creates a token account that needs its own subscription
+    await this.syncTokenAccountSubscriptions(swigAddress, watch);
+  }
+
+  /**
+   * Get the agent's session key for a Swig wallet. Session keys live only in
+   * this process, never in the runtime cache, so a restart drops them.
+   */
+  getSessionKey(swigAddress: PublicKey): Keypair | undefined {
+    return this.sessionKeys.get(swigAddress.toBase58());
+  }
+
+  /**
+   * Keep the agent's session key for a Swig wallet, replacing the previous one
+   */
+  setSessionKey(swigAddress: PublicKey, keypair: Keypair): void {
+    this.sessionKeys.set(swigAddress.toBase58(), keypair);
+  }
+
+  /**
+   * Forget the agent's session key for a Swig wallet
+   */
+  deleteSessionKey(swigAddress: PublicKey): void {
+    this.sessionKeys.delete(swigAddress.toBase58());
+  }
+
+  /**
+   * Drop the cached state of a Swig wallet, or of every Swig wallet when no
+   * address is given
+   */
+  invalidate(swigAddress?: PublicKey): void {
+    if (!swigAddress) {
+      this.swigCache.clear();
+      this.snapshotCache.clear();
+      return;
+    }
+    this.swigCache.delete(swigAddress.toBase58());
+    this.snapshotCache.delete(swigAddress.toBase58());
+  }
+}
+
+/**
+ * Standalone services of runtimes without a registered one, so their signer
+ * and caches are shared between calls
+ */
+const standaloneServices = new WeakMap<IAgentRuntime, SwigWalletService>();
+
+/**
+ * Get the Swig wallet service of a runtime. Actions can also run before the
+ * service has started or without the plugin's services, so a standalone
+ * instance is created once per runtime and used then. It never watches
+ * deposits, since nothing would stop it.
+ */
+export function getSwigWalletService(runtime: IAgentRuntime): SwigWalletService {
+  const registered = runtime.getService<SwigWalletService>(SWIG_WALLET_SERVICE_TYPE);
+  if (registered) {
+    return registered;
+  }
+
+  let standalone = standaloneServices.get(runtime);
+  if (!standalone) {
+    standalone = new SwigWalletService(runtime);
+    standaloneServices.set(runtime, standalone);
+  }
+  return standalone;
+}
@@ -0,0 +1,223 @@
+import { type IAgentRuntime } from '@elizaos/core';
+import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import {
+  AuthorityType,
+  getCreateSessionInstructions,
+  type Role,
+  type Swig,
+} from '@swig-wallet/classic';
+import { getAuthorityDetails } from './authorities.js';
+import { SLOT_DURATION_MS, SLOTS_PER_WINDOW_UNIT } from './permissions.js';
+import { getSwigWalletService } from './services/swigWallet.js';
+import { sendSwigTransaction } from './transactions.js';
+import { SolanaWalletProvider, SwigSessionRecord } from './types.js';
+
+const SESSION_CACHE_PREFIX = 'swig-session';
+const DEFAULT_SESSION_TTL_MINUTES = 60;
+
+/**
+ * Sessions are refreshed once less than this share of their duration is left
+ */
+const SESSION_REFRESH_THRESHOLD = 0.2;
+
+export interface ActiveSwigSession {
+  keypair: Keypair;
+  /** The Swig account the session role was read from, current after a refresh */
+  swig: Swig;
+  role: Role;
+  record: SwigSessionRecord;
+  /** Signature of the extra transaction that refreshed the session key, if one was sent */
+  refreshSignature?: string;
+}
+
+function getSessionCacheKey(swigAddress: PublicKey): string {
+  return `${SESSION_CACHE_PREFIX}:${swigAddress.toBase58()}`;
+}
+
+/**
+ * Parse a session TTL from a chat message ("for 30 minutes", "2 hours", "5000 slots"),
+ * falling back to SWIG_SESSION_TTL_MINUTES or one hour. Returns the TTL in slots.
+ */
+export function parseSessionDuration(runtime: IAgentRuntime, text: string): number {
+  const match = text.match(
+    /\b(?:for|ttl|lasting|of|in)\s+(\d+)\s*(slots?|minutes?|mins?|hours?|hrs?|days?)\b/i
+  );
+  if (match) {
+    const value = parseInt(match[1]);
+    const unit = match[2].toLowerCase();
+    if (unit.startsWith('slot')) return value;
+    if (unit.startsWith('h')) return value * SLOTS_PER_WINDOW_UNIT.hour;
+    if (unit.startsWith('d')) return value * SLOTS_PER_WINDOW_UNIT.day;
+    return Math.round((value * 60 * 1000) / SLOT_DURATION_MS);
+  }
+
+  const ttlMinutesSetting = runtime.getSetting('SWIG_SESSION_TTL_MINUTES');
+  const ttlMinutes = ttlMinutesSetting ? Number(ttlMinutesSetting) : DEFAULT_SESSION_TTL_MINUTES;
+  return Math.round((ttlMinutes * 60 * 1000) / SLOT_DURATION_MS);
+}
+
+/**
+ * Find the session-based role whose root key is the agent wallet
+ */
+export function findAgentSessionRole(swig: Swig, walletPublicKey: PublicKey): Role | undefined {
+  return swig.roles.find(
+    (role) =>
+      role.authority.type === AuthorityType.Ed25519Session &&
+      !!getAuthorityDetails(role.authority).solanaAddress?.equals(walletPublicKey)
+  );
+}
+
+/**
+ * Create a new session key for the agent's session role. The key is kept in
+ * the Swig wallet service's memory and only its public details go to the
+ * runtime cache. Any previous session key of the role stops being valid on-chain.
+ */
+export async function createSwigSession(
+  runtime: IAgentRuntime,
+  wallet: SolanaWalletProvider,
+  connection: Connection,
+  swigAddress: PublicKey,
+  swig: Swig,
+  sessionRole: Role,
+  durationSlots: number
+): Promise<ActiveSwigSession & { signature: string }> {
+  const keypair = Keypair.generate();
+  const sessionIxs = await getCreateSessionInstructions(
+    swig,
+    sessionRole.id,
+    keypair.publicKey,
+    BigInt(durationSlots),
+    { payer: wallet.publicKey }
+  );
+  const { signature } = await sendSwigTransaction(runtime, wallet, connection, sessionIxs);
+  const currentSlot = await connection.getSlot();
+
+  const record: SwigSessionRecord = {
+    swigAddress: swigAddress.toBase58(),
+    roleId: sessionRole.id,
+    sessionKey: keypair.publicKey.toBase58(),
+    durationSlots,
+    expirySlot: currentSlot + durationSlots,
+    expiresAt: Date.now() + durationSlots * SLOT_DURATION_MS,
+  };
+  getSwigWalletService(runtime).setSessionKey(swigAddress, keypair);
+  await runtime.setCache(getSessionCacheKey(swigAddress), record);
+
+  return { keypair, swig, role: sessionRole, record, signature };
+}
+
+/**
+ * Get the agent's active session for a Swig, refreshing it when it is close to
+ * expiring. Returns null when no session has been created, it has expired or
+ * its key is no longer in memory, e.g. after a restart. Pass `refresh: false`
+ * to never send a refresh transaction, e.g. in a dry run.
+ */
+export async function getActiveSwigSession(
+  runtime: IAgentRuntime,
+  wallet: SolanaWalletProvider,
+  connection: Connection,
+  swigAddress: PublicKey,
+  swig: Swig,
+  options: { refresh?: boolean } = {}
+): Promise<ActiveSwigSession | null> {
+  const cacheKey = getSessionCacheKey(swigAddress);
+  const record = await runtime.getCache<SwigSessionRecord>(cacheKey);
+  if (!record) {
+    return null;
+  }
+
+  const keypair = getSwigWalletService(runtime).getSessionKey(swigAddress);
+  if (!keypair || keypair.publicKey.toBase58() !== record.sessionKey) {
+    console.log('🔑 Swig session key not in memory, discarding session');
+    await runtime.deleteCache(cacheKey);
+    return null;
+  }
+
+  const role = swig.roles.find((swigRole) => swigRole.id === record.roleId);
+  const currentSlot = await connection.getSlot();
+  if (!role || currentSlot >= record.expirySlot) {
+    console.log('🔑 Swig session expired or role missing, discarding session');
+    await runtime.deleteCache(cacheKey);
+    return null;
+  }
+
+  if (
+    options.refresh !== false &&
+    record.expirySlot - currentSlot < record.durationSlots * SESSION_REFRESH_THRESHOLD
+  ) {
+    console.log('🔑 Swig session close to expiry, refreshing session key');
+    const refreshed = await createSwigSession(
+      runtime,
+      wallet,
+      connection,
+      swigAddress,
+      swig,
+      role,
+      record.durationSlots
+    );
+    const refreshedSwig = await getSwigWalletService(runtime).getSwig(swigAddress);
+    const refreshedRole =
+      refreshedSwig.roles.find((swigRole) => swigRole.id === record.roleId) || role;
+    return {
+      keypair: refreshed.keypair,
+      swig: refreshedSwig,
+      role: refreshedRole,
+      record: refreshed.record,
+      refreshSignature: refreshed.signature,
+    };
+  }
+
+  return {
+    keypair,
+    swig,
+    role,
+    record,
+  };
+}
+
+/**
+ * Describe the session key refresh a transfer triggered, as an extra reply line
+ */
+export function describeSessionRefresh(session: ActiveSwigSession | null): string {
+  return session?.refreshSignature
+    ? `\nSession Refresh: the session key was close to expiry and was renewed in an extra transaction (${session.refreshSignature})`
+    : '';
+}
+
+/**
+ * Revoke the agent's session for a Swig. The session key and its cached
+ * details are dropped first, so they are gone even when the revoke transaction
+ * fails, and the session role's key is then replaced on-chain with a throwaway
+ * key valid for a single slot.
+ */
+export async function revokeSwigSession(
+  runtime: IAgentRuntime,
+  wallet: SolanaWalletProvider,
+  connection: Connection,
+  swigAddress: PublicKey,
+  swig: Swig
+): Promise<{ record: SwigSessionRecord; signature: string } | null> {
+  const cacheKey = getSessionCacheKey(swigAddress);
+  const record = await runtime.getCache<SwigSessionRecord>(cacheKey);
+  if (!record) {
+    return null;
+  }
+
+  getSwigWalletService(runtime).deleteSessionKey(swigAddress);
+  await runtime.deleteCache(cacheKey);
+
+  const role = swig.roles.find((swigRole) => swigRole.id === record.roleId);
+  let signature = '';
+  if (role) {
+    const revokeIxs = await getCreateSessionInstructions(
+      swig,
+      role.id,
+      Keypair.generate().publicKey,
+      BigInt(1),
+      { payer: wallet.publicKey }
+    );
+    ({ signature } = await sendSwigTransaction(runtime, wallet, connection, revokeIxs));
+  }
+
+  return { record, signature };
+}
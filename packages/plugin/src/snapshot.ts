@@ -0,0 +1,204 @@
+import { type IAgentRuntime } from '@elizaos/core';
+import { Connection, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import {
+  getSwigWalletAddress,
+  type Role,
+  type SpendController,
+  type Swig,
+} from '@swig-wallet/classic';
+import { formatSlotDuration, formatWindow, getRemainingSpend } from './permissions.js';
+import { getTokenInfo } from './tokens.js';
+import { SwigAgentRoleSummary, SwigRemainingLimit, SwigWalletSnapshot } from './types.js';
+import { getSwigTokenHoldings } from './utils.js';
+
+const MAX_SNAPSHOT_TOKENS = 10;
+
+/**
+ * Describe what a spend controller still allows in UI amounts, or return null
+ * when the role cannot spend the asset at all
+ */
+function getRemainingLimit(
+  asset: string,
+  spend: SpendController,
+  decimals: number,
+  currentSlot: number,
+  mint?: string
+): SwigRemainingLimit | null {
+  if (!spend.isAllowed) {
+    return null;
+  }
+
+  const toUi = (amount: bigint) => Number(amount) / Math.pow(10, decimals);
+  const remaining = getRemainingSpend(spend, currentSlot);
+  const limit: SwigRemainingLimit = {
+    asset,
+    mint,
+    remaining: remaining === null ? null : toUi(remaining),
+  };
+
+  if (spend.window && spend.recurringLimit !== undefined) {
+    const resetSlot = Number((spend.lastReset ?? 0n) + spend.window);
+    limit.recurringLimit = toUi(spend.recurringLimit);
+    limit.window = formatWindow(spend.window);
+    if (resetSlot > currentSlot) {
+      limit.resetsIn = formatSlotDuration(resetSlot - currentSlot);
+    }
+  }
+
+  return limit;
+}
+
+/**
+ * Summarize one of the agent's roles with the limits left on SOL and the held tokens
+ */
+function summarizeRole(
+  role: Role,
+  tokens: { mint: PublicKey; decimals: number; symbol: string }[],
+  currentSlot: number
+): SwigAgentRoleSummary {
+  const actions = role.actions;
+  if (actions.isRoot()) {
+    return { roleId: role.id, root: true, manageAuthority: true, limits: [] };
+  }
+
+  const limits: SwigRemainingLimit[] = [];
+  const solLimit = getRemainingLimit('SOL', actions.solSpend(), 9, currentSlot);
+  limits.push(solLimit ?? { asset: 'SOL', remaining: 0 });
+
+  for (const token of tokens) {
+    const tokenLimit = getRemainingLimit(
+      token.symbol,
+      actions.tokenSpend(token.mint),
+      token.decimals,
+      currentSlot,
+      token.mint.toBase58()
+    );
+    if (tokenLimit) {
+      limits.push(tokenLimit);
+    }
+  }
+
+  return {
+    roleId: role.id,
+    root: false,
+    manageAuthority: actions.canManageAuthority(),
+    limits,
+  };
+}
+
+/**
+ * Fetch the balances of a Swig wallet and summarize the agent's roles on it.
+ * Pass null for a Swig that does not exist yet.
+ */
+export async function buildSwigWalletSnapshot(
+  runtime: IAgentRuntime,
+  connection: Connection,
+  swigAddress: PublicKey,
+  swig: Swig | null,
+  agentPublicKey: PublicKey
+): Promise<SwigWalletSnapshot> {
+  if (!swig) {
+    return {
+      swigAddress: swigAddress.toBase58(),
+      walletAddress: swigAddress.toBase58(),
+      exists: false,
+      solBalance: 0,
+      tokens: [],
+      roles: [],
+      fetchedAt: Date.now(),
+    };
+  }
+
+  const walletAddress = await getSwigWalletAddress(swig);
+  const [lamports, holdings, currentSlot] = await Promise.all([
+    connection.getBalance(walletAddress),
+    getSwigTokenHoldings(connection, walletAddress),
+    connection.getSlot(),
+  ]);
+
+  const tokens = holdings.map((holding) => {
+    const info = getTokenInfo(runtime, holding.mint);
+    return { ...holding, symbol: info.symbol, listed: info.decimals !== undefined };
+  });
+
+  // Listed tokens first, then the largest balances
+  const topTokens = tokens
+    .filter((token) => token.amount > 0)
+    .sort((a, b) => Number(b.listed) - Number(a.listed) || b.amount - a.amount)
+    .slice(0, MAX_SNAPSHOT_TOKENS);
+
+  return {
+    swigAddress: swigAddress.toBase58(),
+    walletAddress: walletAddress.toBase58(),
+    exists: true,
+    solBalance: lamports / LAMPORTS_PER_SOL,
+    tokens: topTokens.map((token) => ({
+      mint: token.mint.toBase58(),
+      symbol: token.symbol,
+      amount: token.amount,
+      decimals: token.decimals,
+    })),
+    roles: swig
+      .findRolesByEd25519SignerPk(agentPublicKey)
+      .map((role) => summarizeRole(role, tokens, currentSlot)),
+    fetchedAt: Date.now(),
+  };
+}
+
+/**
+ * Describe a remaining limit, e.g. "SOL: 0.4 left of 1 per day (resets in ~3h)"
+ */
+export function describeRemainingLimit(limit: SwigRemainingLimit): string {
+  if (limit.remaining === null) {
+    return `${limit.asset}: unlimited`;
+  }
+  if (limit.recurringLimit !== undefined) {
+    return `${limit.asset}: ${limit.remaining} left of ${limit.recurringLimit} ${limit.window}${
+      limit.resetsIn ? ` (resets in ${limit.resetsIn})` : ''
+    }`;
+  }
+  return `${limit.asset}: ${limit.remaining} left${limit.remaining === 0 ? ' (not allowed)' : ''}`;
+}
+
+/**
+ * Format a snapshot as lines of text for prompts and responses
+ */
+export function describeSwigWalletSnapshot(snapshot: SwigWalletSnapshot): string {
+  if (!snapshot.exists) {
+    return `No Swig wallet exists at ${snapshot.swigAddress} yet.`;
+  }
+
+  const lines = [
+    ...(snapshot.walletAddress !== snapshot.swigAddress
+      ? [`Wallet Address (holds the funds): ${snapshot.walletAddress}`]
+      : []),
+    `SOL Balance: ${snapshot.solBalance} SOL`,
+  ];
+
+  lines.push(
+    snapshot.tokens.length
+      ? `Token Balances:\n${snapshot.tokens
+          .map((token) => `- ${token.amount} ${token.symbol} (mint ${token.mint})`)
+          .join('\n')}`
+      : 'Token Balances: none'
+  );
+
+  if (!snapshot.roles.length) {
+    lines.push('Agent Roles: none, the agent cannot sign for this Swig');
+  } else {
+    lines.push(
+      `Agent Roles:\n${snapshot.roles
+        .map((role) =>
+          role.root
+            ? `- Role ${role.roleId}: full access`
+            : `- Role ${role.roleId}: ${[
+                ...role.limits.map(describeRemainingLimit),
+                `manage authorities: ${role.manageAuthority ? 'yes' : 'no'}`,
+              ].join('; ')}`
+        )
+        .join('\n')}`
+    );
+  }
+
+  return lines.join('\n');
+}
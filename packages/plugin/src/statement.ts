@@ -0,0 +1,322 @@
+import { type IAgentRuntime } from '@elizaos/core';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { findHistoryDateRange, scanSwigHistory, sumSwigNetworkFees } from './history.js';
+import { getTokenInfo } from './tokens.js';
+import { SwigStatement, SwigStatementBalance } from './types.js';
+import { getSwigTokenHoldings } from './utils.js';
+
+export type SwigStatementFormat = 'csv' | 'json';
+
+/**
+ * Most history records read for one statement: the period plus everything
+ * after it, which is needed to work back from the current balances
+ */
+const MAX_STATEMENT_RECORDS = 5000;
+
+/**
+ * Signatures looked at per account, back to the start of the period
+ */
+const MAX_STATEMENT_SIGNATURES = 20000;
+
+const MONTHS = [
+  'january',
+  'february',
+  'march',
+  'april',
+  'may',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december',
+];
+
+const CSV_COLUMNS = [
+  'type',
+  'date',
+  'signature',
+  'status',
+  'direction',
+  'asset',
+  'mint',
+  'amount',
+  'counterparty',
+  'role',
+  'instruction',
+  'fee_sol',
+  'fee_payer',
+];
+
+/**
+ * Get the calendar month before the one containing `now`, in UTC
+ */
+export function getPreviousMonthRange(now: number = Date.now()): { since: number; until: number } {
+  const date = new Date(now);
+  return {
+    since: Date.UTC(date.getUTCFullYear(), date.getUTCMonth() - 1, 1),
+    until: Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1),
+  };
+}
+
+/**
+ * Find the period a statement request asks for: a month ("for May", "April
+ * 2025"), any history date range ("last week", "since 2025-05-01"), else the
+ * previous calendar month. Open ranges end now.
+ */
+export function findSwigStatementRange(
+  text: string,
+  now: number = Date.now()
+): { since: number; until: number } {
+  const lower = text.toLowerCase();
+  const monthNames = MONTHS.join('|');
+  const month =
+    lower.match(new RegExp(`\\b(?:for|in|of)\\s+(${monthNames})(?:\\s+(\\d{4}))?\\b`)) ||
+    lower.match(new RegExp(`\\b(${monthNames})\\s+(\\d{4})\\b`));
+  if (month) {
+    const current = new Date(now);
+    const index = MONTHS.indexOf(month[1]);
+    // Without a year the month is the latest one that has started
+    const year = month[2]
+      ? Number(month[2])
+      : current.getUTCFullYear() - (index > current.getUTCMonth() ? 1 : 0);
+    return { since: Date.UTC(year, index, 1), until: Date.UTC(year, index + 1, 1) };
+  }
+
+  const range = findHistoryDateRange(lower, now);
+  if (range.since === undefined) {
+    return getPreviousMonthRange(now);
+  }
+  return { since: range.since, until: Math.min(range.until ?? now, now) };
+}
+
+/**
+ * Build the statement of a Swig wallet for a period. Closing balances are
+ * worked back from the current balances through every later transaction, and
+ * opening balances from the closing ones through the period's transactions.
+ * Throws when the history back to the start of the period is too long to read
+ * in full, since the balances would be wrong. Fees count only the
+ * transactions the agent or the Swig paid for.
+ */
+export async function buildSwigStatement(
+  runtime: IAgentRuntime,
+  connection: Connection,
+  swigAddress: PublicKey,
+  walletAddress: PublicKey,
+  range: { since: number; until: number },
+  agentAddress: PublicKey
+): Promise<SwigStatement> {
+  const [lamports, holdings, history] = await Promise.all([
+    connection.getBalance(walletAddress),
+    getSwigTokenHoldings(connection, walletAddress),
+    scanSwigHistory(
+      runtime,
+      connection,
+      swigAddress,
+      walletAddress,
+      { limit: MAX_STATEMENT_RECORDS, since: range.since },
+      MAX_STATEMENT_SIGNATURES
+    ),
+  ]);
+  if (!history.complete) {
+    throw new Error(
+      `The Swig has too many transactions since ${new Date(range.since).toISOString().slice(0, 10)} to build a complete statement (at most ${MAX_STATEMENT_RECORDS} records and ${MAX_STATEMENT_SIGNATURES} signatures per account). Please choose a more recent period.`
+    );
+  }
+  const records = history.records;
+
+  const balances = new Map<
+    string,
+    {
+      asset: string;
+      mint?: string;
+      decimals: number;
+      closing: bigint;
+      received: bigint;
+      sent: bigint;
+    }
+  >();
+  const getBalance = (mint: string | undefined, decimals: number) => {
+    const key = mint || 'SOL';
+    let balance = balances.get(key);
+    if (!balance) {
+      balance = {
+        asset: mint ? getTokenInfo(runtime, new PublicKey(mint)).symbol : 'SOL',
+        mint,
+        decimals,
+        closing: 0n,
+        received: 0n,
+        sent: 0n,
+      };
+      balances.set(key, balance);
+    }
+    return balance;
+  };
+
+  getBalance(undefined, 9).closing = BigInt(lamports);
+  for (const holding of holdings) {
+    getBalance(holding.mint.toBase58(), holding.decimals).closing += holding.rawAmount;
+  }
+
+  const transactions = records.filter((record) => record.timestamp < range.until).reverse();
+  for (const record of records) {
+    if (record.rawAmount === undefined || record.direction === 'other') {
+      continue;
+    }
+    const balance = getBalance(record.mint, record.decimals ?? 0);
+    const amount = BigInt(record.rawAmount);
+    if (record.timestamp >= range.until) {
+      // Undo what happened after the period
+      balance.closing -= record.direction === 'in' ? amount : -amount;
+    } else if (record.direction === 'in') {
+      balance.received += amount;
+    } else {
+      balance.sent += amount;
+    }
+  }
+
+  const toUi = (amount: bigint, decimals: number) => Number(amount) / Math.pow(10, decimals);
+  const statementBalances: SwigStatementBalance[] = [...balances.values()]
+    .map((balance) => {
+      const opening = balance.closing - balance.received + balance.sent;
+      return {
+        asset: balance.asset,
+        mint: balance.mint,
+        decimals: balance.decimals,
+        opening: toUi(opening, balance.decimals),
+        received: toUi(balance.received, balance.decimals),
+        sent: toUi(balance.sent, balance.decimals),
+        closing: toUi(balance.closing, balance.decimals),
+      };
+    })
+    .filter(
+      (balance) =>
+        !balance.mint || balance.opening || balance.closing || balance.received || balance.sent
+    );
+
+  return {
+    swigAddress: swigAddress.toBase58(),
+    since: range.since,
+    until: range.until,
+    generatedAt: Date.now(),
+    balances: statementBalances,
+    transactions,
+    fees: sumSwigNetworkFees(transactions, [agentAddress.toBase58(), swigAddress.toBase58()]),
+  };
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/**
+ * Describe the period of a statement, e.g. "2025-05-01 to 2025-05-31 (UTC)"
+ */
+export function describeSwigStatementPeriod(statement: SwigStatement): string {
+  return `${formatDate(statement.since)} to ${formatDate(statement.until - 1)} (UTC)`;
+}
+
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format a statement as one CSV table: opening balances, every transaction
+ * record, closing balances and the fee total. A transaction that moved
+ * several assets has several rows, and only its first row carries the fee.
+ */
+export function formatSwigStatementCsv(statement: SwigStatement): string {
+  const rows: (string | number | undefined)[][] = [];
+  const since = new Date(statement.since).toISOString();
+  const until = new Date(statement.until).toISOString();
+
+  for (const balance of statement.balances) {
+    rows.push(['opening_balance', since, '', '', '', balance.asset, balance.mint, balance.opening]);
+  }
+
+  const feeCharged = new Set<string>();
+  for (const record of statement.transactions) {
+    const firstRow = !feeCharged.has(record.signature);
+    feeCharged.add(record.signature);
+    rows.push([
+      'transaction',
+      new Date(record.timestamp).toISOString(),
+      record.signature,
+      record.status,
+      record.direction,
+      record.asset,
+      record.mint,
+      record.amount,
+      record.counterparty,
+      record.roleId,
+      record.instruction,
+      firstRow ? record.fee : undefined,
+      firstRow ? record.feePayer : undefined,
+    ]);
+  }
+
+  for (const balance of statement.balances) {
+    rows.push(['closing_balance', until, '', '', '', balance.asset, balance.mint, balance.closing]);
+  }
+  rows.push(['fees', until, '', '', '', 'SOL', '', '', '', '', '', statement.fees]);
+
+  // Every row has a field per column, so spreadsheets keep them aligned
+  return (
+    [CSV_COLUMNS, ...rows]
+      .map((row) => CSV_COLUMNS.map((_column, index) => csvField(row[index])).join(','))
+      .join('\n') + '\n'
+  );
+}
+
+/**
+ * Format a statement as JSON with ISO 8601 dates
+ */
+export function formatSwigStatementJson(statement: SwigStatement): string {
+  return JSON.stringify(
+    {
+      ...statement,
+      since: new Date(statement.since).toISOString(),
+      until: new Date(statement.until).toISOString(),
+      generatedAt: new Date(statement.generatedAt).toISOString(),
+      transactions: statement.transactions.map((record) => ({
+        ...record,
+        timestamp: new Date(record.timestamp).toISOString(),
+      })),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Format a statement as a downloadable file with its name and content type
+ */
+export function formatSwigStatement(
+  statement: SwigStatement,
+  format: SwigStatementFormat
+): { fileName: string; contentType: string; body: string } {
+  const fileName = `swig-statement-${statement.swigAddress.slice(0, 8)}-${formatDate(
+    statement.since
+  )}-${formatDate(statement.until - 1)}.${format}`;
+  return format === 'csv'
+    ? { fileName, contentType: 'text/csv', body: formatSwigStatementCsv(statement) }
+    : { fileName, contentType: 'application/json', body: formatSwigStatementJson(statement) };
+}
+
+/**
+ * Summarize a statement for chat, e.g. "- USDC: 100 → 75 (received 25, sent 50)"
+ */
+export function describeSwigStatement(statement: SwigStatement): string {
+  const balances = statement.balances.map(
+    (balance) =>
+      `- ${balance.asset}: ${balance.opening} → ${balance.closing} (received ${balance.received}, sent ${balance.sent})`
+  );
+  return [
+    `Period: ${describeSwigStatementPeriod(statement)}`,
+    `Balances:\n${balances.join('\n')}`,
+    `Transactions: ${new Set(statement.transactions.map((record) => record.signature)).size}`,
+    `Network Fees: ${statement.fees} SOL`,
+  ].join('\n');
+}
@@ -0,0 +1,172 @@
+import {
+  createAssociatedTokenAccountInstruction,
+  createTransferInstruction,
+  getAccount,
+  getAssociatedTokenAddress,
+  getMint,
+} from '@solana/spl-token';
+import {
+  Connection,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import { findSwigSubAccountPda, type Role, type Swig } from '@swig-wallet/classic';
+
+const SUB_ACCOUNT_REGEX = /\bsub[- ]?accounts?\b/i;
+const ROLE_ID_REGEX = /\brole\s*(?:id\s*)?(\d+)/i;
+
+export interface SubAccountTarget {
+  role: Role;
+  subAccount: PublicKey;
+  exists: boolean;
+}
+
+export interface SubAccountAsset {
+  /** Amount in UI units (SOL or tokens) */
+  amount: number;
+  /** Token mint, omitted for SOL */
+  mint?: PublicKey;
+}
+
+export interface AssetTransfer {
+  instructions: TransactionInstruction[];
+  /** Amount in base units (lamports or raw token amount) */
+  rawAmount: bigint;
+  decimals: number;
+}
+
+/**
+ * Check whether a chat message talks about a Swig sub-account
+ */
+export function mentionsSubAccount(text: string): boolean {
+  return SUB_ACCOUNT_REGEX.test(text);
+}
+
+/**
+ * Find the sub-account a message refers to among the agent's roles.
+ *
+ * A sub-account belongs to one role and is controlled by that role's
+ * authority, so only roles the agent holds are considered. "role N" picks a
+ * role explicitly; otherwise the first role with an existing sub-account is
+ * used, or, when creating, the first role without one.
+ */
+export async function resolveSubAccountTarget(
+  connection: Connection,
+  swig: Swig,
+  agentRoles: Role[],
+  text: string,
+  options: { create?: boolean } = {}
+): Promise<SubAccountTarget> {
+  const roleIdMatch = text.match(ROLE_ID_REGEX);
+  let candidates = agentRoles;
+  if (roleIdMatch) {
+    const roleId = parseInt(roleIdMatch[1]);
+    candidates = agentRoles.filter((role) => role.id === roleId);
+    if (!candidates.length) {
+      throw new Error(
+        `Role ${roleId} is not held by the agent in this Swig, so the agent cannot manage its sub-account.`
+      );
+    }
+  }
+
+  const targets: SubAccountTarget[] = [];
+  for (const role of candidates) {
+    const subAccount = findSwigSubAccountPda(Uint8Array.from(swig.id), role.id);
+    const accountInfo = await connection.getAccountInfo(subAccount);
+    targets.push({ role, subAccount, exists: !!accountInfo });
+  }
+
+  const target = targets.find((candidate) => candidate.exists === !options.create);
+  if (!target) {
+    throw new Error(
+      options.create
+        ? `Every selected role already has a sub-account (${targets.map((t) => `role ${t.role.id}: ${t.subAccount.toBase58()}`).join(', ')}).`
+        : `No sub-account found for ${roleIdMatch ? `role ${roleIdMatch[1]}` : "the agent's roles"}. Create one first, e.g. 'create a sub-account for role 1'.`
+    );
+  }
+
+  return target;
+}
+
+/**
+ * Parse the amount and optional token mint of a sub-account operation, e.g.
+ * "2 SOL" or "100 tokens mint <MINT>". Role ids are ignored when looking for the amount.
+ */
+export function parseSubAccountAsset(text: string): SubAccountAsset | null {
+  const withoutRole = text.replace(new RegExp(ROLE_ID_REGEX.source, 'gi'), '');
+  const amountMatch = withoutRole.match(/(\d+(?:\.\d+)?)/);
+  if (!amountMatch) {
+    return null;
+  }
+
+  const mintMatch = withoutRole.match(/mint\s+([1-9A-HJ-NP-Za-km-z]{32,44})/i);
+  return {
+    amount: parseFloat(amountMatch[1]),
+    mint: mintMatch ? new PublicKey(mintMatch[1]) : undefined,
+  };
+}
+
+/**
+ * Describe an asset amount for responses, e.g. "2 SOL" or "100 tokens of mint <MINT>"
+ */
+export function describeAsset(asset: SubAccountAsset): string {
+  return asset.mint
+    ? `${asset.amount} tokens of mint ${asset.mint.toBase58()}`
+    : `${asset.amount} SOL`;
+}
+
+/**
+ * Convert an asset amount to base units using the mint's decimals
+ */
+export async function getRawAssetAmount(
+  connection: Connection,
+  asset: SubAccountAsset
+): Promise<{ rawAmount: bigint; decimals: number }> {
+  if (!asset.mint) {
+    return { rawAmount: BigInt(Math.round(asset.amount * LAMPORTS_PER_SOL)), decimals: 9 };
+  }
+  const mintInfo = await getMint(connection, asset.mint);
+  return {
+    rawAmount: BigInt(Math.round(asset.amount * Math.pow(10, mintInfo.decimals))),
+    decimals: mintInfo.decimals,
+  };
+}
+
+/**
+ * Build the inner instructions moving SOL or tokens between two accounts owned
+ * by Swig PDAs or regular wallets. The recipient's token account is created
+ * (paid by `payer`) when missing.
+ */
+export async function buildAssetTransfer(
+  connection: Connection,
+  payer: PublicKey,
+  from: PublicKey,
+  to: PublicKey,
+  asset: SubAccountAsset
+): Promise<AssetTransfer> {
+  const { rawAmount, decimals } = await getRawAssetAmount(connection, asset);
+  if (!asset.mint) {
+    return {
+      instructions: [
+        SystemProgram.transfer({ fromPubkey: from, toPubkey: to, lamports: rawAmount }),
+      ],
+      rawAmount,
+      decimals,
+    };
+  }
+
+  const fromAta = await getAssociatedTokenAddress(asset.mint, from, true);
+  const toAta = await getAssociatedTokenAddress(asset.mint, to, true);
+
+  const instructions: TransactionInstruction[] = [];
+  try {
+    await getAccount(connection, toAta);
+  } catch {
+    instructions.push(createAssociatedTokenAccountInstruction(payer, toAta, to, asset.mint));
+  }
+  instructions.push(createTransferInstruction(fromAta, toAta, from, rawAmount));
+
+  return { instructions, rawAmount, decimals };
+}
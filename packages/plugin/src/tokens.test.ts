@@ -0,0 +1,70 @@
+import type { IAgentRuntime } from '@elizaos/core';
+import { describe, expect, it } from 'vitest';
+import { findTokenCandidates, mentionsKnownToken, saveTokenAlias } from './tokens.js';
+
+const BONK_MINT = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+function createRuntime(cache: Record<string, unknown> = {}): IAgentRuntime {
+  const settings: Record<string, string> = { SOLANA_CLUSTER: 'mainnet-beta' };
+  return {
+    getSetting: (key: string) => settings[key],
+    getCache: async (key: string) => cache[key],
+    setCache: async (key: string, value: unknown) => {
+      cache[key] = value;
+      return true;
+    },
+  } as unknown as IAgentRuntime;
+}
+
+describe('saveTokenAlias', () => {
+  it.each(['sol', 'wsol', 'send', 'transfer', 'pay', 'from', 'balance'])(
+    'refuses the reserved word "%s"',
+    async (alias) => {
+      const runtime = createRuntime();
+      await expect(
+        saveTokenAlias(runtime, { alias, mint: BONK_MINT, createdAt: 0 })
+      ).rejects.toThrow('reserved');
+    }
+  );
+
+  it('refuses the symbol of a different listed token', async () => {
+    const runtime = createRuntime();
+    await expect(
+      saveTokenAlias(runtime, { alias: 'usdc', mint: BONK_MINT, createdAt: 0 })
+    ).rejects.toThrow('already the symbol of USD Coin');
+  });
+
+  it('saves an unreserved alias', async () => {
+    const runtime = createRuntime();
+    await saveTokenAlias(runtime, { alias: 'stable', mint: BONK_MINT, createdAt: 0 });
+    const [token] = await findTokenCandidates(runtime, 'stable');
+    expect(token.mint).toBe(BONK_MINT);
+  });
+});
+
+describe('mentionsKnownToken', () => {
+  it('does not treat SOL transfers as token transfers', async () => {
+    const runtime = createRuntime();
+    expect(await mentionsKnownToken(runtime, 'send 1 SOL from swig to bob')).toBe(false);
+  });
+
+  it('ignores an alias outside a token position', async () => {
+    const runtime = createRuntime();
+    await saveTokenAlias(runtime, { alias: 'bob', mint: BONK_MINT, createdAt: 0 });
+    expect(await mentionsKnownToken(runtime, 'send 1 SOL from swig to bob')).toBe(false);
+    expect(await mentionsKnownToken(runtime, 'send 5 bob from swig to alice')).toBe(true);
+  });
+
+  it('ignores reserved aliases saved before they were reserved', async () => {
+    const runtime = createRuntime({
+      'swig-token-aliases:mainnet-beta': [{ alias: 'sol', mint: BONK_MINT, createdAt: 0 }],
+    });
+    expect(await mentionsKnownToken(runtime, 'send 1 sol from swig to bob')).toBe(false);
+    expect(await findTokenCandidates(runtime, 'sol')).toEqual([]);
+  });
+
+  it('still recognises listed token symbols', async () => {
+    const runtime = createRuntime();
+    expect(await mentionsKnownToken(runtime, 'send 25 USDC from swig to bob')).toBe(true);
+  });
+});
@@ -0,0 +1,455 @@
+import { readFileSync } from 'fs';
+import { type IAgentRuntime } from '@elizaos/core';
+import { PublicKey } from '@solana/web3.js';
+import { z } from 'zod';
+import { findAddressAfter, isSolanaAddress } from './parameters.js';
+import { SolanaCluster, SwigTokenAlias, SwigTokenInfo } from './types.js';
+import { formatShortAddress } from './utils.js';
+
+const TOKEN_ALIAS_CACHE_PREFIX = 'swig-token-aliases';
+
+/**
+ * Tokens known without a token list file, per cluster
+ */
+const DEFAULT_TOKENS: Record<SolanaCluster, SwigTokenInfo[]> = {
+  'mainnet-beta': [
+    {
+      mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+      symbol: 'USDC',
+      name: 'USD Coin',
+      decimals: 6,
+    },
+    {
+      mint: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB',
+      symbol: 'USDT',
+      name: 'Tether USD',
+      decimals: 6,
+    },
+    {
+      mint: '2b1kV6DkPAnxd5ixfnxCpjxmKwqjjaYmCZfHsFu24GXo',
+      symbol: 'PYUSD',
+      name: 'PayPal USD',
+      decimals: 6,
+    },
+    {
+      mint: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263',
+      symbol: 'BONK',
+      name: 'Bonk',
+      decimals: 5,
+    },
+    {
+      mint: 'JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN',
+      symbol: 'JUP',
+      name: 'Jupiter',
+      decimals: 6,
+    },
+    {
+      mint: 'EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm',
+      symbol: 'WIF',
+      name: 'dogwifhat',
+      decimals: 6,
+    },
+    {
+      mint: 'mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So',
+      symbol: 'mSOL',
+      name: 'Marinade staked SOL',
+      decimals: 9,
+    },
+    {
+      mint: 'J1toso1uCk3RLmjorhTtrVwY9HJ7X8V9yYac6Y7kGCPn',
+      symbol: 'jitoSOL',
+      name: 'Jito Staked SOL',
+      decimals: 9,
+    },
+    {
+      mint: 'So11111111111111111111111111111111111111112',
+      symbol: 'wSOL',
+      name: 'Wrapped SOL',
+      decimals: 9,
+    },
+  ],
+  devnet: [
+    {
+      mint: '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU',
+      symbol: 'USDC',
+      name: 'USD Coin (devnet)',
+      decimals: 6,
+    },
+    {
+      mint: 'So11111111111111111111111111111111111111112',
+      symbol: 'wSOL',
+      name: 'Wrapped SOL',
+      decimals: 9,
+    },
+  ],
+  testnet: [
+    {
+      mint: 'So11111111111111111111111111111111111111112',
+      symbol: 'wSOL',
+      name: 'Wrapped SOL',
+      decimals: 9,
+    },
+  ],
+  localnet: [
+    {
+      mint: 'So11111111111111111111111111111111111111112',
+      symbol: 'wSOL',
+      name: 'Wrapped SOL',
+      decimals: 9,
+    },
+  ],
+};
+
+/**
+ * Chain IDs used by the Solana token list format
+ */
+const CLUSTER_CHAIN_IDS: Record<SolanaCluster, number | undefined> = {
+  'mainnet-beta': 101,
+  testnet: 102,
+  devnet: 103,
+  localnet: undefined,
+};
+
+/**
+ * Words that can appear where a token is usually named ("5 tokens", "check
+ * balance", "how much is") without naming one
+ */
+const NON_TOKEN_WORDS = [
+  'a',
+  'all',
+  'an',
+  'and',
+  'are',
+  'available',
+  'balance',
+  'check',
+  'current',
+  'do',
+  'does',
+  'for',
+  'from',
+  'get',
+  'has',
+  'have',
+  'in',
+  'is',
+  'its',
+  'left',
+  'many',
+  'much',
+  'my',
+  'of',
+  'or',
+  'our',
+  'remaining',
+  'see',
+  'show',
+  'spl',
+  'swig',
+  'that',
+  'the',
+  'this',
+  'to',
+  'token',
+  'tokens',
+  'total',
+  'view',
+  'wallet',
+  'what',
+  'whats',
+  'your',
+];
+
+/**
+ * Words a token alias cannot use: the common words above, plus SOL and the
+ * transfer verbs that every SOL transfer request contains
+ */
+const RESERVED_ALIASES = [...NON_TOKEN_WORDS, 'pay', 'send', 'sol', 'transfer', 'wsol'];
+
+const TOKEN_WORD_PATTERN = '([a-z][a-z0-9_-]{1,15})';
+
+const tokenListEntrySchema = z.object({
+  chainId: z.number().optional(),
+  address: z.string().refine((value) => isSolanaAddress(value)),
+  symbol: z.string().trim().min(1),
+  name: z.string().trim().min(1),
+  decimals: z.number().int().nonnegative(),
+});
+
+const tokenListSchema = z.union([z.object({ tokens: z.array(z.unknown()) }), z.array(z.unknown())]);
+
+/**
+ * A token as the user named it: a symbol, name, saved alias or mint address,
+ * checked with resolveToken once extracted
+ */
+export const tokenSchema = z.string().trim().min(1);
+
+export const TOKEN_FIELD_DESCRIPTION =
+  'the token to send as the user named it: its symbol (e.g. "USDC"), name, saved alias or base58 mint address';
+
+const tokenListFiles = new Map<string, SwigTokenInfo[]>();
+
+/**
+ * Get the cluster the plugin talks to: the SOLANA_CLUSTER setting, else a guess
+ * from SOLANA_RPC_URL that defaults to mainnet-beta
+ */
+export function getSolanaCluster(runtime: IAgentRuntime): SolanaCluster {
+  const clusterSetting = String(runtime.getSetting('SOLANA_CLUSTER') || '').toLowerCase();
+  if (clusterSetting === 'mainnet' || clusterSetting === 'mainnet-beta') {
+    return 'mainnet-beta';
+  }
+  if (
+    clusterSetting === 'devnet' ||
+    clusterSetting === 'testnet' ||
+    clusterSetting === 'localnet'
+  ) {
+    return clusterSetting;
+  }
+
+  const rpcUrl = String(runtime.getSetting('SOLANA_RPC_URL') || '').toLowerCase();
+  if (rpcUrl.includes('devnet')) {
+    return 'devnet';
+  }
+  if (rpcUrl.includes('testnet')) {
+    return 'testnet';
+  }
+  if (rpcUrl.includes('localhost') || rpcUrl.includes('127.0.0.1')) {
+    return 'localnet';
+  }
+  return 'mainnet-beta';
+}
+
+/**
+ * Read the tokens of a cluster from a JSON token list file. Accepts the Solana
+ * token list format ({ "tokens": [...] }) or a plain array of entries; entries
+ * without a chainId apply to every cluster. Invalid entries are skipped.
+ */
+function readTokenListFile(path: string, cluster: SolanaCluster): SwigTokenInfo[] {
+  const cacheKey = `${path}:${cluster}`;
+  const cached = tokenListFiles.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  let tokens: SwigTokenInfo[] = [];
+  try {
+    const list = tokenListSchema.parse(JSON.parse(readFileSync(path, 'utf8')));
+    const entries = Array.isArray(list) ? list : list.tokens;
+    const chainId = CLUSTER_CHAIN_IDS[cluster];
+
+    tokens = entries.flatMap((entry) => {
+      const parsed = tokenListEntrySchema.safeParse(entry);
+      if (!parsed.success) {
+        console.warn('⚠️ Skipping invalid SWIG_TOKEN_LIST entry:', JSON.stringify(entry));
+        return [];
+      }
+      if (parsed.data.chainId !== undefined && parsed.data.chainId !== chainId) {
+        return [];
+      }
+      return [
+        {
+          mint: parsed.data.address,
+          symbol: parsed.data.symbol,
+          name: parsed.data.name,
+          decimals: parsed.data.decimals,
+        },
+      ];
+    });
+  } catch (error) {
+    console.warn(`⚠️ Ignoring SWIG_TOKEN_LIST "${path}", it could not be read:`, error);
+  }
+
+  tokenListFiles.set(cacheKey, tokens);
+  return tokens;
+}
+
+/**
+ * Get the tokens known on the current cluster: the bundled list, extended and
+ * overridden by the SWIG_TOKEN_LIST file when one is configured
+ */
+export function getTokenList(runtime: IAgentRuntime): SwigTokenInfo[] {
+  const cluster = getSolanaCluster(runtime);
+  const tokenListPath = runtime.getSetting('SWIG_TOKEN_LIST');
+  if (!tokenListPath) {
+    return DEFAULT_TOKENS[cluster];
+  }
+
+  const fileTokens = readTokenListFile(String(tokenListPath), cluster);
+  const fileMints = new Set(fileTokens.map((token) => token.mint));
+  return [...fileTokens, ...DEFAULT_TOKENS[cluster].filter((token) => !fileMints.has(token.mint))];
+}
+
+function getTokenAliasCacheKey(cluster: SolanaCluster): string {
+  return `${TOKEN_ALIAS_CACHE_PREFIX}:${cluster}`;
+}
+
+/**
+ * Get the token aliases users saved for the current cluster. Aliases saved
+ * before their word was reserved are ignored.
+ */
+export async function getTokenAliases(runtime: IAgentRuntime): Promise<SwigTokenAlias[]> {
+  const aliases =
+    (await runtime.getCache<SwigTokenAlias[]>(getTokenAliasCacheKey(getSolanaCluster(runtime)))) ||
+    [];
+  return aliases.filter((alias) => !RESERVED_ALIASES.includes(alias.alias));
+}
+
+/**
+ * Add or replace a token alias on the current cluster. Aliases cannot reuse
+ * common words, SOL, the transfer verbs or the symbol of a different listed
+ * token, so an alias never silently redirects a transfer of SOL or of a
+ * well-known token.
+ */
+export async function saveTokenAlias(runtime: IAgentRuntime, alias: SwigTokenAlias): Promise<void> {
+  if (RESERVED_ALIASES.includes(alias.alias)) {
+    throw new Error(`"${alias.alias}" is reserved and cannot be used as a token alias.`);
+  }
+  const listed = getTokenList(runtime).find(
+    (token) => token.symbol.toLowerCase() === alias.alias && token.mint !== alias.mint
+  );
+  if (listed) {
+    throw new Error(
+      `"${alias.alias}" is already the symbol of ${listed.name} (mint ${listed.mint}). Please choose another alias.`
+    );
+  }
+
+  const aliases = await getTokenAliases(runtime);
+  const updated = [...aliases.filter((existing) => existing.alias !== alias.alias), alias];
+  await runtime.setCache(getTokenAliasCacheKey(getSolanaCluster(runtime)), updated);
+}
+
+/**
+ * Describe a mint from the token list; mints that are not listed use a
+ * shortened address as their symbol
+ */
+export function getTokenInfo(runtime: IAgentRuntime, mint: PublicKey): SwigTokenInfo {
+  const listed = getTokenList(runtime).find((token) => token.mint === mint.toBase58());
+  if (listed) {
+    return listed;
+  }
+
+  const address = mint.toBase58();
+  return {
+    mint: address,
+    symbol: formatShortAddress(address),
+    name: 'Unlisted token',
+  };
+}
+
+/**
+ * Find the tokens a symbol, name, alias or mint address could refer to. Aliases
+ * win over the token list; symbols match case-insensitively unless that leaves
+ * several tokens and exactly one matches the exact case.
+ */
+export async function findTokenCandidates(
+  runtime: IAgentRuntime,
+  query: string
+): Promise<SwigTokenInfo[]> {
+  const trimmed = query.trim().replace(/^\$/, '');
+  if (isSolanaAddress(trimmed)) {
+    return [getTokenInfo(runtime, new PublicKey(trimmed))];
+  }
+
+  const lowerQuery = trimmed.toLowerCase();
+  const alias = (await getTokenAliases(runtime)).find((existing) => existing.alias === lowerQuery);
+  if (alias) {
+    const token = getTokenInfo(runtime, new PublicKey(alias.mint));
+    return [token.decimals === undefined ? { ...token, symbol: alias.alias } : token];
+  }
+
+  const tokens = getTokenList(runtime);
+  const symbolMatches = tokens.filter((token) => token.symbol.toLowerCase() === lowerQuery);
+  if (symbolMatches.length > 1) {
+    const exactMatches = symbolMatches.filter((token) => token.symbol === trimmed);
+    return exactMatches.length === 1 ? exactMatches : symbolMatches;
+  }
+  if (symbolMatches.length) {
+    return symbolMatches;
+  }
+
+  return tokens.filter((token) => token.name.toLowerCase() === lowerQuery);
+}
+
+/**
+ * Resolve a token a chat message refers to by symbol, name, alias or mint
+ * address. Unknown and ambiguous symbols are rejected with the candidates, so
+ * a transfer never picks a token the user did not mean.
+ */
+export async function resolveToken(runtime: IAgentRuntime, query: string): Promise<SwigTokenInfo> {
+  const candidates = await findTokenCandidates(runtime, query);
+  const cluster = getSolanaCluster(runtime);
+
+  if (candidates.length > 1) {
+    const list = candidates
+      .map((token) => `• ${token.symbol} - ${token.name} (mint ${token.mint})`)
+      .join('\n');
+    throw new Error(
+      `"${query}" matches ${candidates.length} tokens on ${cluster}:\n${list}\nPlease repeat the request with the mint address of the one you mean, or save an alias for it (e.g., 'save token alias ${query.toLowerCase()}-main for mint <ADDRESS>').`
+    );
+  }
+
+  if (!candidates.length) {
+    throw new Error(
+      `Unknown token "${query}" on ${cluster}. Use its mint address (e.g., 'mint <ADDRESS>'), add it to the SWIG_TOKEN_LIST file, or save an alias (e.g., 'save token alias ${query.toLowerCase()} for mint <ADDRESS>').`
+    );
+  }
+
+  return candidates[0];
+}
+
+/**
+ * Find the token a message refers to: the address after "mint", a cashtag
+ * ("$BONK"), the word after an amount ("5 USDC") or "how much", after
+ * "of"/"for" ("balance of USDC") or before "balance" ("my USDC balance"). Returns the raw text for
+ * resolveToken, or undefined when no token is named.
+ */
+export function findTokenQuery(text: string): string | undefined {
+  const mint = findAddressAfter(text, /\bmint/);
+  if (mint) {
+    return mint;
+  }
+
+  const patterns = [
+    new RegExp(`\\$${TOKEN_WORD_PATTERN}\\b`, 'gi'),
+    new RegExp(`(?<![\\w.])\\d+(?:\\.\\d+)?\\s+${TOKEN_WORD_PATTERN}\\b`, 'gi'),
+    new RegExp(`\\bhow\\s+(?:much|many)\\s+${TOKEN_WORD_PATTERN}\\b`, 'gi'),
+    new RegExp(`\\b(?:of|for)\\s+(?:the\\s+)?(?:token\\s+)?${TOKEN_WORD_PATTERN}\\b`, 'gi'),
+    new RegExp(`\\b${TOKEN_WORD_PATTERN}\\s+(?:token\\s+)?balance\\b`, 'gi'),
+  ];
+  for (const pattern of patterns) {
+    for (const match of text.matchAll(pattern)) {
+      if (!NON_TOKEN_WORDS.includes(match[1].toLowerCase())) {
+        return match[1];
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Check whether a message mentions the symbol of a listed token or a saved
+ * alias, e.g. "send 5 USDC" or "how much bonk is in my swig". Aliases only
+ * count where findTokenQuery finds a token, so an alias that is also a contact
+ * name or another word of the message never turns a SOL transfer into a token
+ * transfer.
+ */
+export async function mentionsKnownToken(runtime: IAgentRuntime, text: string): Promise<boolean> {
+  const symbols = new Set(getTokenList(runtime).map((token) => token.symbol.toLowerCase()));
+  const words = text.toLowerCase().match(/[a-z][a-z0-9_-]*/g) || [];
+  if (words.some((word) => symbols.has(word))) {
+    return true;
+  }
+
+  const query = findTokenQuery(text)?.toLowerCase();
+  return (
+    query !== undefined && (await getTokenAliases(runtime)).some((alias) => alias.alias === query)
+  );
+}
+
+/**
+ * Format a token for responses, e.g. "USDC (6 decimals)"
+ */
+export function describeToken(token: SwigTokenInfo, decimals: number): string {
+  return `${token.symbol} (${decimals} decimals)`;
+}
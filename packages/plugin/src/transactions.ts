@@ -0,0 +1,663 @@
+import { type IAgentRuntime } from '@elizaos/core';
+import { AccountLayout, getMint, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  Connection,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  Transaction,
+  TransactionExpiredBlockheightExceededError,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { getSwigWalletService } from './services/swigWallet.js';
+import {
+  SolanaWalletProvider,
+  SwigBalanceChange,
+  SwigPriorityFeeMode,
+  SwigSimulationReport,
+  SwigTransactionResult,
+} from './types.js';
+
+const MAX_COMPUTE_UNIT_LIMIT = 1_400_000;
+
+/**
+ * Headroom on top of the simulated compute units, since account state can
+ * change between simulation and landing
+ */
+const COMPUTE_UNIT_MARGIN = 1.1;
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+/**
+ * Program log lines included in dry-run replies
+ */
+const MAX_REPORTED_LOG_LINES = 20;
+
+/**
+ * How a transaction is compiled: a v0 message using the configured lookup
+ * tables, or a legacy transaction when versioned signing is not available
+ */
+interface TransactionFormat {
+  versioned: boolean;
+  lookupTables: AddressLookupTableAccount[];
+}
+
+/**
+ * Compute budget and format of a transaction, sized by simulation
+ */
+interface PreparedTransaction {
+  format: TransactionFormat;
+  priorityFeeMicroLamports: number;
+  computeUnitsConsumed?: number;
+  computeUnitLimit?: number;
+}
+
+export interface SendSwigTransactionOptions {
+  /** Signers besides the agent wallet, e.g. a Swig session key */
+  signers?: Keypair[];
+}
+
+/**
+ * Parse SWIG_PRIORITY_FEE: "none" (default), a fixed price in micro-lamports
+ * per compute unit (e.g. "5000"), or a percentile of recent fees paid for the
+ * accounts the transaction writes to (e.g. "p75" or "percentile:75")
+ */
+export function getPriorityFeeMode(runtime: IAgentRuntime): SwigPriorityFeeMode {
+  const setting = String(runtime.getSetting('SWIG_PRIORITY_FEE') ?? '')
+    .trim()
+    .toLowerCase();
+
+  if (!setting || setting === 'none' || setting === 'off') {
+    return { type: 'none' };
+  }
+
+  const percentileMatch = setting.match(/^(?:p|percentile[:\s]*)(\d{1,3})$/);
+  if (percentileMatch) {
+    return { type: 'percentile', percentile: Math.min(100, parseInt(percentileMatch[1])) };
+  }
+
+  if (/^\d+$/.test(setting)) {
+    const microLamports = parseInt(setting);
+    return microLamports > 0 ? { type: 'fixed', microLamports } : { type: 'none' };
+  }
+
+  console.warn(
+    `Invalid SWIG_PRIORITY_FEE "${setting}", expected none, a micro-lamport price or a percentile like p75. No priority fee is added.`
+  );
+  return { type: 'none' };
+}
+
+/**
+ * Get the compute-unit price in micro-lamports for a priority fee mode
+ */
+export async function getPriorityFeeMicroLamports(
+  connection: Connection,
+  mode: SwigPriorityFeeMode,
+  writableAccounts: PublicKey[]
+): Promise<number> {
+  if (mode.type === 'none') {
+    return 0;
+  }
+  if (mode.type === 'fixed') {
+    return mode.microLamports;
+  }
+
+  const recentFees = await connection.getRecentPrioritizationFees({
+    lockedWritableAccounts: writableAccounts,
+  });
+  if (!recentFees.length) {
+    return 0;
+  }
+
+  const fees = recentFees.map((fee) => fee.prioritizationFee).sort((a, b) => a - b);
+  const index = Math.min(
+    fees.length - 1,
+    Math.max(0, Math.ceil((mode.percentile / 100) * fees.length) - 1)
+  );
+  return fees[index];
+}
+
+function getWritableAccounts(instructions: TransactionInstruction[]): PublicKey[] {
+  const accounts = new Map<string, PublicKey>();
+  for (const instruction of instructions) {
+    for (const key of instruction.keys) {
+      if (key.isWritable) {
+        accounts.set(key.pubkey.toBase58(), key.pubkey);
+      }
+    }
+  }
+  return [...accounts.values()];
+}
+
+/**
+ * Load the address lookup table configured with SWIG_ADDRESS_LOOKUP_TABLE, if any
+ */
+export async function getAddressLookupTables(
+  runtime: IAgentRuntime,
+  connection: Connection
+): Promise<AddressLookupTableAccount[]> {
+  const lookupTableAddress = runtime.getSetting('SWIG_ADDRESS_LOOKUP_TABLE');
+  if (!lookupTableAddress) {
+    return [];
+  }
+
+  const lookupTable = await connection.getAddressLookupTable(
+    new PublicKey(String(lookupTableAddress))
+  );
+  if (!lookupTable.value) {
+    console.warn(`Address lookup table ${lookupTableAddress} not found, it is not used.`);
+    return [];
+  }
+  return [lookupTable.value];
+}
+
+/**
+ * Decide how to compile transactions. Versioned (v0) transactions are used
+ * unless the wallet cannot sign them or SWIG_TRANSACTION_VERSION is "legacy".
+ */
+async function getTransactionFormat(
+  runtime: IAgentRuntime,
+  wallet: SolanaWalletProvider,
+  connection: Connection
+): Promise<TransactionFormat> {
+  const versionSetting = String(runtime.getSetting('SWIG_TRANSACTION_VERSION') ?? '').toLowerCase();
+  if (versionSetting === 'legacy' || !wallet.signVersionedTransaction) {
+    return { versioned: false, lookupTables: [] };
+  }
+  return { versioned: true, lookupTables: await getAddressLookupTables(runtime, connection) };
+}
+
+function buildTransaction(
+  format: TransactionFormat,
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  computeUnitLimit: number | undefined,
+  priorityFeeMicroLamports: number,
+  blockhash: string
+): Transaction | VersionedTransaction {
+  const allInstructions: TransactionInstruction[] = [];
+  if (computeUnitLimit) {
+    allInstructions.push(ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnitLimit }));
+  }
+  if (priorityFeeMicroLamports > 0) {
+    allInstructions.push(
+      ComputeBudgetProgram.setComputeUnitPrice({ microLamports: priorityFeeMicroLamports })
+    );
+  }
+  allInstructions.push(...instructions);
+
+  if (format.versioned) {
+    const message = new TransactionMessage({
+      payerKey: payer,
+      recentBlockhash: blockhash,
+      instructions: allInstructions,
+    }).compileToV0Message(format.lookupTables);
+    return new VersionedTransaction(message);
+  }
+
+  const transaction = new Transaction().add(...allInstructions);
+  transaction.feePayer = payer;
+  transaction.recentBlockhash = blockhash;
+  return transaction;
+}
+
+async function signTransaction(
+  wallet: SolanaWalletProvider,
+  transaction: Transaction | VersionedTransaction,
+  signers: Keypair[]
+): Promise<Transaction | VersionedTransaction> {
+  if (transaction instanceof VersionedTransaction) {
+    if (!wallet.signVersionedTransaction) {
+      throw new Error('The wallet cannot sign versioned transactions.');
+    }
+    const signedTransaction = await wallet.signVersionedTransaction(transaction);
+    if (signers.length) {
+      signedTransaction.sign(signers);
+    }
+    return signedTransaction;
+  }
+
+  const signedTransaction: Transaction = await wallet.signTransaction(transaction);
+  for (const signer of signers) {
+    signedTransaction.partialSign(signer);
+  }
+  return signedTransaction;
+}
+
+/**
+ * Serialize a signed transaction, explaining the size limit when it is exceeded
+ */
+function serializeTransaction(transaction: Transaction | VersionedTransaction): Uint8Array {
+  try {
+    const serialized = transaction.serialize();
+    if (serialized.length > PACKET_DATA_SIZE) {
+      throw new RangeError(`${serialized.length} bytes`);
+    }
+    return serialized;
+  } catch (error) {
+    if (error instanceof RangeError || /too large/i.test(String(error))) {
+      throw new Error(
+        `Transaction exceeds the ${PACKET_DATA_SIZE}-byte size limit. Set SWIG_ADDRESS_LOOKUP_TABLE to an address lookup table holding the accounts it uses, or split the operation.`
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Simulate the transaction with the maximum compute-unit limit and return the
+ * units it consumed. Throws with the program logs when the simulation fails,
+ * so nothing is sent that is known to fail.
+ */
+async function simulateComputeUnits(
+  connection: Connection,
+  format: TransactionFormat,
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  priorityFeeMicroLamports: number
+): Promise<number | undefined> {
+  const { blockhash } = await connection.getLatestBlockhash('confirmed');
+  const transaction = buildTransaction(
+    format,
+    payer,
+    instructions,
+    MAX_COMPUTE_UNIT_LIMIT,
+    priorityFeeMicroLamports,
+    blockhash
+  );
+
+  const simulation =
+    transaction instanceof VersionedTransaction
+      ? await connection.simulateTransaction(transaction, { sigVerify: false })
+      : await connection.simulateTransaction(transaction);
+  if (simulation.value.err) {
+    const logs = simulation.value.logs?.slice(-5).join('\n');
+    throw new Error(
+      `Transaction simulation failed: ${JSON.stringify(simulation.value.err)}${logs ? `\n${logs}` : ''}`
+    );
+  }
+
+  return simulation.value.unitsConsumed;
+}
+
+function isBlockhashExpired(error: unknown): boolean {
+  if (error instanceof TransactionExpiredBlockheightExceededError) {
+    return true;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return /blockhash not found|block height exceeded/i.test(message);
+}
+
+/**
+ * Choose the transaction format and priority fee, then simulate to size the
+ * compute-unit limit
+ */
+async function prepareSwigTransaction(
+  runtime: IAgentRuntime,
+  wallet: SolanaWalletProvider,
+  connection: Connection,
+  instructions: TransactionInstruction[]
+): Promise<PreparedTransaction> {
+  const format = await getTransactionFormat(runtime, wallet, connection);
+
+  const priorityFeeMode = getPriorityFeeMode(runtime);
+  const priorityFeeMicroLamports = await getPriorityFeeMicroLamports(
+    connection,
+    priorityFeeMode,
+    getWritableAccounts(instructions)
+  );
+
+  const computeUnitsConsumed = await simulateComputeUnits(
+    connection,
+    format,
+    wallet.publicKey,
+    instructions,
+    priorityFeeMicroLamports
+  );
+  const computeUnitLimit = computeUnitsConsumed
+    ? Math.min(MAX_COMPUTE_UNIT_LIMIT, Math.ceil(computeUnitsConsumed * COMPUTE_UNIT_MARGIN))
+    : undefined;
+  console.log(
+    '🔧 Compute units:',
+    computeUnitsConsumed,
+    'limit:',
+    computeUnitLimit,
+    'priority fee (micro-lamports):',
+    priorityFeeMicroLamports,
+    'version:',
+    format.versioned ? 0 : 'legacy'
+  );
+
+  return { format, priorityFeeMicroLamports, computeUnitsConsumed, computeUnitLimit };
+}
+
+/**
+ * Read SWIG_TX_MAX_ATTEMPTS: a positive whole number of send attempts, else the
+ * default
+ */
+function getMaxAttempts(runtime: IAgentRuntime): number {
+  const setting = String(runtime.getSetting('SWIG_TX_MAX_ATTEMPTS') ?? '').trim();
+  if (!setting) {
+    return DEFAULT_MAX_ATTEMPTS;
+  }
+
+  const maxAttempts = /^\d+$/.test(setting) ? parseInt(setting) : 0;
+  if (maxAttempts > 0) {
+    return maxAttempts;
+  }
+
+  console.warn(
+    `Invalid SWIG_TX_MAX_ATTEMPTS "${setting}", expected a positive whole number. Using ${DEFAULT_MAX_ATTEMPTS} attempts.`
+  );
+  return DEFAULT_MAX_ATTEMPTS;
+}
+
+/**
+ * Sign, send and confirm a prepared transaction with a fresh blockhash,
+ * resending when the blockhash expired before it landed
+ */
+async function sendPreparedTransaction(
+  wallet: SolanaWalletProvider,
+  connection: Connection,
+  instructions: TransactionInstruction[],
+  prepared: PreparedTransaction,
+  signers: Keypair[],
+  maxAttempts: number
+): Promise<SwigTransactionResult> {
+  const { format, priorityFeeMicroLamports, computeUnitsConsumed, computeUnitLimit } = prepared;
+
+  for (let attempt = 1; ; attempt++) {
+    const latestBlockhash = await connection.getLatestBlockhash('confirmed');
+    const transaction = buildTransaction(
+      format,
+      wallet.publicKey,
+      instructions,
+      computeUnitLimit,
+      priorityFeeMicroLamports,
+      latestBlockhash.blockhash
+    );
+    const signedTransaction = await signTransaction(wallet, transaction, signers);
+    const serializedTransaction = serializeTransaction(signedTransaction);
+
+    try {
+      const signature = await connection.sendRawTransaction(serializedTransaction, {
+        preflightCommitment: 'confirmed',
+      });
+      console.log('🔧 Transaction sent, signature:', signature, 'attempt:', attempt);
+
+      const confirmation = await connection.confirmTransaction(
+        {
+          signature,
+          blockhash: latestBlockhash.blockhash,
+          lastValidBlockHeight: latestBlockhash.lastValidBlockHeight,
+        },
+        'confirmed'
+      );
+      if (confirmation.value.err) {
+        throw new Error(
+          `Transaction ${signature} failed: ${JSON.stringify(confirmation.value.err)}`
+        );
+      }
+
+      return {
+        signature,
+        slot: confirmation.context.slot,
+        attempts: attempt,
+        version: format.versioned ? 0 : 'legacy',
+        computeUnitLimit,
+        computeUnitsConsumed,
+        priorityFeeMicroLamports,
+      };
+    } catch (error) {
+      // An expired blockhash means the transaction can no longer land, so resending is safe
+      if (!isBlockhashExpired(error) || attempt >= maxAttempts) {
+        throw error;
+      }
+      console.log('🔧 Blockhash expired, retrying with a fresh blockhash...');
+    }
+  }
+}
+
+/**
+ * Send instructions paid and signed by the agent wallet. This is the pipeline
+ * every write action uses:
+ *
+ * 1. Compile a v0 message with the configured lookup table, or a legacy
+ *    transaction when the wallet cannot sign versioned ones
+ * 2. Simulate to size the compute-unit limit
+ * 3. Add a priority fee according to SWIG_PRIORITY_FEE
+ * 4. Sign, send and confirm, retrying with a fresh blockhash when the previous
+ *    one expired (up to SWIG_TX_MAX_ATTEMPTS, default 3)
+ * 5. Drop the Swig wallet service's cached Swig state
+ */
+export async function sendSwigTransaction(
+  runtime: IAgentRuntime,
+  wallet: SolanaWalletProvider,
+  connection: Connection,
+  instructions: TransactionInstruction[],
+  options: SendSwigTransactionOptions = {}
+): Promise<SwigTransactionResult> {
+  const prepared = await prepareSwigTransaction(runtime, wallet, connection, instructions);
+  const result = await sendPreparedTransaction(
+    wallet,
+    connection,
+    instructions,
+    prepared,
+    options.signers || [],
+    getMaxAttempts(runtime)
+  );
+
+  // Balances, roles and limits may have changed, so cached Swig state is stale
+  getSwigWalletService(runtime).invalidate();
+
+  return result;
+}
+
+/**
+ * Send and confirm a transaction
+ *
+ * @deprecated Use sendSwigTransaction, which also sizes the compute-unit limit
+ * and adds the configured priority fee. This sends the transaction's
+ * instructions as a legacy transaction paid by its fee payer (else the first
+ * signer), with the same fresh-blockhash retries.
+ */
+export async function sendAndConfirmTransaction(
+  connection: Connection,
+  transaction: Transaction,
+  signers: Keypair[]
+): Promise<string> {
+  const payer =
+    signers.find((signer) => transaction.feePayer?.equals(signer.publicKey)) || signers[0];
+  if (!payer) {
+    throw new Error('sendAndConfirmTransaction needs the fee payer among its signers.');
+  }
+
+  const wallet: SolanaWalletProvider = {
+    connection,
+    publicKey: payer.publicKey,
+    signTransaction: async (unsigned: Transaction) => {
+      unsigned.partialSign(payer);
+      return unsigned;
+    },
+    signAllTransactions: async (unsigned: Transaction[]) =>
+      unsigned.map((tx) => {
+        tx.partialSign(payer);
+        return tx;
+      }),
+  };
+  const { signature } = await sendPreparedTransaction(
+    wallet,
+    connection,
+    transaction.instructions,
+    { format: { versioned: false, lookupTables: [] }, priorityFeeMicroLamports: 0 },
+    signers.filter((signer) => signer !== payer),
+    DEFAULT_MAX_ATTEMPTS
+  );
+  return signature;
+}
+
+/**
+ * Check whether a write should only be simulated: SWIG_DRY_RUN=true, or a
+ * message asking to "simulate" or "dry run" it
+ */
+export function isDryRun(runtime: IAgentRuntime, text: string): boolean {
+  const dryRunSetting = runtime.getSetting('SWIG_DRY_RUN');
+  return String(dryRunSetting) === 'true' || /\b(?:simulate|simulation|dry[- ]?run)\b/i.test(text);
+}
+
+/**
+ * Describe the SOL and token balance change of one account between its current
+ * state and the simulated state
+ */
+async function getBalanceChange(
+  connection: Connection,
+  address: PublicKey,
+  before: { lamports: number; owner: PublicKey; data: Buffer } | null,
+  after: { lamports: number; owner: string; data: string[] } | null
+): Promise<SwigBalanceChange> {
+  const change: SwigBalanceChange = {
+    address: address.toBase58(),
+    lamports: (after?.lamports ?? 0) - (before?.lamports ?? 0),
+  };
+
+  const isTokenAccount = (owner?: string) =>
+    owner === TOKEN_PROGRAM_ID.toBase58() || owner === TOKEN_2022_PROGRAM_ID.toBase58();
+  const beforeToken =
+    before && isTokenAccount(before.owner.toBase58()) ? AccountLayout.decode(before.data) : null;
+  const afterToken =
+    after && isTokenAccount(after.owner)
+      ? AccountLayout.decode(Buffer.from(after.data[0], 'base64'))
+      : null;
+  const tokenState = afterToken || beforeToken;
+  if (tokenState) {
+    const mintInfo = await getMint(
+      connection,
+      tokenState.mint,
+      'confirmed',
+      new PublicKey(after?.owner || before!.owner)
+    );
+    const rawChange = (afterToken?.amount ?? 0n) - (beforeToken?.amount ?? 0n);
+    change.token = {
+      mint: tokenState.mint.toBase58(),
+      amount: Number(rawChange) / Math.pow(10, mintInfo.decimals),
+    };
+  }
+
+  return change;
+}
+
+/**
+ * Build and simulate the exact transaction a write would send, without sending
+ * it. Reports the expected balance change of every account it writes to, the
+ * fee, compute units and program logs.
+ */
+export async function simulateSwigTransaction(
+  runtime: IAgentRuntime,
+  wallet: SolanaWalletProvider,
+  connection: Connection,
+  instructions: TransactionInstruction[]
+): Promise<SwigSimulationReport> {
+  const { format, priorityFeeMicroLamports, computeUnitLimit } = await prepareSwigTransaction(
+    runtime,
+    wallet,
+    connection,
+    instructions
+  );
+
+  const { blockhash } = await connection.getLatestBlockhash('confirmed');
+  const transaction = buildTransaction(
+    format,
+    wallet.publicKey,
+    instructions,
+    computeUnitLimit,
+    priorityFeeMicroLamports,
+    blockhash
+  );
+
+  const addresses = [
+    wallet.publicKey,
+    ...getWritableAccounts(instructions).filter((address) => !address.equals(wallet.publicKey)),
+  ];
+  const accountsBefore = await connection.getMultipleAccountsInfo(addresses, 'confirmed');
+
+  const simulation =
+    transaction instanceof VersionedTransaction
+      ? await connection.simulateTransaction(transaction, {
+          sigVerify: false,
+          accounts: { encoding: 'base64', addresses: addresses.map((a) => a.toBase58()) },
+        })
+      : await connection.simulateTransaction(transaction, undefined, addresses);
+  const logs = simulation.value.logs || [];
+  if (simulation.value.err) {
+    throw new Error(
+      `Transaction simulation failed: ${JSON.stringify(simulation.value.err)}${
+        logs.length ? `\n${logs.slice(-5).join('\n')}` : ''
+      }`
+    );
+  }
+
+  const accountsAfter = simulation.value.accounts || [];
+  const balanceChanges: SwigBalanceChange[] = [];
+  for (let i = 0; i < addresses.length; i++) {
+    const change = await getBalanceChange(
+      connection,
+      addresses[i],
+      accountsBefore[i],
+      accountsAfter[i] ?? null
+    );
+    if (change.lamports !== 0 || change.token?.amount) {
+      balanceChanges.push(change);
+    }
+  }
+
+  const message =
+    transaction instanceof VersionedTransaction
+      ? transaction.message
+      : transaction.compileMessage();
+  const fee = (await connection.getFeeForMessage(message, 'confirmed')).value ?? 0;
+
+  return {
+    version: format.versioned ? 0 : 'legacy',
+    fee,
+    computeUnitsConsumed: simulation.value.unitsConsumed,
+    computeUnitLimit,
+    priorityFeeMicroLamports,
+    balanceChanges,
+    logs,
+  };
+}
+
+/**
+ * Format a simulation report for a dry-run reply
+ */
+export function formatSimulationReport(report: SwigSimulationReport): string {
+  const formatSigned = (value: number) => `${value > 0 ? '+' : ''}${value}`;
+  const changes = report.balanceChanges.length
+    ? report.balanceChanges
+        .map((change) => {
+          const parts: string[] = [];
+          if (change.lamports !== 0) {
+            parts.push(`${formatSigned(change.lamports / LAMPORTS_PER_SOL)} SOL`);
+          }
+          if (change.token?.amount) {
+            parts.push(`${formatSigned(change.token.amount)} tokens of mint ${change.token.mint}`);
+          }
+          return `• ${change.address}: ${parts.join(', ')}`;
+        })
+        .join('\n')
+    : '• No balance changes';
+  const logs = report.logs.slice(-MAX_REPORTED_LOG_LINES).join('\n');
+
+  return `Expected Balance Changes:\n${changes}\n\nFee: ${report.fee / LAMPORTS_PER_SOL} SOL${
+    report.priorityFeeMicroLamports
+      ? ` (including a priority fee of ${report.priorityFeeMicroLamports} micro-lamports per compute unit)`
+      : ''
+  }\nCompute Units: ${report.computeUnitsConsumed ?? 'unknown'}${
+    report.computeUnitLimit ? ` (limit ${report.computeUnitLimit})` : ''
+  }\n\nProgram Logs:\n${logs || '(none)'}\n\n🧪 Dry run only - nothing was sent.`;
+}
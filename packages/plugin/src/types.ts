@@ -1,4 +1,4 @@
-import { PublicKey } from '@solana/web3.js';
+import { PublicKey, VersionedTransaction } from '@solana/web3.js';
 import { IAgentRuntime } from '@elizaos/core';
 
 export interface SolanaWalletProvider {
@@ -6,6 +6,8 @@ export interface SolanaWalletProvider {
   publicKey: PublicKey;
   signTransaction: (transaction: any) => Promise<any>;
   signAllTransactions: (transactions: any[]) => Promise<any[]>;
+  /** Sign a v0 transaction; wallets without it fall back to legacy transactions */
+  signVersionedTransaction?: (transaction: VersionedTransaction) => Promise<VersionedTransaction>;
 }
 
 export interface SwigWalletConfig {
@@ -23,6 +25,312 @@ export interface SwigAuthority {
   address: string;
 }
 
+export interface SwigSpendLimit {
+  amount: number;
+  /** Length of the recurring window in slots, omitted for a one-time limit */
+  windowSlots?: number;
+}
+
+export interface SwigTokenLimit extends SwigSpendLimit {
+  mint: string;
+}
+
+export interface SwigPermissionRequest {
+  all: boolean;
+  manageAuthority: boolean;
+  solLimit?: SwigSpendLimit;
+  tokenLimits: SwigTokenLimit[];
+  programs: string[];
+}
+
+export interface SwigPermissionUpdate {
+  /** Replace the whole action set instead of editing individual permissions */
+  replace: boolean;
+  grant: SwigPermissionRequest;
+  removeSolLimit: boolean;
+  removeTokenLimits: string[];
+  removePrograms: string[];
+  revokeManageAuthority: boolean;
+}
+
+export interface SwigAuthorityDetails {
+  type: string;
+  address: string;
+  /** Solana address for Ed25519 based authorities */
+  solanaAddress?: PublicKey;
+}
+
+export interface SwigRegistryEntry {
+  /** Lowercase wallet name, e.g. "payroll" */
+  name: string;
+  /** Swig account address (base58) */
+  address: string;
+  /** Hex encoded id the Swig was created with, when the agent created the wallet */
+  id?: string;
+  createdAt: number;
+}
+
+export interface ResolvedSwig {
+  name: string;
+  address: PublicKey;
+}
+
+export interface SwigTokenBalance {
+  mint: string;
+  symbol: string;
+  /** UI amount */
+  amount: number;
+  decimals: number;
+}
+
+export interface SwigRemainingLimit {
+  /** "SOL" or a token symbol */
+  asset: string;
+  mint?: string;
+  /** UI amount still spendable, or null when spending is uncapped */
+  remaining: number | null;
+  /** Recurring limit per window, e.g. "per day" */
+  recurringLimit?: number;
+  window?: string;
+  /** Approximate time until a recurring limit resets, e.g. "~3h 20m" */
+  resetsIn?: string;
+}
+
+export interface SwigAgentRoleSummary {
+  roleId: number;
+  root: boolean;
+  manageAuthority: boolean;
+  limits: SwigRemainingLimit[];
+}
+
+/**
+ * State of a Swig wallet as seen by the agent, cached for prompt context
+ */
+export interface SwigWalletSnapshot {
+  swigAddress: string;
+  /** Address holding the funds, the Swig address itself for older Swigs */
+  walletAddress: string;
+  exists: boolean;
+  solBalance: number;
+  tokens: SwigTokenBalance[];
+  roles: SwigAgentRoleSummary[];
+  fetchedAt: number;
+}
+
+/**
+ * Funds that arrived in a Swig wallet from someone other than the agent
+ */
+export interface SwigDeposit {
+  swigAddress: string;
+  signature: string;
+  slot: number;
+  /** Token mint, or undefined for SOL */
+  mint?: string;
+  symbol: string;
+  /** UI amount */
+  amount: number;
+  /** Amount in base units (lamports or raw token amount) */
+  rawAmount: string;
+  decimals: number;
+  /** Account the funds came from, when it can be told from the transaction */
+  sender?: string;
+  /** Block time in milliseconds, or the time the deposit was seen */
+  timestamp: number;
+}
+
+/**
+ * Net change of one asset of a Swig wallet in a transaction
+ */
+export interface SwigAssetMovement {
+  /** Undefined for SOL */
+  mint?: string;
+  symbol: string;
+  decimals: number;
+  /** Raw amount, positive when the Swig received it */
+  delta: bigint;
+  /** Account that sent the funds in or received the funds out */
+  counterparty?: string;
+}
+
+export type SwigHistoryDirection = 'in' | 'out' | 'other';
+
+/**
+ * One asset movement of a Swig transaction, or the transaction itself when
+ * nothing moved (e.g. an authority change or a failed transfer)
+ */
+export interface SwigHistoryRecord {
+  signature: string;
+  slot: number;
+  /** Block time in milliseconds */
+  timestamp: number;
+  direction: SwigHistoryDirection;
+  /** "SOL" or a token symbol; undefined when nothing moved */
+  asset?: string;
+  mint?: string;
+  /** UI amount, always positive */
+  amount?: number;
+  /** Amount in base units (lamports or raw token amount) */
+  rawAmount?: string;
+  decimals?: number;
+  /** Sender of incoming or recipient of outgoing funds */
+  counterparty?: string;
+  /** Role that signed through the Swig, when the transaction used a Swig sign instruction */
+  roleId?: number;
+  /** Swig instruction of the transaction, e.g. "sign" or "add authority" */
+  instruction?: string;
+  /** Network fee in SOL, paid by the fee payer */
+  fee: number;
+  feePayer: string;
+  status: 'success' | 'failed';
+  error?: string;
+}
+
+export interface SwigHistoryFilters {
+  limit: number;
+  /** Inclusive start in milliseconds */
+  since?: number;
+  /** Exclusive end in milliseconds */
+  until?: number;
+  /** "SOL" or a token mint */
+  asset?: string;
+  direction?: Exclude<SwigHistoryDirection, 'other'>;
+}
+
+/**
+ * Balance of one asset of a Swig wallet over a statement period
+ */
+export interface SwigStatementBalance {
+  /** "SOL" or a token symbol */
+  asset: string;
+  mint?: string;
+  decimals: number;
+  /** UI amounts */
+  opening: number;
+  received: number;
+  sent: number;
+  closing: number;
+}
+
+export interface SwigStatement {
+  swigAddress: string;
+  /** Inclusive start in milliseconds */
+  since: number;
+  /** Exclusive end in milliseconds */
+  until: number;
+  generatedAt: number;
+  balances: SwigStatementBalance[];
+  /** History records of the period, oldest first */
+  transactions: SwigHistoryRecord[];
+  /** Network fees the agent or the Swig paid for the period's transactions in SOL */
+  fees: number;
+}
+
+/**
+ * An outgoing transfer as the spending policy sees it
+ */
+export interface SwigTransferIntent {
+  swigAddress: string;
+  /** "SOL" or a token mint */
+  asset: string;
+  symbol: string;
+  /** UI amount */
+  amount: number;
+  recipient: string;
+}
+
+/**
+ * A transfer counted against the spending policy's period caps from just
+ * before it is sent
+ */
+export interface SwigPolicySpend {
+  id: string;
+  swigAddress: string;
+  asset: string;
+  amount: number;
+  entityId: string;
+  roomId: string;
+  /** Unset while the transfer is being sent */
+  signature?: string;
+  timestamp: number;
+}
+
+export interface SwigPolicyDenial {
+  /** Name of the rule that blocked the transfer */
+  rule: string;
+  reason: string;
+}
+
+export type SwigRecipientMode = 'off' | 'allowlist' | 'denylist';
+
+/**
+ * Recipient lists managed from chat, on top of the SWIG_RECIPIENT_* settings
+ */
+export interface SwigRecipientLists {
+  /** Mode chosen in chat, used when SWIG_RECIPIENT_MODE is not set */
+  mode?: SwigRecipientMode;
+  allowed: string[];
+  denied: string[];
+}
+
+/**
+ * An outgoing transfer refused because of its recipient
+ */
+export interface SwigRecipientRefusal {
+  /** Name of the action that tried the transfer */
+  action: string;
+  swigAddress: string;
+  recipient: string;
+  symbol: string;
+  amount: number;
+  entityId: string;
+  roomId: string;
+  reason: string;
+  timestamp: number;
+}
+
+export interface SwigSessionRecord {
+  swigAddress: string;
+  roleId: number;
+  /** Ephemeral session public key (base58); its secret key is kept in memory only */
+  sessionKey: string;
+  durationSlots: number;
+  expirySlot: number;
+  /** Estimated expiry time in milliseconds since epoch */
+  expiresAt: number;
+}
+
+export interface SwigContact {
+  /** Lowercase name used in chat, e.g. "alice" or "treasury-bot" */
+  name: string;
+  /** Solana address of an address contact */
+  address?: string;
+  /** Role ID of a role contact, on the Swig at swigAddress */
+  roleId?: number;
+  swigAddress?: string;
+  /** Trusted address contacts are allowed recipients in allowlist mode */
+  trusted?: boolean;
+  /** Entity that saved the contact; only it or an admin can change or remove it */
+  createdBy?: string;
+  createdAt: number;
+}
+
+export interface PendingSwigOperation {
+  /** Short code the user replies with, e.g. "confirm ABC123" */
+  code: string;
+  /** Name of the action that runs the operation once confirmed */
+  action: string;
+  /** The user who requested the operation and must confirm it */
+  entityId: string;
+  roomId: string;
+  /** Original request text, replayed when confirmed */
+  text: string;
+  /** Parameters extracted from the request, reused when confirmed */
+  params?: Record<string, unknown>;
+  summary: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
 export interface SwigTransferResult {
   signature: string;
   amount: number;
@@ -30,6 +338,65 @@ export interface SwigTransferResult {
   mint?: string;
 }
 
+/**
+ * How the priority fee is chosen: none, a fixed price or a percentile of recent fees
+ */
+export type SwigPriorityFeeMode =
+  | { type: 'none' }
+  | { type: 'fixed'; microLamports: number }
+  | { type: 'percentile'; percentile: number };
+
+export interface SwigTransactionResult {
+  signature: string;
+  /** Slot the transaction was confirmed in */
+  slot?: number;
+  /** Number of send attempts, more than one when a blockhash expired */
+  attempts: number;
+  version: 0 | 'legacy';
+  /** Compute-unit limit requested, undefined when simulation reported no usage */
+  computeUnitLimit?: number;
+  /** Compute units used during the sizing simulation */
+  computeUnitsConsumed?: number;
+  /** Compute-unit price in micro-lamports, 0 without a priority fee */
+  priorityFeeMicroLamports: number;
+}
+
+export interface SwigBalanceChange {
+  address: string;
+  /** Lamport change, negative when SOL leaves the account */
+  lamports: number;
+  /** Token change of a token account, in UI units */
+  token?: { mint: string; amount: number };
+}
+
+export interface SwigSimulationReport {
+  version: 0 | 'legacy';
+  /** Total fee in lamports */
+  fee: number;
+  computeUnitsConsumed?: number;
+  computeUnitLimit?: number;
+  priorityFeeMicroLamports: number;
+  balanceChanges: SwigBalanceChange[];
+  logs: string[];
+}
+
+export type SolanaCluster = 'mainnet-beta' | 'devnet' | 'testnet' | 'localnet';
+
+export interface SwigTokenInfo {
+  mint: string;
+  symbol: string;
+  name: string;
+  /** Decimals from the token list, omitted for mints that are not listed */
+  decimals?: number;
+}
+
+export interface SwigTokenAlias {
+  /** Lowercase name the user gave the token */
+  alias: string;
+  mint: string;
+  createdAt: number;
+}
+
 export interface SolanaService {
   getWalletProvider(runtime: IAgentRuntime): SolanaWalletProvider | null;
 }
@@ -0,0 +1,46 @@
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { Keypair, type Connection, type PublicKey } from '@solana/web3.js';
+import { describe, expect, it } from 'vitest';
+import { getSwigTokenHoldings } from './utils.js';
+
+function createTokenAccount(mint: PublicKey, amount: string) {
+  return {
+    pubkey: Keypair.generate().publicKey,
+    account: {
+      data: {
+        parsed: {
+          info: {
+            mint: mint.toBase58(),
+            tokenAmount: { amount, decimals: 6, uiAmount: Number(amount) / 1e6 },
+          },
+        },
+      },
+    },
+  };
+}
+
+describe('getSwigTokenHoldings', () => {
+  it('lists token accounts of both the Token and the Token-2022 program', async () => {
+    const classicMint = Keypair.generate().publicKey;
+    const token2022Mint = Keypair.generate().publicKey;
+    const accounts = new Map([
+      [TOKEN_PROGRAM_ID.toBase58(), [createTokenAccount(classicMint, '1000000')]],
+      [TOKEN_2022_PROGRAM_ID.toBase58(), [createTokenAccount(token2022Mint, '2500000')]],
+    ]);
+    const connection = {
+      getParsedTokenAccountsByOwner: async (
+        _owner: PublicKey,
+        filter: { programId: PublicKey }
+      ) => ({
+        value: accounts.get(filter.programId.toBase58()) ?? [],
+      }),
+    } as unknown as Connection;
+
+    const holdings = await getSwigTokenHoldings(connection, Keypair.generate().publicKey);
+
+    expect(holdings.map((holding) => [holding.mint.toBase58(), holding.amount])).toEqual([
+      [classicMint.toBase58(), 1],
+      [token2022Mint.toBase58(), 2.5],
+    ]);
+  });
+});
@@ -1,13 +1,16 @@
-import { Connection, Keypair, Transaction } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { Connection, Keypair, PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
 import { IAgentRuntime, UUID } from '@elizaos/core';
 import { SolanaWalletProvider, SwigPluginConfig } from './types.js';
 
 /**
- * Get Solana connection from runtime settings
+ * Get Solana connection from runtime settings. Subscriptions use SOLANA_WS_URL
+ * when set, else the websocket endpoint derived from the RPC URL.
  */
 export function getSolanaConnection(runtime: IAgentRuntime): Connection {
   const rpcUrl = runtime.getSetting('SOLANA_RPC_URL') || 'https://api.mainnet-beta.solana.com';
-  return new Connection(rpcUrl, 'confirmed');
+  const wsEndpoint = runtime.getSetting('SOLANA_WS_URL') || undefined;
+  return new Connection(rpcUrl, { commitment: 'confirmed', wsEndpoint });
 }
 
 /**
@@ -41,16 +44,21 @@ export async function getSolanaWallet(
     return {
       connection,
       publicKey: keypair.publicKey,
+      // partialSign keeps signatures from other signers such as Swig session keys
       signTransaction: async (transaction: Transaction) => {
-        transaction.sign(keypair);
+        transaction.partialSign(keypair);
         return transaction;
       },
       signAllTransactions: async (transactions: Transaction[]) => {
         return transactions.map((tx) => {
-          tx.sign(keypair);
+          tx.partialSign(keypair);
           return tx;
         });
       },
+      signVersionedTransaction: async (transaction: VersionedTransaction) => {
+        transaction.sign([keypair]);
+        return transaction;
+      },
     };
   } catch (error) {
     console.error('Failed to create Solana wallet:', error);
@@ -59,20 +67,30 @@ export async function getSolanaWallet(
 }
 
 /**
- * Send and confirm a transaction
+ * Get the SPL token accounts of a Swig wallet, under both the Token and the
+ * Token-2022 program, with their mints, decimals, UI amounts and raw amounts
  */
-export async function sendAndConfirmTransaction(
+export async function getSwigTokenHoldings(
   connection: Connection,
-  transaction: Transaction,
-  signers: Keypair[]
-): Promise<string> {
-  const signature = await connection.sendTransaction(transaction, signers, {
-    skipPreflight: false,
-    preflightCommitment: 'confirmed',
-  });
-
-  await connection.confirmTransaction(signature, 'confirmed');
-  return signature;
+  swigAddress: PublicKey
+): Promise<
+  { address: PublicKey; mint: PublicKey; decimals: number; amount: number; rawAmount: bigint }[]
+> {
+  const tokenAccounts = await Promise.all(
+    [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].map((programId) =>
+      connection.getParsedTokenAccountsByOwner(swigAddress, { programId })
+    )
+  );
+
+  return tokenAccounts
+    .flatMap((accounts) => accounts.value)
+    .map((account) => ({
+      address: account.pubkey,
+      mint: new PublicKey(account.account.data.parsed.info.mint),
+      decimals: account.account.data.parsed.info.tokenAmount.decimals as number,
+      amount: (account.account.data.parsed.info.tokenAmount.uiAmount as number | null) ?? 0,
+      rawAmount: BigInt(account.account.data.parsed.info.tokenAmount.amount as string),
+    }));
 }
 
 /**
@@ -82,6 +100,13 @@ export function generateUUID(): UUID {
   return crypto.randomUUID() as UUID;
 }
 
+/**
+ * Shorten an address for display, e.g. "9WzD…AWWM"
+ */
+export function formatShortAddress(address: string): string {
+  return `${address.substring(0, 4)}…${address.substring(address.length - 4)}`;
+}
+
 /**
  * Format SOL amount for display
  */